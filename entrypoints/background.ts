@@ -1,5 +1,21 @@
 import VideoDownloadManager from '../lib/background/video-download-manager';
-import { notionAuthManager, notionClient, notionDebugHelper } from '../lib/notion';
+import ArchiveManager from '../lib/background/archive-manager';
+import { notionAuthManager, notionOutbox } from '../lib/notion';
+import { templateManager } from '../lib/templates';
+import {
+  destinationRegistry,
+  notionDestination,
+  webhookDestination,
+  fileDestination,
+  type DestinationConfigValues,
+  type DestinationPayload
+} from '../lib/destinations';
+import { webhookQueue, WebhookClient, type WebhookSource } from '../lib/webhooks';
+import type { WebhookEndpoint } from '../lib/types';
+import { EXTENSION_CONFIG } from '../lib/utils/constants';
+
+// 当前已创建的模板右键菜单 ID
+let templateMenuIds: string[] = [];
 
 export default defineBackground(() => {
   console.log('Twitter Super Copy background script loaded', { id: browser.runtime.id });
@@ -7,6 +23,9 @@ export default defineBackground(() => {
   // 初始化视频下载管理器
   const videoDownloadManager = new VideoDownloadManager();
 
+  // 初始化存档管理器（复用视频下载管理器的清晰度选择）
+  new ArchiveManager(videoDownloadManager);
+
   // 初始化 Notion 认证管理器
   notionAuthManager.loadConfig().then(() => {
     console.log('Notion auth manager initialized');
@@ -14,6 +33,21 @@ export default defineBackground(() => {
     console.error('Failed to initialize Notion auth manager:', error);
   });
 
+  // 注册保存目标
+  destinationRegistry.register(notionDestination);
+  destinationRegistry.register(webhookDestination);
+  destinationRegistry.register(fileDestination);
+
+  // 启动 Notion 待同步队列
+  notionOutbox.start((databaseId, tweetData, policy) => notionDestination.saveQueued(databaseId, tweetData, policy)).catch(error => {
+    console.error('Failed to start Notion outbox:', error);
+  });
+
+  // 启动 Webhook 重试队列
+  webhookQueue.start().catch(error => {
+    console.error('Failed to start webhook queue:', error);
+  });
+
   // 设置右键菜单
   setupContextMenus();
   
@@ -58,6 +92,136 @@ title: '复制为 Markdown 格式',
     title: '复制为纯文本',
     contexts: ['page']
   });
+
+  browser.contextMenus.create({
+    id: 'copy-tweet-obsidian',
+    parentId: 'copy-tweet-root',
+    title: '复制为 Obsidian 笔记',
+    contexts: ['page']
+  });
+
+  browser.contextMenus.create({
+    id: 'copy-tweet-json',
+    parentId: 'copy-tweet-root',
+    title: '复制为 JSON',
+    contexts: ['page']
+  });
+
+  browser.contextMenus.create({
+    id: 'copy-tweet-jsonld',
+    parentId: 'copy-tweet-root',
+    title: '复制为 JSON-LD (schema.org)',
+    contexts: ['page']
+  });
+
+  browser.contextMenus.create({
+    id: 'copy-conversation',
+    parentId: 'copy-tweet-root',
+    title: '复制会话（含所有回复）',
+    contexts: ['page']
+  });
+
+  browser.contextMenus.create({
+    id: 'send-webhook-tweet',
+    parentId: 'copy-tweet-root',
+    title: '发送推文到 Webhook',
+    contexts: ['page']
+  });
+
+  browser.contextMenus.create({
+    id: 'send-webhook-thread',
+    parentId: 'copy-tweet-root',
+    title: '发送线程到 Webhook',
+    contexts: ['page']
+  });
+
+  // 绑定到右键菜单的自定义模板
+  refreshTemplateMenus();
+
+  browser.contextMenus.onClicked.addListener((info, tab) => {
+    handleContextMenuClick(String(info.menuItemId), tab?.id);
+  });
+
+  // 模板变化时重建菜单
+  browser.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[EXTENSION_CONFIG.STORAGE_KEYS.TEMPLATES]) {
+      refreshTemplateMenus();
+    }
+  });
+}
+
+/**
+ * 重建自定义模板右键菜单
+ */
+async function refreshTemplateMenus() {
+  try {
+    await Promise.all(templateMenuIds.map(id => browser.contextMenus.remove(id).catch(() => {})));
+    templateMenuIds = [];
+
+    const templates = await templateManager.getTemplates();
+    for (const template of templates.filter(item => item.showInContextMenu)) {
+      const id = `${EXTENSION_CONFIG.TEMPLATES.CONTEXT_MENU_PREFIX}${template.id}`;
+      browser.contextMenus.create({
+        id,
+        parentId: 'copy-tweet-root',
+        title: template.name || template.id,
+        contexts: ['page']
+      });
+      templateMenuIds.push(id);
+    }
+  } catch (error) {
+    console.error('Failed to refresh template menus:', error);
+  }
+}
+
+/**
+ * 处理右键菜单点击
+ */
+async function handleContextMenuClick(menuItemId: string, tabId?: number) {
+  if (!tabId) return;
+
+  try {
+    if (menuItemId.startsWith(EXTENSION_CONFIG.TEMPLATES.CONTEXT_MENU_PREFIX)) {
+      await browser.tabs.sendMessage(tabId, {
+        type: 'EXECUTE_COPY_TEMPLATE',
+        templateId: menuItemId.slice(EXTENSION_CONFIG.TEMPLATES.CONTEXT_MENU_PREFIX.length),
+        source: 'contextMenu',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (menuItemId === 'send-webhook-tweet' || menuItemId === 'send-webhook-thread') {
+      await browser.tabs.sendMessage(tabId, {
+        type: 'EXECUTE_WEBHOOK_SEND',
+        scope: menuItemId === 'send-webhook-thread' ? 'thread' : 'tweet',
+        source: 'contextMenu',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    if (menuItemId === 'copy-conversation') {
+      await browser.tabs.sendMessage(tabId, {
+        type: 'EXECUTE_COPY_CONVERSATION',
+        source: 'contextMenu',
+        timestamp: Date.now()
+      });
+      return;
+    }
+
+    const formatMatch = menuItemId.match(/^copy-tweet-(html|markdown|text|obsidian|json|jsonld)$/);
+    if (formatMatch) {
+      await browser.tabs.sendMessage(tabId, {
+        type: 'EXECUTE_COPY_TWEET',
+        format: formatMatch[1],
+        source: 'contextMenu',
+        timestamp: Date.now()
+      });
+    }
+  } catch (error) {
+    console.error('Failed to handle context menu click:', error);
+  }
 }
 
 /**
@@ -74,6 +238,17 @@ function setupCommandListeners() {
       case 'copy-thread':
   handleCopyThread();
         break;
+      case 'toggle-selection-mode':
+        handleToggleSelectionMode();
+        break;
+      case 'collect-timeline':
+        handleToggleTimelineCollector();
+        break;
+      default:
+        if (command.startsWith('copy-template-')) {
+          handleCopyTemplateCommand(parseInt(command.replace('copy-template-', ''), 10));
+        }
+        break;
     }
   });
 }
@@ -98,39 +273,53 @@ function setupMessageListeners() {
       case 'SAVE_SETTINGS':
     handleSaveSettings(message.settings, sendResponse);
     return true;
-      case 'NOTION_AUTHENTICATE':
-        handleNotionAuthenticate(sendResponse);
+      case 'DESTINATION_LIST':
+        handleDestinationList(sendResponse);
         return true;
-      case 'NOTION_SAVE_TWEET':
-        handleNotionSaveTweet(message.data, sendResponse);
+      case 'DESTINATION_GET_CONFIG':
+        handleDestinationGetConfig(message.destinationId, sendResponse);
         return true;
-      case 'NOTION_CHECK_EXISTS':
-        handleNotionCheckExists(message.url, sendResponse);
+      case 'DESTINATION_CONNECT':
+        handleDestinationConnect(message.destinationId, message.values, sendResponse);
         return true;
-      case 'NOTION_CREATE_DATABASE':
-        handleNotionCreateDatabase(message.parentPageId, message.title, sendResponse);
+      case 'DESTINATION_TEST':
+        handleDestinationTest(message.destinationId, sendResponse);
         return true;
-      case 'NOTION_GET_DATABASE_STATS':
-        handleNotionGetDatabaseStats(sendResponse);
+      case 'DESTINATION_SAVE':
+        handleDestinationSave(message.destinationId, message.payload, sendResponse);
         return true;
-      case 'NOTION_GET_USER_PAGES':
-        handleNotionGetUserPages(sendResponse);
+      case 'DESTINATION_EXISTS':
+        handleDestinationExists(message.destinationId, message.urls, sendResponse);
         return true;
-      case 'NOTION_SET_DATABASE':
-        handleNotionSetDatabase(message.databaseId, sendResponse);
+      case 'DESTINATION_BATCH_SAVE':
+        handleDestinationBatchSave(message.destinationId, message.payloads, sendResponse);
         return true;
-      case 'NOTION_GET_DATABASE_INFO':
-        handleNotionGetDatabaseInfo(sendResponse);
+      case 'WEBHOOK_SEND':
+        handleWebhookSend(message.source, message.endpointIds, sendResponse);
         return true;
-      case 'NOTION_DISCONNECT':
-        handleNotionDisconnect(sendResponse);
+      case 'WEBHOOK_TEST':
+        handleWebhookTest(message.endpoint, message.source, sendResponse);
         return true;
-      case 'NOTION_IS_CONNECTED':
-        handleNotionIsConnected(sendResponse);
+      case 'WEBHOOK_QUEUE_LIST':
+        handleWebhookQueueList(sendResponse);
         return true;
-      case 'NOTION_DEBUG':
-        handleNotionDebug(sendResponse);
+      case 'WEBHOOK_QUEUE_RETRY':
+        handleWebhookQueueRetry(message.id, sendResponse);
         return true;
+      case 'WEBHOOK_QUEUE_DISCARD':
+        handleWebhookQueueDiscard(message.id, sendResponse);
+        return true;
+      default: {
+        // 目标专用的消息（如 NOTION_*）由对应的保存目标处理
+        const response = destinationRegistry.handleMessage(message);
+        if (response) {
+          response.then(sendResponse).catch(error => sendResponse({
+            success: false,
+            error: error instanceof Error ? error.message : String(error)
+          }));
+          return true;
+        }
+      }
  }
     
   return false;
@@ -171,6 +360,64 @@ if (!tab.id) return;
   }
 }
 
+/**
+ * 处理模板快捷键命令
+ */
+async function handleCopyTemplateCommand(slot: number) {
+  try {
+    const template = await templateManager.getTemplateByShortcut(slot);
+    if (!template) {
+      console.warn(`No template bound to shortcut slot ${slot}`);
+      return;
+    }
+
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    await browser.tabs.sendMessage(tab.id, {
+      type: 'EXECUTE_COPY_TEMPLATE',
+      templateId: template.id,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Failed to handle copy template command:', error);
+  }
+}
+
+/**
+ * 处理切换批量选择模式命令
+ */
+async function handleToggleSelectionMode() {
+  try {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    await browser.tabs.sendMessage(tab.id, {
+      type: 'TOGGLE_SELECTION_MODE',
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Failed to toggle selection mode:', error);
+  }
+}
+
+/**
+ * 处理时间线采集命令
+ */
+async function handleToggleTimelineCollector() {
+  try {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    await browser.tabs.sendMessage(tab.id, {
+      type: 'TOGGLE_TIMELINE_COLLECTOR',
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Failed to toggle timeline collector:', error);
+  }
+}
+
 /**
  * 处理复制推文消息
  */
@@ -227,275 +474,150 @@ async function handleSaveSettings(settings: any, sendResponse: (response: any) =
 }
 
 /**
- * 处理 Notion 认证请求
+ * 处理发送到 Webhook 请求；失败的发送进入重试队列
  */
-async function handleNotionAuthenticate(sendResponse: (response: any) => void) {
+async function handleWebhookSend(source: WebhookSource, endpointIds: string[] | undefined, sendResponse: (response: any) => void) {
   try {
-    console.log('Starting Notion authentication...');
-    const result = await notionAuthManager.authenticate();
-    console.log('Notion authentication result:', result);
-    sendResponse(result);
+    const results = await webhookQueue.dispatch(source, endpointIds);
+    sendResponse({ success: results.every(result => result.success), results });
   } catch (error) {
-    console.error('Failed to handle Notion authentication:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    console.error('Failed to send webhook:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理 Notion 保存推文请求
+ * 处理测试 Webhook 端点请求（不进入重试队列）
  */
-async function handleNotionSaveTweet(tweetData: any, sendResponse: (response: any) => void) {
+async function handleWebhookTest(endpoint: WebhookEndpoint, source: WebhookSource, sendResponse: (response: any) => void) {
   try {
-    console.log('handleNotionSaveTweet called with data:', tweetData);
-    
-    // 重新加载配置以确保是最新的
-    const config = await notionAuthManager.loadConfig();
-    console.log('Loaded config:', config ? 'Config available' : 'No config');
-    
-    if (!config?.accessToken) {
-      console.error('No access token in config');
-      sendResponse({ 
-        success: false, 
-        error: 'Notion 未配置或认证已过期，请重新配置 Integration Token' 
-      });
-      return;
-    }
-
-    if (!config.databaseId) {
-      console.error('No database ID in config');
-      sendResponse({ 
-        success: false, 
-        error: '未选择 Notion 数据库，请在设置中选择或创建数据库' 
-      });
-      return;
-    }
-
-    console.log('Attempting to save tweet to Notion...');
-    const result = await notionClient.saveTweet(config.databaseId, tweetData);
-    console.log('Notion save result:', result);
-    
+    const result = await WebhookClient.send(endpoint, WebhookClient.buildBody(endpoint, source));
     sendResponse(result);
   } catch (error) {
-    console.error('Failed to save tweet to Notion:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Error details:', errorMessage);
-    
-    sendResponse({ 
-      success: false, 
-      error: errorMessage
-    });
+    console.error('Failed to test webhook:', error);
+    sendResponse({ success: false, status: 0, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理检查推文是否存在请求
+ * 处理获取 Webhook 重试队列请求
  */
-async function handleNotionCheckExists(url: string, sendResponse: (response: any) => void) {
+async function handleWebhookQueueList(sendResponse: (response: any) => void) {
   try {
-    const config = notionAuthManager.getCurrentConfig();
-    if (!config?.accessToken || !config?.databaseId) {
-      sendResponse({ exists: false });
-      return;
-    }
-
-    const exists = await notionClient.checkTweetExists(config.databaseId, url);
-    sendResponse({ exists });
+    sendResponse({ success: true, items: await webhookQueue.getItems() });
   } catch (error) {
-    console.error('Failed to check tweet existence:', error);
-    sendResponse({ exists: false });
+    console.error('Failed to list webhook queue:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理创建 Notion 数据库请求
+ * 处理立即重试 Webhook 请求（不传 id 时重试全部）
  */
-async function handleNotionCreateDatabase(parentPageId: string, title: string, sendResponse: (response: any) => void) {
+async function handleWebhookQueueRetry(id: string | undefined, sendResponse: (response: any) => void) {
   try {
-    const database = await notionClient.createDatabase(parentPageId, title);
-    
-    // 保存数据库 ID
-    await notionAuthManager.saveConfig({ databaseId: database.id });
-    
-    sendResponse({ 
-      success: true, 
-      database: database 
-    });
+    await webhookQueue.retry(id);
+    sendResponse({ success: true, items: await webhookQueue.getItems() });
   } catch (error) {
-    console.error('Failed to create Notion database:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    console.error('Failed to retry webhook queue:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理获取数据库统计请求
+ * 处理丢弃 Webhook 队列条目请求
  */
-async function handleNotionGetDatabaseStats(sendResponse: (response: any) => void) {
+async function handleWebhookQueueDiscard(id: string, sendResponse: (response: any) => void) {
   try {
-    const config = notionAuthManager.getCurrentConfig();
-    if (!config?.accessToken || !config?.databaseId) {
-      sendResponse({ 
-        success: false, 
-        error: 'Notion not configured' 
-      });
-      return;
-    }
-
-    const stats = await notionClient.getDatabaseStats(config.databaseId);
-    sendResponse({ 
-      success: true, 
-      stats: stats 
-    });
+    await webhookQueue.discard(id);
+    sendResponse({ success: true, items: await webhookQueue.getItems() });
   } catch (error) {
-    console.error('Failed to get database stats:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    console.error('Failed to discard webhook queue item:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理获取用户页面请求
+ * 处理获取保存目标列表请求
  */
-async function handleNotionGetUserPages(sendResponse: (response: any) => void) {
+async function handleDestinationList(sendResponse: (response: any) => void) {
   try {
-    const [pages, databases] = await Promise.all([
-      notionClient.getUserPages(),
-      notionClient.getUserDatabases()
-    ]);
-    sendResponse({
-      success: true,
-      pages: pages,
-      databases
-    });
+    sendResponse({ success: true, destinations: await destinationRegistry.describe() });
   } catch (error) {
-    console.error('Failed to get user pages:', error);
-    sendResponse({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    console.error('Failed to list destinations:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理设置 Notion 数据库请求
+ * 处理读取保存目标配置请求
  */
-async function handleNotionSetDatabase(databaseId: string, sendResponse: (response: any) => void) {
+async function handleDestinationGetConfig(destinationId: string, sendResponse: (response: any) => void) {
   try {
-    if (!databaseId) {
-      sendResponse({ success: false, error: 'databaseId is required' });
-      return;
-    }
-
-    const databaseInfo = await notionClient.getDatabaseInfo(databaseId);
-    await notionAuthManager.saveConfig({ databaseId: databaseInfo.id });
-
-    try {
-      await browser.storage.sync.set({ notionDatabaseId: databaseInfo.id });
-    } catch (storageError) {
-      console.warn('Failed to sync legacy database id storage:', storageError);
-    }
-
-    sendResponse({
-      success: true,
-      database: databaseInfo
-    });
+    sendResponse({ success: true, values: await destinationRegistry.getConfig(destinationId) });
   } catch (error) {
-    console.error('Failed to set Notion database:', error);
-    sendResponse({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    console.error('Failed to get destination config:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理获取当前数据库信息请求
+ * 处理保存目标配置并连接请求
  */
-async function handleNotionGetDatabaseInfo(sendResponse: (response: any) => void) {
+async function handleDestinationConnect(destinationId: string, values: DestinationConfigValues, sendResponse: (response: any) => void) {
   try {
-    const config = notionAuthManager.getCurrentConfig();
-    if (!config?.databaseId) {
-      sendResponse({ success: true, database: null });
-      return;
-    }
+    sendResponse(await destinationRegistry.connect(destinationId, values || {}));
+  } catch (error) {
+    console.error('Failed to connect destination:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
 
-    const databaseInfo = await notionClient.getDatabaseInfo(config.databaseId);
-    sendResponse({ success: true, database: databaseInfo });
+/**
+ * 处理测试保存目标请求
+ */
+async function handleDestinationTest(destinationId: string, sendResponse: (response: any) => void) {
+  try {
+    sendResponse(await destinationRegistry.test(destinationId));
   } catch (error) {
-    console.error('Failed to get Notion database info:', error);
-    sendResponse({
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    console.error('Failed to test destination:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理断开 Notion 连接请求
+ * 处理保存到目标请求
  */
-async function handleNotionDisconnect(sendResponse: (response: any) => void) {
+async function handleDestinationSave(destinationId: string, payload: DestinationPayload, sendResponse: (response: any) => void) {
   try {
-    await notionAuthManager.disconnect();
-    sendResponse({ 
-      success: true, 
-      message: 'Notion disconnected successfully' 
-    });
+    sendResponse(await destinationRegistry.save(destinationId, payload));
   } catch (error) {
-    console.error('Failed to disconnect Notion:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error' 
-    });
+    console.error('Failed to save to destination:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理检查 Notion 连接状态请求
+ * 处理查询目标中已保存推文请求
  */
-async function handleNotionIsConnected(sendResponse: (response: any) => void) {
+async function handleDestinationExists(destinationId: string, urls: string[], sendResponse: (response: any) => void) {
   try {
-    const isConnected = await notionAuthManager.isConnected();
-    sendResponse({ 
-      success: true, 
-      connected: isConnected 
-    });
+    sendResponse({ success: true, pages: await destinationRegistry.exists(destinationId, urls || []) });
   } catch (error) {
-    console.error('Failed to check Notion connection:', error);
-    sendResponse({ 
-      success: false, 
-      connected: false 
-    });
+    console.error('Failed to check destination:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
 
 /**
- * 处理 Notion 调试请求
+ * 处理批量保存到目标请求
  */
-async function handleNotionDebug(sendResponse: (response: any) => void) {
+async function handleDestinationBatchSave(destinationId: string, payloads: DestinationPayload[], sendResponse: (response: any) => void) {
   try {
-    console.log('Running Notion diagnostics...');
-    const results = await notionDebugHelper.runDiagnostics();
-    const report = notionDebugHelper.generateReport(results);
-    
-    console.log('Notion Diagnostic Report:\n', report);
-    
-    sendResponse({ 
-      success: true, 
-      results,
-      report
-    });
+    const results = await destinationRegistry.batchSave(destinationId, payloads || []);
+    sendResponse({ success: results.every(result => result.success || result.queued), results });
   } catch (error) {
-    console.error('Failed to run Notion diagnostics:', error);
-    sendResponse({ 
-      success: false, 
-      error: error instanceof Error ? error.message : 'Unknown error'
-    });
+    console.error('Failed to batch save to destination:', error);
+    sendResponse({ success: false, error: error instanceof Error ? error.message : 'Unknown error' });
   }
 }
@@ -0,0 +1,221 @@
+// 保存目标设置组件 - 按各目标声明的配置项生成表单
+import { browser } from 'wxt/browser';
+import { i18nManager } from '@/lib/i18n';
+import type {
+  DestinationConfigField,
+  DestinationConfigValues,
+  DestinationDescriptor,
+  DestinationResult
+} from '@/lib/destinations';
+
+export class DestinationsPanel {
+  private container: HTMLElement;
+  private destinations: DestinationDescriptor[] = [];
+  private values: Record<string, DestinationConfigValues> = {};
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.load();
+  }
+
+  async load(): Promise<void> {
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'DESTINATION_LIST' });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+      this.destinations = response.destinations;
+
+      const configs = await Promise.all(this.destinations.map(destination =>
+        browser.runtime.sendMessage({ type: 'DESTINATION_GET_CONFIG', destinationId: destination.id })
+      ));
+      this.values = Object.fromEntries(this.destinations.map((destination, index) => [
+        destination.id,
+        configs[index]?.success ? configs[index].values : {}
+      ]));
+      this.render();
+    } catch (error) {
+      console.error('Failed to load destinations:', error);
+      this.container.innerHTML = `
+        <div class="destinations-panel">
+          <p class="tagging-description">${i18nManager.t('destination.load_failed')}</p>
+        </div>
+      `;
+    }
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="destinations-panel">
+        <p class="tagging-description">${i18nManager.t('destination.panel_description')}</p>
+        ${this.destinations.map(destination => this.renderDestination(destination)).join('')}
+      </div>
+    `;
+
+    this.container.querySelectorAll<HTMLButtonElement>('[data-action]').forEach(button => {
+      const card = button.closest<HTMLElement>('[data-destination]')!;
+      button.addEventListener('click', () => {
+        if (button.dataset.action === 'connect') {
+          this.connect(card);
+        } else {
+          this.test(card);
+        }
+      });
+    });
+  }
+
+  private renderDestination(destination: DestinationDescriptor): string {
+    const values = this.values[destination.id] || {};
+    return `
+      <section class="settings-section destination-card" data-destination="${this.escapeHTML(destination.id)}">
+        <h3 class="destination-header">
+          <svg class="destination-icon ${destination.iconFilled ? 'filled' : ''}" viewBox="0 0 24 24" aria-hidden="true">${destination.icon}</svg>
+          ${this.escapeHTML(i18nManager.t(destination.name))}
+          <span class="tag-chip ${destination.configured ? '' : 'category'}">
+            ${i18nManager.t(destination.configured ? 'destination.configured' : 'destination.not_configured')}
+          </span>
+        </h3>
+        ${destination.description ? `<p class="tagging-description">${i18nManager.t(destination.description)}</p>` : ''}
+        ${destination.configSchema.map(field => this.renderField(field, values[field.key])).join('')}
+        <div class="action-buttons">
+          ${destination.configSchema.length > 0
+            ? `<button class="primary-button" data-action="connect">${i18nManager.t('destination.save')}</button>`
+            : ''}
+          <button class="secondary-button" data-action="test">${i18nManager.t('destination.test')}</button>
+        </div>
+      </section>
+    `;
+  }
+
+  private renderField(field: DestinationConfigField, value: string | boolean | undefined): string {
+    const label = `<span>${this.escapeHTML(i18nManager.t(field.label))}</span>`;
+    const description = field.description
+      ? `<p class="tagging-description">${this.escapeHTML(i18nManager.t(field.description))}</p>`
+      : '';
+    const placeholder = field.placeholder ? `placeholder="${this.escapeHTML(field.placeholder)}"` : '';
+
+    switch (field.type) {
+      case 'checkbox':
+        return `
+          <label class="tagging-field">
+            ${label}
+            <input type="checkbox" name="${field.key}" ${value === true ? 'checked' : ''}>
+          </label>
+          ${description}
+        `;
+      case 'select':
+        return `
+          <label class="tagging-field">
+            ${label}
+            <select name="${field.key}">
+              ${(field.options || []).map(option => `
+                <option value="${this.escapeHTML(option.value)}" ${option.value === value ? 'selected' : ''}>${this.escapeHTML(i18nManager.t(option.label))}</option>
+              `).join('')}
+            </select>
+          </label>
+          ${description}
+        `;
+      case 'textarea':
+        return `
+          <label class="tagging-field destination-multiline">
+            ${label}
+            <textarea name="${field.key}" rows="3" ${placeholder}>${this.escapeHTML(String(value ?? ''))}</textarea>
+          </label>
+          ${description}
+        `;
+      default:
+        return `
+          <label class="tagging-field">
+            ${label}
+            <input type="${field.type}" name="${field.key}" ${placeholder} value="${this.escapeHTML(String(value ?? ''))}">
+          </label>
+          ${description}
+        `;
+    }
+  }
+
+  private readValues(card: HTMLElement, destination: DestinationDescriptor): DestinationConfigValues {
+    return destination.configSchema.reduce<DestinationConfigValues>((values, field) => {
+      const input = card.querySelector<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(`[name="${field.key}"]`);
+      if (input) {
+        values[field.key] = input instanceof HTMLInputElement && input.type === 'checkbox'
+          ? input.checked
+          : input.value.trim();
+      }
+      return values;
+    }, {});
+  }
+
+  /**
+   * 保存配置并连接，成功后刷新配置状态
+   */
+  private async connect(card: HTMLElement): Promise<void> {
+    const destination = this.destinations.find(item => item.id === card.dataset.destination);
+    if (!destination) return;
+
+    const name = i18nManager.t(destination.name);
+    const values = this.readValues(card, destination);
+    this.setBusy(card, true);
+
+    try {
+      const result: DestinationResult = await browser.runtime.sendMessage({
+        type: 'DESTINATION_CONNECT',
+        destinationId: destination.id,
+        values
+      });
+      if (!result?.success) {
+        throw new Error(result?.error || 'Unknown error');
+      }
+      this.notify(i18nManager.t('destination.connected', { name }), 'success');
+      await this.load();
+    } catch (error) {
+      console.error('Failed to connect destination:', error);
+      this.notify(i18nManager.t('destination.connect_failed', { name, error: error instanceof Error ? error.message : String(error) }), 'error');
+      this.setBusy(card, false);
+    }
+  }
+
+  private async test(card: HTMLElement): Promise<void> {
+    const destination = this.destinations.find(item => item.id === card.dataset.destination);
+    if (!destination) return;
+
+    const name = i18nManager.t(destination.name);
+    this.setBusy(card, true);
+
+    try {
+      const result: DestinationResult = await browser.runtime.sendMessage({ type: 'DESTINATION_TEST', destinationId: destination.id });
+      if (result?.success) {
+        this.notify(result.target
+          ? i18nManager.t('destination.test_success_target', { name, target: result.target })
+          : i18nManager.t('destination.test_success', { name }), 'success');
+      } else {
+        this.notify(i18nManager.t('destination.test_failed', { name, error: result?.error || 'Unknown error' }), 'error');
+      }
+    } catch (error) {
+      console.error('Failed to test destination:', error);
+      this.notify(i18nManager.t('destination.test_failed', { name, error: String(error) }), 'error');
+    } finally {
+      this.setBusy(card, false);
+    }
+  }
+
+  private setBusy(card: HTMLElement, busy: boolean): void {
+    card.querySelectorAll<HTMLButtonElement>('[data-action]').forEach(button => {
+      button.disabled = busy;
+    });
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('destination-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // 同时用于属性值
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,240 @@
+// 复制历史面板组件
+import { historyManager } from '@/lib/history';
+import { contentFormatter } from '@/lib/formatters';
+import { clipboardManager } from '@/lib/clipboard';
+import { i18nManager } from '@/lib/i18n';
+import { debounce } from '@/lib/utils/dom';
+import type { FormatOptions, HistoryEntry } from '@/lib/types';
+
+export interface HistoryPanelOptions {
+  enableHistory: boolean;
+  historyLimit: number;
+}
+
+export const HISTORY_FORMATS: Array<{ value: FormatOptions['format']; label: string }> = [
+  { value: 'html', label: 'HTML' },
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'text', label: 'Text' },
+  { value: 'obsidian', label: 'Obsidian' },
+  { value: 'json', label: 'JSON' },
+  { value: 'jsonld', label: 'JSON-LD' }
+];
+
+export class HistoryPanel {
+  private container: HTMLElement;
+  private options: HistoryPanelOptions;
+  private entries: HistoryEntry[] = [];
+  private query = '';
+
+  constructor(container: HTMLElement, initialOptions: HistoryPanelOptions) {
+    this.container = container;
+    this.options = initialOptions;
+    this.render();
+    this.refresh();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="history-panel">
+        <section class="settings-section">
+          <h3>🕘 ${i18nManager.t('history.title')}</h3>
+          <div class="history-toolbar">
+            <input type="search" id="history-search" class="history-search"
+              placeholder="${i18nManager.t('history.search_placeholder')}" value="${this.escapeHTML(this.query)}">
+          </div>
+          <div class="history-list" id="history-list"></div>
+        </section>
+
+        <section class="settings-section">
+          <h3>${i18nManager.t('history.settings')}</h3>
+          <div class="content-options">
+            <label class="option-item">
+              <input type="checkbox" id="history-enabled" ${this.options.enableHistory ? 'checked' : ''}>
+              <span class="checkmark"></span>
+              ${i18nManager.t('history.enable')}
+            </label>
+          </div>
+          <div class="form-group history-limit">
+            <label for="history-limit">${i18nManager.t('history.limit')}</label>
+            <input type="number" id="history-limit" min="10" max="1000" step="10" value="${this.options.historyLimit}">
+          </div>
+          <div class="action-buttons">
+            <button id="history-clear" class="secondary-button">${i18nManager.t('history.clear')}</button>
+          </div>
+        </section>
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    const searchInput = this.container.querySelector('#history-search') as HTMLInputElement | null;
+    searchInput?.addEventListener('input', debounce(() => {
+      this.query = searchInput.value;
+      this.refresh();
+    }, 200));
+
+    this.container.querySelector('#history-enabled')?.addEventListener('change', () => this.emitSettingsChange());
+    this.container.querySelector('#history-limit')?.addEventListener('change', () => this.emitSettingsChange());
+    this.container.querySelector('#history-clear')?.addEventListener('click', () => this.clearHistory());
+
+    // 列表项操作使用事件委托
+    this.container.querySelector('#history-list')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      const item = target?.closest('.history-item') as HTMLElement | null;
+      if (!target || !item?.dataset.id) return;
+
+      if (target.dataset.action === 'copy') {
+        const select = item.querySelector('.history-format') as HTMLSelectElement;
+        this.copyEntry(item.dataset.id, select.value as FormatOptions['format']);
+      } else if (target.dataset.action === 'delete') {
+        this.deleteEntry(item.dataset.id);
+      }
+    });
+  }
+
+  /**
+   * 重新加载并渲染列表
+   */
+  public async refresh(): Promise<void> {
+    const list = this.container.querySelector('#history-list');
+    if (!list) return;
+
+    try {
+      this.entries = await historyManager.search(this.query);
+      list.innerHTML = this.entries.length > 0
+        ? this.entries.map(entry => this.renderEntry(entry)).join('')
+        : `
+          <div class="empty-state">
+            <div class="empty-icon">📋</div>
+            <p>${i18nManager.t(this.query ? 'history.no_results' : 'history.empty')}</p>
+            ${this.query ? '' : `<small>${i18nManager.t('copy_tweets_to_see_history')}</small>`}
+          </div>
+        `;
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      list.innerHTML = `
+        <div class="error-state">
+          <div class="error-icon">⚠️</div>
+          <p>${i18nManager.t('failed_load_history')}</p>
+        </div>
+      `;
+    }
+  }
+
+  private renderEntry(entry: HistoryEntry): string {
+    const firstTweet = entry.thread ? entry.thread.tweets[0] : entry.tweet;
+    const label = entry.type === 'thread'
+      ? i18nManager.t('history.item_thread', { count: entry.thread?.tweets.length || 0 })
+      : i18nManager.t('history.item_tweet');
+    const author = firstTweet ? `${firstTweet.author.displayName} @${firstTweet.author.username}` : '';
+    const snippet = (firstTweet?.content || '').slice(0, 140);
+
+    return `
+      <div class="history-item" data-id="${entry.id}">
+        <div class="history-item-header">
+          <span class="history-item-type">${label}</span>
+          <span class="history-item-time">${this.formatRelativeTime(entry.copiedAt)}</span>
+        </div>
+        <div class="history-item-author">${this.escapeHTML(author)}</div>
+        <div class="history-item-content">${this.escapeHTML(snippet)}</div>
+        ${entry.category || entry.tags?.length ? `
+          <div class="history-item-tags">
+            ${entry.category ? `<span class="tag-chip category">${this.escapeHTML(entry.category)}</span>` : ''}
+            ${(entry.tags || []).map(tag => `<span class="tag-chip">#${this.escapeHTML(tag)}</span>`).join('')}
+          </div>
+        ` : ''}
+        <div class="history-item-actions">
+          <select class="history-format">
+            ${HISTORY_FORMATS.map(format => `
+              <option value="${format.value}" ${format.value === entry.format ? 'selected' : ''}>${format.label}</option>
+            `).join('')}
+          </select>
+          <button class="primary-button" data-action="copy">${i18nManager.t('history.copy_again')}</button>
+          <button class="secondary-button" data-action="delete">${i18nManager.t('history.delete')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * 以指定格式重新复制
+   */
+  private async copyEntry(id: string, format: FormatOptions['format']): Promise<void> {
+    const entry = this.entries.find(item => item.id === id);
+    if (!entry) return;
+
+    try {
+      const options: FormatOptions = { ...entry.options, format };
+      const content = entry.thread
+        ? contentFormatter.formatThread(entry.thread, options)
+        : contentFormatter.formatTweet(entry.tweet!, options);
+
+      await clipboardManager.copyCustomContent(content, format);
+      this.notify(i18nManager.t('copied_from_history'), 'success');
+    } catch (error) {
+      console.error('Failed to copy from history:', error);
+      this.notify(i18nManager.t('failed_copy_from_history'), 'error');
+    }
+  }
+
+  private async deleteEntry(id: string): Promise<void> {
+    try {
+      await historyManager.removeEntry(id);
+      await this.refresh();
+    } catch (error) {
+      console.error('Failed to delete history entry:', error);
+    }
+  }
+
+  private async clearHistory(): Promise<void> {
+    if (!confirm(i18nManager.t('history.clear_confirm'))) return;
+
+    try {
+      await historyManager.clear();
+      await this.refresh();
+      this.notify(i18nManager.t('history_cleared'), 'success');
+    } catch (error) {
+      console.error('Failed to clear history:', error);
+      this.notify(i18nManager.t('failed_clear_history'), 'error');
+    }
+  }
+
+  private emitSettingsChange(): void {
+    const enabled = (this.container.querySelector('#history-enabled') as HTMLInputElement).checked;
+    const limitInput = this.container.querySelector('#history-limit') as HTMLInputElement;
+    const limit = historyManager.normalizeLimit(parseInt(limitInput.value, 10));
+    limitInput.value = String(limit);
+
+    this.options = { enableHistory: enabled, historyLimit: limit };
+
+    // 立即按新上限裁剪
+    historyManager.trim(limit).then(() => this.refresh());
+
+    this.container.dispatchEvent(new CustomEvent('history-settings-changed', {
+      detail: { ...this.options }
+    }));
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('history-notification', {
+      detail: { message, type }
+    }));
+  }
+
+  private formatRelativeTime(date: Date): string {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+    if (minutes < 1) return i18nManager.t('time.now');
+    if (minutes < 60) return i18nManager.t('time.minutes_ago', { count: minutes });
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return i18nManager.t('time.hours_ago', { count: hours });
+    return i18nManager.t('time.days_ago', { count: Math.floor(hours / 24) });
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
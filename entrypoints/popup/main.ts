@@ -8,6 +8,17 @@ import { initializeI18n, i18nManager } from '@/lib/i18n';
 import type { ExtensionSettings } from '@/lib/types';
 import { DEFAULT_SETTINGS } from '@/lib/types';
 import { ScreenshotSettingsPanel, type ScreenshotSettingsOptions } from './screenshot-settings';
+import { HistoryPanel, type HistoryPanelOptions } from './history-panel';
+import { TemplatesPanel } from './templates-panel';
+import { TagRulesPanel } from './tag-rules-panel';
+import { WebhooksPanel } from './webhooks-panel';
+import { DestinationsPanel } from './destinations-panel';
+import { NotionMappingPanel } from './notion-mapping-panel';
+import { NotionRoutingPanel } from './notion-routing-panel';
+import { NotionOutboxPanel } from './notion-outbox-panel';
+import { NotionCollectionPanel } from './notion-collection-panel';
+import { notionAnnotations } from '@/lib/notion/annotations';
+import { notionOAuth, NotionOAuth } from '@/lib/notion/oauth';
 
 const NOTION_STORAGE_KEYS = {
   integrationToken: 'notion_integration_token',
@@ -217,6 +228,12 @@ class PopupApp {
   private notifications: NotificationManager;
   private loading: LoadingManager;
   private screenshotSettingsPanel: ScreenshotSettingsPanel | null = null;
+  private historyPanel: HistoryPanel | null = null;
+  private templatesPanel: TemplatesPanel | null = null;
+  private tagRulesPanel: TagRulesPanel | null = null;
+  private webhooksPanel: WebhooksPanel | null = null;
+  private destinationsPanel: DestinationsPanel | null = null;
+  private collectionPanel: NotionCollectionPanel | null = null;
 
   constructor() {
     this.notifications = new NotificationManager();
@@ -308,6 +325,30 @@ this.settings = await getSettings();
           <button class="tab-button" data-tab="notion">
             <span class="tab-icon">📝</span>
             ${i18nManager.t('notion.settings.title')}
+          </button>
+          <button class="tab-button" data-tab="collection">
+            <span class="tab-icon">📚</span>
+            ${i18nManager.t('notion.collection.tab')}
+          </button>
+          <button class="tab-button" data-tab="templates">
+            <span class="tab-icon">🧩</span>
+            ${i18nManager.t('template.tab')}
+          </button>
+          <button class="tab-button" data-tab="tagging">
+            <span class="tab-icon">🏷️</span>
+            ${i18nManager.t('tagging.tab')}
+          </button>
+          <button class="tab-button" data-tab="webhooks">
+            <span class="tab-icon">🔗</span>
+            ${i18nManager.t('webhook.tab')}
+          </button>
+          <button class="tab-button" data-tab="destinations">
+            <span class="tab-icon">📤</span>
+            ${i18nManager.t('destination.tab')}
+          </button>
+          <button class="tab-button" data-tab="history">
+            <span class="tab-icon">🕘</span>
+            ${i18nManager.t('history')}
           </button>
             </nav>
 
@@ -339,6 +380,27 @@ this.settings = await getSettings();
          <small>${i18nManager.t('format.text_desc')}</small>
      </span>
    </label>
+                <label class="format-option">
+                  <input type="radio" name="format" value="obsidian" ${this.settings?.format === 'obsidian' ? 'checked' : ''}>
+                  <span class="format-label">
+                    <strong>Obsidian</strong>
+                    <small>${i18nManager.t('format.obsidian_desc')}</small>
+                  </span>
+                </label>
+                <label class="format-option">
+                  <input type="radio" name="format" value="json" ${this.settings?.format === 'json' ? 'checked' : ''}>
+                  <span class="format-label">
+                    <strong>JSON</strong>
+                    <small>${i18nManager.t('format.json_desc')}</small>
+                  </span>
+                </label>
+                <label class="format-option">
+                  <input type="radio" name="format" value="jsonld" ${this.settings?.format === 'jsonld' ? 'checked' : ''}>
+                  <span class="format-label">
+                    <strong>JSON-LD</strong>
+                    <small>${i18nManager.t('format.jsonld_desc')}</small>
+                  </span>
+                </label>
  </div>
      </section>
 
@@ -370,6 +432,11 @@ this.settings = await getSettings();
                <span class="checkmark"></span>
           ${i18nManager.t('include_link')}
           </label>
+          <label class="option-item">
+            <input type="checkbox" id="keep-short-links" ${this.settings?.keepShortLinks ? 'checked' : ''}>
+            <span class="checkmark"></span>
+            ${i18nManager.t('keep_short_links')}
+          </label>
   </div>
   </section>
 
@@ -417,6 +484,36 @@ this.settings = await getSettings();
           </div>
         </div>
 
+        <!-- Notion Collection Tab -->
+        <div class="tab-content" id="collection-tab">
+          <div id="collection-container"></div>
+        </div>
+
+        <!-- Templates Tab -->
+        <div class="tab-content" id="templates-tab">
+          <div id="templates-container"></div>
+        </div>
+
+        <!-- Tagging Rules Tab -->
+        <div class="tab-content" id="tagging-tab">
+          <div id="tagging-container"></div>
+        </div>
+
+        <!-- Webhooks Tab -->
+        <div class="tab-content" id="webhooks-tab">
+          <div id="webhooks-container"></div>
+        </div>
+
+        <!-- Destinations Tab -->
+        <div class="tab-content" id="destinations-tab">
+          <div id="destinations-container"></div>
+        </div>
+
+        <!-- History Tab -->
+        <div class="tab-content" id="history-tab">
+          <div id="history-container"></div>
+        </div>
+
         </main>
 
         <!-- Footer -->
@@ -425,6 +522,12 @@ this.settings = await getSettings();
    <button id="open-twitter" class="footer-button">
   ${i18nManager.t('open_twitter')}
   </button>
+          <button id="toggle-selection" class="footer-button">
+            ${i18nManager.t('bulk.toggle')}
+          </button>
+          <button id="collect-timeline" class="footer-button">
+            ${i18nManager.t('timeline.title')}
+          </button>
       <button id="report-issue" class="footer-button">
  ${i18nManager.t('report_issue')}
 </button>
@@ -505,6 +608,17 @@ browser.tabs.create({ url: 'https://x.com' });
       });
     }
 
+    // 批量选择模式
+    const toggleSelectionButton = document.getElementById('toggle-selection');
+    if (toggleSelectionButton) {
+      toggleSelectionButton.addEventListener('click', () => this.toggleSelectionMode());
+    }
+
+    const collectTimelineButton = document.getElementById('collect-timeline');
+    if (collectTimelineButton) {
+      collectTimelineButton.addEventListener('click', () => this.sendToTwitterTab('TOGGLE_TIMELINE_COLLECTOR'));
+    }
+
     // 报告问题
     const reportIssueButton = document.getElementById('report-issue');
     if (reportIssueButton) {
@@ -547,6 +661,18 @@ browser.tabs.create({ url: 'https://x.com' });
       this.loadScreenshotSettings();
     } else if (tabId === 'notion') {
       this.loadNotionSettings();
+    } else if (tabId === 'collection') {
+      this.loadNotionCollection();
+    } else if (tabId === 'templates') {
+      this.loadTemplates();
+    } else if (tabId === 'tagging') {
+      this.loadTagRules();
+    } else if (tabId === 'webhooks') {
+      this.loadWebhooks();
+    } else if (tabId === 'destinations') {
+      this.loadDestinations();
+    } else if (tabId === 'history') {
+      this.loadHistory();
     }
   }
 
@@ -602,16 +728,19 @@ browser.tabs.create({ url: 'https://x.com' });
   const includeMetrics = (document.getElementById('include-metrics') as HTMLInputElement).checked;
       const includeMedia = (document.getElementById('include-media') as HTMLInputElement).checked;
    const includeLink = (document.getElementById('include-link') as HTMLInputElement).checked;
+      const keepShortLinks = (document.getElementById('keep-short-links') as HTMLInputElement).checked;
       const language = (document.getElementById('language-select') as HTMLSelectElement).value;
 
       const newSettings: ExtensionSettings = {
         ...DEFAULT_SETTINGS,
-        format: formatElement?.value as 'html' | 'markdown' | 'text' || 'html',
+        ...this.settings,
+        format: formatElement?.value as ExtensionSettings['format'] || 'html',
         includeAuthor,
         includeTimestamp,
         includeMetrics,
      includeMedia,
    includeLink,
+        keepShortLinks,
         language
       };
 
@@ -681,7 +810,7 @@ browser.tabs.create({ url: 'https://x.com' });
       });
 
       if (response.success && response.connected) {
-        this.showConnectedNotionSettings(settingsContainer);
+        this.showConnectedNotionSettings(settingsContainer, response);
       } else {
         await this.showDisconnectedNotionSettings(settingsContainer);
       }
@@ -699,7 +828,10 @@ browser.tabs.create({ url: 'https://x.com' });
   /**
    * 显示已连接的 Notion 设置
    */
-  private showConnectedNotionSettings(container: HTMLElement): void {
+  private showConnectedNotionSettings(
+    container: HTMLElement,
+    connection: { authType?: 'token' | 'oauth'; workspaceName?: string; workspaceIcon?: string }
+  ): void {
     container.innerHTML = `
       <div class="notion-settings-content">
         <div class="connection-status connected">
@@ -707,6 +839,7 @@ browser.tabs.create({ url: 'https://x.com' });
           <div class="status-text">
             <h4>${i18nManager.t('notion.settings.connected')}</h4>
             <p>${i18nManager.t('notion.settings.connected_desc')}</p>
+            ${connection.authType === 'oauth' ? this.renderNotionWorkspace(connection.workspaceName, connection.workspaceIcon) : ''}
           </div>
         </div>
         
@@ -721,6 +854,16 @@ browser.tabs.create({ url: 'https://x.com' });
           </div>
         </div>
 
+        <div class="settings-section">
+          <h3>${i18nManager.t('notion.mapping.title')}</h3>
+          <div id="notion-mapping-container" class="notion-mapping"></div>
+        </div>
+
+        <div class="settings-section">
+          <h3>${i18nManager.t('notion.routing.title')}</h3>
+          <div id="notion-routing-container" class="notion-routing"></div>
+        </div>
+
         <div class="settings-section">
           <h3>${i18nManager.t('notion.settings.save_options')}</h3>
           <div class="save-options">
@@ -735,11 +878,20 @@ browser.tabs.create({ url: 'https://x.com' });
               ${i18nManager.t('notion.settings.save_media')}
             </label>
             <label class="option-item">
-              <input type="checkbox" id="check-duplicates" checked>
+              <input type="checkbox" id="annotation-form">
               <span class="checkmark"></span>
-              ${i18nManager.t('notion.settings.check_duplicates')}
+              ${i18nManager.t('notion.annotation.enable')}
             </label>
           </div>
+          <label class="duplicate-policy">
+            <span>${i18nManager.t('notion.duplicate.label')}</span>
+            <select id="duplicate-policy">
+              ${(['skip', 'update', 'append', 'duplicate'] as const).map(policy => `
+                <option value="${policy}">${i18nManager.t(`notion.duplicate.${policy}`)}</option>
+              `).join('')}
+            </select>
+          </label>
+          <p id="duplicate-policy-description" class="duplicate-policy-description"></p>
         </div>
 
         <div class="settings-section">
@@ -757,11 +909,205 @@ browser.tabs.create({ url: 'https://x.com' });
             </a>
           </div>
         </div>
+        ${this.renderNotionOutboxSection()}
       </div>
     `;
 
     // 设置事件监听器
     this.setupNotionSettingsEvents();
+    this.loadNotionMapping();
+    this.loadNotionRouting();
+    this.loadDuplicatePolicy();
+    this.loadAnnotationSettings();
+    this.loadNotionOutbox();
+  }
+
+  /**
+   * 加载并绑定推文已存在时的处理方式
+   */
+  private async loadDuplicatePolicy(): Promise<void> {
+    const select = document.getElementById('duplicate-policy') as HTMLSelectElement | null;
+    const description = document.getElementById('duplicate-policy-description');
+    if (!select || !description) return;
+
+    const describe = () => {
+      description.textContent = i18nManager.t(`notion.duplicate.${select.value}_desc`);
+    };
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_GET_DUPLICATE_POLICY' });
+      if (response?.success) {
+        select.value = response.policy;
+      }
+    } catch (error) {
+      console.error('Failed to load duplicate policy:', error);
+    }
+    describe();
+
+    select.addEventListener('change', async () => {
+      describe();
+      try {
+        const response = await browser.runtime.sendMessage({ type: 'NOTION_SET_DUPLICATE_POLICY', policy: select.value });
+        if (!response?.success) {
+          throw new Error(response?.error || 'Unknown error');
+        }
+        this.showSuccess(i18nManager.t('notion.duplicate.saved'));
+      } catch (error) {
+        console.error('Failed to save duplicate policy:', error);
+        this.showError(i18nManager.t('notion.duplicate.save_failed'));
+      }
+    });
+  }
+
+  /**
+   * 加载并绑定保存前注释表单的开关
+   */
+  private async loadAnnotationSettings(): Promise<void> {
+    const checkbox = document.getElementById('annotation-form') as HTMLInputElement | null;
+    if (!checkbox) return;
+
+    try {
+      checkbox.checked = (await notionAnnotations.getSettings()).enabled;
+    } catch (error) {
+      console.error('Failed to load annotation settings:', error);
+    }
+
+    checkbox.addEventListener('change', async () => {
+      try {
+        await notionAnnotations.saveSettings({ enabled: checkbox.checked });
+        this.showSuccess(i18nManager.t('notion.annotation.saved'));
+      } catch (error) {
+        console.error('Failed to save annotation settings:', error);
+        this.showError(i18nManager.t('notion.annotation.save_failed'));
+      }
+    });
+  }
+
+  /**
+   * 加载属性映射编辑器
+   */
+  private loadNotionMapping(): void {
+    const container = document.getElementById('notion-mapping-container');
+    if (!container) return;
+
+    new NotionMappingPanel(container);
+    this.bindNotionNotifications(container);
+  }
+
+  /**
+   * 加载路由规则编辑器
+   */
+  private loadNotionRouting(): void {
+    const container = document.getElementById('notion-routing-container');
+    if (!container) return;
+
+    new NotionRoutingPanel(container);
+    this.bindNotionNotifications(container);
+  }
+
+  /**
+   * 加载待同步队列列表
+   */
+  private loadNotionOutbox(): void {
+    const container = document.getElementById('notion-outbox-container');
+    if (!container) return;
+
+    new NotionOutboxPanel(container);
+    this.bindNotionNotifications(container);
+  }
+
+  /**
+   * 加载已保存推文浏览
+   */
+  private loadNotionCollection(): void {
+    const container = document.getElementById('collection-container');
+    if (!container) return;
+
+    // 已创建则按当前筛选条件刷新
+    if (this.collectionPanel && container.querySelector('.collection-panel')) {
+      this.collectionPanel.refresh();
+      return;
+    }
+
+    this.collectionPanel = new NotionCollectionPanel(container);
+    this.bindNotionNotifications(container);
+  }
+
+  private bindNotionNotifications(container: HTMLElement): void {
+    container.addEventListener('notion-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
+  /**
+   * 待同步队列区块（连接失效时也需要能查看和丢弃）
+   */
+  private renderNotionOutboxSection(): string {
+    return `
+        <div class="settings-section">
+          <h3>${i18nManager.t('notion.outbox.title')}</h3>
+          <div id="notion-outbox-container" class="notion-outbox"></div>
+        </div>
+    `;
+  }
+
+  /**
+   * OAuth 登录的工作区名称与图标（图标为 URL 或 emoji）
+   */
+  private renderNotionWorkspace(name?: string, icon?: string): string {
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+    const iconHTML = !icon
+      ? ''
+      : /^https?:\/\//.test(icon)
+        ? `<img class="notion-workspace-icon" src="${escape(icon)}" alt="">`
+        : `<span class="notion-workspace-icon">${escape(icon)}</span>`;
+
+    return `
+      <div class="notion-workspace">
+        ${iconHTML}
+        <span>${escape(name || i18nManager.t('notion.oauth.unnamed_workspace'))}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * OAuth 登录区块：登录按钮与公共集成配置
+   */
+  private renderNotionOAuthSection(): string {
+    return `
+        <div class="settings-section">
+          <h3>${i18nManager.t('notion.oauth.title')}</h3>
+          <p class="notion-oauth-description">${i18nManager.t('notion.oauth.description')}</p>
+          <button id="notion-oauth-login" class="primary-button">${i18nManager.t('notion.oauth.login')}</button>
+          <details id="notion-oauth-config" class="notion-oauth-config">
+            <summary>${i18nManager.t('notion.oauth.configure')}</summary>
+            <div class="connection-form">
+              <div class="form-group">
+                <label>${i18nManager.t('notion.oauth.client_id')}:</label>
+                <input type="text" id="notion-oauth-client-id">
+              </div>
+              <div class="form-group">
+                <label>${i18nManager.t('notion.oauth.token_endpoint')}:</label>
+                <input type="url" id="notion-oauth-token-endpoint" placeholder="https://example.com/notion/token">
+              </div>
+              <div class="form-group">
+                <label>${i18nManager.t('notion.oauth.authorize_url')}:</label>
+                <input type="url" id="notion-oauth-authorize-url">
+              </div>
+              <div class="form-group">
+                <label>${i18nManager.t('notion.oauth.redirect_uri')}:</label>
+                <input type="text" id="notion-oauth-redirect-uri" readonly>
+              </div>
+              <button id="save-notion-oauth" class="secondary-button">${i18nManager.t('notion.oauth.save')}</button>
+            </div>
+          </details>
+        </div>
+    `;
   }
 
   /**
@@ -778,6 +1124,8 @@ browser.tabs.create({ url: 'https://x.com' });
           </div>
         </div>
         
+        ${this.renderNotionOAuthSection()}
+
         <div class="settings-section">
           <h3>${i18nManager.t('notion.settings.connection_steps')}</h3>
           <div class="connection-steps">
@@ -799,6 +1147,7 @@ browser.tabs.create({ url: 'https://x.com' });
 
         <div class="settings-section">
           <h3>${i18nManager.t('notion.settings.connection_info')}</h3>
+          <p class="notion-oauth-description">${i18nManager.t('notion.oauth.manual_fallback')}</p>
           <div class="connection-form">
             <div class="form-group">
               <label>${i18nManager.t('notion.settings.integration_token')}:</label>
@@ -811,12 +1160,15 @@ browser.tabs.create({ url: 'https://x.com' });
             <button id="connect-notion" class="primary-button">${i18nManager.t('notion.settings.connect')}</button>
           </div>
         </div>
+        ${this.renderNotionOutboxSection()}
       </div>
     `;
 
     await this.restoreNotionInputValues();
+    await this.restoreNotionOAuthSettings();
     // 设置事件监听器
     this.setupNotionSettingsEvents();
+    this.loadNotionOutbox();
   }
 
   private async restoreNotionInputValues(): Promise<void> {
@@ -850,6 +1202,27 @@ browser.tabs.create({ url: 'https://x.com' });
     }
   }
 
+  private async restoreNotionOAuthSettings(): Promise<void> {
+    const settings = await notionOAuth.getSettings();
+    const fields: Record<string, string> = {
+      'notion-oauth-client-id': settings.clientId,
+      'notion-oauth-token-endpoint': settings.tokenEndpoint,
+      'notion-oauth-authorize-url': settings.authorizeUrl,
+      'notion-oauth-redirect-uri': notionOAuth.getRedirectUri()
+    };
+
+    for (const [id, value] of Object.entries(fields)) {
+      const input = document.getElementById(id) as HTMLInputElement | null;
+      if (input) input.value = value;
+    }
+
+    // 尚未配置时展开配置
+    const details = document.getElementById('notion-oauth-config') as HTMLDetailsElement | null;
+    if (details && NotionOAuth.validateSettings(settings)) {
+      details.open = true;
+    }
+  }
+
   /**
    * 设置 Notion 设置事件监听器
    */
@@ -860,6 +1233,10 @@ browser.tabs.create({ url: 'https://x.com' });
       connectBtn.addEventListener('click', () => this.connectNotion());
     }
 
+    // OAuth 登录与配置
+    document.getElementById('notion-oauth-login')?.addEventListener('click', () => this.loginNotionWithOAuth());
+    document.getElementById('save-notion-oauth')?.addEventListener('click', () => this.saveNotionOAuthSettings());
+
     // 断开连接按钮
     const disconnectBtn = document.getElementById('disconnect-notion');
     if (disconnectBtn) {
@@ -963,6 +1340,69 @@ browser.tabs.create({ url: 'https://x.com' });
     }
   }
 
+  /**
+   * 保存 OAuth 配置，并申请访问令牌交换端点所需的站点权限
+   */
+  private async saveNotionOAuthSettings(): Promise<boolean> {
+    const value = (id: string) => (document.getElementById(id) as HTMLInputElement | null)?.value.trim() || '';
+    const settings = {
+      clientId: value('notion-oauth-client-id'),
+      tokenEndpoint: value('notion-oauth-token-endpoint'),
+      authorizeUrl: value('notion-oauth-authorize-url')
+    };
+
+    const error = NotionOAuth.validateSettings(settings);
+    if (error) {
+      this.showError(error);
+      return false;
+    }
+
+    try {
+      const endpoint = new URL(settings.tokenEndpoint);
+      // 权限申请需在用户点击中发起，且必须先于其他异步操作
+      const granted = await browser.permissions.request({ origins: [`${endpoint.protocol}//${endpoint.hostname}/*`] });
+      if (!granted) {
+        this.showError(i18nManager.t('notion.oauth.permission_denied'));
+        return false;
+      }
+
+      await notionOAuth.saveSettings(settings);
+      this.showSuccess(i18nManager.t('notion.oauth.saved'));
+      return true;
+    } catch (error) {
+      console.error('Failed to save Notion OAuth settings:', error);
+      this.showError(i18nManager.t('notion.oauth.save_failed'));
+      return false;
+    }
+  }
+
+  /**
+   * 使用 Notion 账号登录（授权窗口打开后弹窗可能关闭，登录在后台完成）
+   */
+  private async loginNotionWithOAuth(): Promise<void> {
+    const settings = await notionOAuth.getSettings();
+    const error = NotionOAuth.validateSettings(settings);
+    if (error) {
+      const details = document.getElementById('notion-oauth-config') as HTMLDetailsElement | null;
+      if (details) details.open = true;
+      this.showError(i18nManager.t('notion.oauth.not_configured'));
+      return;
+    }
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_OAUTH_LOGIN' });
+      if (response?.success) {
+        this.showSuccess(i18nManager.t('notion.oauth.connected', { workspace: response.data?.workspace_name || '' }));
+        this.loadNotionSettings();
+      } else {
+        this.showError(i18nManager.t('notion.oauth.failed', { error: response?.error || '未知错误' }));
+      }
+    } catch (error) {
+      console.error('Failed to log in to Notion:', error);
+      this.showError(i18nManager.t('notion.oauth.failed', { error: String(error) }));
+    }
+  }
+
   /**
    * 断开 Notion 连接
    */
@@ -1350,6 +1790,131 @@ const screenshotOptions: ScreenshotSettingsOptions = {
   }
 
 
+  /**
+   * 加载自定义模板编辑器
+   */
+  private loadTemplates(): void {
+    const container = document.getElementById('templates-container');
+    if (!container || container.querySelector('.templates-panel')) return;
+
+    this.templatesPanel = new TemplatesPanel(container);
+
+    container.addEventListener('templates-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
+  /**
+   * 加载自动标签规则编辑器
+   */
+  private loadTagRules(): void {
+    const container = document.getElementById('tagging-container');
+    if (!container || container.querySelector('.tagging-panel')) return;
+
+    this.tagRulesPanel = new TagRulesPanel(container);
+
+    container.addEventListener('tagging-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
+  /**
+   * 加载 Webhook 端点编辑器
+   */
+  private loadWebhooks(): void {
+    const container = document.getElementById('webhooks-container');
+    if (!container || container.querySelector('.webhooks-panel')) return;
+
+    this.webhooksPanel = new WebhooksPanel(container);
+
+    container.addEventListener('webhook-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
+  /**
+   * 加载保存目标设置；再次切换到标签页时重新读取配置状态
+   */
+  private loadDestinations(): void {
+    const container = document.getElementById('destinations-container');
+    if (!container) return;
+
+    if (this.destinationsPanel) {
+      this.destinationsPanel.load();
+      return;
+    }
+
+    this.destinationsPanel = new DestinationsPanel(container);
+
+    container.addEventListener('destination-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
+  /**
+   * 加载复制历史
+   */
+  private async loadHistory(): Promise<void> {
+    const container = document.getElementById('history-container');
+    if (!container) return;
+
+    // 已创建则只刷新列表
+    if (this.historyPanel && container.querySelector('.history-panel')) {
+      await this.historyPanel.refresh();
+      return;
+    }
+
+    const historyOptions: HistoryPanelOptions = {
+      enableHistory: this.settings?.enableHistory ?? DEFAULT_SETTINGS.enableHistory,
+      historyLimit: this.settings?.historyLimit ?? DEFAULT_SETTINGS.historyLimit
+    };
+
+    this.historyPanel = new HistoryPanel(container, historyOptions);
+
+    container.addEventListener('history-settings-changed', async (e: Event) => {
+      const customEvent = e as CustomEvent<HistoryPanelOptions>;
+      if (!this.settings) return;
+
+      this.settings = { ...this.settings, ...customEvent.detail };
+      try {
+        await saveSettings(this.settings);
+        this.showSuccess(i18nManager.t('settings_saved'));
+      } catch (error) {
+        console.error('Failed to save history settings:', error);
+        this.showError(i18nManager.t('failed_save_settings'));
+      }
+    });
+
+    container.addEventListener('history-notification', (e: Event) => {
+      const { message, type } = (e as CustomEvent<{ message: string; type: 'success' | 'error' }>).detail;
+      if (type === 'success') {
+        this.showSuccess(message);
+      } else {
+        this.showError(message);
+      }
+    });
+  }
+
   /**
   * 处理截图设置变化
    */
@@ -1382,6 +1947,33 @@ const screenshotOptions: ScreenshotSettingsOptions = {
     }
   }
 
+  /**
+   * 在当前 Twitter 标签页中切换批量选择模式
+   */
+  private async toggleSelectionMode(): Promise<void> {
+    await this.sendToTwitterTab('TOGGLE_SELECTION_MODE');
+  }
+
+  /**
+   * 向当前 Twitter/X 标签页发送消息并关闭弹窗
+   */
+  private async sendToTwitterTab(type: string): Promise<void> {
+    try {
+      const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+      const isTwitter = tab?.url && /^https:\/\/(twitter|x)\.com\//.test(tab.url);
+      if (!tab?.id || !isTwitter) {
+        this.showError(i18nManager.t('bulk.no_tab'));
+        return;
+      }
+
+      await browser.tabs.sendMessage(tab.id, { type, timestamp: Date.now() });
+      window.close();
+    } catch (error) {
+      console.error(`Failed to send ${type}:`, error);
+      this.showError(i18nManager.t('bulk.no_tab'));
+    }
+  }
+
   /**
    * 显示成功消息
    */
@@ -0,0 +1,274 @@
+// Notion 收藏浏览组件
+import { browser } from 'wxt/browser';
+import { contentFormatter } from '@/lib/formatters';
+import { clipboardManager } from '@/lib/clipboard';
+import { i18nManager } from '@/lib/i18n';
+import { debounce } from '@/lib/utils/dom';
+import { getSettings } from '@/lib/utils/storage';
+import type { FormatOptions, TweetData } from '@/lib/types';
+import type { CollectionItem, CollectionPage, CollectionQuery } from '@/lib/notion/collection';
+import { HISTORY_FORMATS } from './history-panel';
+
+export class NotionCollectionPanel {
+  private container: HTMLElement;
+  private items: CollectionItem[] = [];
+  private query: CollectionQuery = {};
+  private nextCursor?: string;
+  private hasMore = false;
+  private loading = false;
+  /** 只渲染最后一次请求的结果 */
+  private requestId = 0;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.render();
+    this.refresh();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="collection-panel">
+        <section class="settings-section">
+          <h3>📚 ${i18nManager.t('notion.collection.title')}</h3>
+          <input type="search" id="collection-search" class="collection-search"
+            placeholder="${i18nManager.t('notion.collection.search_placeholder')}">
+          <div class="collection-filters">
+            <select id="collection-category">
+              <option value="">${i18nManager.t('notion.collection.all_categories')}</option>
+            </select>
+            <select id="collection-tag">
+              <option value="">${i18nManager.t('notion.collection.all_tags')}</option>
+            </select>
+            <input type="text" id="collection-author" placeholder="${i18nManager.t('notion.collection.author')}">
+            <div class="collection-dates">
+              <input type="date" id="collection-date-from" title="${i18nManager.t('notion.collection.date_from')}">
+              <span>–</span>
+              <input type="date" id="collection-date-to" title="${i18nManager.t('notion.collection.date_to')}">
+            </div>
+          </div>
+          <div class="collection-list" id="collection-list"></div>
+          <div class="action-buttons" id="collection-more"></div>
+        </section>
+      </div>
+    `;
+
+    this.attachEventListeners();
+  }
+
+  private attachEventListeners(): void {
+    const value = (id: string) => (this.container.querySelector(`#${id}`) as HTMLInputElement | HTMLSelectElement).value.trim() || undefined;
+    const update = () => {
+      this.query = {
+        search: value('collection-search'),
+        category: value('collection-category'),
+        tag: value('collection-tag'),
+        author: value('collection-author'),
+        dateFrom: value('collection-date-from'),
+        dateTo: value('collection-date-to')
+      };
+      this.refresh();
+    };
+    const debouncedUpdate = debounce(update, 300);
+
+    ['collection-search', 'collection-author'].forEach(id => {
+      this.container.querySelector(`#${id}`)?.addEventListener('input', debouncedUpdate);
+    });
+    ['collection-category', 'collection-tag', 'collection-date-from', 'collection-date-to'].forEach(id => {
+      this.container.querySelector(`#${id}`)?.addEventListener('change', update);
+    });
+
+    this.container.querySelector('#collection-more')?.addEventListener('click', (e) => {
+      if ((e.target as HTMLElement).closest('[data-action="more"]')) {
+        this.loadPage(this.nextCursor);
+      }
+    });
+
+    // 列表项操作使用事件委托
+    this.container.querySelector('#collection-list')?.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest('[data-action="copy"]') as HTMLElement | null;
+      const row = target?.closest('.collection-item') as HTMLElement | null;
+      if (!target || !row) return;
+
+      const select = row.querySelector('.collection-format') as HTMLSelectElement;
+      this.copyItem(this.items[Number(row.dataset.index)], select.value as FormatOptions['format']);
+    });
+  }
+
+  /**
+   * 按当前筛选条件从第一页重新加载
+   */
+  public async refresh(): Promise<void> {
+    this.items = [];
+    this.nextCursor = undefined;
+    this.hasMore = false;
+    await this.loadPage();
+  }
+
+  private async loadPage(cursor?: string): Promise<void> {
+    const requestId = ++this.requestId;
+    this.loading = true;
+    this.renderList();
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_BROWSE_COLLECTION', query: this.query, cursor });
+      if (requestId !== this.requestId) return;
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+
+      const page = response as CollectionPage;
+      this.items = cursor ? [...this.items, ...page.items] : page.items;
+      this.nextCursor = page.nextCursor;
+      this.hasMore = page.hasMore;
+      this.loading = false;
+      this.renderFilterOptions(page.options);
+      this.renderList();
+    } catch (error) {
+      if (requestId !== this.requestId) return;
+      console.error('Failed to browse Notion collection:', error);
+      this.loading = false;
+      this.renderList(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 填充分类与标签下拉框，保留当前选择
+   */
+  private renderFilterOptions(options: CollectionPage['options']): void {
+    const fill = (id: string, values: string[], allLabel: string) => {
+      const select = this.container.querySelector(`#${id}`) as HTMLSelectElement | null;
+      if (!select) return;
+
+      const selected = select.value;
+      const list = selected && !values.includes(selected) ? [...values, selected] : values;
+      select.innerHTML = `
+        <option value="">${allLabel}</option>
+        ${list.map(value => `
+          <option value="${this.escapeHTML(value)}" ${value === selected ? 'selected' : ''}>${this.escapeHTML(value)}</option>
+        `).join('')}
+      `;
+    };
+
+    fill('collection-category', options.categories, i18nManager.t('notion.collection.all_categories'));
+    fill('collection-tag', options.tags, i18nManager.t('notion.collection.all_tags'));
+  }
+
+  private renderList(error?: string): void {
+    const list = this.container.querySelector('#collection-list') as HTMLElement | null;
+    const more = this.container.querySelector('#collection-more') as HTMLElement | null;
+    if (!list || !more) return;
+
+    if (error) {
+      list.innerHTML = `
+        <div class="error-state">
+          <div class="error-icon">⚠️</div>
+          <p>${this.escapeHTML(i18nManager.t('notion.collection.load_failed', { error }))}</p>
+        </div>
+      `;
+    } else if (this.items.length === 0 && !this.loading) {
+      list.innerHTML = `
+        <div class="empty-state">
+          <div class="empty-icon">📚</div>
+          <p>${i18nManager.t('notion.collection.empty')}</p>
+        </div>
+      `;
+    } else {
+      list.innerHTML = this.items.map((item, index) => this.renderItem(item, index)).join('');
+    }
+
+    more.innerHTML = this.loading
+      ? `<p class="collection-status">${i18nManager.t('notion.collection.loading')}</p>`
+      : this.hasMore && !error
+        ? `<button class="secondary-button" data-action="more">${i18nManager.t('notion.collection.load_more')}</button>`
+        : '';
+  }
+
+  private renderItem(item: CollectionItem, index: number): string {
+    const author = [item.author, item.username ? `@${item.username}` : ''].filter(Boolean).join(' ');
+    const date = item.publishTime ? new Date(item.publishTime).toLocaleDateString() : '';
+
+    return `
+      <div class="collection-item" data-index="${index}">
+        <div class="collection-item-title">${this.escapeHTML(item.title || item.content.slice(0, 100) || item.pageUrl)}</div>
+        <div class="collection-item-meta">${this.escapeHTML([author, date].filter(Boolean).join(' · '))}</div>
+        ${item.category || item.tags.length ? `
+          <div class="collection-item-tags">
+            ${item.category ? `<span class="tag-chip category">${this.escapeHTML(item.category)}</span>` : ''}
+            ${item.tags.map(tag => `<span class="tag-chip">#${this.escapeHTML(tag)}</span>`).join('')}
+          </div>
+        ` : ''}
+        <div class="collection-item-actions">
+          <a class="secondary-button" href="${this.escapeHTML(item.pageUrl)}" target="_blank" rel="noopener noreferrer">
+            ${i18nManager.t('notion.collection.open_notion')}
+          </a>
+          ${item.tweetUrl ? `
+            <a class="secondary-button" href="${this.escapeHTML(item.tweetUrl)}" target="_blank" rel="noopener noreferrer">
+              ${i18nManager.t('notion.collection.open_tweet')}
+            </a>
+          ` : ''}
+          <select class="collection-format">
+            ${HISTORY_FORMATS.map(format => `<option value="${format.value}">${format.label}</option>`).join('')}
+          </select>
+          <button class="primary-button" data-action="copy">${i18nManager.t('notion.collection.copy')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * 按当前复制设置以指定格式复制
+   */
+  private async copyItem(item: CollectionItem | undefined, format: FormatOptions['format']): Promise<void> {
+    if (!item) return;
+
+    try {
+      const settings = await getSettings();
+      const options: FormatOptions = {
+        format,
+        includeAuthor: settings.includeAuthor,
+        includeTimestamp: settings.includeTimestamp,
+        includeMetrics: settings.includeMetrics,
+        includeMedia: settings.includeMedia,
+        includeLink: settings.includeLink,
+        keepShortLinks: settings.keepShortLinks
+      };
+
+      await clipboardManager.copyCustomContent(contentFormatter.formatTweet(this.toTweet(item), options), format);
+      this.notify(i18nManager.t('notion.collection.copied'), 'success');
+    } catch (error) {
+      console.error('Failed to copy saved tweet:', error);
+      this.notify(i18nManager.t('notion.collection.copy_failed'), 'error');
+    }
+  }
+
+  /**
+   * 由 Notion 页面中的属性还原推文（不含媒体）
+   */
+  private toTweet(item: CollectionItem): TweetData {
+    const time = item.publishTime ? new Date(item.publishTime) : new Date(NaN);
+    return {
+      id: item.tweetUrl?.match(/status\/(\d+)/)?.[1] || item.pageId,
+      author: { username: item.username, displayName: item.author || item.username },
+      content: item.content || item.title,
+      timestamp: isNaN(time.getTime()) ? new Date() : time,
+      metrics: { ...item.stats },
+      media: [],
+      isThread: false,
+      url: item.tweetUrl || item.pageUrl
+    };
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('notion-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // 同时用于属性值
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,135 @@
+// Notion 属性映射编辑器组件
+import { browser } from 'wxt/browser';
+import { i18nManager } from '@/lib/i18n';
+import type { PropertyMapping, TweetField } from '@/lib/notion/property-mapping';
+
+interface MappingState {
+  properties: Array<{ name: string; type: string }>;
+  fields: Array<{ field: TweetField; types: string[] }>;
+  mapping: PropertyMapping;
+  isCustom: boolean;
+}
+
+export class NotionMappingPanel {
+  private container: HTMLElement;
+  private state: MappingState | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.load();
+  }
+
+  async load(): Promise<void> {
+    this.container.innerHTML = `<p class="mapping-status">${i18nManager.t('notion.mapping.loading')}</p>`;
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_GET_PROPERTY_MAPPING' });
+      if (!response?.success) {
+        this.renderMessage(response?.error === 'Notion not configured'
+          ? i18nManager.t('notion.mapping.no_database')
+          : i18nManager.t('notion.mapping.load_failed', { error: response?.error || '' }));
+        return;
+      }
+
+      this.state = {
+        properties: response.properties,
+        fields: response.fields,
+        mapping: response.mapping,
+        isCustom: response.isCustom
+      };
+      this.render();
+    } catch (error) {
+      console.error('Failed to load Notion property mapping:', error);
+      this.renderMessage(i18nManager.t('notion.mapping.load_failed', { error: String(error) }));
+    }
+  }
+
+  private render(): void {
+    const { properties, fields, mapping, isCustom } = this.state!;
+
+    this.container.innerHTML = `
+      <p class="mapping-description">${i18nManager.t('notion.mapping.description')}</p>
+      <div class="mapping-table">
+        ${fields.map(({ field, types }) => {
+          const options = properties.filter(property => types.includes(property.type));
+          return `
+            <label class="mapping-row">
+              <span class="mapping-field">${i18nManager.t(`notion.mapping.field.${field}`)}</span>
+              <select data-field="${field}">
+                <option value="">${i18nManager.t('notion.mapping.not_mapped')}</option>
+                ${options.map(property => `
+                  <option value="${this.escapeHTML(property.name)}" ${mapping[field] === property.name ? 'selected' : ''}>
+                    ${this.escapeHTML(property.name)} · ${property.type}
+                  </option>
+                `).join('')}
+              </select>
+            </label>
+          `;
+        }).join('')}
+      </div>
+      <p class="mapping-status">${i18nManager.t(isCustom ? 'notion.mapping.custom' : 'notion.mapping.auto')}</p>
+      <p class="mapping-warning" ${mapping.url ? 'hidden' : ''}>⚠️ ${i18nManager.t('notion.mapping.url_required')}</p>
+      <div class="action-buttons">
+        <button id="mapping-save" class="primary-button">${i18nManager.t('notion.mapping.save')}</button>
+        <button id="mapping-reset" class="secondary-button" ${isCustom ? '' : 'disabled'}>${i18nManager.t('notion.mapping.reset')}</button>
+      </div>
+    `;
+
+    this.container.querySelector('select[data-field="url"]')?.addEventListener('change', (e) => {
+      const warning = this.container.querySelector('.mapping-warning') as HTMLElement | null;
+      if (warning) {
+        warning.hidden = (e.target as HTMLSelectElement).value !== '';
+      }
+    });
+    this.container.querySelector('#mapping-save')?.addEventListener('click', () => this.save(this.readForm()));
+    this.container.querySelector('#mapping-reset')?.addEventListener('click', () => this.save(null));
+  }
+
+  private renderMessage(message: string): void {
+    this.container.innerHTML = `<p class="mapping-status">${this.escapeHTML(message)}</p>`;
+  }
+
+  private readForm(): PropertyMapping {
+    const mapping: PropertyMapping = {};
+    this.container.querySelectorAll<HTMLSelectElement>('select[data-field]').forEach(select => {
+      if (select.value) {
+        mapping[select.dataset.field as TweetField] = select.value;
+      }
+    });
+    return mapping;
+  }
+
+  /**
+   * 保存映射；null 表示恢复自动匹配
+   */
+  private async save(mapping: PropertyMapping | null): Promise<void> {
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_SAVE_PROPERTY_MAPPING', mapping });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+
+      this.state = { ...this.state!, mapping: response.mapping, isCustom: mapping !== null };
+      this.render();
+      this.notify(i18nManager.t('notion.mapping.saved'), 'success');
+    } catch (error) {
+      console.error('Failed to save Notion property mapping:', error);
+      this.notify(i18nManager.t('notion.mapping.save_failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }), 'error');
+    }
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('notion-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,118 @@
+// Notion 待同步队列列表组件
+import { browser } from 'wxt/browser';
+import { i18nManager } from '@/lib/i18n';
+import type { OutboxItem } from '@/lib/notion/outbox';
+
+const STORAGE_KEY = 'notion_outbox';
+
+export class NotionOutboxPanel {
+  private container: HTMLElement;
+  private items: OutboxItem[] = [];
+  private readonly onStorageChanged = (changes: Record<string, { newValue?: unknown }>, area: string) => {
+    if (!this.container.isConnected) {
+      browser.storage.onChanged.removeListener(this.onStorageChanged);
+      return;
+    }
+    if (area === 'local' && changes[STORAGE_KEY]) {
+      this.items = (changes[STORAGE_KEY].newValue as OutboxItem[] | undefined) || [];
+      this.render();
+    }
+  };
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    browser.storage.onChanged.addListener(this.onStorageChanged);
+    this.load();
+  }
+
+  private async load(): Promise<void> {
+    const response = await browser.runtime.sendMessage({ type: 'NOTION_OUTBOX_LIST' });
+    this.items = response?.success ? response.items : [];
+    this.render();
+  }
+
+  private render(): void {
+    if (this.items.length === 0) {
+      this.container.innerHTML = `<p class="outbox-empty">${i18nManager.t('notion.outbox.empty')}</p>`;
+      return;
+    }
+
+    this.container.innerHTML = `
+      <ul class="outbox-list">
+        ${this.items.map(item => `
+          <li class="outbox-item ${item.status}">
+            <div class="outbox-item-main">
+              <a href="${this.escapeHTML(item.tweetData.url)}" target="_blank" rel="noopener noreferrer" class="outbox-item-title">
+                ${this.escapeHTML(this.getTitle(item))}
+              </a>
+              <span class="outbox-item-status">${this.escapeHTML(this.getStatusText(item))}</span>
+              ${item.lastError ? `<span class="outbox-item-error">${this.escapeHTML(item.lastError)}</span>` : ''}
+            </div>
+            <div class="outbox-item-actions">
+              <button class="secondary-button" data-action="retry" data-id="${item.id}">${i18nManager.t('notion.outbox.retry')}</button>
+              <button class="secondary-button" data-action="discard" data-id="${item.id}">${i18nManager.t('notion.outbox.discard')}</button>
+            </div>
+          </li>
+        `).join('')}
+      </ul>
+      <div class="action-buttons">
+        <button class="secondary-button" data-action="retry-all">${i18nManager.t('notion.outbox.retry_all')}</button>
+      </div>
+    `;
+
+    this.container.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        const { action, id } = button.dataset;
+        if (action === 'discard') {
+          this.send({ type: 'NOTION_OUTBOX_DISCARD', id });
+        } else {
+          this.send({ type: 'NOTION_OUTBOX_RETRY', id: action === 'retry' ? id : undefined });
+        }
+      });
+    });
+  }
+
+  private async send(message: { type: string; id?: string }): Promise<void> {
+    try {
+      const response = await browser.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+      this.items = response.items;
+      this.render();
+    } catch (error) {
+      console.error('Notion outbox action failed:', error);
+      this.container.dispatchEvent(new CustomEvent('notion-notification', {
+        detail: {
+          message: i18nManager.t('notion.outbox.action_failed', { error: error instanceof Error ? error.message : String(error) }),
+          type: 'error'
+        },
+        bubbles: true
+      }));
+    }
+  }
+
+  private getTitle(item: OutboxItem): string {
+    const { author, content } = item.tweetData;
+    const text = content.length > 60 ? `${content.slice(0, 60)}…` : content;
+    return author ? `${author}: ${text}` : text;
+  }
+
+  private getStatusText(item: OutboxItem): string {
+    if (item.status === 'failed') {
+      return i18nManager.t('notion.outbox.failed');
+    }
+
+    const seconds = Math.max(0, Math.round((item.nextAttemptAt - Date.now()) / 1000));
+    const time = seconds >= 3600
+      ? `${Math.round(seconds / 3600)}h`
+      : seconds >= 60 ? `${Math.round(seconds / 60)}m` : `${seconds}s`;
+    return i18nManager.t('notion.outbox.pending', { attempts: item.attempts, time });
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
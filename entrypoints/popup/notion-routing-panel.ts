@@ -0,0 +1,310 @@
+// Notion 路由规则编辑器组件
+import { browser } from 'wxt/browser';
+import { i18nManager } from '@/lib/i18n';
+import type { RoutingRule } from '@/lib/notion/routing';
+
+interface RoutingState {
+  rules: RoutingRule[];
+  databases: Array<{ id: string; title: string }>;
+  defaultDatabaseId?: string;
+  /** 正在编辑的规则（新建时尚未加入列表） */
+  editing: RoutingRule | null;
+}
+
+const TWEET_TYPES: Array<{ value: RoutingRule['tweetTypes'][number]; key: string }> = [
+  { value: '原创推文', key: 'original' },
+  { value: '回复', key: 'reply' },
+  { value: '引用推文', key: 'quote' },
+  { value: '转推', key: 'retweet' }
+];
+
+export class NotionRoutingPanel {
+  private container: HTMLElement;
+  private state: RoutingState = { rules: [], databases: [], editing: null };
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.load();
+  }
+
+  async load(): Promise<void> {
+    this.container.innerHTML = `<p class="routing-status">${i18nManager.t('notion.routing.loading')}</p>`;
+
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_GET_ROUTING_RULES' });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+
+      this.state = {
+        rules: response.rules,
+        databases: response.databases,
+        defaultDatabaseId: response.defaultDatabaseId,
+        editing: null
+      };
+      this.render();
+    } catch (error) {
+      console.error('Failed to load Notion routing rules:', error);
+      this.container.innerHTML = `<p class="routing-status">${this.escapeHTML(
+        i18nManager.t('notion.routing.load_failed', { error: error instanceof Error ? error.message : String(error) })
+      )}</p>`;
+    }
+  }
+
+  private render(): void {
+    const { rules, editing } = this.state;
+
+    this.container.innerHTML = `
+      <p class="routing-description">${i18nManager.t('notion.routing.description')}</p>
+      ${rules.length === 0
+        ? `<p class="routing-status">${i18nManager.t('notion.routing.empty')}</p>`
+        : `<ul class="routing-list">
+            ${rules.map((rule, index) => `
+              <li class="routing-rule ${rule.enabled ? '' : 'disabled'}">
+                <label class="routing-rule-main">
+                  <input type="checkbox" data-action="toggle" data-index="${index}" ${rule.enabled ? 'checked' : ''}>
+                  <span class="routing-rule-name">${this.escapeHTML(rule.name || i18nManager.t('notion.routing.untitled'))}</span>
+                </label>
+                <span class="routing-rule-summary">${this.escapeHTML(this.describeRule(rule))}</span>
+                <div class="routing-rule-actions">
+                  <button class="secondary-button" data-action="up" data-index="${index}" ${index === 0 ? 'disabled' : ''}>↑</button>
+                  <button class="secondary-button" data-action="down" data-index="${index}" ${index === rules.length - 1 ? 'disabled' : ''}>↓</button>
+                  <button class="secondary-button" data-action="edit" data-index="${index}">${i18nManager.t('notion.routing.edit')}</button>
+                  <button class="secondary-button" data-action="delete" data-index="${index}">${i18nManager.t('notion.routing.delete')}</button>
+                </div>
+              </li>
+            `).join('')}
+          </ul>`}
+      ${editing ? this.renderEditor(editing) : `
+        <div class="action-buttons">
+          <button class="secondary-button" data-action="add">${i18nManager.t('notion.routing.add')}</button>
+        </div>
+      `}
+    `;
+
+    this.container.querySelectorAll<HTMLElement>('[data-action]').forEach(element => {
+      const index = Number(element.dataset.index);
+      const action = element.dataset.action;
+      element.addEventListener(element instanceof HTMLInputElement ? 'change' : 'click', () => this.handleAction(action!, index));
+    });
+  }
+
+  private renderEditor(rule: RoutingRule): string {
+    const { defaultDatabaseId } = this.state;
+    // 规则的数据库不在搜索结果中时（例如已取消共享）仍保留为选项
+    const databases = rule.databaseId && !this.state.databases.some(database => database.id === rule.databaseId)
+      ? [...this.state.databases, { id: rule.databaseId, title: rule.databaseTitle || rule.databaseId }]
+      : this.state.databases;
+    const mediaValue = rule.hasMedia === undefined ? '' : String(rule.hasMedia);
+
+    return `
+      <div class="routing-editor">
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.name')}</span>
+          <input type="text" name="name" value="${this.escapeHTML(rule.name)}">
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.database')}</span>
+          <select name="databaseId">
+            ${databases.map(database => `
+              <option value="${database.id}" ${database.id === (rule.databaseId || defaultDatabaseId) ? 'selected' : ''}>
+                ${this.escapeHTML(database.title)}
+              </option>
+            `).join('')}
+          </select>
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.authors')}</span>
+          <input type="text" name="authors" placeholder="elonmusk, @openai" value="${this.escapeHTML(rule.authors.join(', '))}">
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.hashtags')}</span>
+          <input type="text" name="hashtags" placeholder="#AI, hiring" value="${this.escapeHTML(rule.hashtags.join(', '))}">
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.keywords')}</span>
+          <input type="text" name="keywords" value="${this.escapeHTML(rule.keywords.join(', '))}">
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.media')}</span>
+          <select name="hasMedia">
+            <option value="" ${mediaValue === '' ? 'selected' : ''}>${i18nManager.t('notion.routing.media_any')}</option>
+            <option value="true" ${mediaValue === 'true' ? 'selected' : ''}>${i18nManager.t('notion.routing.media_with')}</option>
+            <option value="false" ${mediaValue === 'false' ? 'selected' : ''}>${i18nManager.t('notion.routing.media_without')}</option>
+          </select>
+        </label>
+        <div class="routing-field">
+          <span>${i18nManager.t('notion.routing.types')}</span>
+          <div class="routing-types">
+            ${TWEET_TYPES.map(type => `
+              <label>
+                <input type="checkbox" name="tweetTypes" value="${type.value}" ${rule.tweetTypes.includes(type.value) ? 'checked' : ''}>
+                ${i18nManager.t(`notion.routing.type.${type.key}`)}
+              </label>
+            `).join('')}
+          </div>
+        </div>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.category')}</span>
+          <input type="text" name="category" value="${this.escapeHTML(rule.category || '')}">
+        </label>
+        <label class="routing-field">
+          <span>${i18nManager.t('notion.routing.tags')}</span>
+          <input type="text" name="tags" value="${this.escapeHTML(rule.tags.join(', '))}">
+        </label>
+        <div class="action-buttons">
+          <button class="primary-button" data-action="save">${i18nManager.t('notion.routing.save')}</button>
+          <button class="secondary-button" data-action="cancel">${i18nManager.t('notion.routing.cancel')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private handleAction(action: string, index: number): void {
+    const rules = [...this.state.rules];
+
+    switch (action) {
+      case 'add':
+        this.state.editing = this.createRule();
+        this.render();
+        return;
+      case 'edit':
+        this.state.editing = { ...rules[index] };
+        this.render();
+        return;
+      case 'cancel':
+        this.state.editing = null;
+        this.render();
+        return;
+      case 'save': {
+        const rule = this.readEditor();
+        if (!rule) return;
+        const position = rules.findIndex(existing => existing.id === rule.id);
+        if (position >= 0) {
+          rules[position] = rule;
+        } else {
+          rules.push(rule);
+        }
+        this.persist(rules);
+        return;
+      }
+      case 'toggle':
+        rules[index] = { ...rules[index], enabled: !rules[index].enabled };
+        this.persist(rules);
+        return;
+      case 'up':
+      case 'down': {
+        const swap = action === 'up' ? index - 1 : index + 1;
+        [rules[index], rules[swap]] = [rules[swap], rules[index]];
+        this.persist(rules);
+        return;
+      }
+      case 'delete':
+        rules.splice(index, 1);
+        this.persist(rules);
+        return;
+    }
+  }
+
+  private createRule(): RoutingRule {
+    return {
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name: '',
+      enabled: true,
+      authors: [],
+      hashtags: [],
+      keywords: [],
+      tweetTypes: [],
+      databaseId: this.state.defaultDatabaseId || this.state.databases[0]?.id || '',
+      tags: []
+    };
+  }
+
+  /**
+   * 读取编辑表单；没有条件或没有目标数据库时提示并返回 null
+   */
+  private readEditor(): RoutingRule | null {
+    const editor = this.container.querySelector('.routing-editor');
+    if (!editor || !this.state.editing) return null;
+
+    const value = (name: string) => (editor.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLSelectElement).value;
+    const list = (name: string) => value(name).split(/[,，\n]/).map(item => item.trim()).filter(Boolean);
+    const media = value('hasMedia');
+    const databaseId = value('databaseId');
+
+    const rule: RoutingRule = {
+      ...this.state.editing,
+      name: value('name').trim(),
+      databaseId,
+      databaseTitle: this.state.databases.find(database => database.id === databaseId)?.title || this.state.editing.databaseTitle,
+      authors: list('authors'),
+      hashtags: list('hashtags'),
+      keywords: list('keywords'),
+      hasMedia: media === '' ? undefined : media === 'true',
+      tweetTypes: Array.from(editor.querySelectorAll<HTMLInputElement>('input[name="tweetTypes"]:checked'))
+        .map(input => input.value as RoutingRule['tweetTypes'][number]),
+      category: value('category').trim() || undefined,
+      tags: list('tags')
+    };
+
+    if (!rule.databaseId) {
+      this.notify(i18nManager.t('notion.routing.database_required'), 'error');
+      return null;
+    }
+    const hasCondition = rule.authors.length > 0 || rule.hashtags.length > 0 || rule.keywords.length > 0 ||
+      rule.hasMedia !== undefined || rule.tweetTypes.length > 0;
+    if (!hasCondition) {
+      this.notify(i18nManager.t('notion.routing.condition_required'), 'error');
+      return null;
+    }
+
+    return rule;
+  }
+
+  private async persist(rules: RoutingRule[]): Promise<void> {
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_SAVE_ROUTING_RULES', rules });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+
+      this.state = { ...this.state, rules: response.rules, editing: null };
+      this.render();
+      this.notify(i18nManager.t('notion.routing.saved'), 'success');
+    } catch (error) {
+      console.error('Failed to save Notion routing rules:', error);
+      this.notify(i18nManager.t('notion.routing.save_failed', {
+        error: error instanceof Error ? error.message : String(error)
+      }), 'error');
+    }
+  }
+
+  /**
+   * 规则摘要：条件 → 数据库
+   */
+  private describeRule(rule: RoutingRule): string {
+    const conditions = [
+      ...rule.authors.map(author => `@${author}`),
+      ...rule.hashtags.map(tag => `#${tag}`),
+      ...rule.keywords.map(keyword => `"${keyword}"`),
+      ...(rule.hasMedia === undefined ? [] : [i18nManager.t(rule.hasMedia ? 'notion.routing.media_with' : 'notion.routing.media_without')]),
+      ...TWEET_TYPES.filter(type => rule.tweetTypes.includes(type.value)).map(type => i18nManager.t(`notion.routing.type.${type.key}`))
+    ];
+    const database = this.state.databases.find(item => item.id === rule.databaseId)?.title || rule.databaseTitle || rule.databaseId;
+    return `${conditions.join(' · ')} → ${database}`;
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('notion-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // 同时用于属性值
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,292 @@
+// 自动标签规则编辑器组件
+import { i18nManager } from '@/lib/i18n';
+import { tagRuleEngine, TagRuleEngine, type TaggableTweet } from '@/lib/tagging';
+import type { TagRule } from '@/lib/types';
+
+const MATCHERS: Array<{ value: TagRule['matcher']; placeholder: string }> = [
+  { value: 'keyword', placeholder: 'AI, 机器学习' },
+  { value: 'regex', placeholder: '/\\bv\\d+\\.\\d+/i' },
+  { value: 'hashtag', placeholder: '#buildinpublic, rustlang' },
+  { value: 'author', placeholder: 'elonmusk, @openai' },
+  { value: 'domain', placeholder: 'github.com, arxiv.org' },
+  { value: 'media', placeholder: 'image, video, gif, any' }
+];
+
+const MEDIA_TYPES: TaggableTweet['mediaTypes'] = ['image', 'video', 'gif'];
+
+export class TagRulesPanel {
+  private container: HTMLElement;
+  private rules: TagRule[] = [];
+  /** 正在编辑的规则（新建时尚未加入列表） */
+  private editing: TagRule | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.load();
+  }
+
+  private async load(): Promise<void> {
+    this.rules = await tagRuleEngine.getRules();
+    this.render();
+  }
+
+  private render(): void {
+    const rules = [...this.rules].sort((a, b) => b.priority - a.priority);
+
+    this.container.innerHTML = `
+      <div class="tagging-panel">
+        <section class="settings-section">
+          <h3>🏷️ ${i18nManager.t('tagging.title')}</h3>
+          <p class="tagging-description">${i18nManager.t('tagging.description')}</p>
+          ${rules.length === 0
+            ? `<p class="tagging-description">${i18nManager.t('tagging.empty')}</p>`
+            : `<ul class="tag-rule-list">
+                ${rules.map(rule => `
+                  <li class="tag-rule ${rule.enabled ? '' : 'disabled'}">
+                    <label class="tag-rule-main">
+                      <input type="checkbox" data-action="toggle" data-id="${rule.id}" ${rule.enabled ? 'checked' : ''}>
+                      <span>${this.escapeHTML(rule.name || i18nManager.t('tagging.untitled'))}</span>
+                      <span class="tag-rule-priority">P${rule.priority}</span>
+                    </label>
+                    <span class="tag-rule-summary">${this.escapeHTML(this.describeRule(rule))}</span>
+                    <div class="tag-rule-actions">
+                      <button class="secondary-button" data-action="edit" data-id="${rule.id}">${i18nManager.t('tagging.edit')}</button>
+                      <button class="secondary-button" data-action="delete" data-id="${rule.id}">${i18nManager.t('tagging.delete')}</button>
+                    </div>
+                  </li>
+                `).join('')}
+              </ul>`}
+          ${this.editing ? this.renderEditor(this.editing) : `
+            <div class="action-buttons">
+              <button class="secondary-button" data-action="add">${i18nManager.t('tagging.add')}</button>
+              <button class="secondary-button" data-action="reset">${i18nManager.t('tagging.reset')}</button>
+            </div>
+          `}
+        </section>
+
+        <section class="settings-section">
+          <h3>🧪 ${i18nManager.t('tagging.test.title')}</h3>
+          <textarea id="tagging-test-content" class="tagging-test-content" rows="4"
+            placeholder="${this.escapeHTML(i18nManager.t('tagging.test.placeholder'))}"></textarea>
+          <div class="tagging-field">
+            <span>${i18nManager.t('tagging.test.author')}</span>
+            <input type="text" id="tagging-test-author" placeholder="@username">
+          </div>
+          <div class="tagging-media">
+            ${MEDIA_TYPES.map(type => `
+              <label>
+                <input type="checkbox" name="tagging-test-media" value="${type}">
+                ${i18nManager.t(`tagging.media.${type}`)}
+              </label>
+            `).join('')}
+          </div>
+          <div class="action-buttons">
+            <button class="primary-button" data-action="test">${i18nManager.t('tagging.test.run')}</button>
+          </div>
+          <div id="tagging-test-result" class="tagging-test-result"></div>
+        </section>
+      </div>
+    `;
+
+    this.container.querySelectorAll<HTMLElement>('[data-action]').forEach(element => {
+      const action = element.dataset.action!;
+      element.addEventListener(element instanceof HTMLInputElement ? 'change' : 'click', () => this.handleAction(action, element.dataset.id));
+    });
+  }
+
+  private renderEditor(rule: TagRule): string {
+    const matcher = MATCHERS.find(item => item.value === rule.matcher) || MATCHERS[0];
+
+    return `
+      <div class="tag-rule-editor">
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.name')}</span>
+          <input type="text" name="name" value="${this.escapeHTML(rule.name)}">
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.matcher')}</span>
+          <select name="matcher">
+            ${MATCHERS.map(item => `
+              <option value="${item.value}" ${item.value === rule.matcher ? 'selected' : ''}>${i18nManager.t(`tagging.matcher.${item.value}`)}</option>
+            `).join('')}
+          </select>
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.pattern')}</span>
+          <input type="text" name="pattern" placeholder="${this.escapeHTML(matcher.placeholder)}" value="${this.escapeHTML(rule.pattern)}">
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.tags')}</span>
+          <input type="text" name="tags" value="${this.escapeHTML(rule.tags.join(', '))}">
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.category')}</span>
+          <input type="text" name="category" value="${this.escapeHTML(rule.category || '')}">
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('tagging.priority')}</span>
+          <input type="number" name="priority" step="1" value="${rule.priority}">
+        </label>
+        <div class="action-buttons">
+          <button class="primary-button" data-action="save">${i18nManager.t('tagging.save')}</button>
+          <button class="secondary-button" data-action="cancel">${i18nManager.t('tagging.cancel')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private handleAction(action: string, id?: string): void {
+    switch (action) {
+      case 'add':
+        this.editing = tagRuleEngine.createRule();
+        this.render();
+        return;
+      case 'edit': {
+        const rule = this.rules.find(item => item.id === id);
+        this.editing = rule ? { ...rule } : null;
+        this.render();
+        return;
+      }
+      case 'cancel':
+        this.editing = null;
+        this.render();
+        return;
+      case 'save': {
+        const rule = this.readEditor();
+        if (!rule) return;
+        const exists = this.rules.some(item => item.id === rule.id);
+        this.persist(exists ? this.rules.map(item => item.id === rule.id ? rule : item) : [...this.rules, rule]);
+        return;
+      }
+      case 'toggle':
+        this.persist(this.rules.map(item => item.id === id ? { ...item, enabled: !item.enabled } : item));
+        return;
+      case 'delete':
+        this.persist(this.rules.filter(item => item.id !== id));
+        return;
+      case 'reset':
+        this.reset();
+        return;
+      case 'test':
+        this.runTest();
+        return;
+    }
+  }
+
+  /**
+   * 读取编辑表单；规则无效时提示并返回 null
+   */
+  private readEditor(): TagRule | null {
+    const editor = this.container.querySelector('.tag-rule-editor');
+    if (!editor || !this.editing) return null;
+
+    const value = (name: string) => (editor.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLSelectElement).value;
+    const priority = Number(value('priority'));
+
+    const rule: TagRule = {
+      ...this.editing,
+      name: value('name').trim(),
+      matcher: value('matcher') as TagRule['matcher'],
+      pattern: value('pattern').trim(),
+      tags: value('tags').split(/[,，\n]/).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean),
+      category: value('category').trim() || undefined,
+      priority: Number.isFinite(priority) ? Math.round(priority) : 0
+    };
+
+    const error = TagRuleEngine.validateRule(rule);
+    if (error) {
+      this.notify(i18nManager.t('tagging.invalid', { error }), 'error');
+      return null;
+    }
+
+    return rule;
+  }
+
+  private async persist(rules: TagRule[]): Promise<void> {
+    try {
+      await tagRuleEngine.saveRules(rules);
+      this.rules = rules;
+      this.editing = null;
+      this.render();
+      this.notify(i18nManager.t('tagging.saved'), 'success');
+    } catch (error) {
+      console.error('Failed to save tagging rules:', error);
+      this.notify(i18nManager.t('tagging.save_failed'), 'error');
+    }
+  }
+
+  private async reset(): Promise<void> {
+    if (!confirm(i18nManager.t('tagging.reset_confirm'))) return;
+
+    try {
+      this.rules = await tagRuleEngine.resetRules();
+      this.editing = null;
+      this.render();
+      this.notify(i18nManager.t('tagging.saved'), 'success');
+    } catch (error) {
+      console.error('Failed to reset tagging rules:', error);
+      this.notify(i18nManager.t('tagging.save_failed'), 'error');
+    }
+  }
+
+  /**
+   * 用当前规则测试粘贴的推文
+   */
+  private runTest(): void {
+    const content = (this.container.querySelector('#tagging-test-content') as HTMLTextAreaElement).value;
+    const author = (this.container.querySelector('#tagging-test-author') as HTMLInputElement).value.trim();
+    const mediaTypes = Array.from(this.container.querySelectorAll<HTMLInputElement>('input[name="tagging-test-media"]:checked'))
+      .map(input => input.value as TaggableTweet['mediaTypes'][number]);
+    const output = this.container.querySelector('#tagging-test-result') as HTMLElement;
+
+    const result = TagRuleEngine.evaluate(this.rules, TagRuleEngine.fromText(content, author, mediaTypes));
+    if (result.matchedRuleIds.length === 0) {
+      output.innerHTML = `<p class="tagging-description">${i18nManager.t('tagging.test.no_match')}</p>`;
+      return;
+    }
+
+    const names = result.matchedRuleIds
+      .map(id => this.rules.find(rule => rule.id === id))
+      .map(rule => rule?.name || i18nManager.t('tagging.untitled'));
+
+    output.innerHTML = `
+      <div class="tagging-field">
+        <span>${i18nManager.t('tagging.test.matched')}</span>
+        <span>${this.escapeHTML(names.join(' · '))}</span>
+      </div>
+      <div class="tagging-field">
+        <span>${i18nManager.t('tagging.category')}</span>
+        ${result.category ? `<span class="tag-chip category">${this.escapeHTML(result.category)}</span>` : '—'}
+      </div>
+      <div class="tagging-field">
+        <span>${i18nManager.t('tagging.tags')}</span>
+        <span>${result.tags.map(tag => `<span class="tag-chip">#${this.escapeHTML(tag)}</span>`).join('') || '—'}</span>
+      </div>
+    `;
+  }
+
+  /**
+   * 规则摘要：匹配方式与模式 → 标签 / 分类
+   */
+  private describeRule(rule: TagRule): string {
+    const outputs = [
+      ...rule.tags.map(tag => `#${tag}`),
+      ...(rule.category ? [`📁 ${rule.category}`] : [])
+    ];
+    return `${i18nManager.t(`tagging.matcher.${rule.matcher}`)}: ${rule.pattern} → ${outputs.join(' ')}`;
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('tagging-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // 同时用于属性值
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
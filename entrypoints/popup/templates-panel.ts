@@ -0,0 +1,268 @@
+// 自定义模板编辑器组件
+import { browser } from 'wxt/browser';
+import { templateManager } from '@/lib/templates';
+import { TemplateEngine } from '@/lib/formatters';
+import { i18nManager } from '@/lib/i18n';
+import { debounce } from '@/lib/utils/dom';
+import { EXTENSION_CONFIG } from '@/lib/utils/constants';
+import type { CopyTemplate, TweetData, ThreadData } from '@/lib/types';
+
+/**
+ * 预览用的示例推文
+ */
+const SAMPLE_TWEET: TweetData = {
+  id: '1790000000000000000',
+  author: {
+    username: 'example',
+    displayName: 'Example User',
+    avatar: 'https://pbs.twimg.com/profile_images/example.jpg'
+  },
+  content: 'Shipping a new release today 🚀 #release @friend https://example.com',
+  timestamp: new Date('2024-05-13T09:30:00Z'),
+  metrics: { likes: 128, retweets: 16, replies: 4 },
+  media: [
+    { type: 'image', url: 'https://pbs.twimg.com/media/example1.jpg', alt: 'Screenshot' },
+    { type: 'image', url: 'https://pbs.twimg.com/media/example2.jpg' }
+  ],
+  isThread: false,
+  url: 'https://x.com/example/status/1790000000000000000',
+  quotedTweet: {
+    id: '1780000000000000000',
+    author: { username: 'quoted', displayName: 'Quoted Author' },
+    content: 'The original announcement.',
+    url: 'https://x.com/quoted/status/1780000000000000000'
+  }
+};
+
+const SAMPLE_THREAD: ThreadData = {
+  id: SAMPLE_TWEET.id,
+  tweets: [
+    { ...SAMPLE_TWEET, isThread: true, threadPosition: 1 },
+    { ...SAMPLE_TWEET, id: '1790000000000000001', content: 'Second part of the thread.', media: [], quotedTweet: undefined, isThread: true, threadPosition: 2 }
+  ],
+  totalCount: 2,
+  author: SAMPLE_TWEET.author,
+  createdAt: SAMPLE_TWEET.timestamp,
+  isComplete: true
+};
+
+export class TemplatesPanel {
+  private container: HTMLElement;
+  private templates: CopyTemplate[] = [];
+  private current: CopyTemplate | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.load();
+  }
+
+  private async load(selectedId?: string): Promise<void> {
+    this.templates = await templateManager.getTemplates();
+    this.current = this.templates.find(template => template.id === selectedId)
+      || this.templates[0]
+      || templateManager.createTemplate();
+    this.render();
+  }
+
+  private render(): void {
+    const template = this.current!;
+    const isNew = !this.templates.some(item => item.id === template.id);
+    const slots = Array.from({ length: EXTENSION_CONFIG.TEMPLATES.SHORTCUT_SLOTS }, (_, i) => i + 1);
+
+    this.container.innerHTML = `
+      <div class="templates-panel">
+        <section class="settings-section">
+          <h3>🧩 ${i18nManager.t('template.title')}</h3>
+          <div class="template-picker">
+            <select id="template-select" class="language-selector">
+              ${this.templates.map(item => `
+                <option value="${item.id}" ${item.id === template.id ? 'selected' : ''}>${this.escapeHTML(item.name || item.id)}</option>
+              `).join('')}
+              ${isNew ? `<option value="${template.id}" selected>${i18nManager.t('template.new')}</option>` : ''}
+            </select>
+            <button id="template-new" class="secondary-button">＋</button>
+          </div>
+        </section>
+
+        <section class="settings-section">
+          <div class="form-group">
+            <label for="template-name">${i18nManager.t('template.name')}</label>
+            <input type="text" id="template-name" value="${this.escapeHTML(template.name)}">
+          </div>
+          <div class="template-row">
+            <div class="form-group">
+              <label for="template-scope">${i18nManager.t('template.scope')}</label>
+              <select id="template-scope">
+                <option value="tweet" ${template.scope === 'tweet' ? 'selected' : ''}>${i18nManager.t('history.item_tweet')}</option>
+                <option value="thread" ${template.scope === 'thread' ? 'selected' : ''}>${i18nManager.t('template.scope_thread')}</option>
+              </select>
+            </div>
+            <div class="form-group">
+              <label for="template-format">${i18nManager.t('template.output_format')}</label>
+              <select id="template-format">
+                <option value="markdown" ${template.format === 'markdown' ? 'selected' : ''}>Markdown</option>
+                <option value="html" ${template.format === 'html' ? 'selected' : ''}>HTML</option>
+                <option value="text" ${template.format === 'text' ? 'selected' : ''}>${i18nManager.t('text')}</option>
+              </select>
+            </div>
+          </div>
+          <div class="form-group">
+            <label for="template-body">${i18nManager.t('template.body')}</label>
+            <textarea id="template-body" class="template-body" rows="8" spellcheck="false">${this.escapeHTML(template.body)}</textarea>
+          </div>
+          <details class="template-help">
+            <summary>${i18nManager.t('template.placeholders')}</summary>
+            <code>{{author.displayName}} {{author.username}} {{content}} {{url}}</code>
+            <code>{{timestamp|date:"YYYY-MM-DD"}} {{likes}} {{retweets}} {{replies}}</code>
+            <code>{{#each media}}{{url}} {{alt}}{{/each}} {{#if quotedTweet}}…{{else}}…{{/if}}</code>
+            <code>{{#each tweets}}{{position}}. {{content}}{{/each}} {{count}}</code>
+            <code>|upper |lower |truncate:80 |default:"…" |join:", " |raw</code>
+          </details>
+        </section>
+
+        <section class="settings-section">
+          <h3>${i18nManager.t('template.preview')}</h3>
+          <pre id="template-preview" class="template-preview"></pre>
+        </section>
+
+        <section class="settings-section">
+          <div class="content-options">
+            <label class="option-item">
+              <input type="checkbox" id="template-context-menu" ${template.showInContextMenu ? 'checked' : ''}>
+              <span class="checkmark"></span>
+              ${i18nManager.t('template.show_in_context_menu')}
+            </label>
+          </div>
+          <div class="form-group">
+            <label for="template-shortcut">${i18nManager.t('template.shortcut')}</label>
+            <select id="template-shortcut">
+              <option value="">${i18nManager.t('template.shortcut_none')}</option>
+              ${slots.map(slot => `
+                <option value="${slot}" ${template.shortcutSlot === slot ? 'selected' : ''}>${i18nManager.t('template.shortcut_slot', { slot })}</option>
+              `).join('')}
+            </select>
+            <small><a href="#" id="template-configure-shortcuts">${i18nManager.t('template.configure_shortcuts')}</a></small>
+          </div>
+          <div class="action-buttons">
+            <button id="template-save" class="primary-button">${i18nManager.t('template.save')}</button>
+            <button id="template-delete" class="secondary-button" ${isNew ? 'disabled' : ''}>${i18nManager.t('history.delete')}</button>
+          </div>
+        </section>
+      </div>
+    `;
+
+    this.attachEventListeners();
+    this.updatePreview();
+  }
+
+  private attachEventListeners(): void {
+    const updatePreview = debounce(() => this.updatePreview(), 150);
+    ['#template-body', '#template-scope', '#template-format'].forEach(selector => {
+      this.container.querySelector(selector)?.addEventListener('input', updatePreview);
+      this.container.querySelector(selector)?.addEventListener('change', updatePreview);
+    });
+
+    this.container.querySelector('#template-select')?.addEventListener('change', (e) => {
+      this.load((e.target as HTMLSelectElement).value);
+    });
+
+    this.container.querySelector('#template-new')?.addEventListener('click', () => {
+      this.current = templateManager.createTemplate();
+      this.render();
+    });
+
+    this.container.querySelector('#template-save')?.addEventListener('click', () => this.save());
+    this.container.querySelector('#template-delete')?.addEventListener('click', () => this.delete());
+
+    this.container.querySelector('#template-configure-shortcuts')?.addEventListener('click', (e) => {
+      e.preventDefault();
+      browser.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    });
+  }
+
+  /**
+   * 读取表单中的模板
+   */
+  private readForm(): CopyTemplate {
+    const value = (selector: string) => (this.container.querySelector(selector) as HTMLInputElement).value;
+    const slot = parseInt(value('#template-shortcut'), 10);
+
+    return {
+      ...this.current!,
+      name: value('#template-name').trim(),
+      body: value('#template-body'),
+      scope: value('#template-scope') as CopyTemplate['scope'],
+      format: value('#template-format') as CopyTemplate['format'],
+      showInContextMenu: (this.container.querySelector('#template-context-menu') as HTMLInputElement).checked,
+      shortcutSlot: Number.isNaN(slot) ? undefined : slot
+    };
+  }
+
+  /**
+   * 使用示例数据实时预览
+   */
+  private updatePreview(): void {
+    const preview = this.container.querySelector('#template-preview');
+    if (!preview) return;
+
+    const template = this.readForm();
+    const error = TemplateEngine.validate(template.body);
+    if (error) {
+      preview.classList.add('has-error');
+      preview.textContent = `⚠️ ${error}`;
+      return;
+    }
+
+    preview.classList.remove('has-error');
+    preview.textContent = template.scope === 'thread'
+      ? templateManager.renderThread(template, SAMPLE_THREAD)
+      : templateManager.renderTweet(template, SAMPLE_TWEET);
+  }
+
+  private async save(): Promise<void> {
+    const template = this.readForm();
+    if (!template.name) {
+      this.notify(i18nManager.t('template.name_required'), 'error');
+      return;
+    }
+
+    const error = TemplateEngine.validate(template.body);
+    if (error) {
+      this.notify(i18nManager.t('template.invalid', { error }), 'error');
+      return;
+    }
+
+    try {
+      const saved = await templateManager.saveTemplate(template);
+      await this.load(saved.id);
+      this.notify(i18nManager.t('template.saved'), 'success');
+    } catch (err) {
+      console.error('Failed to save template:', err);
+      this.notify(i18nManager.t('template.save_failed'), 'error');
+    }
+  }
+
+  private async delete(): Promise<void> {
+    if (!this.current || !confirm(i18nManager.t('template.delete_confirm'))) return;
+
+    try {
+      await templateManager.deleteTemplate(this.current.id);
+      await this.load();
+    } catch (error) {
+      console.error('Failed to delete template:', error);
+      this.notify(i18nManager.t('template.save_failed'), 'error');
+    }
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('templates-notification', {
+      detail: { message, type }
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,353 @@
+// Webhook 端点编辑器与重试队列组件
+import { browser } from 'wxt/browser';
+import { i18nManager } from '@/lib/i18n';
+import { storageManager } from '@/lib/utils/storage';
+import { EXTENSION_CONFIG } from '@/lib/utils/constants';
+import { WebhookClient, type WebhookQueueItem, type WebhookResult, type WebhookSource } from '@/lib/webhooks';
+import type { WebhookEndpoint } from '@/lib/types';
+
+const QUEUE_KEY = EXTENSION_CONFIG.STORAGE_KEYS.WEBHOOK_QUEUE;
+
+export class WebhooksPanel {
+  private container: HTMLElement;
+  private endpoints: WebhookEndpoint[] = [];
+  private queue: WebhookQueueItem[] = [];
+  /** 正在编辑的端点（新建时尚未加入列表） */
+  private editing: WebhookEndpoint | null = null;
+  private readonly onStorageChanged = (changes: Record<string, { newValue?: unknown }>, area: string) => {
+    if (!this.container.isConnected) {
+      browser.storage.onChanged.removeListener(this.onStorageChanged);
+      return;
+    }
+    if (area === 'local' && changes[QUEUE_KEY]) {
+      this.queue = (changes[QUEUE_KEY].newValue as WebhookQueueItem[] | undefined) || [];
+      this.renderQueue();
+    }
+  };
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    browser.storage.onChanged.addListener(this.onStorageChanged);
+    this.load();
+  }
+
+  private async load(): Promise<void> {
+    this.endpoints = await storageManager.getWebhooks();
+    const response = await browser.runtime.sendMessage({ type: 'WEBHOOK_QUEUE_LIST' });
+    this.queue = response?.success ? response.items : [];
+    this.render();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="webhooks-panel">
+        <section class="settings-section">
+          <h3>🔗 ${i18nManager.t('webhook.title')}</h3>
+          <p class="tagging-description">${i18nManager.t('webhook.description')}</p>
+          ${this.endpoints.length === 0
+            ? `<p class="tagging-description">${i18nManager.t('webhook.empty')}</p>`
+            : `<ul class="tag-rule-list">
+                ${this.endpoints.map(endpoint => `
+                  <li class="tag-rule ${endpoint.enabled ? '' : 'disabled'}">
+                    <label class="tag-rule-main">
+                      <input type="checkbox" data-action="toggle" data-id="${endpoint.id}" ${endpoint.enabled ? 'checked' : ''}>
+                      <span>${this.escapeHTML(endpoint.name || endpoint.url)}</span>
+                      ${endpoint.secret ? `<span class="tag-rule-priority">HMAC</span>` : ''}
+                    </label>
+                    <span class="tag-rule-summary">${this.escapeHTML(endpoint.url)}</span>
+                    <div class="tag-rule-actions">
+                      <button class="secondary-button" data-action="edit" data-id="${endpoint.id}">${i18nManager.t('webhook.edit')}</button>
+                      <button class="secondary-button" data-action="delete" data-id="${endpoint.id}">${i18nManager.t('webhook.delete')}</button>
+                    </div>
+                  </li>
+                `).join('')}
+              </ul>`}
+          ${this.editing ? this.renderEditor(this.editing) : `
+            <div class="action-buttons">
+              <button class="secondary-button" data-action="add">${i18nManager.t('webhook.add')}</button>
+            </div>
+          `}
+        </section>
+
+        <section class="settings-section">
+          <h3>${i18nManager.t('webhook.queue.title')}</h3>
+          <div id="webhook-queue"></div>
+        </section>
+      </div>
+    `;
+
+    this.container.querySelectorAll<HTMLElement>('.webhooks-panel > section:first-child [data-action]').forEach(element => {
+      const action = element.dataset.action!;
+      element.addEventListener(element instanceof HTMLInputElement ? 'change' : 'click', () => this.handleAction(action, element.dataset.id));
+    });
+
+    this.renderQueue();
+  }
+
+  private renderEditor(endpoint: WebhookEndpoint): string {
+    return `
+      <div class="tag-rule-editor">
+        <label class="tagging-field">
+          <span>${i18nManager.t('webhook.name')}</span>
+          <input type="text" name="name" value="${this.escapeHTML(endpoint.name)}">
+        </label>
+        <label class="tagging-field">
+          <span>URL</span>
+          <input type="url" name="url" placeholder="https://example.com/hooks/tweets" value="${this.escapeHTML(endpoint.url)}">
+        </label>
+        <label class="tagging-field webhook-multiline">
+          <span>${i18nManager.t('webhook.headers')}</span>
+          <textarea name="headers" rows="2" placeholder="Authorization: Bearer …">${this.escapeHTML(endpoint.headers.map(header => `${header.name}: ${header.value}`).join('\n'))}</textarea>
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('webhook.secret')}</span>
+          <input type="password" name="secret" placeholder="${this.escapeHTML(i18nManager.t('webhook.secret_placeholder'))}" value="${this.escapeHTML(endpoint.secret || '')}">
+        </label>
+        <label class="tagging-field">
+          <span>${i18nManager.t('webhook.signature_header')}</span>
+          <input type="text" name="signatureHeader" value="${this.escapeHTML(endpoint.signatureHeader)}">
+        </label>
+        <label class="tagging-field webhook-multiline">
+          <span>${i18nManager.t('webhook.template')}</span>
+          <textarea name="payloadTemplate" rows="4" placeholder='{"text": {{content|json}}, "url": {{url|json}}, "tweet": {{payload|json}}}'>${this.escapeHTML(endpoint.payloadTemplate || '')}</textarea>
+        </label>
+        <p class="tagging-description">${i18nManager.t('webhook.template_hint')}</p>
+        <div class="action-buttons">
+          <button class="primary-button" data-action="save">${i18nManager.t('webhook.save')}</button>
+          <button class="secondary-button" data-action="test">${i18nManager.t('webhook.test')}</button>
+          <button class="secondary-button" data-action="cancel">${i18nManager.t('webhook.cancel')}</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private renderQueue(): void {
+    const container = this.container.querySelector('#webhook-queue') as HTMLElement | null;
+    if (!container) return;
+
+    if (this.queue.length === 0) {
+      container.innerHTML = `<p class="outbox-empty">${i18nManager.t('webhook.queue.empty')}</p>`;
+      return;
+    }
+
+    container.innerHTML = `
+      <ul class="outbox-list">
+        ${this.queue.map(item => `
+          <li class="outbox-item ${item.status}">
+            <div class="outbox-item-main">
+              <a href="${this.escapeHTML(item.sourceUrl)}" target="_blank" rel="noopener noreferrer" class="outbox-item-title">
+                ${this.escapeHTML(`${item.endpointName} ← ${item.sourceUrl}`)}
+              </a>
+              <span class="outbox-item-status">${this.escapeHTML(this.getStatusText(item))}</span>
+              ${item.lastError ? `<span class="outbox-item-error">${this.escapeHTML(item.lastError)}</span>` : ''}
+            </div>
+            <div class="outbox-item-actions">
+              <button class="secondary-button" data-action="retry" data-id="${item.id}">${i18nManager.t('notion.outbox.retry')}</button>
+              <button class="secondary-button" data-action="discard" data-id="${item.id}">${i18nManager.t('notion.outbox.discard')}</button>
+            </div>
+          </li>
+        `).join('')}
+      </ul>
+      <div class="action-buttons">
+        <button class="secondary-button" data-action="retry-all">${i18nManager.t('notion.outbox.retry_all')}</button>
+      </div>
+    `;
+
+    container.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => {
+      button.addEventListener('click', () => {
+        const { action, id } = button.dataset;
+        if (action === 'discard') {
+          this.sendQueueAction({ type: 'WEBHOOK_QUEUE_DISCARD', id });
+        } else {
+          this.sendQueueAction({ type: 'WEBHOOK_QUEUE_RETRY', id: action === 'retry' ? id : undefined });
+        }
+      });
+    });
+  }
+
+  private handleAction(action: string, id?: string): void {
+    switch (action) {
+      case 'add':
+        this.editing = WebhookClient.createEndpoint();
+        this.render();
+        return;
+      case 'edit': {
+        const endpoint = this.endpoints.find(item => item.id === id);
+        this.editing = endpoint ? { ...endpoint, headers: [...endpoint.headers] } : null;
+        this.render();
+        return;
+      }
+      case 'cancel':
+        this.editing = null;
+        this.render();
+        return;
+      case 'save':
+        this.save();
+        return;
+      case 'test':
+        this.test();
+        return;
+      case 'toggle':
+        this.persist(this.endpoints.map(item => item.id === id ? { ...item, enabled: !item.enabled } : item));
+        return;
+      case 'delete':
+        if (confirm(i18nManager.t('webhook.delete_confirm'))) {
+          this.persist(this.endpoints.filter(item => item.id !== id));
+        }
+        return;
+    }
+  }
+
+  /**
+   * 读取编辑表单；端点无效时提示并返回 null
+   */
+  private readEditor(): WebhookEndpoint | null {
+    const editor = this.container.querySelector('.tag-rule-editor');
+    if (!editor || !this.editing) return null;
+
+    const value = (name: string) => (editor.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLTextAreaElement).value;
+    const headers = value('headers').split('\n')
+      .map(line => line.trim())
+      .filter(Boolean)
+      .map(line => {
+        const index = line.indexOf(':');
+        return index > 0
+          ? { name: line.slice(0, index).trim(), value: line.slice(index + 1).trim() }
+          : { name: line, value: '' };
+      });
+
+    const endpoint: WebhookEndpoint = {
+      ...this.editing,
+      name: value('name').trim(),
+      url: value('url').trim(),
+      headers,
+      secret: value('secret') || undefined,
+      signatureHeader: value('signatureHeader').trim() || this.editing.signatureHeader,
+      payloadTemplate: value('payloadTemplate').trim() || undefined
+    };
+
+    const error = WebhookClient.validateEndpoint(endpoint);
+    if (error) {
+      this.notify(i18nManager.t('webhook.invalid', { error }), 'error');
+      return null;
+    }
+
+    return endpoint;
+  }
+
+  /**
+   * 申请端点所在站点的访问权限（需在用户点击中发起）
+   */
+  private async requestPermission(endpoint: WebhookEndpoint): Promise<boolean> {
+    try {
+      const url = new URL(endpoint.url);
+      const granted = await browser.permissions.request({ origins: [`${url.protocol}//${url.hostname}/*`] });
+      if (!granted) {
+        this.notify(i18nManager.t('webhook.permission_denied'), 'error');
+      }
+      return granted;
+    } catch (error) {
+      // 地址不在 optional_host_permissions 范围内时 request 会抛出
+      console.error('Failed to request webhook permission:', error);
+      this.notify(i18nManager.t('webhook.permission_failed', { error: error instanceof Error ? error.message : String(error) }), 'error');
+      return false;
+    }
+  }
+
+  private async save(): Promise<void> {
+    const endpoint = this.readEditor();
+    if (!endpoint || !(await this.requestPermission(endpoint))) return;
+
+    const exists = this.endpoints.some(item => item.id === endpoint.id);
+    await this.persist(exists ? this.endpoints.map(item => item.id === endpoint.id ? endpoint : item) : [...this.endpoints, endpoint]);
+  }
+
+  /**
+   * 用示例推文测试当前表单中的端点（不进入重试队列）
+   */
+  private async test(): Promise<void> {
+    const endpoint = this.readEditor();
+    if (!endpoint || !(await this.requestPermission(endpoint))) return;
+
+    try {
+      const result: WebhookResult = await browser.runtime.sendMessage({ type: 'WEBHOOK_TEST', endpoint, source: this.createSample() });
+      if (result?.success) {
+        this.notify(i18nManager.t('webhook.test_success', { status: result.status }), 'success');
+      } else {
+        this.notify(i18nManager.t('webhook.test_failed', { error: result?.error || 'Unknown error' }), 'error');
+      }
+    } catch (error) {
+      console.error('Failed to test webhook:', error);
+      this.notify(i18nManager.t('webhook.test_failed', { error: String(error) }), 'error');
+    }
+  }
+
+  private async persist(endpoints: WebhookEndpoint[]): Promise<void> {
+    try {
+      await storageManager.saveWebhooks(endpoints);
+      this.endpoints = endpoints;
+      this.editing = null;
+      this.render();
+      this.notify(i18nManager.t('webhook.saved'), 'success');
+    } catch (error) {
+      console.error('Failed to save webhooks:', error);
+      this.notify(i18nManager.t('webhook.save_failed'), 'error');
+    }
+  }
+
+  private async sendQueueAction(message: { type: string; id?: string }): Promise<void> {
+    try {
+      const response = await browser.runtime.sendMessage(message);
+      if (!response?.success) {
+        throw new Error(response?.error || 'Unknown error');
+      }
+      this.queue = response.items;
+      this.renderQueue();
+    } catch (error) {
+      console.error('Webhook queue action failed:', error);
+      this.notify(i18nManager.t('notion.outbox.action_failed', { error: error instanceof Error ? error.message : String(error) }), 'error');
+    }
+  }
+
+  private createSample(): WebhookSource {
+    return {
+      type: 'tweet',
+      tweet: {
+        id: '1',
+        author: { username: 'tweetcraft', displayName: 'Tweet Craft' },
+        content: 'Webhook test from Tweet Craft',
+        timestamp: new Date(),
+        metrics: { likes: 0, retweets: 0, replies: 0 },
+        media: [],
+        isThread: false,
+        url: 'https://x.com/tweetcraft/status/1'
+      }
+    };
+  }
+
+  private getStatusText(item: WebhookQueueItem): string {
+    if (item.status === 'failed') {
+      return i18nManager.t('notion.outbox.failed');
+    }
+
+    const seconds = Math.max(0, Math.round((item.nextAttemptAt - Date.now()) / 1000));
+    const time = seconds >= 3600
+      ? `${Math.round(seconds / 3600)}h`
+      : seconds >= 60 ? `${Math.round(seconds / 60)}m` : `${seconds}s`;
+    return i18nManager.t('notion.outbox.pending', { attempts: item.attempts, time });
+  }
+
+  private notify(message: string, type: 'success' | 'error'): void {
+    this.container.dispatchEvent(new CustomEvent('webhook-notification', {
+      detail: { message, type },
+      bubbles: true
+    }));
+  }
+
+  private escapeHTML(text: string): string {
+    const div = document.createElement('div');
+    div.textContent = text;
+    // 同时用于属性值
+    return div.innerHTML.replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,310 @@
+// 推文存档管理器 - 将推文/线程打包为包含 Markdown、JSON 与本地媒体的 ZIP
+import type { TweetData, ThreadData, MediaItem, FormatOptions } from '../types';
+import { EnhancedContentFormatter } from '../formatters/enhanced-content-formatter';
+import { StructuredDataSerializer, type StructuredExport } from '../formatters/structured-data';
+import { createZip, type ZipEntry } from '../utils/zip';
+import { reviveTweetData } from '../utils/date';
+import type { VideoDownloadManager, VideoInfo } from './video-download-manager';
+
+/**
+ * 存档请求（由内容脚本发送，日期已被序列化为字符串）
+ */
+export type ArchiveRequest =
+  | { type: 'tweet'; tweet: TweetData }
+  | { type: 'thread'; thread: ThreadData };
+
+/**
+ * 存档结果
+ */
+export interface ArchiveResult {
+  filename: string;
+  fileCount: number;
+  /** 无法离线保存的媒体数量（如仅有 m3u8 播放列表的视频） */
+  skipped: number;
+}
+
+/**
+ * 存档 JSON 文件结构（在规范 JSON 导出的基础上附加文件映射）
+ */
+type ArchiveManifest = StructuredExport & {
+  archiveVersion: number;
+  /** 原始 URL 到存档内相对路径的映射 */
+  files: Record<string, string>;
+  /** 未能下载的媒体 URL */
+  skipped: string[];
+};
+
+const ARCHIVE_VERSION = 1;
+
+const ARCHIVE_FORMAT_OPTIONS: Omit<FormatOptions, 'mediaPaths'> = {
+  format: 'markdown',
+  includeAuthor: true,
+  includeTimestamp: true,
+  includeMetrics: true,
+  includeMedia: true,
+  includeLink: true
+};
+
+export class ArchiveManager {
+  private videoDownloadManager: VideoDownloadManager;
+
+  constructor(videoDownloadManager: VideoDownloadManager) {
+    this.videoDownloadManager = videoDownloadManager;
+    this.init();
+  }
+
+  private init() {
+    console.log('ArchiveManager initialized');
+
+    browser.runtime.onMessage.addListener((message: any, sender: any, sendResponse: (response: any) => void) => {
+      if (message?.type !== 'ARCHIVE_TWEET') {
+        return false;
+      }
+
+      this.createArchive(message.data, sender?.tab?.id)
+        .then(result => sendResponse({ success: true, ...result }))
+        .catch(error => {
+          console.error('❌ Failed to create archive:', error);
+          sendResponse({ success: false, error: error instanceof Error ? error.message : String(error) });
+        });
+      return true; // 保持消息通道开放
+    });
+  }
+
+  /**
+   * 创建存档并交给下载管理器
+   */
+  async createArchive(request: ArchiveRequest, tabId?: number): Promise<ArchiveResult> {
+    const tweets = request.type === 'thread'
+      ? request.thread.tweets.map(tweet => reviveTweetData(tweet))
+      : [reviveTweetData(request.tweet)];
+    if (tweets.length === 0) {
+      throw new Error('No tweets to archive');
+    }
+
+    const data: TweetData | ThreadData = request.type === 'thread'
+      ? { ...request.thread, createdAt: new Date(request.thread.createdAt), tweets }
+      : tweets[0];
+
+    const root = tweets[0];
+    const baseName = `${this.sanitizeFilename(root.author.username)}_${root.id}`;
+    const entries: ZipEntry[] = [];
+    const files: Record<string, string> = {};
+    const skipped: string[] = [];
+
+    // 作者头像
+    const avatarUrl = root.author.avatar;
+    if (avatarUrl) {
+      const avatar = await this.fetchFile(this.toLargeAvatarUrl(avatarUrl));
+      if (avatar) {
+        const path = `avatar.${this.getExtension(avatar.type, avatarUrl, 'jpg')}`;
+        entries.push({ path: `${baseName}/${path}`, data: avatar.data });
+        files[avatarUrl] = path;
+      } else {
+        skipped.push(avatarUrl);
+      }
+    }
+
+    // 所有推文（含引用推文）的媒体
+    const allVideos = tweets.flatMap(tweet => [...tweet.media, ...(tweet.quotedTweet?.media || [])])
+      .filter(item => item.type === 'video');
+
+    for (const tweet of tweets) {
+      const mediaGroups: Array<{ ownerId: string; media: MediaItem[] }> = [{ ownerId: tweet.id, media: tweet.media }];
+      if (tweet.quotedTweet?.media?.length) {
+        mediaGroups.push({ ownerId: tweet.quotedTweet.id, media: tweet.quotedTweet.media });
+      }
+
+      for (const { ownerId, media } of mediaGroups) {
+        for (let i = 0; i < media.length; i++) {
+          const item = media[i];
+          if (files[item.url]) continue;
+
+          // 网络拦截的视频地址无法对应到具体推文，仅在存档中只有一个视频时使用
+          const file = await this.fetchMediaItem(item, ownerId, allVideos.length === 1 ? tabId : undefined);
+          if (!file) {
+            console.warn('⚠️ 媒体无法离线保存:', item.url);
+            skipped.push(item.url);
+            continue;
+          }
+
+          const path = `media/${ownerId}-${i + 1}.${file.extension}`;
+          entries.push({ path: `${baseName}/${path}`, data: file.data });
+          files[item.url] = path;
+        }
+      }
+    }
+
+    // Markdown 中的媒体链接改写为相对路径
+    const options: FormatOptions = { ...ARCHIVE_FORMAT_OPTIONS, mediaPaths: files };
+    const markdown = request.type === 'thread'
+      ? EnhancedContentFormatter.formatThread(data as ThreadData, options)
+      : EnhancedContentFormatter.formatTweet(root, options);
+    const markdownWithAvatar = avatarUrl && files[avatarUrl]
+      ? `![${root.author.displayName}](${files[avatarUrl]})\n\n${markdown}`
+      : markdown;
+
+    const manifest: ArchiveManifest = {
+      ...(request.type === 'thread'
+        ? StructuredDataSerializer.exportThread(data as ThreadData)
+        : StructuredDataSerializer.exportTweet(root)),
+      archiveVersion: ARCHIVE_VERSION,
+      files,
+      skipped
+    };
+
+    entries.unshift(
+      { path: `${baseName}/${request.type}.md`, data: markdownWithAvatar },
+      { path: `${baseName}/${request.type}.json`, data: JSON.stringify(manifest, null, 2) }
+    );
+
+    const zip = createZip(entries);
+    const filename = `twitter-archives/${baseName}_${this.formatDate(new Date())}.zip`;
+    await this.download(zip, filename);
+
+    console.log(`✅ 存档已生成: ${filename} (${entries.length} 个文件, ${zip.length} 字节)`);
+    return { filename, fileCount: entries.length, skipped: skipped.length };
+  }
+
+  /**
+   * 下载单个媒体项，图片取原图，视频选择最佳质量的 MP4
+   */
+  private async fetchMediaItem(
+    item: MediaItem,
+    ownerId: string,
+    tabId?: number
+  ): Promise<{ data: Uint8Array; extension: string } | null> {
+    if (item.type === 'image') {
+      const file = await this.fetchFile(this.toOriginalImageUrl(item.url));
+      return file ? { data: file.data, extension: this.getExtension(file.type, item.url, 'jpg') } : null;
+    }
+
+    const candidates: VideoInfo[] = [];
+    if (/^https?:\/\//.test(item.url)) {
+      candidates.push({ quality: 'auto', url: item.url, type: 'video/mp4' });
+    }
+    if (item.type === 'video' && tabId !== undefined) {
+      candidates.push(...await this.videoDownloadManager.getVideoUrlsForTweet(ownerId, tabId));
+    }
+
+    // HLS 播放列表无法直接保存为单个文件
+    const playable = candidates.filter(video => /^https?:\/\//.test(video.url) && !video.url.includes('.m3u8'));
+    if (playable.length === 0) {
+      return null;
+    }
+
+    const best = this.videoDownloadManager.selectBestQuality(playable);
+    const file = await this.fetchFile(best.url);
+    return file ? { data: file.data, extension: this.getExtension(file.type, best.url, 'mp4') } : null;
+  }
+
+  private async fetchFile(url: string): Promise<{ data: Uint8Array; type: string } | null> {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return {
+        data: new Uint8Array(await response.arrayBuffer()),
+        type: response.headers.get('content-type') || ''
+      };
+    } catch (error) {
+      console.warn('❌ 下载文件失败:', url, error);
+      return null;
+    }
+  }
+
+  /**
+   * 通过 downloads API 保存 ZIP（Service Worker 中没有 createObjectURL 时使用 data URL）
+   */
+  private async download(zip: Uint8Array, filename: string): Promise<void> {
+    let url: string;
+    let revoke: (() => void) | null = null;
+
+    if (typeof URL.createObjectURL === 'function') {
+      url = URL.createObjectURL(new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' }));
+      revoke = () => URL.revokeObjectURL(url);
+    } else {
+      url = `data:application/zip;base64,${this.toBase64(zip)}`;
+    }
+
+    try {
+      await browser.downloads.download({
+        url,
+        filename,
+        saveAs: false,
+        conflictAction: 'uniquify'
+      });
+    } finally {
+      if (revoke) {
+        setTimeout(revoke, 60000);
+      }
+    }
+  }
+
+  private toBase64(data: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < data.length; i += chunkSize) {
+      binary += String.fromCharCode(...data.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+  }
+
+  /**
+   * 图片地址改为原始分辨率
+   */
+  private toOriginalImageUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      if (parsed.hostname === 'pbs.twimg.com' && parsed.pathname.startsWith('/media/')) {
+        parsed.searchParams.set('name', 'orig');
+        return parsed.toString();
+      }
+    } catch {
+      // 非法 URL 原样返回
+    }
+    return url;
+  }
+
+  /**
+   * 头像地址改为大尺寸版本
+   */
+  private toLargeAvatarUrl(url: string): string {
+    return url.replace(/_(normal|bigger|mini|x96|200x200)(\.\w+)$/, '_400x400$2');
+  }
+
+  private getExtension(contentType: string, url: string, fallback: string): string {
+    const typeMap: Record<string, string> = {
+      'image/jpeg': 'jpg',
+      'image/png': 'png',
+      'image/gif': 'gif',
+      'image/webp': 'webp',
+      'video/mp4': 'mp4'
+    };
+    const byType = typeMap[contentType.split(';')[0].trim()];
+    if (byType) return byType;
+
+    try {
+      const parsed = new URL(url);
+      const format = parsed.searchParams.get('format');
+      if (format) return format;
+      const match = parsed.pathname.match(/\.(\w{2,4})$/);
+      if (match) return match[1].toLowerCase();
+    } catch {
+      // 使用默认扩展名
+    }
+    return fallback;
+  }
+
+  private sanitizeFilename(name: string): string {
+    return name.replace(/[^\w.-]+/g, '_') || 'tweet';
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+  }
+}
+
+export default ArchiveManager;
@@ -1,4 +1,4 @@
-interface VideoInfo {
+export interface VideoInfo {
   quality: string;
   url: string;
   size?: number;
@@ -276,7 +276,7 @@ export class VideoDownloadManager {
     return null;
   }
 
-  private selectBestQuality(videos: VideoInfo[]): VideoInfo {
+  public selectBestQuality(videos: VideoInfo[]): VideoInfo {
     // 按带宽和分辨率排序，选择最高质量
     const sorted = videos.sort((a, b) => {
       // 优先按带宽排序
@@ -489,7 +489,7 @@ export class VideoDownloadManager {
     });
   }
 
-  private async getVideoUrlsForTweet(tweetId: string, tabId?: number): Promise<VideoInfo[]> {
+  public async getVideoUrlsForTweet(tweetId: string, tabId?: number): Promise<VideoInfo[]> {
     if (!tabId) return [];
     
     // 从拦截的网络请求中获取视频URL
@@ -4,10 +4,14 @@ import type {
   ClipboardCapability, 
   TweetData, 
   ThreadData, 
+  ConversationData,
   FormatOptions, 
-  ErrorInfo 
+  ErrorInfo,
+  CopyTemplate
 } from '../types';
 import { contentFormatter } from '../formatters';
+import { historyManager } from '../history';
+import { templateManager } from '../templates';
 import { i18nManager } from '../i18n';
 import { MIME_TYPES, ERROR_MESSAGES } from '../utils/constants';
 
@@ -18,7 +22,7 @@ export class ClipboardManager {
   private static instance: ClipboardManager;
   private capabilities: ClipboardCapability | null = null;
   private lastCopyTime: number = 0;
-  private copyQueue: Array<{ content: string; format: 'html' | 'markdown' | 'text'; resolve: Function; reject: Function }> = [];
+  private copyQueue: Array<{ content: string; format: FormatOptions['format']; resolve: Function; reject: Function }> = [];
   private isProcessingQueue: boolean = false;
 
   private constructor() {
@@ -88,7 +92,10 @@ export class ClipboardManager {
       
       await this.copyToClipboard(formattedContent, options.format);
     
-
+      // 记录到本地复制历史（失败不影响复制结果）
+      historyManager.recordTweet(tweet, options).catch(error => {
+        console.warn('Failed to record copy history:', error);
+      });
       
       // 发送成功通知
       this.notifySuccess('success.tweet_copied');
@@ -114,7 +121,10 @@ export class ClipboardManager {
    
       await this.copyToClipboard(formattedContent, options.format);
       
-              
+      // 记录到本地复制历史（失败不影响复制结果）
+      historyManager.recordThread(thread, options).catch(error => {
+        console.warn('Failed to record copy history:', error);
+      });
       
       // 发送成功通知
       this.notifySuccess('success.thread_copied', { count: thread.tweets.length });
@@ -125,10 +135,46 @@ export class ClipboardManager {
     }
   }
 
+  /**
+   * 复制会话回复树到剪贴板
+   */
+  async copyConversation(conversation: ConversationData, options: FormatOptions): Promise<void> {
+    try {
+      const formattedContent = contentFormatter.formatConversation(conversation, options);
+      await this.copyToClipboard(formattedContent, options.format);
+      this.notifySuccess('success.conversation_copied', {
+        count: conversation.totalCount,
+        participants: conversation.participants.length
+      });
+    } catch (error) {
+      this.handleCopyError(error as Error, 'conversation');
+      throw error;
+    }
+  }
+
+  /**
+   * 使用自定义模板复制推文或线程
+   */
+  async copyWithTemplate(data: TweetData | ThreadData, template: CopyTemplate): Promise<void> {
+    try {
+      const isThread = 'tweets' in data;
+      const formattedContent = isThread
+        ? templateManager.renderThread(template, data)
+        : templateManager.renderTweet(template, data);
+
+      await this.copyToClipboard(formattedContent, template.format);
+
+      this.notifySuccess('success.template_copied', { name: template.name });
+    } catch (error) {
+      this.handleCopyError(error as Error, 'template');
+      throw error;
+    }
+  }
+
   /**
    * 核心剪贴板写入方法 - 多级降级策略
    */
-  private async copyToClipboard(content: string, format: 'html' | 'markdown' | 'text'): Promise<void> {
+  private async copyToClipboard(content: string, format: FormatOptions['format']): Promise<void> {
     // 防止频繁复制
     const now = Date.now();
     if (now - this.lastCopyTime < 100) {
@@ -175,7 +221,7 @@ export class ClipboardManager {
   /**
 * 执行实际的复制操作
    */
-  private async executeCopy(content: string, format: 'html' | 'markdown' | 'text'): Promise<void> {
+  private async executeCopy(content: string, format: FormatOptions['format']): Promise<void> {
     const errors: Error[] = [];
 
     // 方法1: 尝试现代 Clipboard API (支持 HTML + 文本)
@@ -216,7 +262,7 @@ export class ClipboardManager {
   /**
    * 使用现代 Clipboard API 复制 (支持 HTML)
    */
-  private async copyWithModernAPI(content: string, format: 'html' | 'markdown' | 'text'): Promise<void> {
+  private async copyWithModernAPI(content: string, format: FormatOptions['format']): Promise<void> {
     const items: Record<string, Blob> = {};
 
   if (format === 'html') {
@@ -301,7 +347,7 @@ const brs = tempDiv.querySelectorAll('br');
   /**
    * 复制自定义内容
    */
-  async copyCustomContent(content: string, format: 'html' | 'markdown' | 'text' = 'text'): Promise<void> {
+  async copyCustomContent(content: string, format: FormatOptions['format'] = 'text'): Promise<void> {
     try {
       await this.copyToClipboard(content, format);
       this.notifySuccess('success.content_copied');
@@ -1,6 +1,7 @@
 // Twitter Action Buttons with Lucide Icons
 import { createElement } from '../utils/dom';
 import { i18nManager } from '../i18n';
+import type { DestinationDescriptor } from '../destinations';
 // Lucide图标已替换为内联SVG以避免类型问题
 
 export class TwitterActionButtons {
@@ -136,35 +137,95 @@ export class TwitterActionButtons {
   }
 
   /**
-   * 创建Notion保存按钮 (使用Notion图标)
+   * 创建保存目标按钮 (使用目标声明的图标)
    */
-  static createNotionButton(tweetElement: HTMLElement, onClick: (element: HTMLElement, button: HTMLElement) => void): HTMLElement {
+  static createDestinationButton(
+    tweetElement: HTMLElement,
+    destination: Pick<DestinationDescriptor, 'id' | 'name' | 'icon' | 'iconFilled'>,
+    onClick: (element: HTMLElement, button: HTMLElement) => void
+  ): HTMLElement {
+    const label = i18nManager.t('destination.save_to', { name: i18nManager.t(destination.name) });
     const button = createElement('button', {
-      className: 'tsc-notion-button tsc-action-button',
-      'data-testid': 'tsc-notion',
-      'aria-label': i18nManager.t('save_to_notion'),
-      title: i18nManager.t('save_to_notion')
+      className: 'tsc-destination-button tsc-action-button',
+      'data-testid': `tsc-destination-${destination.id}`,
+      'data-destination': destination.id,
+      'aria-label': label,
+      title: label
     });
 
     // 添加图标
     const icon = createElement('div', {
-      className: 'tsc-notion-icon tsc-action-icon'
+      className: `tsc-destination-icon tsc-action-icon${destination.iconFilled ? ' tsc-destination-icon-filled' : ''}`
     });
-    
-    // Notion图标SVG，调整为Twitter风格
+
+    // 目标图标SVG，调整为Twitter风格
     const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
     svg.setAttribute('viewBox', '0 0 24 24');
     svg.setAttribute('width', '18.75');
     svg.setAttribute('height', '18.75');
-    svg.setAttribute('fill', 'currentColor');
-    svg.setAttribute('stroke', 'none');
+    if (destination.iconFilled) {
+      svg.setAttribute('fill', 'currentColor');
+      svg.setAttribute('stroke', 'none');
+    } else {
+      svg.setAttribute('fill', 'none');
+      svg.setAttribute('stroke', 'currentColor');
+      svg.setAttribute('stroke-width', '1.5');
+      svg.setAttribute('stroke-linecap', 'round');
+      svg.setAttribute('stroke-linejoin', 'round');
+    }
     svg.setAttribute('aria-hidden', 'true');
     svg.setAttribute('class', 'r-4qtqp9 r-yyyyoo r-dnmrzs r-bnwqim r-lrvibr r-m6rgpd r-1xvli5t r-1hdv0qi');
-    
-    // Notion Logo SVG Path
-    svg.innerHTML = `
-      <path d="M4.459 4.208c.746.606 1.026.56 2.428.466l13.215-.793c.28 0 .047-.28-.046-.326L17.86 1.968c-.42-.326-.981-.7-2.055-.607L3.533 2.281c-.466.047-.56.28-.374.466zm.793 3.08v13.904c0 .747.373 1.027 1.214.98l14.523-.84c.841-.046.935-.56.935-1.167V6.354c0-.606-.233-.933-.748-.887l-15.177.887c-.56.047-.747.327-.747.933zm14.337-.42c.093.42 0 .84-.42.888l-.7.14v10.264c-.608.327-1.168.514-1.635.514-.748 0-.935-.234-1.495-.933l-4.577-7.186v6.952L12.21 19s0 .84-1.168.84l-3.222.186c-.093-.186 0-.653.327-.746l.84-.233V9.854L7.822 9.76c-.094-.42.14-1.026.793-1.073l3.456-.233 4.764 7.279v-6.44l-1.215-.139c-.093-.514.28-.887.747-.933z"/>
-    `;
+    svg.innerHTML = destination.icon;
+    icon.appendChild(svg);
+
+    button.appendChild(icon);
+
+    // 添加点击事件；已保存时的链接打开保存位置，按钮其余部分仍可再次保存
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const openLink = (event.target as Element).closest<HTMLAnchorElement>('.tsc-destination-open');
+      if (openLink) {
+        window.open(openLink.href, '_blank', 'noopener');
+        return;
+      }
+      onClick(tweetElement, button);
+    });
+
+    return button;
+  }
+
+  /**
+   * 创建存档按钮 (使用归档图标)
+   */
+  static createArchiveButton(tweetElement: HTMLElement, onClick: (element: HTMLElement, button: HTMLElement) => void): HTMLElement {
+    const button = createElement('button', {
+      className: 'tsc-archive-button tsc-action-button',
+      'data-testid': 'tsc-archive',
+      'aria-label': i18nManager.t('archive.save'),
+      title: i18nManager.t('archive.save')
+    });
+
+    // 添加图标
+    const icon = createElement('div', {
+      className: 'tsc-archive-icon tsc-action-icon'
+    });
+
+    // 归档图标SVG，调整为Twitter风格
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('viewBox', '0 0 24 24');
+    svg.setAttribute('width', '18.75');
+    svg.setAttribute('height', '18.75');
+    svg.setAttribute('fill', 'none');
+    svg.setAttribute('stroke', 'currentColor');
+    svg.setAttribute('stroke-width', '1.5');
+    svg.setAttribute('stroke-linecap', 'round');
+    svg.setAttribute('stroke-linejoin', 'round');
+    svg.setAttribute('aria-hidden', 'true');
+    svg.setAttribute('class', 'r-4qtqp9 r-yyyyoo r-dnmrzs r-bnwqim r-lrvibr r-m6rgpd r-1xvli5t r-1hdv0qi');
+
+    // Lucide Archive 图标路径
+    svg.innerHTML = '<rect x="2" y="3" width="20" height="5" rx="1"/><path d="M4 8v11a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8"/><path d="M10 12h4"/>';
     icon.appendChild(svg);
 
     button.appendChild(icon);
@@ -182,11 +243,11 @@ export class TwitterActionButtons {
   /**
    * 插入操作按钮到Twitter操作栏
    */
-  static insertActionButtons(actionsBar: HTMLElement, copyButton: HTMLElement, screenshotButton: HTMLElement, videoDownloadButton?: HTMLElement, notionButton?: HTMLElement): boolean {
+  static insertActionButtons(actionsBar: HTMLElement, copyButton: HTMLElement, screenshotButton: HTMLElement, videoDownloadButton?: HTMLElement, destinationButtons: HTMLElement[] = [], archiveButton?: HTMLElement): boolean {
         try {
       
       // 检查是否已经存在按钮
-      if (actionsBar.querySelector('.tsc-copy-button') || actionsBar.querySelector('.tsc-screenshot-button') || actionsBar.querySelector('.tsc-video-download-button') || actionsBar.querySelector('.tsc-notion-button')) {
+      if (actionsBar.querySelector('.tsc-copy-button') || actionsBar.querySelector('.tsc-screenshot-button') || actionsBar.querySelector('.tsc-video-download-button') || actionsBar.querySelector('.tsc-destination-button')) {
         return true;
       }
 
@@ -204,55 +265,43 @@ export class TwitterActionButtons {
         videoDownloadContainer.appendChild(videoDownloadButton);
       }
 
-      // 如果有Notion按钮，也创建容器
-      let notionContainer: HTMLElement | null = null;
-      if (notionButton) {
-        notionContainer = this.createActionButtonContainer();
-        notionContainer.appendChild(notionButton);
+      // 每个保存目标按钮一个容器
+      const destinationContainers = destinationButtons.map(button => {
+        const container = this.createActionButtonContainer();
+        container.appendChild(button);
+        return container;
+      });
+
+      // 如果有存档按钮，也创建容器
+      let archiveContainer: HTMLElement | null = null;
+      if (archiveButton) {
+        archiveContainer = this.createActionButtonContainer();
+        archiveContainer.appendChild(archiveButton);
       }
 
+      const containers = [
+        copyContainer,
+        screenshotContainer,
+        ...(videoDownloadContainer ? [videoDownloadContainer] : []),
+        ...destinationContainers,
+        ...(archiveContainer ? [archiveContainer] : [])
+      ];
+
       // 查找合适的插入位置（在书签按钮之后，或在最后）
       const bookmarkButton = actionsBar.querySelector('[data-testid="bookmark"]');
       if (bookmarkButton && bookmarkButton.parentElement) {
-        // 在书签按钮后插入
+        // 在书签按钮后按顺序插入
         const bookmarkContainer = bookmarkButton.parentElement;
-        bookmarkContainer.parentNode?.insertBefore(copyContainer, bookmarkContainer.nextSibling);
-        bookmarkContainer.parentNode?.insertBefore(screenshotContainer, copyContainer.nextSibling);
-        
-        // 插入视频下载按钮（如果存在）
-        if (videoDownloadContainer) {
-          bookmarkContainer.parentNode?.insertBefore(videoDownloadContainer, screenshotContainer.nextSibling);
-        }
-        
-        // 插入Notion按钮（如果存在）
-        if (notionContainer) {
-          const lastInserted = videoDownloadContainer || screenshotContainer;
-          bookmarkContainer.parentNode?.insertBefore(notionContainer, lastInserted.nextSibling);
-        }
-        
-        let buttonCount = 2; // copy + screenshot
-        if (videoDownloadButton) buttonCount++;
-        if (notionButton) buttonCount++;
-        console.log(`✅ 已在书签按钮后插入 ${buttonCount} 个操作按钮`);
+        let lastInserted: HTMLElement = bookmarkContainer;
+        containers.forEach(container => {
+          bookmarkContainer.parentNode?.insertBefore(container, lastInserted.nextSibling);
+          lastInserted = container;
+        });
+        console.log(`✅ 已在书签按钮后插入 ${containers.length} 个操作按钮`);
       } else {
         // 在操作栏末尾插入
-        actionsBar.appendChild(copyContainer);
-        actionsBar.appendChild(screenshotContainer);
-        
-        // 插入视频下载按钮（如果存在）
-        if (videoDownloadContainer) {
-          actionsBar.appendChild(videoDownloadContainer);
-        }
-        
-        // 插入Notion按钮（如果存在）
-        if (notionContainer) {
-          actionsBar.appendChild(notionContainer);
-        }
-        
-        let buttonCount = 2; // copy + screenshot
-        if (videoDownloadButton) buttonCount++;
-        if (notionButton) buttonCount++;
-        console.log(`✅ 已在操作栏末尾插入 ${buttonCount} 个操作按钮`);
+        containers.forEach(container => actionsBar.appendChild(container));
+        console.log(`✅ 已在操作栏末尾插入 ${containers.length} 个操作按钮`);
       }
 
       return true;
@@ -262,9 +311,6 @@ export class TwitterActionButtons {
     }
   }
 
-  /**
-   * 创建操作按钮容器（模仿Twitter的样式）
-   */
   private static createActionButtonContainer(): HTMLElement {
     const container = createElement('div', {
     className: 'css-175oi2r r-18u37iz r-1h0z5md r-13awgt0'
@@ -309,6 +355,26 @@ export class TwitterActionButtons {
     }, 2000);
   }
 
+  /**
+   * 设置保存目标按钮的已保存状态；已知保存位置的地址时显示打开链接
+   */
+  static setButtonSaved(button: HTMLElement, label: string, url?: string): void {
+    button.classList.add('tsc-saved');
+    button.setAttribute('aria-label', label);
+    button.setAttribute('title', label);
+
+    button.querySelector('.tsc-destination-open')?.remove();
+    if (url) {
+      const link = createElement('a', {
+        className: 'tsc-destination-open',
+        href: url,
+        target: '_blank',
+        rel: 'noopener noreferrer'
+      }, ['↗']);
+      button.appendChild(link);
+    }
+  }
+
   /**
    * 设置按钮错误状态
    */
@@ -0,0 +1,240 @@
+// 批量选择模式 - 推文复选框、浮动操作栏与批处理进度
+import { i18nManager } from '../i18n';
+import { createElement } from '../utils/dom';
+import type { BatchProgress } from '../utils/batch-processor';
+
+/**
+ * 已选择的推文
+ * snapshot 在勾选时采集，避免虚拟列表回收 DOM 后丢失数据
+ */
+export interface BulkSelectionItem<T> {
+  id: string;
+  element: HTMLElement;
+  snapshot: Promise<T | null>;
+}
+
+export type BulkAction = 'copy' | 'screenshot' | 'notion';
+
+/**
+ * 批量选择回调
+ */
+export interface BulkSelectionHandlers<T> {
+  /** 获取推文唯一标识 */
+  getId: (element: HTMLElement) => string;
+  /** 勾选时采集推文数据 */
+  capture: (element: HTMLElement) => Promise<T | null>;
+  /** 执行批量操作 */
+  onAction: (action: BulkAction, items: BulkSelectionItem<T>[]) => Promise<void>;
+}
+
+/**
+ * 批量选择管理器
+ */
+export class BulkSelectionManager<T> {
+  private active = false;
+  private busy = false;
+  private selection = new Map<string, BulkSelectionItem<T>>();
+  private tray: HTMLElement | null = null;
+  private handlers: BulkSelectionHandlers<T>;
+
+  constructor(handlers: BulkSelectionHandlers<T>) {
+    this.handlers = handlers;
+  }
+
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * 切换选择模式
+   */
+  toggle(force?: boolean): boolean {
+    const next = force ?? !this.active;
+    if (next === this.active) return this.active;
+
+    this.active = next;
+    if (next) {
+      this.renderTray();
+      console.log('☑️ 批量选择模式已开启');
+    } else {
+      this.selection.clear();
+      document.querySelectorAll('.tsc-select-toggle').forEach(node => node.remove());
+      document.querySelectorAll('.tsc-selectable').forEach(node => node.classList.remove('tsc-selectable', 'tsc-selected'));
+      this.tray?.remove();
+      this.tray = null;
+      console.log('☑️ 批量选择模式已关闭');
+    }
+    return this.active;
+  }
+
+  /**
+   * 为推文添加复选框（未开启选择模式时忽略）
+   */
+  attach(element: HTMLElement): void {
+    if (!this.active) return;
+
+    const id = this.handlers.getId(element);
+    const existing = element.querySelector(':scope > .tsc-select-toggle') as HTMLElement | null;
+    if (existing) {
+      // 虚拟列表可能复用同一元素展示其他推文
+      if (existing.dataset.tweetId === id) return;
+      existing.remove();
+    }
+
+    const toggle = createElement('label', {
+      className: 'tsc-select-toggle',
+      title: i18nManager.t('bulk.select')
+    });
+    toggle.dataset.tweetId = id;
+
+    const checkbox = createElement('input', { type: 'checkbox' });
+    checkbox.checked = this.selection.has(id);
+    toggle.appendChild(checkbox);
+
+    // 阻止点击穿透到推文（否则会打开详情页）
+    toggle.addEventListener('click', (event) => event.stopPropagation());
+    checkbox.addEventListener('change', () => this.setSelected(element, id, checkbox.checked));
+
+    element.classList.add('tsc-selectable');
+    element.classList.toggle('tsc-selected', checkbox.checked);
+    element.prepend(toggle);
+
+    // 已选推文重新渲染时更新元素引用
+    const item = this.selection.get(id);
+    if (item) {
+      item.element = element;
+    }
+  }
+
+  /**
+   * 选中当前页面上所有带复选框的推文
+   */
+  selectAllVisible(): void {
+    document.querySelectorAll('.tsc-select-toggle input').forEach(node => {
+      const checkbox = node as HTMLInputElement;
+      if (!checkbox.checked) {
+        checkbox.checked = true;
+        checkbox.dispatchEvent(new Event('change'));
+      }
+    });
+  }
+
+  clearSelection(): void {
+    this.selection.clear();
+    document.querySelectorAll('.tsc-select-toggle input').forEach(node => {
+      (node as HTMLInputElement).checked = false;
+    });
+    document.querySelectorAll('.tsc-selected').forEach(node => node.classList.remove('tsc-selected'));
+    this.updateTray();
+  }
+
+  /**
+   * 按勾选顺序返回已选推文
+   */
+  getSelection(): BulkSelectionItem<T>[] {
+    return Array.from(this.selection.values());
+  }
+
+  /**
+   * 更新进度显示
+   */
+  showProgress(action: BulkAction, progress: BatchProgress): void {
+    const container = this.tray?.querySelector('.tsc-bulk-progress') as HTMLElement | null;
+    if (!container) return;
+
+    container.hidden = false;
+    (container.querySelector('.tsc-bulk-progress-bar') as HTMLElement).style.width = `${progress.percentage}%`;
+    container.querySelector('.tsc-bulk-progress-label')!.textContent = i18nManager.t('bulk.progress', {
+      action: i18nManager.t(`bulk.${action}`),
+      processed: progress.processed,
+      total: progress.total,
+      errors: progress.errors
+    });
+  }
+
+  private setSelected(element: HTMLElement, id: string, selected: boolean): void {
+    if (selected) {
+      this.selection.set(id, {
+        id,
+        element,
+        snapshot: this.handlers.capture(element).catch(error => {
+          console.warn('Failed to capture selected tweet:', error);
+          return null;
+        })
+      });
+    } else {
+      this.selection.delete(id);
+    }
+
+    element.classList.toggle('tsc-selected', selected);
+    this.updateTray();
+  }
+
+  private renderTray(): void {
+    this.tray?.remove();
+    this.tray = createElement('div', {
+      className: 'tsc-bulk-tray',
+      innerHTML: `
+        <div class="tsc-bulk-tray-row">
+          <span class="tsc-bulk-count"></span>
+          <button class="tsc-bulk-button" data-action="select-all">${i18nManager.t('bulk.select_all')}</button>
+          <button class="tsc-bulk-button" data-action="clear">${i18nManager.t('bulk.clear')}</button>
+          <button class="tsc-bulk-button tsc-bulk-primary" data-action="copy">${i18nManager.t('bulk.copy')}</button>
+          <button class="tsc-bulk-button" data-action="screenshot">${i18nManager.t('bulk.screenshot')}</button>
+          <button class="tsc-bulk-button" data-action="notion">${i18nManager.t('bulk.notion')}</button>
+          <button class="tsc-bulk-close" data-action="exit" title="${i18nManager.t('bulk.exit')}">×</button>
+        </div>
+        <div class="tsc-bulk-progress" hidden>
+          <div class="tsc-bulk-progress-track"><div class="tsc-bulk-progress-bar"></div></div>
+          <span class="tsc-bulk-progress-label"></span>
+        </div>
+      `
+    });
+
+    this.tray.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      if (!button) return;
+
+      switch (button.dataset.action) {
+        case 'select-all':
+          this.selectAllVisible();
+          break;
+        case 'clear':
+          this.clearSelection();
+          break;
+        case 'exit':
+          this.toggle(false);
+          break;
+        default:
+          this.runAction(button.dataset.action as BulkAction);
+      }
+    });
+
+    document.body.appendChild(this.tray);
+    this.updateTray();
+  }
+
+  private async runAction(action: BulkAction): Promise<void> {
+    const items = this.getSelection();
+    if (this.busy || items.length === 0) return;
+
+    this.busy = true;
+    this.updateTray();
+    try {
+      await this.handlers.onAction(action, items);
+    } finally {
+      this.busy = false;
+      this.updateTray();
+    }
+  }
+
+  private updateTray(): void {
+    if (!this.tray) return;
+
+    const count = this.selection.size;
+    this.tray.querySelector('.tsc-bulk-count')!.textContent = i18nManager.t('bulk.selected', { count });
+    this.tray.querySelectorAll('[data-action="copy"], [data-action="screenshot"], [data-action="notion"]').forEach(node => {
+      (node as HTMLButtonElement).disabled = this.busy || count === 0;
+    });
+  }
+}
@@ -0,0 +1,111 @@
+// 保存目标按钮的已保存状态 - 收集新出现的推文后按目标批量查询，结果缓存一段时间
+import type { DestinationLink } from '../destinations';
+
+/** 已保存状态缓存的有效期 */
+const SAVED_CACHE_TTL = 5 * 60 * 1000;
+/** 收集新出现的推文后统一查询的等待时间 */
+const SAVED_CHECK_DELAY = 800;
+
+/**
+ * 已保存状态管理器
+ * 查询到已保存的推文时调用 onSaved 更新按钮
+ */
+export class DestinationSavedState {
+  /** 目标 ID → 推文链接 → 已保存的位置（null 表示未保存） */
+  private cache = new Map<string, Map<string, { link: DestinationLink | null; checkedAt: number }>>();
+  /** 目标 ID → 等待批量查询的推文链接及其按钮 */
+  private pending = new Map<string, Map<string, HTMLElement[]>>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private onSaved: (button: HTMLElement, destinationId: string, link: DestinationLink) => void;
+
+  constructor(onSaved: (button: HTMLElement, destinationId: string, link: DestinationLink) => void) {
+    this.onSaved = onSaved;
+  }
+
+  /**
+   * 查询推文是否已保存：缓存有效时直接显示，否则等待片刻与其他新出现的推文一起查询
+   */
+  queue(destinationId: string, tweetUrl: string, button: HTMLElement): void {
+    const cached = this.cache.get(destinationId)?.get(tweetUrl);
+    if (cached && Date.now() - cached.checkedAt < SAVED_CACHE_TTL) {
+      if (cached.link) {
+        this.onSaved(button, destinationId, cached.link);
+      }
+      return;
+    }
+
+    const urls = this.pending.get(destinationId) || new Map<string, HTMLElement[]>();
+    urls.set(tweetUrl, [...(urls.get(tweetUrl) || []), button]);
+    this.pending.set(destinationId, urls);
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), SAVED_CHECK_DELAY);
+    }
+  }
+
+  /**
+   * 保存成功后记录位置，之后出现的同一推文直接显示为已保存
+   */
+  remember(destinationId: string, tweetUrl: string, link: DestinationLink): void {
+    this.getCache(destinationId).set(tweetUrl, { link, checkedAt: Date.now() });
+  }
+
+  clear(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending.clear();
+    this.cache.clear();
+  }
+
+  /**
+   * 按目标批量查询等待中的推文并更新按钮状态；查询失败（如目标未配置）时不显示
+   */
+  private async flush(): Promise<void> {
+    this.timer = null;
+    const pending = this.pending;
+    this.pending = new Map();
+
+    await Promise.all(Array.from(pending.entries()).map(async ([destinationId, buttons]) => {
+      try {
+        const urls = Array.from(buttons.keys());
+        const response = await browser.runtime.sendMessage({ type: 'DESTINATION_EXISTS', destinationId, urls });
+        if (!response?.success) return;
+
+        const checkedAt = Date.now();
+        const cache = this.getCache(destinationId);
+        this.prune(cache, checkedAt);
+        urls.forEach(url => {
+          const link: DestinationLink | null = response.pages[url] || null;
+          cache.set(url, { link, checkedAt });
+          if (!link) return;
+
+          buttons.get(url)!.forEach(button => {
+            if (button.isConnected && !button.classList.contains('tsc-loading')) {
+              this.onSaved(button, destinationId, link);
+            }
+          });
+        });
+      } catch (error) {
+        console.warn(`Failed to check saved tweets in ${destinationId}:`, error);
+      }
+    }));
+  }
+
+  private getCache(destinationId: string): Map<string, { link: DestinationLink | null; checkedAt: number }> {
+    let cache = this.cache.get(destinationId);
+    if (!cache) {
+      cache = new Map();
+      this.cache.set(destinationId, cache);
+    }
+    return cache;
+  }
+
+  private prune(cache: Map<string, { checkedAt: number }>, now: number): void {
+    cache.forEach((entry, url) => {
+      if (now - entry.checkedAt >= SAVED_CACHE_TTL) {
+        cache.delete(url);
+      }
+    });
+  }
+}
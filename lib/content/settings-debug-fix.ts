@@ -26,7 +26,8 @@ export class SettingsDebugFix {
       includeTimestamp: safeSettings.includeTimestamp,
       includeMetrics: safeSettings.includeMetrics,
   includeMedia: safeSettings.includeMedia,
-      includeLink: safeSettings.includeLink
+      includeLink: safeSettings.includeLink,
+      keepShortLinks: safeSettings.keepShortLinks
   };
     
     console.log('最终选项:', options);
@@ -53,6 +54,7 @@ export class SettingsDebugFix {
       includeMetrics: this.validateBoolean(settings.includeMetrics, 'includeMetrics', false),
       includeMedia: this.validateBoolean(settings.includeMedia, 'includeMedia', true),
       includeLink: this.validateBoolean(settings.includeLink, 'includeLink', true),
+      keepShortLinks: this.validateBoolean(settings.keepShortLinks, 'keepShortLinks', false),
       language: settings.language || 'auto'
     };
     
@@ -62,8 +64,8 @@ export class SettingsDebugFix {
   /**
    * 验证格式设置
  */
-  private static validateFormat(format: any): 'html' | 'markdown' | 'text' {
-    if (format === 'html' || format === 'markdown' || format === 'text') {
+  private static validateFormat(format: any): FormatOptions['format'] {
+    if (['html', 'markdown', 'text', 'obsidian', 'json', 'jsonld'].includes(format)) {
       return format;
     }
  console.warn('⚠️ 无效的格式设置:', format, '使用默认值: html');
@@ -0,0 +1,287 @@
+// 时间线采集面板 - 采集条件设置、进度、暂停/取消与结果导出
+import type { FormatOptions, TweetData } from '../types';
+import { i18nManager } from '../i18n';
+import { createElement } from '../utils/dom';
+import type { BatchProgress } from '../utils/batch-processor';
+import {
+  TimelineCollector,
+  DEFAULT_TIMELINE_COLLECT_OPTIONS,
+  type TimelineCollectOptions,
+  type TimelineCollectResult,
+  type TimelineProgress
+} from './timeline-collector';
+
+export type TimelineExportAction = 'copy' | 'download' | 'notion';
+
+const EXPORT_FORMATS: FormatOptions['format'][] = ['markdown', 'obsidian', 'html', 'text', 'json', 'jsonld'];
+
+/**
+ * 采集面板回调
+ */
+export interface TimelineCollectorPanelHandlers {
+  /** 默认导出格式 */
+  getDefaultFormat: () => FormatOptions['format'];
+  /** 导出采集结果 */
+  onExport: (
+    action: TimelineExportAction,
+    format: FormatOptions['format'],
+    tweets: TweetData[],
+    onProgress: (progress: BatchProgress) => void
+  ) => Promise<void>;
+}
+
+/**
+ * 时间线采集面板
+ */
+export class TimelineCollectorPanel {
+  private panel: HTMLElement | null = null;
+  private collector: TimelineCollector;
+  private handlers: TimelineCollectorPanelHandlers;
+  private result: TimelineCollectResult | null = null;
+  private busy = false;
+
+  constructor(collector: TimelineCollector, handlers: TimelineCollectorPanelHandlers) {
+    this.collector = collector;
+    this.handlers = handlers;
+  }
+
+  isOpen(): boolean {
+    return this.panel !== null;
+  }
+
+  /**
+   * 打开面板（已打开时关闭）
+   */
+  toggle(): boolean {
+    if (this.panel) {
+      this.close();
+      return false;
+    }
+    this.open();
+    return true;
+  }
+
+  open(): void {
+    if (this.panel) return;
+
+    this.panel = createElement('div', { className: 'tsc-bulk-tray tsc-timeline-panel' });
+    this.panel.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest('[data-action]') as HTMLElement | null;
+      if (button && !(button as HTMLButtonElement).disabled) {
+        this.handleAction(button.dataset.action || '');
+      }
+    });
+    document.body.appendChild(this.panel);
+    this.renderSetup();
+  }
+
+  close(): void {
+    this.collector.cancel();
+    this.panel?.remove();
+    this.panel = null;
+    this.result = null;
+  }
+
+  private handleAction(action: string): void {
+    switch (action) {
+      case 'start':
+        this.start();
+        break;
+      case 'pause':
+        this.collector.pause();
+        this.renderRunningControls();
+        break;
+      case 'resume':
+        this.collector.resume();
+        this.renderRunningControls();
+        break;
+      case 'cancel':
+        this.collector.cancel();
+        break;
+      case 'restart':
+        this.result = null;
+        this.renderSetup();
+        break;
+      case 'close':
+        this.close();
+        break;
+      case 'copy':
+      case 'download':
+      case 'notion':
+        this.runExport(action);
+        break;
+    }
+  }
+
+  private renderSetup(): void {
+    if (!this.panel) return;
+
+    const defaults = DEFAULT_TIMELINE_COLLECT_OPTIONS;
+    this.panel.innerHTML = `
+      <div class="tsc-bulk-tray-row">
+        <span class="tsc-bulk-count">${i18nManager.t('timeline.title')}</span>
+        <button class="tsc-bulk-close" data-action="close" title="${i18nManager.t('timeline.close')}">×</button>
+      </div>
+      <div class="tsc-timeline-fields">
+        <label>${i18nManager.t('timeline.max_count')}
+          <input type="number" name="maxCount" min="0" step="10" value="${defaults.maxCount}">
+        </label>
+        <label>${i18nManager.t('timeline.since')}
+          <input type="date" name="since">
+        </label>
+        <label>${i18nManager.t('timeline.until')}
+          <input type="date" name="until">
+        </label>
+        <label>${i18nManager.t('timeline.idle_scrolls')}
+          <input type="number" name="maxIdleScrolls" min="1" max="50" value="${defaults.maxIdleScrolls}">
+        </label>
+      </div>
+      <div class="tsc-bulk-tray-row">
+        <span class="tsc-timeline-hint">${i18nManager.t('timeline.hint')}</span>
+        <button class="tsc-bulk-button tsc-bulk-primary" data-action="start">${i18nManager.t('timeline.start')}</button>
+      </div>
+    `;
+  }
+
+  /**
+   * 读取设置表单
+   */
+  private readOptions(): TimelineCollectOptions {
+    const value = (name: string) => (this.panel?.querySelector(`input[name="${name}"]`) as HTMLInputElement | null)?.value || '';
+    const toNumber = (raw: string, fallback: number) => {
+      const parsed = parseInt(raw, 10);
+      return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+    };
+
+    const since = value('since');
+    const until = value('until');
+    return {
+      ...DEFAULT_TIMELINE_COLLECT_OPTIONS,
+      maxCount: toNumber(value('maxCount'), DEFAULT_TIMELINE_COLLECT_OPTIONS.maxCount),
+      maxIdleScrolls: Math.max(1, toNumber(value('maxIdleScrolls'), DEFAULT_TIMELINE_COLLECT_OPTIONS.maxIdleScrolls)),
+      // 日期输入为本地日期，结束日期包含当天
+      since: since ? new Date(`${since}T00:00:00`) : undefined,
+      until: until ? new Date(`${until}T23:59:59.999`) : undefined
+    };
+  }
+
+  private async start(): Promise<void> {
+    if (!this.panel) return;
+
+    const options = this.readOptions();
+    this.panel.innerHTML = `
+      <div class="tsc-bulk-tray-row">
+        <span class="tsc-bulk-count tsc-timeline-status"></span>
+        <span class="tsc-timeline-controls"></span>
+      </div>
+    `;
+    this.renderRunningControls();
+    this.updateStatus({ state: 'running', collected: 0, scrolls: 0, idleScrolls: 0 });
+
+    try {
+      const result = await this.collector.start(options, progress => this.updateStatus(progress));
+      if (!this.panel) return;
+      this.result = result;
+      this.renderResult();
+    } catch (error) {
+      console.error('Timeline collection failed:', error);
+      if (this.panel) {
+        this.updateStatusText(i18nManager.t('timeline.failed'));
+      }
+    }
+  }
+
+  private renderRunningControls(): void {
+    const controls = this.panel?.querySelector('.tsc-timeline-controls');
+    if (!controls) return;
+
+    const paused = this.collector.getState() === 'paused';
+    controls.innerHTML = `
+      <button class="tsc-bulk-button" data-action="${paused ? 'resume' : 'pause'}">
+        ${i18nManager.t(paused ? 'timeline.resume' : 'timeline.pause')}
+      </button>
+      <button class="tsc-bulk-button" data-action="cancel">${i18nManager.t('timeline.cancel')}</button>
+    `;
+  }
+
+  private updateStatus(progress: TimelineProgress): void {
+    const key = progress.state === 'paused' ? 'timeline.paused' : 'timeline.collecting';
+    this.updateStatusText(i18nManager.t(key, { count: progress.collected, scrolls: progress.scrolls }));
+  }
+
+  private updateStatusText(text: string): void {
+    const status = this.panel?.querySelector('.tsc-timeline-status');
+    if (status) {
+      status.textContent = text;
+    }
+  }
+
+  private renderResult(): void {
+    if (!this.panel || !this.result) return;
+
+    const defaultFormat = this.handlers.getDefaultFormat();
+    const count = this.result.tweets.length;
+    this.panel.innerHTML = `
+      <div class="tsc-bulk-tray-row">
+        <span class="tsc-bulk-count">${i18nManager.t('timeline.finished', {
+          count,
+          reason: i18nManager.t(`timeline.reason_${this.result.reason}`)
+        })}</span>
+        <button class="tsc-bulk-close" data-action="close" title="${i18nManager.t('timeline.close')}">×</button>
+      </div>
+      <div class="tsc-bulk-tray-row">
+        <select class="tsc-timeline-format">
+          ${EXPORT_FORMATS.map(format => `
+            <option value="${format}" ${format === defaultFormat ? 'selected' : ''}>${format.toUpperCase()}</option>
+          `).join('')}
+        </select>
+        <button class="tsc-bulk-button tsc-bulk-primary" data-action="copy">${i18nManager.t('timeline.copy')}</button>
+        <button class="tsc-bulk-button" data-action="download">${i18nManager.t('timeline.download')}</button>
+        <button class="tsc-bulk-button" data-action="notion">${i18nManager.t('bulk.notion')}</button>
+        <button class="tsc-bulk-button" data-action="restart">${i18nManager.t('timeline.restart')}</button>
+      </div>
+      <div class="tsc-bulk-progress" hidden>
+        <div class="tsc-bulk-progress-track"><div class="tsc-bulk-progress-bar"></div></div>
+        <span class="tsc-bulk-progress-label"></span>
+      </div>
+    `;
+    this.updateExportButtons(count === 0);
+  }
+
+  private async runExport(action: TimelineExportAction): Promise<void> {
+    if (!this.panel || !this.result || this.busy || this.result.tweets.length === 0) return;
+
+    const format = ((this.panel.querySelector('.tsc-timeline-format') as HTMLSelectElement | null)?.value
+      || this.handlers.getDefaultFormat()) as FormatOptions['format'];
+
+    this.busy = true;
+    this.updateExportButtons(true);
+    try {
+      await this.handlers.onExport(action, format, this.result.tweets, progress => this.showProgress(progress));
+    } finally {
+      this.busy = false;
+      this.updateExportButtons(false);
+    }
+  }
+
+  private showProgress(progress: BatchProgress): void {
+    const container = this.panel?.querySelector('.tsc-bulk-progress') as HTMLElement | null;
+    if (!container) return;
+
+    container.hidden = false;
+    (container.querySelector('.tsc-bulk-progress-bar') as HTMLElement).style.width = `${progress.percentage}%`;
+    container.querySelector('.tsc-bulk-progress-label')!.textContent = i18nManager.t('bulk.progress', {
+      action: i18nManager.t('bulk.notion'),
+      processed: progress.processed,
+      total: progress.total,
+      errors: progress.errors
+    });
+  }
+
+  private updateExportButtons(disabled: boolean): void {
+    this.panel?.querySelectorAll('[data-action="copy"], [data-action="download"], [data-action="notion"], [data-action="restart"]')
+      .forEach(node => {
+        (node as HTMLButtonElement).disabled = disabled;
+      });
+  }
+}
@@ -0,0 +1,213 @@
+// 时间线采集器 - 自动滚动个人主页、搜索结果或书签页并收集推文
+import type { TweetData } from '../types';
+import { tweetParser } from '../parsers';
+
+/**
+ * 采集选项
+ */
+export interface TimelineCollectOptions {
+  /** 最多采集条数，0 表示不限制 */
+  maxCount: number;
+  /** 只保留此时间之后发布的推文 */
+  since?: Date;
+  /** 只保留此时间之前发布的推文 */
+  until?: Date;
+  /** 连续多少次滚动没有新推文后停止 */
+  maxIdleScrolls: number;
+  /** 每次滚动后等待页面加载的时间（毫秒） */
+  scrollDelay: number;
+}
+
+export type TimelineCollectorState = 'idle' | 'running' | 'paused' | 'finished';
+
+/**
+ * 停止原因
+ */
+export type TimelineStopReason = 'count' | 'date' | 'idle' | 'cancelled';
+
+export interface TimelineProgress {
+  state: TimelineCollectorState;
+  collected: number;
+  scrolls: number;
+  idleScrolls: number;
+}
+
+export interface TimelineCollectResult {
+  tweets: TweetData[];
+  reason: TimelineStopReason;
+  scrolls: number;
+}
+
+export const DEFAULT_TIMELINE_COLLECT_OPTIONS: TimelineCollectOptions = {
+  maxCount: 200,
+  maxIdleScrolls: 5,
+  scrollDelay: 1200
+};
+
+/**
+ * 连续遇到多少条早于起始时间的推文才认为已越过日期范围
+ * （置顶推文会打乱时间顺序，不能遇到第一条就停止）
+ */
+const DATE_STOP_THRESHOLD = 5;
+
+/**
+ * 时间线采集器
+ */
+export class TimelineCollector {
+  private state: TimelineCollectorState = 'idle';
+  private tweets = new Map<string, TweetData>();
+  /** 已处理过的推文 ID（包含不在日期范围内的） */
+  private seenIds = new Set<string>();
+  /** 连续遇到的早于起始时间的推文数 */
+  private olderStreak = 0;
+  private resumeWaiter: (() => void) | null = null;
+  private cancelled = false;
+
+  getState(): TimelineCollectorState {
+    return this.state;
+  }
+
+  /**
+   * 开始采集，直到满足停止条件或被取消
+   */
+  async start(
+    options: TimelineCollectOptions,
+    onProgress?: (progress: TimelineProgress) => void
+  ): Promise<TimelineCollectResult> {
+    if (this.state === 'running' || this.state === 'paused') {
+      throw new Error('Timeline collection already in progress');
+    }
+
+    this.state = 'running';
+    this.cancelled = false;
+    this.tweets.clear();
+    this.seenIds.clear();
+    this.olderStreak = 0;
+
+    let scrolls = 0;
+    let idleScrolls = 0;
+    let reason: TimelineStopReason = 'idle';
+    const report = () => onProgress?.({ state: this.state, collected: this.tweets.size, scrolls, idleScrolls });
+
+    console.log('📜 开始采集时间线:', options);
+
+    try {
+      while (true) {
+        await this.waitIfPaused();
+        if (this.cancelled) {
+          reason = 'cancelled';
+          break;
+        }
+
+        const seen = await this.harvestVisible(options);
+        report();
+
+        if (options.maxCount > 0 && this.tweets.size >= options.maxCount) {
+          reason = 'count';
+          break;
+        }
+        if (this.olderStreak >= DATE_STOP_THRESHOLD) {
+          reason = 'date';
+          break;
+        }
+
+        idleScrolls = seen > 0 ? 0 : idleScrolls + 1;
+        if (idleScrolls > options.maxIdleScrolls) {
+          reason = 'idle';
+          break;
+        }
+
+        window.scrollBy({ top: Math.round(window.innerHeight * 0.8), behavior: 'auto' });
+        scrolls++;
+        await new Promise(resolve => setTimeout(resolve, options.scrollDelay));
+      }
+    } finally {
+      this.state = 'finished';
+      this.resumeWaiter = null;
+    }
+
+    report();
+    console.log(`📜 时间线采集结束（${reason}）：${this.tweets.size} 条推文，滚动 ${scrolls} 次`);
+
+    return {
+      tweets: Array.from(this.tweets.values()),
+      reason,
+      scrolls
+    };
+  }
+
+  pause(): void {
+    if (this.state === 'running') {
+      this.state = 'paused';
+    }
+  }
+
+  resume(): void {
+    if (this.state === 'paused') {
+      this.state = 'running';
+      this.resumeWaiter?.();
+      this.resumeWaiter = null;
+    }
+  }
+
+  /**
+   * 取消采集，已采集的推文仍会作为结果返回
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.resume();
+  }
+
+  /**
+   * 采集当前页面上可见的推文，返回首次出现的推文数（不论是否在日期范围内），
+   * 用于判断页面是否还在加载新内容
+   */
+  private async harvestVisible(options: TimelineCollectOptions): Promise<number> {
+    let seen = 0;
+
+    for (const element of tweetParser.findTweetElements()) {
+      const [tweet] = await tweetParser.parseTweets([element]);
+      if (!tweet || this.seenIds.has(tweet.id)) {
+        continue;
+      }
+
+      seen++;
+      this.seenIds.add(tweet.id);
+
+      const match = TimelineCollector.matchDateRange(tweet, options);
+      if (match === 'older') {
+        this.olderStreak++;
+        continue;
+      }
+      this.olderStreak = 0;
+      if (match === 'newer') {
+        continue;
+      }
+      if (options.maxCount > 0 && this.tweets.size >= options.maxCount) {
+        continue;
+      }
+
+      this.tweets.set(tweet.id, tweet);
+    }
+
+    return seen;
+  }
+
+  /**
+   * 判断推文是否在日期范围内
+   */
+  static matchDateRange(tweet: TweetData, options: Pick<TimelineCollectOptions, 'since' | 'until'>): 'older' | 'newer' | 'in-range' {
+    const time = new Date(tweet.timestamp).getTime();
+    if (isNaN(time)) return 'in-range';
+    if (options.since && time < options.since.getTime()) return 'older';
+    if (options.until && time > options.until.getTime()) return 'newer';
+    return 'in-range';
+  }
+
+  private waitIfPaused(): Promise<void> {
+    if (this.state !== 'paused') return Promise.resolve();
+    return new Promise(resolve => {
+      this.resumeWaiter = resolve;
+    });
+  }
+}
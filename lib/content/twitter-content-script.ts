@@ -1,8 +1,10 @@
 // 主要的 Twitter 内容脚本类
 
 import type { ExtensionSettings, TweetData, ThreadData, FormatOptions } from '../types';
-import { tweetParser, threadParser } from '../parsers';
+import { templateManager } from '../templates';
+import { tweetParser, threadParser, conversationParser } from '../parsers';
 import { clipboardManager } from '../clipboard';
+import { contentFormatter } from '../formatters';
 import { getSettings } from '../utils/storage';
 import { initializeI18n, i18nManager } from '../i18n';
 import { createPerformantObserver, BatchProcessor } from '../utils/performance';
@@ -12,7 +14,15 @@ import { TwitterActionsBarFixEnhanced } from './twitter-actions-bar-fix-enhanced
 import { TwitterDebugHelper } from './debug-helper';
 import { SettingsDebugFix } from './settings-debug-fix';
 import { TwitterActionButtons } from './action-buttons';
-import { NotionButtonManager } from '../notion/button-manager';
+import { NotionSavePrompt } from '../notion/save-prompt';
+import { TweetExtractor } from '../notion/tweet-extractor';
+import type { WebhookSource, WebhookDispatchResult } from '../webhooks';
+import type { DestinationDescriptor, DestinationLink, DestinationPayload, DestinationPrompt, DestinationResult } from '../destinations';
+import { DestinationSavedState } from './destination-saved-state';
+import { BulkSelectionManager, type BulkAction, type BulkSelectionItem } from './bulk-selection';
+import { TimelineCollector } from './timeline-collector';
+import { TimelineCollectorPanel, type TimelineExportAction } from './timeline-collector-panel';
+import { batchProcessor, type BatchProgress, type BatchResult } from '../utils/batch-processor';
 import TwitterVideoService from '../services/twitter-video-service';
 
 export class TwitterContentScript {
@@ -22,12 +32,33 @@ export class TwitterContentScript {
   private processedTweets: Set<string> = new Set();
   private currentSettings: ExtensionSettings | null = null;
   private styleSheetId = 'twitter-super-copy-styles';
-  private notionButtonManager?: NotionButtonManager;
+  /** 已配置的保存目标，每个目标在操作栏上显示一个按钮 */
+  private destinations: DestinationDescriptor[] = [];
+  /** 保存前需要在页面上交互的目标 */
+  private destinationPrompts = new Map<string, DestinationPrompt>();
+  private destinationSavedState: DestinationSavedState;
   private videoService: TwitterVideoService;
+  private lastContextMenuTweet: HTMLElement | null = null;
+  private bulkSelection: BulkSelectionManager<TweetData>;
+  private timelinePanel: TimelineCollectorPanel;
 
   constructor() {
     console.log('TwitterContentScript instance created');
     this.videoService = new TwitterVideoService();
+    this.destinationPrompts.set('notion', new NotionSavePrompt((message, type) => this.showToast(message, type)));
+    this.destinationSavedState = new DestinationSavedState((button, destinationId, link) => this.markDestinationSaved(button, destinationId, link));
+    this.bulkSelection = new BulkSelectionManager<TweetData>({
+      getId: (element) => this.getElementId(element),
+      capture: (element) => this.captureBulkSnapshot(element),
+      onAction: (action, items) => this.handleBulkAction(action, items)
+    });
+    this.timelinePanel = new TimelineCollectorPanel(
+      new TimelineCollector(),
+      {
+        getDefaultFormat: () => SettingsDebugFix.createFormatOptions(this.currentSettings).format,
+        onExport: (action, format, tweets, onProgress) => this.handleTimelineExport(action, format, tweets, onProgress)
+      }
+    );
   }
 
   /**
@@ -53,6 +84,10 @@ export class TwitterContentScript {
   
       // 加载设置
       await this.loadSettings();
+
+      // 加载保存目标，配置变化后重新加载（只影响之后处理的推文）
+      await this.loadDestinations();
+      browser.storage.onChanged.addListener(debounce(() => this.loadDestinations(), 500));
       
       // 初始化各个子系统
       this.setupBatchProcessor();
@@ -61,10 +96,6 @@ export class TwitterContentScript {
       this.setupEventListeners();
       this.setupMessageListeners();
       
-            
-      // 初始化 Notion 按钮管理器
-      this.initializeNotionButtonManager();
-      
     // 立即处理已存在的推文，参考tweet-craft的实现
       await this.processExistingTweetsImmediate();
   
@@ -355,6 +386,10 @@ foundElements.add(tweetElement);
   private async processTweetBatch(tweetElements: HTMLElement[]): Promise<void> {
     for (const element of tweetElements) {
       try {
+        // 批量选择模式下为新出现的推文添加复选框
+        this.bulkSelection.attach(element);
+
+
         // 避免重复处理
         const elementId = this.getElementId(element);
       if (this.processedTweets.has(elementId)) {
@@ -580,7 +615,7 @@ return null;
     }
 
     // 检查是否已经有操作按钮
-    const existingButton = element.querySelector('.tsc-copy-button, .tsc-screenshot-button, .tsc-notion-button');
+    const existingButton = element.querySelector('.tsc-copy-button, .tsc-screenshot-button, .tsc-destination-button');
     if (existingButton) {
       element.classList.add('tsc-processed');
       return;
@@ -602,10 +637,10 @@ return null;
         }
       }
 
-      // 创建复制按钮、截图按钮和Notion按钮
+      // 创建复制按钮、截图按钮和保存目标按钮
       const copyButton = TwitterActionButtons.createCopyButton(element, (el, btn) => this.handleCopyClick(el, btn));
       const screenshotButton = TwitterActionButtons.createScreenshotButton(element, (el, btn) => this.handleScreenshotClick(el, btn));
-      const notionButton = TwitterActionButtons.createNotionButton(element, (el, btn) => this.handleNotionClick(el, btn));
+      const destinationButtons = this.createDestinationButtons(element);
       
       // 检查是否有视频，如果有就创建视频下载按钮
       let videoDownloadButton: HTMLElement | undefined;
@@ -613,7 +648,9 @@ return null;
         videoDownloadButton = TwitterActionButtons.createVideoDownloadButton(element, (el, btn) => this.handleVideoDownloadClick(el, btn));
       }
       
-      const insertSuccess = TwitterActionButtons.insertActionButtons(actionsBar, copyButton, screenshotButton, videoDownloadButton, notionButton);
+      const archiveButton = TwitterActionButtons.createArchiveButton(element, (el, btn) => this.handleArchiveClick(el, btn));
+      
+      const insertSuccess = TwitterActionButtons.insertActionButtons(actionsBar, copyButton, screenshotButton, videoDownloadButton, destinationButtons, archiveButton);
       
    if (insertSuccess) {
         element.classList.remove('tsc-processing');
@@ -644,7 +681,7 @@ return null;
     }
  
     // 检查是否已经有操作按钮 - 更严格的检查
-    const existingButton = element.querySelector('.tsc-copy-button, .tsc-screenshot-button, .tsc-notion-button');
+    const existingButton = element.querySelector('.tsc-copy-button, .tsc-screenshot-button, .tsc-destination-button');
     if (existingButton) {
       console.log('Action buttons already exist, marking as processed');
       element.classList.add('tsc-processed');
@@ -689,10 +726,10 @@ return null;
      return;
         }
 
-// 创建复制按钮、截图按钮和Notion按钮
+// 创建复制按钮、截图按钮和保存目标按钮
       const copyButton = TwitterActionButtons.createCopyButton(element, (el, btn) => this.handleCopyClick(el, btn));
       const screenshotButton = TwitterActionButtons.createScreenshotButton(element, (el, btn) => this.handleScreenshotClick(el, btn));
-      const notionButton = TwitterActionButtons.createNotionButton(element, (el, btn) => this.handleNotionClick(el, btn));
+      const destinationButtons = this.createDestinationButtons(element);
       
       // 检查是否有视频，如果有就创建视频下载按钮
       let videoDownloadButton: HTMLElement | undefined;
@@ -700,8 +737,10 @@ return null;
         videoDownloadButton = TwitterActionButtons.createVideoDownloadButton(element, (el, btn) => this.handleVideoDownloadClick(el, btn));
       }
      
-   // 插入按钮 - 使用新的四按钮插入方法
-   const insertSuccess = TwitterActionButtons.insertActionButtons(actionsBar, copyButton, screenshotButton, videoDownloadButton, notionButton);
+      const archiveButton = TwitterActionButtons.createArchiveButton(element, (el, btn) => this.handleArchiveClick(el, btn));
+     
+   // 插入按钮
+   const insertSuccess = TwitterActionButtons.insertActionButtons(actionsBar, copyButton, screenshotButton, videoDownloadButton, destinationButtons, archiveButton);
    if (!insertSuccess) {
   console.error('Failed to insert copy button into actions bar');
           element.classList.remove('tsc-processing');
@@ -810,9 +849,10 @@ try {
       // 检查是否为线程
       const threadInfo = await threadParser.detectThreadFromTweet(tweetElement);
       
-      if (threadInfo.isPartOfThread && threadInfo.threadData && threadInfo.threadData.tweets.length > 1) {
+      const threadData = threadInfo.threadData;
+      if (threadInfo.isPartOfThread && threadData && (threadData.tweets.length > 1 || !threadData.isComplete)) {
         // 显示线程复制选择对话框
-        this.showThreadCopyDialog(tweetElement, threadInfo.threadData, button);
+        this.showThreadCopyDialog(tweetElement, threadData, button);
       } else {
         // 直接复制单条推文
         await this.copySingleTweet(tweetElement);
@@ -922,63 +962,125 @@ try {
   }
 
   /**
-   * 处理Notion按钮点击
+   * 加载保存目标列表
    */
-  private async handleNotionClick(tweetElement: HTMLElement, button: HTMLElement): Promise<void> {
+  private async loadDestinations(): Promise<void> {
     try {
-      // 显示加载状态
-      TwitterActionButtons.setButtonLoading(button, true);
-
-      // 确保推文内容已经展开，包含 "Show more" 部分
-      await this.expandTweetContent(tweetElement);
+      const response = await browser.runtime.sendMessage({ type: 'DESTINATION_LIST' });
+      this.destinations = (response?.destinations as DestinationDescriptor[] | undefined || [])
+        .filter(destination => destination.configured);
+    } catch (error) {
+      console.warn('Failed to load destinations:', error);
+    }
+  }
 
-      // 动态导入Notion相关模块
-      const { TweetExtractor } = await import('../notion/tweet-extractor');
-      
-      // 提取推文数据
-      const tweetData = TweetExtractor.extractTweetData(tweetElement);
-      if (!tweetData) {
-        throw new Error('无法提取推文数据');
+  /**
+   * 为每个已配置的保存目标创建按钮
+   */
+  private createDestinationButtons(element: HTMLElement): HTMLElement[] {
+    const tweetUrl = TweetExtractor.extractTweetUrl(element);
+    return this.destinations.map(destination => {
+      const button = TwitterActionButtons.createDestinationButton(
+        element,
+        destination,
+        (el, btn) => this.handleDestinationClick(destination, el, btn)
+      );
+      if (tweetUrl) {
+        this.destinationSavedState.queue(destination.id, tweetUrl, button);
       }
+      return button;
+    });
+  }
 
-      // 自动生成标签
-      const autoTags = TweetExtractor.generateTagsFromContent(tweetData.content);
-      tweetData.tags = autoTags;
+  /**
+   * 显示已保存到目标的状态
+   */
+  private markDestinationSaved(button: HTMLElement, destinationId: string, link: DestinationLink): void {
+    const destination = this.destinations.find(item => item.id === destinationId);
+    const name = destination ? i18nManager.t(destination.name) : destinationId;
+    TwitterActionButtons.setButtonSaved(button, i18nManager.t('destination.saved_hint', { name }), link.url);
+  }
 
-      // 发送到background script检查是否已存在
-      const existsResponse = await browser.runtime.sendMessage({
-        type: 'NOTION_CHECK_EXISTS',
-        url: tweetData.url
-      });
+  /**
+   * 处理保存目标按钮点击
+   */
+  private async handleDestinationClick(destination: DestinationDescriptor, tweetElement: HTMLElement, button: HTMLElement): Promise<void> {
+    const name = i18nManager.t(destination.name);
 
-      if (existsResponse && existsResponse.exists) {
-        this.showToast(i18nManager.t('notion_already_exists') || 'Tweet already exists in Notion', 'info');
-        TwitterActionButtons.setButtonSuccess(button);
-        return;
+    try {
+      // 需要交互的目标（如 Notion 选择数据库与注释）先补充保存内容，取消时不保存
+      let payload: DestinationPayload | null = await this.captureDestinationPayload(tweetElement);
+      const prompt = this.destinationPrompts.get(destination.id);
+      if (prompt) {
+        payload = await prompt.prompt(tweetElement, payload);
+        if (!payload) return;
       }
 
-      // 发送到background script保存
-      const result = await browser.runtime.sendMessage({
-        type: 'NOTION_SAVE_TWEET',
-        data: tweetData
+      // 显示加载状态
+      TwitterActionButtons.setButtonLoading(button, true);
+
+      const result: DestinationResult | undefined = await browser.runtime.sendMessage({
+        type: 'DESTINATION_SAVE',
+        destinationId: destination.id,
+        payload
       });
 
-      if (result && result.success) {
+      if (result?.success) {
         TwitterActionButtons.setButtonSuccess(button);
-        this.showToast(i18nManager.t('notion_save_success') || 'Tweet saved to Notion!', 'success');
+        if (result.link) {
+          this.destinationSavedState.remember(destination.id, TweetExtractor.extractTweetUrl(tweetElement) || payload.tweet.url, result.link);
+          this.markDestinationSaved(button, destination.id, result.link);
+        }
+        this.showToast(this.getDestinationSavedMessage(name, result), result.action === 'skipped' ? 'info' : 'success');
+      } else if (result?.queued) {
+        this.showToast(i18nManager.t('destination.queued', { name }), 'info');
       } else {
-        throw new Error(result?.error || 'Failed to save to Notion');
+        throw new Error(result?.error || `Failed to save to ${destination.id}`);
       }
 
     } catch (error) {
-      console.error('Failed to save to Notion:', error);
+      console.error(`Failed to save to ${destination.id}:`, error);
       TwitterActionButtons.setButtonError(button);
-      this.showToast(i18nManager.t('notion_save_failed') || 'Failed to save to Notion', 'error');
+      this.showToast(i18nManager.t('destination.save_failed', {
+        name,
+        error: error instanceof Error ? error.message : String(error)
+      }), 'error');
     } finally {
       TwitterActionButtons.setButtonLoading(button, false);
     }
   }
 
+  /**
+   * 采集保存到目标的数据（确保 "Show more" 部分已展开）
+   */
+  private async captureDestinationPayload(tweetElement: HTMLElement): Promise<DestinationPayload> {
+    await this.expandTweetContent(tweetElement);
+
+    const tweet = await tweetParser.parseTweet(tweetElement);
+    if (!tweet) {
+      throw new Error('无法提取推文数据');
+    }
+    return { tweet };
+  }
+
+  /**
+   * 根据已存在处理方式的结果选择提示文案
+   */
+  private getDestinationSavedMessage(name: string, result: DestinationResult): string {
+    switch (result.action) {
+      case 'updated':
+        return i18nManager.t('destination.updated', { name });
+      case 'appended':
+        return i18nManager.t('destination.appended', { name });
+      case 'skipped':
+        return i18nManager.t('destination.skipped', { name });
+      default:
+        return result.target
+          ? i18nManager.t('destination.saved_to', { name, target: result.target })
+          : i18nManager.t('destination.saved', { name });
+    }
+  }
+
   /**
    * 查找主推文的Show more按钮，排除引用推文内的按钮
    */
@@ -1143,7 +1245,7 @@ try {
   /**
    * 复制单条推文
    */
-  private async copySingleTweet(tweetElement: HTMLElement): Promise<void> {
+  private async copySingleTweet(tweetElement: HTMLElement, format?: FormatOptions['format']): Promise<void> {
     // 首先尝试展开长推文内容
     await this.expandTweetContent(tweetElement);
     
@@ -1157,10 +1259,90 @@ try {
 
         // 使用调试工具创建格式选项
     const options = SettingsDebugFix.createFormatOptions(this.currentSettings);
+    if (format) {
+      options.format = format;
+    }
 
     await clipboardManager.copyTweet(tweetData, options);
   }
 
+  /**
+   * 使用自定义模板复制推文或所在线程
+   */
+  private async copyWithTemplate(tweetElement: HTMLElement, templateId: string): Promise<void> {
+    const template = await templateManager.getTemplate(templateId);
+    if (!template) {
+      throw new Error(`Template not found: ${templateId}`);
+    }
+
+    await this.expandTweetContent(tweetElement);
+
+    const tweetData = await tweetParser.parseTweet(tweetElement);
+    if (!tweetData) {
+      throw new Error('Failed to parse tweet data');
+    }
+
+    if (template.scope === 'thread') {
+      const threadData = await threadParser.parseThread(tweetElement, { walk: true });
+      await clipboardManager.copyWithTemplate(threadData || {
+        id: tweetData.id,
+        tweets: [tweetData],
+        totalCount: 1,
+        author: tweetData.author,
+        createdAt: tweetData.timestamp,
+        isComplete: true
+      }, template);
+    } else {
+      await clipboardManager.copyWithTemplate(tweetData, template);
+    }
+
+    this.showToast(i18nManager.t('success.template_copied', { name: template.name }), 'success');
+  }
+
+  /**
+   * 发送推文或所在线程到已启用的 Webhook 端点
+   */
+  private async sendToWebhook(tweetElement: HTMLElement, scope: 'tweet' | 'thread'): Promise<void> {
+    await this.expandTweetContent(tweetElement);
+
+    const tweetData = await tweetParser.parseTweet(tweetElement);
+    if (!tweetData) {
+      throw new Error('Failed to parse tweet data');
+    }
+
+    let source: WebhookSource = { type: 'tweet', tweet: tweetData };
+    if (scope === 'thread') {
+      this.showToast(i18nManager.t('thread.walking'), 'info');
+      const threadData = await threadParser.parseThread(tweetElement, { walk: true });
+      source = {
+        type: 'thread',
+        thread: threadData || {
+          id: tweetData.id,
+          tweets: [tweetData],
+          totalCount: 1,
+          author: tweetData.author,
+          createdAt: tweetData.timestamp,
+          isComplete: true
+        }
+      };
+    }
+
+    const response = await browser.runtime.sendMessage({ type: 'WEBHOOK_SEND', source });
+    const results: WebhookDispatchResult[] = response?.results || [];
+    const failed = results.filter(result => !result.success);
+
+    if (!response?.results) {
+      this.showToast(i18nManager.t('webhook.send_failed', { error: response?.error || 'Unknown error' }), 'error');
+    } else if (failed.length === 0) {
+      this.showToast(i18nManager.t('webhook.sent', { count: results.length }), 'success');
+    } else if (failed.every(result => result.queued)) {
+      this.showToast(i18nManager.t('webhook.queued', { count: failed.length }), 'info');
+    } else {
+      const error = failed.map(result => `${result.endpointName}: ${result.error}`).join('; ');
+      this.showToast(i18nManager.t('webhook.send_failed', { error }), 'error');
+    }
+  }
+
   /**
    * 简单文本复制作为备用方案
    */
@@ -1192,16 +1374,20 @@ try {
       await this.copySingleTweet(tweetElement);
           break;
           case 'thread':
-  await this.copyFullThread(threadData);
+            // 打开会话页遍历完整线程，失败时使用已读取的部分
+            this.removeDialog(dialog);
+            this.showToast(i18nManager.t('thread.walking'), 'info');
+  await this.copyFullThread(await threadParser.parseThread(tweetElement, { walk: true }) || threadData);
     break;
-               case 'from-here':
-         const currentTweet = await tweetParser.parseTweet(tweetElement);
-    const position = threadData.tweets.findIndex(tweet => tweet.id === currentTweet?.id) + 1;
-   const partialThread = await threadParser.parseThreadFromPosition(tweetElement, position);
+               case 'from-here': {
+            this.removeDialog(dialog);
+            this.showToast(i18nManager.t('thread.walking'), 'info');
+   const partialThread = await threadParser.parseThreadFromTweet(tweetElement, { walk: true });
        if (partialThread) {
         await this.copyFullThread(partialThread);
             }
 break;
+          }
   }
 
         TwitterActionButtons.setButtonSuccess(button);
@@ -1274,10 +1460,88 @@ break;
     includeTimestamp: this.currentSettings?.includeTimestamp !== false,
       includeMetrics: this.currentSettings?.includeMetrics === true,
     includeMedia: this.currentSettings?.includeMedia !== false,
-      includeLink: this.currentSettings?.includeLink !== false
+      includeLink: this.currentSettings?.includeLink !== false,
+      keepShortLinks: this.currentSettings?.keepShortLinks === true
     };
 
     await clipboardManager.copyThread(threadData, options);
+
+    const missing = threadData.missingPositions || [];
+    if (missing.length > 0) {
+      this.showToast(i18nManager.t('thread.missing_positions', { positions: missing.join(', ') }), 'info');
+    }
+  }
+
+  /**
+   * 显示会话复制对话框（过滤条件）
+   */
+  private showConversationDialog(tweetElement: HTMLElement): void {
+    const dialog = createElement('div', {
+      className: 'tsc-thread-dialog tsc-conversation-dialog',
+      innerHTML: `
+        <div class="tsc-dialog-backdrop"></div>
+        <div class="tsc-dialog-content">
+          <div class="tsc-dialog-header">
+            <h3>${i18nManager.t('conversation.title')}</h3>
+            <button class="tsc-dialog-close" aria-label="${i18nManager.t('close')}">×</button>
+          </div>
+          <div class="tsc-dialog-body">
+            <p>${i18nManager.t('conversation.description')}</p>
+            <label class="tsc-conversation-option">
+              <input type="checkbox" name="opOnly">
+              ${i18nManager.t('conversation.op_only')}
+            </label>
+            <label class="tsc-conversation-option">
+              ${i18nManager.t('conversation.top_replies')}
+              <input type="number" name="topReplies" min="0" step="1" value="0">
+            </label>
+            <div class="tsc-dialog-buttons">
+              <button class="tsc-dialog-button" data-choice="copy">
+                ${i18nManager.t('conversation.copy')}
+              </button>
+            </div>
+          </div>
+        </div>
+      `
+    });
+
+    dialog.addEventListener('click', async (event) => {
+      const target = event.target as HTMLElement;
+
+      if (target.classList.contains('tsc-dialog-backdrop') || target.classList.contains('tsc-dialog-close')) {
+        this.removeDialog(dialog);
+      } else if (target.classList.contains('tsc-dialog-button')) {
+        const opOnly = (dialog.querySelector('input[name="opOnly"]') as HTMLInputElement).checked;
+        const topReplies = parseInt((dialog.querySelector('input[name="topReplies"]') as HTMLInputElement).value, 10);
+        this.removeDialog(dialog);
+        await this.copyConversation(tweetElement, { opOnly, topReplies: isNaN(topReplies) ? 0 : Math.max(0, topReplies) });
+      }
+    });
+
+    document.body.appendChild(dialog);
+  }
+
+  /**
+   * 读取并复制推文所在的会话
+   */
+  private async copyConversation(tweetElement: HTMLElement, filter: { opOnly: boolean; topReplies: number }): Promise<void> {
+    try {
+      this.showToast(i18nManager.t('conversation.reading'), 'info');
+      const conversation = await conversationParser.parseConversation(tweetElement, { walk: true, filter });
+      if (!conversation) {
+        throw new Error('Failed to parse conversation');
+      }
+
+      const options = SettingsDebugFix.createFormatOptions(this.currentSettings);
+      await clipboardManager.copyConversation(conversation, options);
+      this.showToast(i18nManager.t('success.conversation_copied', {
+        count: conversation.totalCount,
+        participants: conversation.participants.length
+      }), 'success');
+    } catch (error) {
+      console.error('Failed to copy conversation:', error);
+      this.showToast(i18nManager.t('conversation.failed'), 'error');
+    }
   }
 
   /**
@@ -1546,8 +1810,8 @@ break;
       stroke: currentColor;
       }
       
-      /* Notion按钮样式 */
-      .tsc-notion-button {
+      /* 保存目标按钮样式 */
+      .tsc-destination-button {
         display: inline-flex;
         align-items: center;
         justify-content: center;
@@ -1562,27 +1826,88 @@ break;
         margin-left: 12px;
       }
       
-      .tsc-notion-button:hover {
+      .tsc-destination-button:hover {
         background-color: rgba(55, 53, 47, 0.1);
         color: rgb(55, 53, 47);
       }
       
-      .tsc-notion-button:disabled {
+      .tsc-destination-button:disabled {
+        opacity: 0.5;
+        cursor: not-allowed;
+      }
+      
+      .tsc-destination-button.tsc-loading .tsc-destination-icon {
+        animation: tsc-spin 1s linear infinite;
+      }
+      
+      .tsc-destination-button.tsc-success {
+        color: rgb(0, 186, 124);
+        background-color: rgba(0, 186, 124, 0.1);
+        transform: scale(1.05);
+      }
+      
+      .tsc-destination-button.tsc-error {
+        color: rgb(244, 33, 46);
+        background-color: rgba(244, 33, 46, 0.1);
+        transform: scale(1.05);
+      }
+
+      .tsc-destination-button.tsc-saved {
+        position: relative;
+        color: rgb(0, 186, 124);
+      }
+
+      .tsc-destination-open {
+        position: absolute;
+        top: -2px;
+        right: -4px;
+        font-size: 11px;
+        line-height: 1;
+        color: rgb(0, 186, 124);
+        text-decoration: none;
+      }
+
+      .tsc-destination-open:hover {
+        text-decoration: underline;
+      }
+
+      /* 存档按钮样式 */
+      .tsc-archive-button {
+        display: inline-flex;
+        align-items: center;
+        justify-content: center;
+        width: 34.75px;
+        height: 34.75px;
+        border-radius: 9999px;
+        border: none;
+        background: transparent;
+        cursor: pointer;
+        color: rgb(83, 100, 113);
+        transition: all 0.2s ease;
+        margin-left: 12px;
+      }
+      
+      .tsc-archive-button:hover {
+        background-color: rgba(120, 86, 255, 0.1);
+        color: rgb(120, 86, 255);
+      }
+      
+      .tsc-archive-button:disabled {
         opacity: 0.5;
         cursor: not-allowed;
       }
       
-      .tsc-notion-button.tsc-loading .tsc-notion-icon {
+      .tsc-archive-button.tsc-loading .tsc-archive-icon {
         animation: tsc-spin 1s linear infinite;
       }
       
-      .tsc-notion-button.tsc-success {
+      .tsc-archive-button.tsc-success {
         color: rgb(0, 186, 124);
         background-color: rgba(0, 186, 124, 0.1);
         transform: scale(1.05);
       }
       
-      .tsc-notion-button.tsc-error {
+      .tsc-archive-button.tsc-error {
         color: rgb(244, 33, 46);
         background-color: rgba(244, 33, 46, 0.1);
         transform: scale(1.05);
@@ -1595,12 +1920,13 @@ break;
       .tsc-copy-icon svg *,
       .tsc-screenshot-icon svg,
       .tsc-screenshot-icon svg *,
-      .tsc-notion-icon svg {
+      .tsc-destination-icon svg {
         fill: none !important;
       }
       
-      /* Notion图标需要填充 */
-      .tsc-notion-icon svg {
+      /* 填充样式的目标图标（如 Notion） */
+      .tsc-destination-icon-filled svg,
+      .tsc-destination-icon-filled svg * {
         fill: currentColor !important;
       }
       
@@ -1961,6 +2287,197 @@ font-weight: 600;
         background-color: rgb(34, 197, 94);
         color: white;
       }
+
+      /* 批量选择模式 */
+      .tsc-selectable {
+        position: relative;
+      }
+
+      .tsc-select-toggle {
+        position: absolute;
+        top: 8px;
+        right: 8px;
+        z-index: 2;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        width: 28px;
+        height: 28px;
+        border-radius: 9999px;
+        background: rgba(255, 255, 255, 0.9);
+        box-shadow: 0 1px 4px rgba(0, 0, 0, 0.15);
+        cursor: pointer;
+      }
+
+      .tsc-select-toggle input {
+        width: 16px;
+        height: 16px;
+        margin: 0;
+        cursor: pointer;
+        accent-color: rgb(29, 155, 240);
+      }
+
+      .tsc-selected {
+        outline: 2px solid rgb(29, 155, 240);
+        outline-offset: -2px;
+        background-color: rgba(29, 155, 240, 0.05);
+      }
+
+      .tsc-bulk-tray {
+        position: fixed;
+        left: 50%;
+        bottom: 24px;
+        transform: translateX(-50%);
+        z-index: 10001;
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        padding: 10px 14px;
+        border-radius: 16px;
+        background: rgb(15, 20, 25);
+        color: white;
+        box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        font-size: 14px;
+      }
+
+      .tsc-bulk-tray-row {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+      }
+
+      .tsc-bulk-count {
+        font-weight: 600;
+        margin-right: 4px;
+        white-space: nowrap;
+      }
+
+      .tsc-bulk-button {
+        padding: 6px 12px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 9999px;
+        background: transparent;
+        color: inherit;
+        cursor: pointer;
+        white-space: nowrap;
+      }
+
+      .tsc-bulk-button:hover:not(:disabled) {
+        background: rgba(255, 255, 255, 0.1);
+      }
+
+      .tsc-bulk-button:disabled {
+        opacity: 0.4;
+        cursor: not-allowed;
+      }
+
+      .tsc-bulk-primary {
+        border-color: rgb(29, 155, 240);
+        background: rgb(29, 155, 240);
+      }
+
+      .tsc-bulk-primary:hover:not(:disabled) {
+        background: rgb(26, 140, 216);
+      }
+
+      .tsc-bulk-close {
+        border: none;
+        background: transparent;
+        color: inherit;
+        font-size: 20px;
+        line-height: 1;
+        cursor: pointer;
+        opacity: 0.7;
+      }
+
+      .tsc-bulk-progress {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        font-size: 12px;
+        opacity: 0.85;
+      }
+
+      .tsc-bulk-progress[hidden] {
+        display: none;
+      }
+
+      .tsc-bulk-progress-track {
+        flex: 1;
+        height: 4px;
+        border-radius: 2px;
+        background: rgba(255, 255, 255, 0.2);
+        overflow: hidden;
+      }
+
+      .tsc-bulk-progress-bar {
+        width: 0;
+        height: 100%;
+        background: rgb(29, 155, 240);
+        transition: width 0.2s ease;
+      }
+
+      /* 时间线采集面板 */
+      .tsc-conversation-option {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin-top: 12px;
+        font-size: 14px;
+      }
+
+      .tsc-conversation-option input[type="number"] {
+        width: 64px;
+        padding: 4px 8px;
+        border: 1px solid rgb(207, 217, 222);
+        border-radius: 8px;
+        background: transparent;
+        color: inherit;
+      }
+
+      .tsc-timeline-panel {
+        min-width: 360px;
+      }
+
+      .tsc-timeline-fields {
+        display: grid;
+        grid-template-columns: 1fr 1fr;
+        gap: 8px;
+      }
+
+      .tsc-timeline-fields label {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+        font-size: 12px;
+        opacity: 0.85;
+      }
+
+      .tsc-timeline-fields input,
+      .tsc-timeline-format {
+        padding: 4px 8px;
+        border: 1px solid rgba(255, 255, 255, 0.3);
+        border-radius: 8px;
+        background: rgba(255, 255, 255, 0.08);
+        color: inherit;
+        font-size: 13px;
+        color-scheme: dark;
+      }
+
+      .tsc-timeline-hint {
+        flex: 1;
+        font-size: 12px;
+        opacity: 0.7;
+      }
+
+      .tsc-timeline-status {
+        flex: 1;
+      }
+
+      .tsc-timeline-panel .tsc-bulk-close {
+        margin-left: auto;
+      }
     `;
 
     addStyleSheet(css, this.styleSheetId);
@@ -1974,6 +2491,11 @@ font-weight: 600;
     // 监听快捷键
  document.addEventListener('keydown', this.handleKeyDown.bind(this));
     
+    // 记录右键菜单所在的推文，供右键菜单命令使用
+    document.addEventListener('contextmenu', (event) => {
+      this.lastContextMenuTweet = closest(event.target as Element, TWITTER_SELECTORS.TWEET_CONTAINER) as HTMLElement | null;
+    }, true);
+    
     // 监听页面变化（SPA导航）
     window.addEventListener('popstate', this.handleNavigationChange.bind(this));
     
@@ -2006,6 +2528,16 @@ font-weight: 600;
     }
   }
 
+  /**
+   * 查找命令作用的推文：右键菜单优先使用右键位置的推文
+   */
+  private findTargetTweet(source?: string): HTMLElement | null {
+    if (source === 'contextMenu' && this.lastContextMenuTweet?.isConnected) {
+      return this.lastContextMenuTweet;
+    }
+    return this.findFocusedTweet();
+  }
+
   /**
    * 查找当前焦点的推文
    */
@@ -2228,15 +2760,56 @@ const detailSelectors = [
   try {
         switch (message.type) {
           case 'EXECUTE_COPY_TWEET':
-        const focusedTweet = this.findFocusedTweet();
+        const focusedTweet = this.findTargetTweet(message.source);
             if (focusedTweet) {
-    await this.copySingleTweet(focusedTweet);
+    await this.copySingleTweet(focusedTweet, message.format);
 sendResponse({ success: true });
             } else {
           sendResponse({ success: false, error: 'No tweet found' });
             }
             break;
 
+          case 'EXECUTE_COPY_CONVERSATION': {
+            const targetTweet = this.findTargetTweet(message.source);
+            if (targetTweet) {
+              this.showConversationDialog(targetTweet);
+              sendResponse({ success: true });
+            } else {
+              sendResponse({ success: false, error: 'No tweet found' });
+            }
+            break;
+          }
+
+          case 'EXECUTE_COPY_TEMPLATE': {
+            const targetTweet = this.findTargetTweet(message.source);
+            if (targetTweet) {
+              await this.copyWithTemplate(targetTweet, message.templateId);
+              sendResponse({ success: true });
+            } else {
+              sendResponse({ success: false, error: 'No tweet found' });
+            }
+            break;
+          }
+
+          case 'EXECUTE_WEBHOOK_SEND': {
+            const targetTweet = this.findTargetTweet(message.source);
+            if (targetTweet) {
+              await this.sendToWebhook(targetTweet, message.scope);
+              sendResponse({ success: true });
+            } else {
+              sendResponse({ success: false, error: 'No tweet found' });
+            }
+            break;
+          }
+
+          case 'TOGGLE_SELECTION_MODE':
+            sendResponse({ success: true, active: this.toggleSelectionMode() });
+            break;
+
+          case 'TOGGLE_TIMELINE_COLLECTOR':
+            sendResponse({ success: true, open: this.timelinePanel.toggle() });
+            break;
+
           case 'SETTINGS_UPDATED':
             await this.loadSettings();
    sendResponse({ success: true });
@@ -2252,26 +2825,6 @@ const errorMessage = error instanceof Error ? error.message : String(error);
     });
   }
 
-  
-  /**
-   * 初始化 Notion 按钮管理器
-   */
-  private initializeNotionButtonManager(): void {
-    try {
-      this.notionButtonManager = new NotionButtonManager();
-      console.log('✅ Notion button manager initialized successfully');
-      
-      // 在开发环境中暴露调试接口
-      if (typeof window !== 'undefined' && process.env.NODE_ENV === 'development') {
-        (window as any).notionButtonManager = this.notionButtonManager;
-        console.log('🔧 Notion button manager exposed as window.notionButtonManager');
-      }
-      
-    } catch (error) {
-      console.error('❌ Failed to initialize Notion button manager:', error);
-    }
-  }
-
   /**
    * 生成简单的哈希码
    */
@@ -2454,6 +3007,238 @@ const errorMessage = error instanceof Error ? error.message : String(error);
     }
   }
 
+  /**
+   * 处理存档按钮点击 - 打包推文/线程为 ZIP（Markdown + JSON + 本地媒体）
+   */
+  private async handleArchiveClick(tweetElement: HTMLElement, button: HTMLElement): Promise<void> {
+    try {
+      TwitterActionButtons.setButtonLoading(button, true);
+
+      // 确保长推文已展开
+      await this.expandTweetContent(tweetElement);
+
+      const tweetData = await tweetParser.parseTweet(tweetElement);
+      if (!tweetData) {
+        throw new Error('无法提取推文数据');
+      }
+
+      // 属于线程时整体存档
+      let threadData: ThreadData | null = null;
+      if (tweetData.isThread) {
+        try {
+          threadData = await threadParser.parseThread(tweetElement, { walk: true });
+        } catch (error) {
+          console.warn('Failed to parse thread for archive, falling back to single tweet:', error);
+        }
+      }
+
+      this.showToast(i18nManager.t('archive.preparing'), 'info');
+
+      const result = await browser.runtime.sendMessage({
+        type: 'ARCHIVE_TWEET',
+        data: threadData && threadData.tweets.length > 1
+          ? { type: 'thread', thread: threadData }
+          : { type: 'tweet', tweet: tweetData }
+      });
+
+      if (!result?.success) {
+        throw new Error(result?.error || 'Archive failed');
+      }
+
+      TwitterActionButtons.setButtonSuccess(button);
+      this.showToast(
+        result.skipped > 0
+          ? i18nManager.t('archive.saved_partial', { count: result.skipped })
+          : i18nManager.t('archive.saved'),
+        result.skipped > 0 ? 'info' : 'success'
+      );
+    } catch (error) {
+      console.error('Failed to save archive:', error);
+      TwitterActionButtons.setButtonError(button);
+      this.showToast(i18nManager.t('archive.failed'), 'error');
+    } finally {
+      TwitterActionButtons.setButtonLoading(button, false);
+    }
+  }
+
+  /**
+   * 切换批量选择模式
+   */
+  private toggleSelectionMode(): boolean {
+    const active = this.bulkSelection.toggle();
+    if (active) {
+      this.findTweetElementsEnhanced(document.body).forEach(element => this.bulkSelection.attach(element));
+    }
+    this.showToast(i18nManager.t(active ? 'bulk.enabled' : 'bulk.disabled'), 'info');
+    return active;
+  }
+
+  /**
+   * 勾选推文时采集数据，之后即使 DOM 被回收也能批量处理
+   */
+  private async captureBulkSnapshot(element: HTMLElement): Promise<TweetData | null> {
+    await this.expandTweetContent(element);
+    return tweetParser.parseTweet(element);
+  }
+
+  /**
+   * 执行批量操作
+   */
+  private async handleBulkAction(action: BulkAction, items: BulkSelectionItem<TweetData>[]): Promise<void> {
+    const onProgress = (progress: BatchProgress) => this.bulkSelection.showProgress(action, progress);
+
+    try {
+      let successful = 0;
+      let failed = 0;
+
+      switch (action) {
+        case 'copy': {
+          const result = await batchProcessor.process(items, async (item) => {
+            const tweet = await item.snapshot;
+            if (!tweet) throw new Error('Tweet data unavailable');
+            return tweet;
+          }, { batchSize: 20, delay: 0, maxConcurrency: 5, retryAttempts: 0, onProgress });
+
+          if (result.results.length > 0) {
+            const options = SettingsDebugFix.createFormatOptions(this.currentSettings);
+            const content = contentFormatter.formatTweetCollection(result.results, options);
+            await clipboardManager.copyCustomContent(content, options.format);
+          }
+          successful = result.statistics.successful;
+          failed = result.statistics.failed;
+          break;
+        }
+
+        case 'screenshot': {
+          const { enhancedScreenshotService } = await import('../screenshot/EnhancedScreenshotService');
+          const result = await batchProcessor.process(items, async (item) => {
+            // 截图需要推文仍在页面中
+            if (!item.element.isConnected || this.getElementId(item.element) !== item.id) {
+              throw new Error('Tweet is no longer on the page');
+            }
+            item.element.scrollIntoView({ block: 'center' });
+            await new Promise(resolve => setTimeout(resolve, 300));
+
+            const screenshot = await enhancedScreenshotService.captureWithRandomGradient(item.element, {
+              format: 'png',
+              quality: 0.9,
+              theme: 'auto',
+              useContentOptions: true
+            });
+            await enhancedScreenshotService.downloadScreenshot(screenshot, `tweet-${item.id}.png`);
+          }, { batchSize: 5, delay: 300, maxConcurrency: 1, retryAttempts: 0, onProgress });
+
+          successful = result.statistics.successful;
+          failed = result.statistics.failed;
+          break;
+        }
+
+        case 'notion': {
+          const result = await this.saveToDestinationBatch('notion', items, async (item) => {
+            const tweet = await item.snapshot;
+            return tweet ? { tweet } : null;
+          }, onProgress);
+          successful = result.statistics.successful;
+          failed = result.statistics.failed;
+          break;
+        }
+      }
+
+      this.showToast(
+        i18nManager.t('bulk.done', { action: i18nManager.t(`bulk.${action}`), successful, failed }),
+        failed > 0 ? (successful > 0 ? 'info' : 'error') : 'success'
+      );
+    } catch (error) {
+      console.error(`Bulk ${action} failed:`, error);
+      this.showToast(i18nManager.t('bulk.failed'), 'error');
+    }
+  }
+
+  /**
+   * 逐条保存到目标，显示进度；已存在的推文按目标设置中的处理方式处理
+   */
+  private async saveToDestinationBatch<T>(
+    destinationId: string,
+    items: T[],
+    resolve: (item: T) => Promise<DestinationPayload | null>,
+    onProgress: (progress: BatchProgress) => void
+  ): Promise<BatchResult<void>> {
+    // 串行发送，避免触发 Notion API 限流
+    return batchProcessor.process(items, async (item) => {
+      const payload = await resolve(item);
+      if (!payload) throw new Error('Tweet data unavailable');
+
+      const response: DestinationResult | undefined = await browser.runtime.sendMessage({
+        type: 'DESTINATION_SAVE',
+        destinationId,
+        payload
+      });
+      // 已加入重试队列的条目由后台继续重试
+      if (!response?.success && !response?.queued) {
+        throw new Error(response?.error || `Failed to save to ${destinationId}`);
+      }
+    }, { batchSize: 5, delay: 350, maxConcurrency: 1, retryAttempts: 1, onProgress });
+  }
+
+  /**
+   * 导出时间线采集结果
+   */
+  private async handleTimelineExport(
+    action: TimelineExportAction,
+    format: FormatOptions['format'],
+    tweets: TweetData[],
+    onProgress: (progress: BatchProgress) => void
+  ): Promise<void> {
+    try {
+      if (action === 'notion') {
+        const result = await this.saveToDestinationBatch('notion', tweets, async (tweet) => ({ tweet }), onProgress);
+        const { successful, failed } = result.statistics;
+        this.showToast(
+          i18nManager.t('bulk.done', { action: i18nManager.t('bulk.notion'), successful, failed }),
+          failed > 0 ? (successful > 0 ? 'info' : 'error') : 'success'
+        );
+        return;
+      }
+
+      const options: FormatOptions = { ...SettingsDebugFix.createFormatOptions(this.currentSettings), format };
+      const content = contentFormatter.formatTweetCollection(tweets, options);
+
+      if (action === 'copy') {
+        await clipboardManager.copyCustomContent(content, format);
+        this.showToast(i18nManager.t('timeline.copied', { count: tweets.length }), 'success');
+      } else {
+        this.downloadTextFile(content, format);
+        this.showToast(i18nManager.t('timeline.downloaded', { count: tweets.length }), 'success');
+      }
+    } catch (error) {
+      console.error(`Timeline ${action} failed:`, error);
+      this.showToast(i18nManager.t('bulk.failed'), 'error');
+    }
+  }
+
+  /**
+   * 将导出内容保存为本地文件
+   */
+  private downloadTextFile(content: string, format: FormatOptions['format']): void {
+    const types: Record<FormatOptions['format'], { extension: string; mime: string }> = {
+      html: { extension: 'html', mime: 'text/html' },
+      markdown: { extension: 'md', mime: 'text/markdown' },
+      obsidian: { extension: 'md', mime: 'text/markdown' },
+      text: { extension: 'txt', mime: 'text/plain' },
+      json: { extension: 'json', mime: 'application/json' },
+      jsonld: { extension: 'jsonld', mime: 'application/ld+json' }
+    };
+    const { extension, mime } = types[format] || types.text;
+    const page = window.location.pathname.split('/').filter(Boolean).join('-') || 'home';
+
+    const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `tweets-${page}-${new Date().toISOString().split('T')[0]}.${extension}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
   /**
    * 获取推文URL
    */
@@ -2497,8 +3282,8 @@ const errorMessage = error instanceof Error ? error.message : String(error);
     // 清理剪贴板管理器
 clipboardManager.cleanup();
     
-    // 清理 Notion 按钮管理器
-    this.notionButtonManager?.destroy();
+    // 清理已保存状态
+    this.destinationSavedState.clear();
     
     // 移除样式
     const styleSheet = document.getElementById(this.styleSheetId);
@@ -0,0 +1,120 @@
+// 保存目标接口 - 各目标声明自己的配置结构，由后台注册表统一调度
+
+import type { ThreadData, TweetData } from '../types';
+
+/**
+ * 配置项的输入类型
+ */
+export type DestinationFieldType = 'text' | 'password' | 'url' | 'textarea' | 'select' | 'checkbox';
+
+/**
+ * 配置项声明，弹窗按声明生成设置表单
+ */
+export interface DestinationConfigField {
+  key: string;
+  /** 名称的 i18n 键 */
+  label: string;
+  type: DestinationFieldType;
+  required?: boolean;
+  placeholder?: string;
+  /** 说明文字的 i18n 键 */
+  description?: string;
+  /** select 的选项，label 为 i18n 键 */
+  options?: Array<{ value: string; label: string }>;
+  defaultValue?: string | boolean;
+}
+
+export type DestinationConfigValues = Record<string, string | boolean>;
+
+/**
+ * 保存的内容：解析器输出的推文，各目标据此生成自己的保存格式
+ */
+export interface DestinationPayload {
+  tweet: TweetData;
+  /** 选择保存整个线程时的全部推文，不支持线程的目标只保存 tweet */
+  thread?: ThreadData;
+  /** 保存前在页面上选择的选项（如 Notion 的数据库与注释），由目标自行解释 */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * 已保存内容的位置
+ */
+export interface DestinationLink {
+  id: string;
+  /** 可在浏览器中打开的地址（本地文件等没有地址） */
+  url?: string;
+}
+
+/**
+ * 连接、测试与保存的结果
+ */
+export interface DestinationResult {
+  success: boolean;
+  /** 失败后已进入该目标的重试队列 */
+  queued?: boolean;
+  /** 已存在时实际执行的操作 */
+  action?: 'created' | 'updated' | 'appended' | 'skipped';
+  /** 保存位置的显示名称（数据库名、文件名等） */
+  target?: string;
+  link?: DestinationLink;
+  error?: string;
+}
+
+/**
+ * 保存目标
+ */
+export interface Destination {
+  readonly id: string;
+  /** 名称的 i18n 键 */
+  readonly name: string;
+  /** 说明文字的 i18n 键 */
+  readonly description?: string;
+  /** 24×24 视图框内的 SVG 内容，用于推文操作栏按钮 */
+  readonly icon: string;
+  /** 图标使用填充而不是描边 */
+  readonly iconFilled?: boolean;
+  readonly configSchema: DestinationConfigField[];
+
+  getConfig(): Promise<DestinationConfigValues>;
+  /** 已完成配置时才在推文上显示按钮 */
+  isConfigured(): Promise<boolean>;
+  /** 保存配置并验证连接 */
+  connect(values: DestinationConfigValues): Promise<DestinationResult>;
+  test(): Promise<DestinationResult>;
+  save(payload: DestinationPayload): Promise<DestinationResult>;
+  /** 按推文链接查询已保存的位置；不支持查询的目标返回空对象 */
+  exists(urls: string[]): Promise<Record<string, DestinationLink>>;
+  batchSave(payloads: DestinationPayload[]): Promise<DestinationResult[]>;
+  /** 处理目标专用的消息（如弹窗中的 Notion 设置）；不处理的消息返回 undefined */
+  handleMessage?(message: DestinationMessage): Promise<unknown> | undefined;
+}
+
+/**
+ * 目标专用的消息，type 之外的字段由目标自行解释
+ */
+export interface DestinationMessage {
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * 内容脚本中保存前的交互（选择数据库、填写注释等）
+ */
+export interface DestinationPrompt {
+  /** 补充保存内容；返回 null 表示用户取消 */
+  prompt(tweetElement: HTMLElement, payload: DestinationPayload): Promise<DestinationPayload | null>;
+}
+
+/**
+ * 发送给弹窗与内容脚本的目标描述
+ */
+export interface DestinationDescriptor {
+  id: string;
+  name: string;
+  description?: string;
+  icon: string;
+  iconFilled?: boolean;
+  configSchema: DestinationConfigField[];
+  configured: boolean;
+}
@@ -0,0 +1,232 @@
+// 本地文件保存目标 - 每条推文通过 downloads API 保存为一个文件
+
+import type { FormatOptions, TweetData } from '../types';
+import { EnhancedContentFormatter } from '../formatters/enhanced-content-formatter';
+import { StructuredDataSerializer } from '../formatters/structured-data';
+import { EXTENSION_CONFIG } from '../utils/constants';
+import { getSettings } from '../utils/storage';
+import type {
+  Destination,
+  DestinationConfigField,
+  DestinationConfigValues,
+  DestinationLink,
+  DestinationPayload,
+  DestinationResult
+} from './destination';
+
+/**
+ * 本地文件目标的配置
+ */
+export interface FileDestinationConfig {
+  enabled: boolean;
+  /** 下载目录下的子文件夹 */
+  folder: string;
+  format: 'markdown' | 'obsidian' | 'text' | 'html' | 'json';
+}
+
+const DEFAULT_FILE_CONFIG: FileDestinationConfig = {
+  enabled: false,
+  folder: 'twitter-saves',
+  format: 'markdown'
+};
+
+const FILE_TYPES: Record<FileDestinationConfig['format'], { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  obsidian: { extension: 'md', mimeType: 'text/markdown' },
+  text: { extension: 'txt', mimeType: 'text/plain' },
+  html: { extension: 'html', mimeType: 'text/html' },
+  json: { extension: 'json', mimeType: 'application/json' }
+};
+
+const FILE_FORMAT_OPTIONS: Omit<FormatOptions, 'format'> = {
+  includeAuthor: true,
+  includeTimestamp: true,
+  includeMetrics: true,
+  includeMedia: true,
+  includeLink: true
+};
+
+/**
+ * 本地文件保存目标类
+ */
+export class FileDestination implements Destination {
+  private static instance: FileDestination;
+
+  readonly id = 'file';
+  readonly name = 'destination.file.name';
+  readonly description = 'destination.file.description';
+  readonly icon = '<path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/><path d="M14 2v6h6"/><path d="M12 18v-6"/><path d="m9 15 3 3 3-3"/>';
+  readonly configSchema: DestinationConfigField[] = [
+    {
+      key: 'enabled',
+      label: 'destination.file.enabled',
+      type: 'checkbox',
+      defaultValue: DEFAULT_FILE_CONFIG.enabled
+    },
+    {
+      key: 'folder',
+      label: 'destination.file.folder',
+      type: 'text',
+      required: true,
+      defaultValue: DEFAULT_FILE_CONFIG.folder,
+      description: 'destination.file.folder_description'
+    },
+    {
+      key: 'format',
+      label: 'destination.file.format',
+      type: 'select',
+      defaultValue: DEFAULT_FILE_CONFIG.format,
+      options: [
+        { value: 'markdown', label: 'format_markdown' },
+        { value: 'obsidian', label: 'Obsidian' },
+        { value: 'text', label: 'format_text' },
+        { value: 'html', label: 'format_html' },
+        { value: 'json', label: 'JSON' }
+      ]
+    }
+  ];
+
+  public static getInstance(): FileDestination {
+    if (!FileDestination.instance) {
+      FileDestination.instance = new FileDestination();
+    }
+    return FileDestination.instance;
+  }
+
+  async getConfig(): Promise<DestinationConfigValues> {
+    return { ...await this.loadConfig() };
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return (await this.loadConfig()).enabled;
+  }
+
+  async connect(values: DestinationConfigValues): Promise<DestinationResult> {
+    const folder = FileDestination.sanitizeFolder(String(values.folder || ''));
+    if (!folder) {
+      return { success: false, error: 'Folder name is required' };
+    }
+
+    const config: FileDestinationConfig = {
+      enabled: values.enabled === true,
+      folder,
+      format: (values.format as FileDestinationConfig['format']) || DEFAULT_FILE_CONFIG.format
+    };
+    await browser.storage.local.set({ [EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION]: config });
+    return { success: true, target: folder };
+  }
+
+  async test(): Promise<DestinationResult> {
+    if (!browser.downloads) {
+      return { success: false, error: 'Downloads API unavailable' };
+    }
+    return { success: true, target: (await this.loadConfig()).folder };
+  }
+
+  /**
+   * 同一条推文再次保存时覆盖之前的文件
+   */
+  async save(payload: DestinationPayload): Promise<DestinationResult> {
+    const config = await this.loadConfig();
+    const saved = await this.loadSaved();
+    const { keepShortLinks } = await getSettings();
+    const { content, filename, mimeType } = FileDestination.buildFile(payload.tweet, config, keepShortLinks);
+
+    await this.download(content, mimeType, filename);
+    await browser.storage.local.set({
+      [EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION_SAVED]: { ...saved, [payload.tweet.url]: filename }
+    });
+
+    console.log('📁 已保存到本地文件:', filename);
+    return {
+      success: true,
+      action: saved[payload.tweet.url] ? 'updated' : 'created',
+      target: filename,
+      link: { id: filename }
+    };
+  }
+
+  async batchSave(payloads: DestinationPayload[]): Promise<DestinationResult[]> {
+    const results: DestinationResult[] = [];
+    for (const payload of payloads) {
+      try {
+        results.push(await this.save(payload));
+      } catch (error) {
+        results.push({ success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * 按保存记录查询；文件被移动或删除后仍视为已保存
+   */
+  async exists(urls: string[]): Promise<Record<string, DestinationLink>> {
+    const saved = await this.loadSaved();
+    return urls.reduce<Record<string, DestinationLink>>((result, url) => {
+      if (saved[url]) {
+        result[url] = { id: saved[url] };
+      }
+      return result;
+    }, {});
+  }
+
+  /**
+   * 生成文件内容与下载路径
+   */
+  static buildFile(
+    tweet: TweetData,
+    config: FileDestinationConfig,
+    keepShortLinks: boolean = false
+  ): { content: string; filename: string; mimeType: string } {
+    const { extension, mimeType } = FILE_TYPES[config.format] || FILE_TYPES.markdown;
+    const content = config.format === 'json'
+      ? JSON.stringify(StructuredDataSerializer.exportTweet(tweet), null, 2)
+      : EnhancedContentFormatter.formatTweet(tweet, { ...FILE_FORMAT_OPTIONS, format: config.format, keepShortLinks });
+    const name = `${tweet.author.username}_${tweet.id}`.replace(/[^\w.-]+/g, '_');
+
+    return { content, filename: `${FileDestination.sanitizeFolder(config.folder) || DEFAULT_FILE_CONFIG.folder}/${name}.${extension}`, mimeType };
+  }
+
+  /**
+   * 去掉文件系统不允许的字符与首尾的点、斜杠；允许多级目录
+   */
+  static sanitizeFolder(folder: string): string {
+    return folder
+      .split(/[\\/]+/)
+      .map(part => part.replace(/[<>:"|?*\x00-\x1f]+/g, '_').replace(/^\.+|\.+$/g, '').trim())
+      .filter(Boolean)
+      .join('/');
+  }
+
+  private async loadConfig(): Promise<FileDestinationConfig> {
+    const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION);
+    return { ...DEFAULT_FILE_CONFIG, ...(result[EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION] as Partial<FileDestinationConfig> | undefined) };
+  }
+
+  private async loadSaved(): Promise<Record<string, string>> {
+    const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION_SAVED);
+    return (result[EXTENSION_CONFIG.STORAGE_KEYS.FILE_DESTINATION_SAVED] as Record<string, string> | undefined) || {};
+  }
+
+  /**
+   * Service Worker 中没有 createObjectURL 时使用 data URL
+   */
+  private async download(content: string, mimeType: string, filename: string): Promise<void> {
+    const useBlob = typeof URL.createObjectURL === 'function';
+    const url = useBlob
+      ? URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }))
+      : `data:${mimeType};charset=utf-8,${encodeURIComponent(content)}`;
+
+    try {
+      await browser.downloads.download({ url, filename, saveAs: false, conflictAction: 'overwrite' });
+    } finally {
+      if (useBlob) {
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+      }
+    }
+  }
+}
+
+// 导出单例实例
+export const fileDestination = FileDestination.getInstance();
@@ -0,0 +1,10 @@
+// 保存目标模块导出
+
+export * from './destination';
+export * from './registry';
+export * from './notion-destination';
+export * from './webhook-destination';
+export * from './file-destination';
+
+// 便捷导出
+export { destinationRegistry } from './registry';
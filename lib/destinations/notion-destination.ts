@@ -0,0 +1,849 @@
+// Notion 保存目标 - 路由规则、已存在处理方式、待同步队列与弹窗中的 Notion 设置
+
+import {
+  notionAuthManager,
+  notionClient,
+  notionDebugHelper,
+  notionOutbox,
+  notionPropertyMapper,
+  NotionPropertyMapper,
+  notionRouter,
+  NotionRouter,
+  NotionAnnotations,
+  TweetExtractor,
+  TWEET_FIELDS,
+  DEFAULT_DUPLICATE_POLICY,
+  type CollectionQuery,
+  type DuplicatePolicy,
+  type PropertyMapping,
+  type RoutingRule,
+  type SyncResult,
+  type TweetAnnotations,
+  type TweetData as TweetRecord
+} from '../notion';
+import { tagRuleEngine, TagRuleEngine } from '../tagging';
+import { getSettings } from '../utils/storage';
+import type { TweetData as ParsedTweetData } from '../types';
+import type {
+  Destination,
+  DestinationConfigField,
+  DestinationConfigValues,
+  DestinationLink,
+  DestinationMessage,
+  DestinationPayload,
+  DestinationResult
+} from './destination';
+
+/**
+ * 保存到 Notion 的结果，附带实际写入的数据库
+ */
+export interface NotionSaveResult extends SyncResult {
+  database?: { id: string; title: string };
+}
+
+/**
+ * 保存前在页面上选择的选项（DestinationPayload.options）
+ */
+export interface NotionSaveOptions {
+  /** 手动选择的数据库，优先于路由规则与默认数据库 */
+  databaseId?: string;
+  /** 已存在时的处理方式，未指定时使用设置 */
+  policy?: DuplicatePolicy;
+  category?: string;
+  /** 注释表单中确认的标签，未指定时按自动标签规则生成 */
+  tags?: string[];
+  annotations?: TweetAnnotations;
+}
+
+const NOT_CONFIGURED_ERROR = 'Notion 未配置或认证已过期，请重新配置 Integration Token';
+const NO_DATABASE_ERROR = '未选择 Notion 数据库，请在设置中选择或创建数据库';
+
+/**
+ * Notion 保存目标类
+ */
+export class NotionDestination implements Destination {
+  private static instance: NotionDestination;
+
+  readonly id = 'notion';
+  readonly name = 'destination.notion.name';
+  readonly description = 'destination.notion.description';
+  readonly icon = '<path d="M4.459 4.208c.746.606 1.026.56 2.428.466l13.215-.793c.28 0 .047-.28-.046-.326L17.86 1.968c-.42-.326-.981-.7-2.055-.607L3.533 2.281c-.466.047-.56.28-.374.466zm.793 3.08v13.904c0 .747.373 1.027 1.214.98l14.523-.84c.841-.046.935-.56.935-1.167V6.354c0-.606-.233-.933-.748-.887l-15.177.887c-.56.047-.747.327-.747.933zm14.337-.42c.093.42 0 .84-.42.888l-.7.14v10.264c-.608.327-1.168.514-1.635.514-.748 0-.935-.234-1.495-.933l-4.577-7.186v6.952L12.21 19s0 .84-1.168.84l-3.222.186c-.093-.186 0-.653.327-.746l.84-.233V9.854L7.822 9.76c-.094-.42.14-1.026.793-1.073l3.456-.233 4.764 7.279v-6.44l-1.215-.139c-.093-.514.28-.887.747-.933z"/>';
+  readonly iconFilled = true;
+  readonly configSchema: DestinationConfigField[] = [
+    {
+      key: 'token',
+      label: 'destination.notion.token',
+      type: 'password',
+      placeholder: 'ntn_...',
+      description: 'destination.notion.token_description'
+    },
+    {
+      key: 'databaseId',
+      label: 'destination.notion.database',
+      type: 'text',
+      description: 'destination.notion.database_description'
+    },
+    {
+      key: 'duplicatePolicy',
+      label: 'notion.duplicate.label',
+      type: 'select',
+      defaultValue: DEFAULT_DUPLICATE_POLICY,
+      options: [
+        { value: 'skip', label: 'notion.duplicate.skip' },
+        { value: 'update', label: 'notion.duplicate.update' },
+        { value: 'append', label: 'notion.duplicate.append' },
+        { value: 'duplicate', label: 'notion.duplicate.duplicate' }
+      ]
+    }
+  ];
+
+  public static getInstance(): NotionDestination {
+    if (!NotionDestination.instance) {
+      NotionDestination.instance = new NotionDestination();
+    }
+    return NotionDestination.instance;
+  }
+
+  async getConfig(): Promise<DestinationConfigValues> {
+    const config = await notionAuthManager.loadConfig();
+    return {
+      // OAuth 登录的令牌由刷新流程维护，不在表单中显示
+      token: config?.authType === 'oauth' ? '' : config?.accessToken || '',
+      databaseId: config?.databaseId || '',
+      duplicatePolicy: config?.duplicatePolicy || DEFAULT_DUPLICATE_POLICY
+    };
+  }
+
+  async isConfigured(): Promise<boolean> {
+    const config = await notionAuthManager.loadConfig();
+    return !!config?.accessToken;
+  }
+
+  /**
+   * 令牌留空时保留当前连接（如 OAuth 登录），只更新数据库与已存在处理方式
+   */
+  async connect(values: DestinationConfigValues): Promise<DestinationResult> {
+    const token = String(values.token || '').trim();
+    const current = await notionAuthManager.loadConfig();
+
+    if (token && token !== current?.accessToken) {
+      await browser.storage.sync.set({ notion_integration_token: token });
+      const auth = await notionAuthManager.authenticate();
+      if (!auth.success) {
+        return { success: false, error: auth.error };
+      }
+    } else if (!current?.accessToken) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const databaseId = String(values.databaseId || '').trim();
+    let target: string | undefined;
+    if (databaseId) {
+      const database = await notionClient.getDatabaseInfo(databaseId);
+      await notionAuthManager.saveConfig({ databaseId: database.id });
+      await browser.storage.sync.set({ notionDatabaseId: database.id });
+      target = database.title;
+    }
+
+    if (values.duplicatePolicy) {
+      await notionAuthManager.saveConfig({ duplicatePolicy: values.duplicatePolicy as DuplicatePolicy });
+    }
+
+    return { success: true, target };
+  }
+
+  async test(): Promise<DestinationResult> {
+    if (!await notionAuthManager.isConnected()) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const config = notionAuthManager.getCurrentConfig();
+    if (!config?.databaseId) {
+      return { success: false, error: NO_DATABASE_ERROR };
+    }
+
+    const database = await notionClient.getDatabaseInfo(config.databaseId);
+    return { success: true, target: database.title, link: { id: database.id, url: database.url } };
+  }
+
+  async save(payload: DestinationPayload): Promise<DestinationResult> {
+    const options = (payload.options || {}) as NotionSaveOptions;
+    const record = await this.buildRecord(payload, options);
+    if (!record) {
+      return { success: false, error: 'Tweet record unavailable' };
+    }
+
+    const result = await this.saveRecord(record, options.policy, options.databaseId);
+    return {
+      success: result.success,
+      queued: result.queued,
+      action: result.action,
+      target: result.database?.title,
+      link: result.data?.id ? { id: result.data.id, url: result.data.url } : undefined,
+      error: result.error
+    };
+  }
+
+  async batchSave(payloads: DestinationPayload[]): Promise<DestinationResult[]> {
+    // 串行保存，避免触发 Notion API 限流
+    const results: DestinationResult[] = [];
+    for (const payload of payloads) {
+      results.push(await this.save(payload));
+    }
+    return results;
+  }
+
+  /**
+   * 在默认数据库与各路由规则的数据库中查找
+   */
+  async exists(urls: string[]): Promise<Record<string, DestinationLink>> {
+    const config = await notionAuthManager.loadConfig();
+    if (!config?.accessToken) {
+      throw new Error('Notion not configured');
+    }
+
+    const rules = await notionRouter.getRules();
+    const databaseIds = [
+      ...(config.databaseId ? [config.databaseId] : []),
+      ...rules.filter(rule => rule.enabled && rule.databaseId).map(rule => rule.databaseId)
+    ].filter((id, index, list) => list.findIndex(other => NotionRouter.isSameDatabase(other, id)) === index);
+
+    const pages: Record<string, DestinationLink> = {};
+    for (const databaseId of databaseIds) {
+      const remaining = urls.filter(url => !pages[url]);
+      if (remaining.length === 0) break;
+
+      try {
+        const found = await notionClient.findTweetPages(databaseId, remaining);
+        found.forEach((page, url) => {
+          pages[url] = { id: page.id, url: page.url };
+        });
+      } catch (error) {
+        // 单个数据库无法访问时继续查找其余数据库
+        console.warn('Failed to find saved tweets in database:', databaseId, error);
+      }
+    }
+
+    return pages;
+  }
+
+  /**
+   * 由解析的推文（选择保存线程时为整个线程）生成记录；页面上未确认标签与分类时按自动标签规则生成
+   */
+  async buildRecord(payload: DestinationPayload, options: NotionSaveOptions = {}): Promise<TweetRecord | null> {
+    const tweets = payload.thread && payload.thread.tweets.length > 1 ? payload.thread.tweets : [payload.tweet];
+    const record = payload.thread && tweets.length > 1
+      ? TweetExtractor.buildThreadData(payload.thread)
+      : TweetExtractor.fromParsedTweet(payload.tweet);
+    if (!record) {
+      return null;
+    }
+
+    const tagging = await tagRuleEngine.apply(TagRuleEngine.fromTweets(tweets));
+    return {
+      ...record,
+      tags: options.tags ?? tagging.tags,
+      category: options.category ?? tagging.category,
+      annotations: options.annotations
+    };
+  }
+
+  /**
+   * 处理 NOTION_* 消息（弹窗中的 Notion 设置与页面上保存前的查询）
+   */
+  handleMessage(message: DestinationMessage): Promise<unknown> | undefined {
+    switch (message.type) {
+      case 'NOTION_AUTHENTICATE':
+        return this.handleAuthenticate();
+      case 'NOTION_OAUTH_LOGIN':
+        return this.handleOAuthLogin();
+      case 'NOTION_CHECK_EXISTS':
+        return this.handleCheckExists(message.url, message.databaseId);
+      case 'NOTION_BROWSE_COLLECTION':
+        return this.handleBrowseCollection(message.query || {}, message.cursor);
+      case 'NOTION_RESOLVE_TARGET':
+        return this.handleResolveTarget(message.tweet);
+      case 'NOTION_GET_ANNOTATION_SCHEMA':
+        return this.handleGetAnnotationSchema(message.databaseId);
+      case 'NOTION_GET_ROUTING_RULES':
+        return this.handleGetRoutingRules();
+      case 'NOTION_SAVE_ROUTING_RULES':
+        return this.handleSaveRoutingRules(message.rules || []);
+      case 'NOTION_GET_DUPLICATE_POLICY':
+        return this.handleGetDuplicatePolicy();
+      case 'NOTION_SET_DUPLICATE_POLICY':
+        return this.handleSetDuplicatePolicy(message.policy);
+      case 'NOTION_CREATE_DATABASE':
+        return this.handleCreateDatabase(message.parentPageId, message.title);
+      case 'NOTION_GET_DATABASE_STATS':
+        return this.handleGetDatabaseStats();
+      case 'NOTION_GET_USER_PAGES':
+        return this.handleGetUserPages();
+      case 'NOTION_SET_DATABASE':
+        return this.handleSetDatabase(message.databaseId);
+      case 'NOTION_GET_DATABASE_INFO':
+        return this.handleGetDatabaseInfo();
+      case 'NOTION_GET_PROPERTY_MAPPING':
+        return this.handleGetPropertyMapping();
+      case 'NOTION_SAVE_PROPERTY_MAPPING':
+        return this.handleSavePropertyMapping(message.mapping ?? null);
+      case 'NOTION_OUTBOX_LIST':
+        return this.handleOutboxList();
+      case 'NOTION_OUTBOX_RETRY':
+        return this.handleOutboxRetry(message.id);
+      case 'NOTION_OUTBOX_DISCARD':
+        return this.handleOutboxDiscard(message.id);
+      case 'NOTION_DISCONNECT':
+        return this.handleDisconnect();
+      case 'NOTION_IS_CONNECTED':
+        return this.handleIsConnected();
+      case 'NOTION_DEBUG':
+        return this.handleDebug();
+    }
+    return undefined;
+  }
+
+  /**
+   * 保存一条记录；失败的保存进入待同步队列，可重试的错误会自动重试
+   * @param policyOverride 未指定时使用设置中的已存在处理方式
+   * @param databaseOverride 手动选择的数据库，优先于路由规则与默认数据库
+   */
+  async saveRecord(record: TweetRecord, policyOverride?: DuplicatePolicy, databaseOverride?: string): Promise<NotionSaveResult> {
+    // 重新加载配置以确保是最新的
+    const config = await notionAuthManager.loadConfig();
+    if (!config?.accessToken) {
+      return { success: false, error: NOT_CONFIGURED_ERROR };
+    }
+
+    const rule = NotionRouter.matchRule(await notionRouter.getRules(), record);
+    const databaseId = databaseOverride || rule?.databaseId || config.databaseId;
+    if (!databaseId) {
+      return { success: false, error: NO_DATABASE_ERROR };
+    }
+
+    if (rule && NotionRouter.isSameDatabase(rule.databaseId, databaseId)) {
+      record = NotionRouter.applyDefaults(record, rule);
+    }
+    if ((await getSettings()).keepShortLinks) {
+      record = TweetExtractor.withShortLinks(record);
+    }
+
+    const policy = policyOverride || config.duplicatePolicy || DEFAULT_DUPLICATE_POLICY;
+    console.log('Attempting to save tweet to Notion...', { databaseId, rule: rule?.name, policy });
+    const result = await notionClient.saveTweet(databaseId, record, policy);
+
+    if (result.success) {
+      await notionOutbox.removeByUrl(record.url);
+      return { ...result, database: { id: databaseId, title: await this.getDatabaseTitle(databaseId, rule) } };
+    }
+
+    const item = await notionOutbox.enqueue(databaseId, record, result, policy);
+    return { ...result, queued: item.status === 'pending' };
+  }
+
+  /**
+   * 待同步队列重试时的保存操作
+   */
+  async saveQueued(databaseId: string, record: TweetRecord, policy?: DuplicatePolicy): Promise<SyncResult> {
+    const config = await notionAuthManager.loadConfig();
+    if (!config?.accessToken) {
+      return { success: false, error: NOT_CONFIGURED_ERROR, status: 401 };
+    }
+    return notionClient.saveTweet(databaseId, record, policy || config.duplicatePolicy || DEFAULT_DUPLICATE_POLICY);
+  }
+
+  /**
+   * 数据库显示名称；读取失败时使用规则中保存的名称
+   */
+  async getDatabaseTitle(databaseId: string, rule?: RoutingRule | null): Promise<string> {
+    try {
+      return await notionClient.getDatabaseTitle(databaseId);
+    } catch (error) {
+      console.warn('Failed to get database title:', error);
+      return rule && NotionRouter.isSameDatabase(rule.databaseId, databaseId) && rule.databaseTitle
+        ? rule.databaseTitle
+        : databaseId;
+    }
+  }
+
+  /**
+   * 处理 Notion 认证请求
+   */
+  private async handleAuthenticate(): Promise<any> {
+    try {
+      console.log('Starting Notion authentication...');
+      const result = await notionAuthManager.authenticate();
+      console.log('Notion authentication result:', result);
+      return result;
+    } catch (error) {
+      console.error('Failed to handle Notion authentication:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * 处理 Notion OAuth 登录请求（在后台执行，弹窗关闭后流程仍可完成）
+   */
+  private async handleOAuthLogin(): Promise<any> {
+    try {
+      const result = await notionAuthManager.authenticateWithOAuth();
+      return result;
+    } catch (error) {
+      console.error('Failed to handle Notion OAuth login:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * 处理获取待同步队列请求
+   */
+  private async handleOutboxList(): Promise<any> {
+    try {
+      return { success: true, items: await notionOutbox.getItems() };
+    } catch (error) {
+      console.error('Failed to list Notion outbox:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理重试待同步条目请求；不传 id 时重试全部
+   */
+  private async handleOutboxRetry(id: string | undefined): Promise<any> {
+    try {
+      await notionOutbox.retry(id);
+      return { success: true, items: await notionOutbox.getItems() };
+    } catch (error) {
+      console.error('Failed to retry Notion outbox:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理丢弃待同步条目请求
+   */
+  private async handleOutboxDiscard(id: string): Promise<any> {
+    try {
+      await notionOutbox.discard(id);
+      return { success: true, items: await notionOutbox.getItems() };
+    } catch (error) {
+      console.error('Failed to discard Notion outbox item:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理检查推文是否存在请求
+   */
+  private async handleCheckExists(url: string, databaseId: string | undefined): Promise<any> {
+    try {
+      const config = notionAuthManager.getCurrentConfig();
+      const targetId = databaseId || config?.databaseId;
+      if (!config?.accessToken || !targetId) {
+        return { exists: false };
+      }
+
+      const page = await notionClient.findTweetPage(targetId, url);
+      return {
+        exists: page !== null,
+        page: page ? { id: page.id, url: page.url } : null,
+        policy: config.duplicatePolicy || DEFAULT_DUPLICATE_POLICY
+      };
+    } catch (error) {
+      console.error('Failed to check tweet existence:', error);
+      return { exists: false };
+    }
+  }
+
+  /**
+   * 处理浏览已保存推文请求（默认数据库）
+   */
+  private async handleBrowseCollection(query: CollectionQuery, cursor: string | undefined): Promise<any> {
+    try {
+      const config = await notionAuthManager.loadConfig();
+      if (!config?.accessToken || !config.databaseId) {
+        return { success: false, error: NO_DATABASE_ERROR };
+      }
+
+      const page = await notionClient.queryCollection(config.databaseId, query, cursor);
+      return { success: true, ...page };
+    } catch (error) {
+      console.error('Failed to browse Notion collection:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理保存目标查询：按解析的推文返回命中的规则与可选的数据库（默认数据库与各规则的数据库）
+   */
+  private async handleResolveTarget(tweet: ParsedTweetData): Promise<any> {
+    try {
+      const config = await notionAuthManager.loadConfig();
+      if (!config?.accessToken) {
+        return { success: false, error: 'Notion not configured' };
+      }
+
+      const rules = await notionRouter.getRules();
+      const rule = NotionRouter.matchRule(rules, TweetExtractor.fromParsedTweet(tweet));
+      const databaseId = rule?.databaseId || config.databaseId;
+      if (!databaseId) {
+        return { success: false, error: NO_DATABASE_ERROR };
+      }
+
+      const candidates = [
+        ...(config.databaseId ? [{ id: config.databaseId, rule: null as RoutingRule | null }] : []),
+        ...rules.filter(item => item.enabled && item.databaseId).map(item => ({ id: item.databaseId, rule: item }))
+      ].filter((item, index, list) => list.findIndex(other => NotionRouter.isSameDatabase(other.id, item.id)) === index);
+
+      const databases = await Promise.all(candidates.map(async item => ({
+        id: item.id,
+        title: await this.getDatabaseTitle(item.id, item.rule),
+        isDefault: !!config.databaseId && NotionRouter.isSameDatabase(item.id, config.databaseId)
+      })));
+
+      return {
+        success: true,
+        target: {
+          databaseId,
+          ruleName: rule?.name,
+          category: rule?.category
+        },
+        databases
+      };
+    } catch (error) {
+      console.error('Failed to resolve Notion target:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理注释表单结构查询：按目标数据库（未指定时为默认数据库）的属性生成
+   */
+  private async handleGetAnnotationSchema(databaseId: string | undefined): Promise<any> {
+    try {
+      const config = await notionAuthManager.loadConfig();
+      const targetId = databaseId || config?.databaseId;
+      if (!config?.accessToken || !targetId) {
+        return { success: false, error: 'Notion not configured' };
+      }
+
+      const { database, mapping } = await notionClient.getPropertyMapping(targetId);
+      return { success: true, fields: NotionAnnotations.buildSchema(database, mapping) };
+    } catch (error) {
+      console.error('Failed to get annotation schema:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理读取路由规则请求；同时返回可选的数据库
+   */
+  private async handleGetRoutingRules(): Promise<any> {
+    try {
+      const config = await notionAuthManager.loadConfig();
+      const [rules, databases] = await Promise.all([
+        notionRouter.getRules(),
+        config?.accessToken ? notionClient.getUserDatabases() : Promise.resolve([])
+      ]);
+      return { success: true, rules, databases, defaultDatabaseId: config?.databaseId };
+    } catch (error) {
+      console.error('Failed to get routing rules:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理保存路由规则请求
+   */
+  private async handleSaveRoutingRules(rules: RoutingRule[]): Promise<any> {
+    try {
+      return { success: true, rules: await notionRouter.saveRules(rules) };
+    } catch (error) {
+      console.error('Failed to save routing rules:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理读取已存在处理方式请求
+   */
+  private async handleGetDuplicatePolicy(): Promise<any> {
+    const config = await notionAuthManager.loadConfig();
+    return { success: true, policy: config?.duplicatePolicy || DEFAULT_DUPLICATE_POLICY };
+  }
+
+  /**
+   * 处理设置已存在处理方式请求
+   */
+  private async handleSetDuplicatePolicy(policy: DuplicatePolicy): Promise<any> {
+    try {
+      if (!['skip', 'update', 'append', 'duplicate'].includes(policy)) {
+        return { success: false, error: `Unknown policy: ${policy}` };
+      }
+
+      await notionAuthManager.saveConfig({ duplicatePolicy: policy });
+      return { success: true, policy };
+    } catch (error) {
+      console.error('Failed to set duplicate policy:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * 处理创建 Notion 数据库请求
+   */
+  private async handleCreateDatabase(parentPageId: string, title: string): Promise<any> {
+    try {
+      const database = await notionClient.createDatabase(parentPageId, title);
+
+      // 保存数据库 ID
+      await notionAuthManager.saveConfig({ databaseId: database.id });
+
+      return { 
+        success: true, 
+        database: database 
+      };
+    } catch (error) {
+      console.error('Failed to create Notion database:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * 处理获取数据库统计请求
+   */
+  private async handleGetDatabaseStats(): Promise<any> {
+    try {
+      const config = notionAuthManager.getCurrentConfig();
+      if (!config?.accessToken || !config?.databaseId) {
+        return { 
+          success: false, 
+          error: 'Notion not configured' 
+        };
+      }
+
+      const stats = await notionClient.getDatabaseStats(config.databaseId);
+      return { 
+        success: true, 
+        stats: stats 
+      };
+    } catch (error) {
+      console.error('Failed to get database stats:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * 处理获取用户页面请求
+   */
+  private async handleGetUserPages(): Promise<any> {
+    try {
+      const [pages, databases] = await Promise.all([
+        notionClient.getUserPages(),
+        notionClient.getUserDatabases()
+      ]);
+      return {
+        success: true,
+        pages: pages,
+        databases
+      };
+    } catch (error) {
+      console.error('Failed to get user pages:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * 处理设置 Notion 数据库请求
+   */
+  private async handleSetDatabase(databaseId: string): Promise<any> {
+    try {
+      if (!databaseId) {
+        return { success: false, error: 'databaseId is required' };
+      }
+
+      const databaseInfo = await notionClient.getDatabaseInfo(databaseId);
+      await notionAuthManager.saveConfig({ databaseId: databaseInfo.id });
+
+      try {
+        await browser.storage.sync.set({ notionDatabaseId: databaseInfo.id });
+      } catch (storageError) {
+        console.warn('Failed to sync legacy database id storage:', storageError);
+      }
+
+      return {
+        success: true,
+        database: databaseInfo
+      };
+    } catch (error) {
+      console.error('Failed to set Notion database:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * 处理获取当前数据库信息请求
+   */
+  private async handleGetDatabaseInfo(): Promise<any> {
+    try {
+      const config = notionAuthManager.getCurrentConfig();
+      if (!config?.databaseId) {
+        return { success: true, database: null };
+      }
+
+      const databaseInfo = await notionClient.getDatabaseInfo(config.databaseId);
+      return { success: true, database: databaseInfo };
+    } catch (error) {
+      console.error('Failed to get Notion database info:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * 处理获取属性映射请求：返回数据库属性、字段定义与当前映射
+   */
+  private async handleGetPropertyMapping(): Promise<any> {
+    try {
+      const config = notionAuthManager.getCurrentConfig();
+      if (!config?.accessToken || !config?.databaseId) {
+        return { success: false, error: 'Notion not configured' };
+      }
+
+      notionClient.invalidateDatabaseCache(config.databaseId);
+      const { database, mapping } = await notionClient.getPropertyMapping(config.databaseId);
+      const stored = await notionPropertyMapper.getStoredMapping(database.id);
+
+      return {
+        success: true,
+        properties: Object.entries(database.properties || {}).map(([name, property]) => ({ name, type: property.type })),
+        fields: TWEET_FIELDS.map(definition => ({ field: definition.field, types: definition.types })),
+        mapping,
+        isCustom: stored !== null
+      };
+    } catch (error) {
+      console.error('Failed to get Notion property mapping:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * 处理保存属性映射请求；mapping 为 null 时恢复自动匹配
+   */
+  private async handleSavePropertyMapping(mapping: PropertyMapping | null): Promise<any> {
+    try {
+      const config = notionAuthManager.getCurrentConfig();
+      if (!config?.accessToken || !config?.databaseId) {
+        return { success: false, error: 'Notion not configured' };
+      }
+
+      const database = await notionClient.getDatabase(config.databaseId);
+      await notionPropertyMapper.saveMapping(
+        database.id,
+        mapping ? NotionPropertyMapper.validateMapping(mapping, database) : null
+      );
+      notionClient.invalidateDatabaseCache(config.databaseId);
+
+      return { success: true, mapping: await notionPropertyMapper.resolveMapping(database) };
+    } catch (error) {
+      console.error('Failed to save Notion property mapping:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : (error as any)?.message || 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * 处理断开 Notion 连接请求
+   */
+  private async handleDisconnect(): Promise<any> {
+    try {
+      await notionAuthManager.disconnect();
+      return { 
+        success: true, 
+        message: 'Notion disconnected successfully' 
+      };
+    } catch (error) {
+      console.error('Failed to disconnect Notion:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error' 
+      };
+    }
+  }
+
+  /**
+   * 处理检查 Notion 连接状态请求
+   */
+  private async handleIsConnected(): Promise<any> {
+    try {
+      const isConnected = await notionAuthManager.isConnected();
+      const config = notionAuthManager.getCurrentConfig();
+      return { 
+        success: true, 
+        connected: isConnected,
+        authType: config?.authType,
+        workspaceName: config?.workspaceName,
+        workspaceIcon: config?.workspaceIcon
+      };
+    } catch (error) {
+      console.error('Failed to check Notion connection:', error);
+      return { 
+        success: false, 
+        connected: false 
+      };
+    }
+  }
+
+  /**
+   * 处理 Notion 调试请求
+   */
+  private async handleDebug(): Promise<any> {
+    try {
+      console.log('Running Notion diagnostics...');
+      const results = await notionDebugHelper.runDiagnostics();
+      const report = notionDebugHelper.generateReport(results);
+
+      console.log('Notion Diagnostic Report:\n', report);
+
+      return { 
+        success: true, 
+        results,
+        report
+      };
+    } catch (error) {
+      console.error('Failed to run Notion diagnostics:', error);
+      return { 
+        success: false, 
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+}
+
+// 导出单例实例
+export const notionDestination = NotionDestination.getInstance();
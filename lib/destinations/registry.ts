@@ -0,0 +1,150 @@
+// 保存目标注册表 - 后台按 ID 调度各目标
+
+import { reviveTweetData } from '../utils/date';
+import type {
+  Destination,
+  DestinationConfigValues,
+  DestinationDescriptor,
+  DestinationLink,
+  DestinationMessage,
+  DestinationPayload,
+  DestinationResult
+} from './destination';
+
+/**
+ * 保存目标注册表类
+ */
+export class DestinationRegistry {
+  private static instance: DestinationRegistry;
+  private destinations = new Map<string, Destination>();
+
+  public static getInstance(): DestinationRegistry {
+    if (!DestinationRegistry.instance) {
+      DestinationRegistry.instance = new DestinationRegistry();
+    }
+    return DestinationRegistry.instance;
+  }
+
+  register(destination: Destination): void {
+    if (this.destinations.has(destination.id)) {
+      throw new Error(`Destination already registered: ${destination.id}`);
+    }
+    this.destinations.set(destination.id, destination);
+    console.log('📤 已注册保存目标:', destination.id);
+  }
+
+  get(id: string): Destination {
+    const destination = this.destinations.get(id);
+    if (!destination) {
+      throw new Error(`Unknown destination: ${id}`);
+    }
+    return destination;
+  }
+
+  /**
+   * 按注册顺序返回全部目标
+   */
+  list(): Destination[] {
+    return Array.from(this.destinations.values());
+  }
+
+  /**
+   * 生成可通过消息传递的目标描述
+   */
+  async describe(): Promise<DestinationDescriptor[]> {
+    return Promise.all(this.list().map(async destination => ({
+      id: destination.id,
+      name: destination.name,
+      description: destination.description,
+      icon: destination.icon,
+      iconFilled: destination.iconFilled,
+      configSchema: destination.configSchema,
+      configured: await destination.isConfigured().catch(() => false)
+    })));
+  }
+
+  async getConfig(id: string): Promise<DestinationConfigValues> {
+    const destination = this.get(id);
+    const values = await destination.getConfig();
+    // 未保存过的配置项使用声明中的默认值
+    return destination.configSchema.reduce<DestinationConfigValues>((result, field) => {
+      if (result[field.key] === undefined && field.defaultValue !== undefined) {
+        result[field.key] = field.defaultValue;
+      }
+      return result;
+    }, { ...values });
+  }
+
+  async connect(id: string, values: DestinationConfigValues): Promise<DestinationResult> {
+    const destination = this.get(id);
+    const error = DestinationRegistry.validateConfig(destination, values);
+    if (error) {
+      return { success: false, error };
+    }
+    return destination.connect(values);
+  }
+
+  async test(id: string): Promise<DestinationResult> {
+    return this.get(id).test();
+  }
+
+  async save(id: string, payload: DestinationPayload): Promise<DestinationResult> {
+    return this.get(id).save(DestinationRegistry.revivePayload(payload));
+  }
+
+  async exists(id: string, urls: string[]): Promise<Record<string, DestinationLink>> {
+    return this.get(id).exists(urls);
+  }
+
+  async batchSave(id: string, payloads: DestinationPayload[]): Promise<DestinationResult[]> {
+    return this.get(id).batchSave(payloads.map(payload => DestinationRegistry.revivePayload(payload)));
+  }
+
+  /**
+   * 交给第一个处理该消息的目标；没有目标处理时返回 undefined
+   */
+  handleMessage(message: DestinationMessage): Promise<unknown> | undefined {
+    for (const destination of this.destinations.values()) {
+      const response = destination.handleMessage?.(message);
+      if (response) {
+        return response;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 检查必填项与选项值，返回第一个错误
+   */
+  static validateConfig(destination: Destination, values: DestinationConfigValues): string | null {
+    for (const field of destination.configSchema) {
+      const value = values[field.key];
+      if (field.required && (value === undefined || value === '' || value === false)) {
+        return `Missing required field: ${field.key}`;
+      }
+      if (field.type === 'select' && value !== undefined && value !== ''
+        && !field.options?.some(option => option.value === value)) {
+        return `Invalid value for ${field.key}: ${value}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 消息传递后日期变成字符串，恢复为 Date
+   */
+  private static revivePayload(payload: DestinationPayload): DestinationPayload {
+    const revived: DestinationPayload = { ...payload, tweet: reviveTweetData(payload.tweet) };
+    if (payload.thread) {
+      revived.thread = {
+        ...payload.thread,
+        tweets: payload.thread.tweets.map(tweet => reviveTweetData(tweet)),
+        createdAt: new Date(payload.thread.createdAt)
+      };
+    }
+    return revived;
+  }
+}
+
+// 导出单例实例
+export const destinationRegistry = DestinationRegistry.getInstance();
@@ -0,0 +1,94 @@
+// Webhook 保存目标 - 发送到「Webhook」标签页中启用的端点
+
+import { storageManager } from '../utils/storage';
+import { webhookQueue } from '../webhooks';
+import type {
+  Destination,
+  DestinationConfigField,
+  DestinationConfigValues,
+  DestinationLink,
+  DestinationPayload,
+  DestinationResult
+} from './destination';
+
+/**
+ * Webhook 保存目标类；端点在独立的标签页中管理，这里没有配置项
+ */
+export class WebhookDestination implements Destination {
+  private static instance: WebhookDestination;
+
+  readonly id = 'webhook';
+  readonly name = 'destination.webhook.name';
+  readonly description = 'destination.webhook.description';
+  readonly icon = '<path d="M18 16.98h-5.99c-1.1 0-1.95.94-2.48 1.9A4 4 0 0 1 2 17c.01-.7.2-1.4.57-2"/><path d="m6 17 3.13-5.78c.53-.97.1-2.18-.5-3.1a4 4 0 1 1 6.89-4.06"/><path d="m12 6 3.13 5.73C15.66 12.7 16.9 13 18 13a4 4 0 0 1 0 8"/>';
+  readonly configSchema: DestinationConfigField[] = [];
+
+  public static getInstance(): WebhookDestination {
+    if (!WebhookDestination.instance) {
+      WebhookDestination.instance = new WebhookDestination();
+    }
+    return WebhookDestination.instance;
+  }
+
+  async getConfig(): Promise<DestinationConfigValues> {
+    return {};
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return (await this.getEnabledCount()) > 0;
+  }
+
+  async connect(): Promise<DestinationResult> {
+    return this.test();
+  }
+
+  /**
+   * 只检查是否有启用的端点；向端点发送测试请求在「Webhook」标签页中进行
+   */
+  async test(): Promise<DestinationResult> {
+    const count = await this.getEnabledCount();
+    return count > 0
+      ? { success: true }
+      : { success: false, error: 'No webhook endpoint configured' };
+  }
+
+  /**
+   * 带有线程时发送整个线程；全部端点成功才算成功，失败的发送都已进入重试队列时视为已排队
+   */
+  async save(payload: DestinationPayload): Promise<DestinationResult> {
+    const results = await webhookQueue.dispatch(payload.thread
+      ? { type: 'thread', thread: payload.thread }
+      : { type: 'tweet', tweet: payload.tweet });
+    const failed = results.filter(result => !result.success);
+
+    if (failed.length === 0) {
+      return { success: true, action: 'created' };
+    }
+    return {
+      success: false,
+      queued: failed.every(result => result.queued),
+      error: failed.map(result => `${result.endpointName}: ${result.error}`).join('; ')
+    };
+  }
+
+  async batchSave(payloads: DestinationPayload[]): Promise<DestinationResult[]> {
+    return Promise.all(payloads.map(payload => this.save(payload).catch((error): DestinationResult => ({
+      success: false,
+      error: error instanceof Error ? error.message : String(error)
+    }))));
+  }
+
+  /**
+   * Webhook 不保留发送记录
+   */
+  async exists(): Promise<Record<string, DestinationLink>> {
+    return {};
+  }
+
+  private async getEnabledCount(): Promise<number> {
+    return (await storageManager.getWebhooks()).filter(endpoint => endpoint.enabled).length;
+  }
+}
+
+// 导出单例实例
+export const webhookDestination = WebhookDestination.getInstance();
@@ -1,10 +1,13 @@
 // 内容格式化器 - 支持 HTML、Markdown、纯文本格式
 
-import type { TweetData, ThreadData, FormatOptions, MediaItem, QuotedTweetData } from '../types';
+import type { TweetData, ThreadData, ConversationData, FormatOptions, MediaItem, QuotedTweetData, RichTextToken } from '../types';
 import { sanitizeHTML, sanitizeText } from '../utils/validation';
 import { formatDate, formatFullTimestamp } from '../utils/date';
 import { i18nManager } from '../i18n';
 import { EnhancedContentFormatter } from './enhanced-content-formatter';
+import { TemplateEngine } from './template-engine';
+import { StructuredDataSerializer } from './structured-data';
+import { RichTextRenderer } from './rich-text-renderer';
 
 /**
  * 内容格式化器类
@@ -31,6 +34,11 @@ export class ContentFormatter {
  * 格式化线程
    */
   formatThread(thread: ThreadData, options: FormatOptions): string {
+    // Obsidian 格式整个线程输出为一篇笔记，JSON 格式输出为一个文档
+    if (options.format === 'obsidian' || options.format === 'json' || options.format === 'jsonld') {
+      return EnhancedContentFormatter.formatThread(thread, options);
+    }
+
   const formattedTweets = thread.tweets.map(tweet => 
       this.formatTweet(tweet, options)
     );
@@ -46,6 +54,29 @@ export class ContentFormatter {
     ].filter(Boolean).join(separator);
   }
 
+  /**
+   * 格式化多条独立推文（批量选择），合并为一份输出
+   */
+  formatTweetCollection(tweets: TweetData[], options: FormatOptions): string {
+    if (options.format === 'json') {
+      return JSON.stringify(StructuredDataSerializer.exportCollection(tweets), null, 2);
+    }
+    if (options.format === 'jsonld') {
+      return JSON.stringify(StructuredDataSerializer.collectionToJSONLD(tweets), null, 2);
+    }
+
+    return tweets
+      .map(tweet => this.formatTweet(tweet, options))
+      .join(this.getThreadSeparator(options.format));
+  }
+
+  /**
+   * 格式化会话回复树
+   */
+  formatConversation(conversation: ConversationData, options: FormatOptions): string {
+    return EnhancedContentFormatter.formatConversation(conversation, options);
+  }
+
   /**
    * HTML 格式化单条推文
    */
@@ -75,7 +106,7 @@ export class ContentFormatter {
 
     // 推文内容
 parts.push('<div class="tweet-content">');
-parts.push(this.processContentForHTML(tweet.content));
+parts.push(this.processContentForHTML(tweet, options));
     parts.push('</div>');
 
     // 媒体内容
@@ -134,7 +165,7 @@ parts.push(this.processContentForHTML(tweet.content));
     }
 
     // 推文内容
-    parts.push(this.processContentForMarkdown(tweet.content));
+    parts.push(this.processContentForMarkdown(tweet, options));
 
     // 媒体内容
     if (options.includeMedia && tweet.media.length > 0) {
@@ -180,7 +211,7 @@ parts.push(this.processContentForHTML(tweet.content));
     }
 
     // 推文内容
-    parts.push(tweet.content);
+    parts.push(tweet.richText?.length ? RichTextRenderer.toText(tweet.richText, options) : tweet.content);
 
     // 媒体内容
     if (options.includeMedia && tweet.media.length > 0) {
@@ -204,10 +235,14 @@ parts.push(this.processContentForHTML(tweet.content));
   }
 
   /**
-   * 处理 HTML 格式的内容
+   * 处理 HTML 格式的内容；有正文分段时按分段输出
    */
-  private processContentForHTML(content: string): string {
-    let processed = sanitizeHTML(content);
+  private processContentForHTML(source: { content: string; richText?: RichTextToken[] }, options: FormatOptions): string {
+    if (source.richText?.length) {
+      return RichTextRenderer.toHTML(source.richText, options);
+    }
+
+    let processed = sanitizeHTML(source.content);
     
     // 转换换行符为 <br>
     processed = processed.replace(/\n/g, '<br>');
@@ -234,10 +269,14 @@ parts.push(this.processContentForHTML(tweet.content));
   }
 
   /**
-   * 处理 Markdown 格式的内容
+   * 处理 Markdown 格式的内容；有正文分段时按分段输出
    */
-  private processContentForMarkdown(content: string): string {
-    let processed = content;
+  private processContentForMarkdown(source: { content: string; richText?: RichTextToken[] }, options: FormatOptions): string {
+    if (source.richText?.length) {
+      return RichTextRenderer.toMarkdown(source.richText, 'markdown', options);
+    }
+
+    let processed = source.content;
     
     // 转义 Markdown 特殊字符
     processed = processed.replace(/([*_`~\[\]\\])/g, '\\$1');
@@ -343,7 +382,7 @@ parts.push(this.processContentForHTML(tweet.content));
   /**
    * 获取线程分隔符
    */
-  private getThreadSeparator(format: 'html' | 'markdown' | 'text'): string {
+  private getThreadSeparator(format: FormatOptions['format']): string {
     switch (format) {
       case 'html':
         return '\n<hr class="thread-separator">\n';
@@ -447,7 +486,7 @@ parts.push(this.processContentForHTML(tweet.content));
   /**
    * 生成复制内容的摘要
    */
-  generateSummary(content: string, format: 'html' | 'markdown' | 'text'): {
+  generateSummary(content: string, format: FormatOptions['format']): {
     characterCount: number;
     wordCount: number;
     lineCount: number;
@@ -458,7 +497,7 @@ parts.push(this.processContentForHTML(tweet.content));
     
     if (format === 'html') {
       plainContent = content.replace(/<[^>]*>/g, '');
-    } else if (format === 'markdown') {
+    } else if (format === 'markdown' || format === 'obsidian') {
       plainContent = content
    .replace(/\*\*([^*]+)\*\*/g, '$1')
 .replace(/\*([^*]+)\*/g, '$1')
@@ -483,12 +522,13 @@ parts.push(this.processContentForHTML(tweet.content));
    */
   validateOptions(options: Partial<FormatOptions>): FormatOptions {
     return {
-      format: options.format === 'html' || options.format === 'markdown' ? options.format : 'text',
+      format: options.format && ['html', 'markdown', 'obsidian', 'json', 'jsonld'].includes(options.format) ? options.format : 'text',
       includeAuthor: options.includeAuthor !== false,
       includeTimestamp: options.includeTimestamp !== false,
       includeMetrics: options.includeMetrics === true,
       includeMedia: options.includeMedia !== false,
-      includeLink: options.includeLink !== false
+      includeLink: options.includeLink !== false,
+      keepShortLinks: options.keepShortLinks === true
     };
   }
 
@@ -496,25 +536,25 @@ parts.push(this.processContentForHTML(tweet.content));
    * 创建自定义格式化模板
    */
   createCustomTemplate(template: string, tweet: TweetData): string {
-    const replacements: Record<string, string> = {
-      '{{author.displayName}}': tweet.author.displayName,
-      '{{author.username}}': tweet.author.username,
-      '{{content}}': tweet.content,
-      '{{timestamp}}': formatFullTimestamp(tweet.timestamp, i18nManager.getCurrentLocale()),
-      '{{url}}': tweet.url,
-      '{{likes}}': tweet.metrics.likes.toString(),
-      '{{retweets}}': tweet.metrics.retweets.toString(),
-    '{{replies}}': tweet.metrics.replies.toString(),
-      '{{mediaCount}}': tweet.media.length.toString(),
-      '{{isThread}}': tweet.isThread ? 'true' : 'false'
-    };
+    return TemplateEngine.render(template, TemplateEngine.createTweetContext(tweet));
+  }
 
-    let result = template;
-    for (const [placeholder, value] of Object.entries(replacements)) {
-      result = result.replace(new RegExp(placeholder, 'g'), value);
-    }
+  /**
+   * 使用自定义模板格式化推文
+   */
+  formatTweetWithTemplate(tweet: TweetData, template: string, format: FormatOptions['format']): string {
+    return TemplateEngine.render(template, TemplateEngine.createTweetContext(tweet), {
+      escapeHTML: format === 'html'
+    });
+  }
 
-return result;
+  /**
+   * 使用自定义模板格式化线程
+   */
+  formatThreadWithTemplate(thread: ThreadData, template: string, format: FormatOptions['format']): string {
+    return TemplateEngine.render(template, TemplateEngine.createThreadContext(thread), {
+      escapeHTML: format === 'html'
+    });
   }
 }
 
@@ -1,9 +1,11 @@
 // 增强的内容格式化器 - 改进媒体内容格式化
 
-import type { TweetData, ThreadData, FormatOptions, MediaItem, QuotedTweetData } from '../types';
+import type { TweetData, ThreadData, ConversationData, ConversationNode, FormatOptions, MediaItem, QuotedTweetData, RichTextToken, TweetCard } from '../types';
 import { sanitizeHTML, sanitizeText } from '../utils/validation';
 import { formatDate, formatFullTimestamp } from '../utils/date';
 import { i18nManager } from '../i18n';
+import { StructuredDataSerializer } from './structured-data';
+import { RichTextRenderer } from './rich-text-renderer';
 
 /**
  * 增强的内容格式化器类
@@ -23,6 +25,12 @@ export class EnhancedContentFormatter {
      return this.formatTweetMarkdown(tweet, options);
       case 'text':
  return this.formatTweetText(tweet, options);
+      case 'obsidian':
+        return this.formatTweetObsidian(tweet, options);
+      case 'json':
+        return JSON.stringify(StructuredDataSerializer.exportTweet(tweet), null, 2);
+      case 'jsonld':
+        return JSON.stringify(StructuredDataSerializer.tweetToJSONLD(tweet), null, 2);
 default:
         return this.formatTweetText(tweet, options);
     }
@@ -57,17 +65,22 @@ default:
 
     // 推文内容
     parts.push('<div class="tweet-content" style="font-size: 16px; color: #0f1419; margin-bottom: 12px;">');
-    parts.push(this.processContentForHTML(tweet.content));
+    parts.push(this.processContentForHTML(tweet, options));
       parts.push('</div>');
 
   // 引用推文内容
   if (tweet.quotedTweet) {
       console.log('📝 开始添加引用推文到HTML格式');
       parts.push('<div class="quoted-tweet" style="border: 1px solid #e1e8ed; border-radius: 12px; margin: 12px 0; padding: 12px;">');
-      parts.push(this.formatQuotedTweetHTML(tweet.quotedTweet));
+      parts.push(this.formatQuotedTweetHTML(tweet.quotedTweet, options));
   parts.push('</div>');
     }
 
+    // 链接卡片
+    if (tweet.card) {
+      parts.push(this.formatCardHTML(tweet.card, options));
+    }
+
 // 媒体内容 - 重点改进
     if (options.includeMedia && tweet.media.length > 0) {
       console.log('📸 开始添加媒体内容到HTML格式，媒体数量:', tweet.media.length);
@@ -129,20 +142,26 @@ default:
     }
 
     // 推文内容
-    parts.push(this.processContentForMarkdown(tweet.content));
+    parts.push(this.processContentForMarkdown(tweet, 'markdown', options));
 
     // 引用推文内容
     if (tweet.quotedTweet) {
 console.log('📝 开始添加引用推文到Markdown格式');
      parts.push('');
-      parts.push(this.formatQuotedTweetMarkdown(tweet.quotedTweet));
+      parts.push(this.formatQuotedTweetMarkdown(tweet.quotedTweet, 'markdown', options));
+    }
+
+    // 链接卡片
+    if (tweet.card) {
+      parts.push('');
+      parts.push(this.formatCardMarkdown(tweet.card, 'markdown', options));
     }
 
     // 媒体内容 - 重点改进
     if (options.includeMedia && tweet.media.length > 0) {
       console.log('📸 开始添加媒体内容到Markdown格式，媒体数量:', tweet.media.length);
       parts.push('');
-    parts.push(this.formatMediaMarkdown(tweet.media));
+    parts.push(this.formatMediaMarkdown(tweet.media, options.mediaPaths));
     } else if (tweet.media.length > 0) {
       console.log('⚠️ 媒体内容被跳过，includeMedia:', options.includeMedia);
     }
@@ -187,15 +206,21 @@ console.log('📝 开始添加引用推文到Markdown格式');
     }
 
     // 推文内容
-    parts.push(tweet.content);
+    parts.push(this.processContentForText(tweet, options));
 
     // 引用推文内容
     if (tweet.quotedTweet) {
       console.log('📝 开始添加引用推文到文本格式');
       parts.push('');
-      parts.push(this.formatQuotedTweetText(tweet.quotedTweet));
+      parts.push(this.formatQuotedTweetText(tweet.quotedTweet, options));
   }
 
+    // 链接卡片
+    if (tweet.card) {
+      parts.push('');
+      parts.push(this.formatCardText(tweet.card));
+    }
+
     // 媒体内容 - 重点改进
     if (options.includeMedia && tweet.media.length > 0) {
       console.log('📸 开始添加媒体内容到文本格式，媒体数量:', tweet.media.length);
@@ -222,6 +247,113 @@ console.log('📝 开始添加引用推文到Markdown格式');
     return result;
   }
 
+  /**
+   * Obsidian 笔记格式化单条推文（YAML front matter + 正文）
+   */
+  private static formatTweetObsidian(tweet: TweetData, options: FormatOptions): string {
+    const frontMatter = this.buildObsidianFrontMatter({
+      tweet_id: tweet.id,
+      url: tweet.url,
+      author: tweet.author.displayName,
+      handle: `@${tweet.author.username}`,
+      published: this.toISODate(tweet.timestamp),
+      likes: tweet.metrics.likes,
+      retweets: tweet.metrics.retweets,
+      replies: tweet.metrics.replies,
+      tags: this.extractHashtags([tweet.content])
+    });
+
+    const result = [frontMatter, '', this.formatObsidianBody(tweet, options)].join('\n');
+    console.log('✅ Obsidian格式化完成，内容长度:', result.length);
+    return result;
+  }
+
+  /**
+   * Obsidian 笔记正文（不含 front matter，线程中复用）
+   */
+  private static formatObsidianBody(tweet: TweetData, options: FormatOptions): string {
+    const parts: string[] = [];
+
+    if (options.includeAuthor) {
+      parts.push(`**${tweet.author.displayName}** ([[@${tweet.author.username}]])`);
+    }
+
+    if (options.includeTimestamp) {
+      parts.push(`*${formatFullTimestamp(tweet.timestamp, i18nManager.getCurrentLocale())}*`);
+    }
+
+    if (options.includeAuthor || options.includeTimestamp) {
+      parts.push('');
+    }
+
+    parts.push(this.processContentForMarkdown(tweet, 'obsidian', options));
+
+    if (tweet.quotedTweet) {
+      parts.push('');
+      parts.push(this.formatQuotedTweetMarkdown(tweet.quotedTweet, 'obsidian', options));
+    }
+
+    if (tweet.card) {
+      parts.push('');
+      parts.push(this.formatCardMarkdown(tweet.card, 'obsidian', options));
+    }
+
+    if (options.includeMedia && tweet.media.length > 0) {
+      parts.push('');
+      parts.push(this.formatMediaObsidian(tweet.media, options.mediaPaths));
+    }
+
+    if (options.includeMetrics) {
+      parts.push('');
+      parts.push(`📊 ${tweet.metrics.replies} ${i18nManager.t('replies') || '回复'} • ${tweet.metrics.retweets} ${i18nManager.t('retweets') || '转发'} • ${tweet.metrics.likes} ${i18nManager.t('likes') || '喜欢'}`);
+    }
+
+    if (options.includeLink) {
+      parts.push('');
+      parts.push(`[${i18nManager.t('view_original') || '查看原推文'}](${tweet.url})`);
+    }
+
+    return parts.join('\n');
+  }
+
+  /**
+   * 生成 YAML front matter，字符串统一使用 JSON 转义以保证是合法的 YAML 双引号字符串
+   */
+  private static buildObsidianFrontMatter(fields: Record<string, string | number | string[]>): string {
+    const lines = ['---'];
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (Array.isArray(value)) {
+        lines.push(value.length > 0 ? `${key}:` : `${key}: []`);
+        value.forEach(item => lines.push(`  - ${JSON.stringify(item)}`));
+      } else if (typeof value === 'number') {
+        lines.push(`${key}: ${value}`);
+      } else {
+        lines.push(`${key}: ${JSON.stringify(value)}`);
+      }
+    }
+
+    lines.push('---');
+    return lines.join('\n');
+  }
+
+  /**
+   * 从内容中提取去重后的话题标签
+   */
+  private static extractHashtags(contents: string[]): string[] {
+    const tags = new Set<string>();
+    for (const content of contents) {
+      for (const match of content.matchAll(/#(\w+)/g)) {
+        tags.add(match[1]);
+      }
+    }
+    return Array.from(tags);
+  }
+
+  private static toISODate(date: Date): string {
+    return date instanceof Date && !isNaN(date.getTime()) ? date.toISOString() : '';
+  }
+
   /**
    * 格式化媒体内容 - HTML
    */
@@ -265,24 +397,26 @@ console.log('📝 开始添加引用推文到Markdown格式');
 
   /**
    * 格式化媒体内容 - Markdown
+   * 提供 mediaPaths 时链接指向本地文件
    */
-  private static formatMediaMarkdown(media: MediaItem[]): string {
+  private static formatMediaMarkdown(media: MediaItem[], mediaPaths?: Record<string, string>): string {
     console.log('📝 开始格式化Markdown媒体内容，媒体数量:', media.length);
     const mediaParts: string[] = [];
 
     for (const item of media) {
       console.log(`  🎨 格式化媒体项目 (Markdown):`, item);
+      const src = mediaPaths?.[item.url] || item.url;
       switch (item.type) {
         case 'image':
-   mediaParts.push(`![${item.alt || 'Image'}](${item.url})`);
+   mediaParts.push(`![${item.alt || 'Image'}](${src})`);
         console.log(`    ✅ 添加图片Markdown`);
     break;
         case 'video':
-          mediaParts.push(`🎥 [${i18nManager.t('video') || '视频'}](${item.url})`);
+          mediaParts.push(`🎥 [${i18nManager.t('video') || '视频'}](${src})`);
           console.log(`    ✅ 添加视频Markdown`);
           break;
         case 'gif':
- mediaParts.push(`🎞️ [${i18nManager.t('gif') || 'GIF'}](${item.url})`);
+ mediaParts.push(`🎞️ [${i18nManager.t('gif') || 'GIF'}](${src})`);
           console.log(`    ✅ 添加GIF Markdown`);
     break;
         default:
@@ -295,6 +429,30 @@ console.log('📝 开始添加引用推文到Markdown格式');
  return result;
   }
 
+  /**
+   * 格式化媒体内容 - Obsidian
+   * 已下载到本地的附件使用 ![[...]] 嵌入，远程媒体使用外部嵌入语法
+   */
+  private static formatMediaObsidian(media: MediaItem[], mediaPaths?: Record<string, string>): string {
+    return media.map(item => {
+      const localPath = mediaPaths?.[item.url];
+      if (localPath) {
+        return `![[${localPath}]]`;
+      }
+
+      switch (item.type) {
+        case 'image':
+          return `![${item.alt || 'Image'}](${item.url})`;
+        case 'video':
+          return `🎥 [${i18nManager.t('video') || '视频'}](${item.url})`;
+        case 'gif':
+          return `🎞️ [${i18nManager.t('gif') || 'GIF'}](${item.url})`;
+        default:
+          return '';
+      }
+    }).filter(Boolean).join('\n');
+  }
+
   /**
    * 格式化媒体内容 - 纯文本
    */
@@ -331,10 +489,74 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
   }
 
   /**
-   * 处理 HTML 格式的内容
+   * 格式化链接卡片 - HTML；缩略图随媒体选项输出
+   */
+  private static formatCardHTML(card: TweetCard, options: FormatOptions): string {
+    const parts: string[] = [];
+    parts.push(`<div class="tweet-card" data-card-type="${card.type}" style="border: 1px solid #e1e8ed; border-radius: 12px; margin: 12px 0; overflow: hidden;">`);
+    if (options.includeMedia && card.thumbnail) {
+      parts.push(`<a href="${sanitizeHTML(card.url)}" target="_blank" rel="noopener noreferrer"><img src="${sanitizeHTML(card.thumbnail)}" alt="${sanitizeHTML(card.title || card.domain || '')}" class="tweet-card-thumbnail" loading="lazy" style="width: 100%; height: auto; display: block;"></a>`);
+    }
+    parts.push('<div class="tweet-card-body" style="padding: 12px;">');
+    if (card.domain) {
+      parts.push(`<div class="tweet-card-domain" style="color: #536471; font-size: 13px;">${sanitizeHTML(card.domain)}</div>`);
+    }
+    parts.push(`<a href="${sanitizeHTML(card.url)}" target="_blank" rel="noopener noreferrer" class="tweet-card-title" style="color: #0f1419; font-size: 15px; font-weight: bold; text-decoration: none;">${sanitizeHTML(card.title || card.url)}</a>`);
+    if (card.description) {
+      parts.push(`<div class="tweet-card-description" style="color: #536471; font-size: 14px; margin-top: 4px;">${sanitizeHTML(card.description)}</div>`);
+    }
+    parts.push('</div>');
+    parts.push('</div>');
+    return parts.join('\n');
+  }
+
+  /**
+   * 格式化链接卡片 - Markdown 引用块；Obsidian 使用 [!info] 标注
+   */
+  private static formatCardMarkdown(card: TweetCard, flavor: 'markdown' | 'obsidian', options: FormatOptions): string {
+    const title = (card.title || card.domain || card.url).replace(/([\[\]\\])/g, '\\$1');
+    const link = `[${title}](${card.url.replace(/[()\s]/g, char => encodeURIComponent(char))})`;
+    const lines = [flavor === 'obsidian' ? `> [!info] 🔗 ${link}` : `> 🔗 **${link}**`];
+
+    if (card.description) {
+      lines.push(`> ${card.description.replace(/\n+/g, ' ')}`);
+    }
+    if (card.domain) {
+      lines.push(`> *${card.domain}*`);
+    }
+    if (options.includeMedia && card.thumbnail) {
+      const localPath = options.mediaPaths?.[card.thumbnail];
+      lines.push(flavor === 'obsidian' && localPath
+        ? `> ![[${localPath}]]`
+        : `> ![${title}](${localPath || card.thumbnail})`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * 格式化链接卡片 - 纯文本
+   */
+  private static formatCardText(card: TweetCard): string {
+    const lines = [`🔗 ${card.title || card.domain || card.url}`];
+    if (card.description) {
+      lines.push(card.description);
+    }
+    lines.push(card.url);
+    return lines.join('\n');
+  }
+
+  /**
+   * 处理 HTML 格式的内容；有正文分段时按分段输出，否则用正则识别链接、提及与话题标签
    */
-  private static processContentForHTML(content: string): string {
-    let processed = sanitizeHTML(content);
+  private static processContentForHTML(source: { content: string; richText?: RichTextToken[] }, options: FormatOptions): string {
+    if (source.richText?.length) {
+      return RichTextRenderer.toHTML(source.richText, {
+        keepShortLinks: options.keepShortLinks,
+        linkStyle: 'color: #1d9bf0; text-decoration: none;'
+      });
+    }
+
+    let processed = sanitizeHTML(source.content);
     
     // 转换换行符为 <br>
     processed = processed.replace(/\n/g, '<br>');
@@ -363,37 +585,54 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
   /**
    * 处理 Markdown 格式的内容
    */
-  private static processContentForMarkdown(content: string): string {
-  let processed = content;
-    
-    // 转义 Markdown 特殊字符
-    processed = processed.replace(/([*_`~\[\]\\])/g, '\\$1');
-    
-    // 处理链接
-    processed = processed.replace(
-      /https?:\/\/[^\s]+/g,
-      '[$&]($&)'
-    );
-    
-    // 处理用户名提及
-    processed = processed.replace(
-      /@(\w+)/g,
-      '[@$1](https://x.com/$1)'
-    );
-    
-    // 处理话题标签
-    processed = processed.replace(
-      /#(\w+)/g,
-      '[#$1](https://x.com/hashtag/$1)'
-    );
+  private static processContentForMarkdown(
+    source: { content: string; richText?: RichTextToken[] },
+    flavor: 'markdown' | 'obsidian',
+    options: FormatOptions
+  ): string {
+    if (source.richText?.length) {
+      return RichTextRenderer.toMarkdown(source.richText, flavor, options);
+    }
 
-    return processed;
+    // 链接、提及与话题标签整体转换，只转义它们之间的普通文本，避免转义字符截断用户名或标签
+    const escape = (text: string) => text.replace(/([*_`~\[\]\\])/g, '\\$1');
+    let processed = '';
+    let lastIndex = 0;
+
+    for (const match of source.content.matchAll(/https?:\/\/[^\s]+|@(\w+)|#(\w+)/g)) {
+      const [entity, username, tag] = match;
+      processed += escape(source.content.slice(lastIndex, match.index));
+      lastIndex = (match.index ?? 0) + entity.length;
+
+      if (username) {
+        // Obsidian: 提及转为 [[wikilink]]
+        processed += flavor === 'obsidian'
+          ? `[[@${username}]]`
+          : `[@${escape(username)}](https://x.com/${username})`;
+      } else if (tag) {
+        // Obsidian: 话题标签保留为原生 #tag
+        processed += flavor === 'obsidian'
+          ? entity
+          : `[#${escape(tag)}](https://x.com/hashtag/${tag})`;
+      } else {
+        processed += `[${escape(entity)}](${entity})`;
+      }
+    }
+
+    return processed + escape(source.content.slice(lastIndex));
+  }
+
+  /**
+   * 处理纯文本格式的内容
+   */
+  private static processContentForText(source: { content: string; richText?: RichTextToken[] }, options: FormatOptions): string {
+    return source.richText?.length ? RichTextRenderer.toText(source.richText, options) : source.content;
   }
 
   /**
    * 格式化引用推文 - HTML
    */
-  private static formatQuotedTweetHTML(quotedTweet: QuotedTweetData): string {
+  private static formatQuotedTweetHTML(quotedTweet: QuotedTweetData, options: FormatOptions): string {
     console.log('📝 格式化引用推文HTML:', quotedTweet);
     const parts: string[] = [];
 
@@ -415,7 +654,7 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
 
     // 引用推文内容
  parts.push('<div class="quoted-tweet-content" style="font-size: 14px; color: #0f1419; margin-bottom: 8px;">');
-    parts.push(this.processContentForHTML(quotedTweet.content));
+    parts.push(this.processContentForHTML(quotedTweet, options));
     parts.push('</div>');
 
     // 引用推文媒体内容（如果有的话）
@@ -437,16 +676,25 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
   /**
    * 格式化引用推文 - Markdown
    */
-  private static formatQuotedTweetMarkdown(quotedTweet: QuotedTweetData): string {
+  private static formatQuotedTweetMarkdown(
+    quotedTweet: QuotedTweetData,
+    flavor: 'markdown' | 'obsidian',
+    options: FormatOptions
+  ): string {
     console.log('📝 格式化引用推文Markdown:', quotedTweet);
     const parts: string[] = [];
 
-    // 引用推文框
-    parts.push('> **引用推文**');
-    parts.push('>');
-    
-    // 作者信息
-    parts.push(`> **${quotedTweet.author.displayName}** (@${quotedTweet.author.username})`);
+    if (flavor === 'obsidian') {
+      // Obsidian callout 块
+      parts.push(`> [!quote] **${quotedTweet.author.displayName}** ([[@${quotedTweet.author.username}]])`);
+    } else {
+      // 引用推文框
+      parts.push('> **引用推文**');
+      parts.push('>');
+      
+      // 作者信息
+      parts.push(`> **${quotedTweet.author.displayName}** (@${quotedTweet.author.username})`);
+    }
     
     // 时间戳（如果有的话）
     if (quotedTweet.timestamp) {
@@ -457,7 +705,7 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
     parts.push('>');
     
     // 内容
-  const quotedContent = this.processContentForMarkdown(quotedTweet.content);
+  const quotedContent = this.processContentForMarkdown(quotedTweet, flavor, options);
     // 为引用内容添加 > 前缀
     const quotedLines = quotedContent.split('\n');
     for (const line of quotedLines) {
@@ -467,20 +715,27 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
     // 媒体内容（如果有的话）
     if (quotedTweet.media && quotedTweet.media.length > 0) {
       parts.push('>');
-      const mediaContent = this.formatMediaMarkdown(quotedTweet.media);
+      const mediaContent = flavor === 'obsidian'
+        ? this.formatMediaObsidian(quotedTweet.media, options.mediaPaths)
+        : this.formatMediaMarkdown(quotedTweet.media, options.mediaPaths);
       const mediaLines = mediaContent.split('\n');
       for (const line of mediaLines) {
    parts.push(`> ${line}`);
     }
     }
 
+    if (flavor === 'obsidian') {
+      parts.push('>');
+      parts.push(`> [${i18nManager.t('view_original') || '查看原推文'}](${quotedTweet.url})`);
+    }
+
     return parts.join('\n');
   }
 
   /**
    * 格式化引用推文 - 文本
    */
-  private static formatQuotedTweetText(quotedTweet: QuotedTweetData): string {
+  private static formatQuotedTweetText(quotedTweet: QuotedTweetData, options: FormatOptions): string {
     console.log('📝 格式化引用推文文本:', quotedTweet);
     const parts: string[] = [];
 
@@ -500,7 +755,7 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
     parts.push('│');
     
     // 内容
-    const contentLines = quotedTweet.content.split('\n');
+    const contentLines = this.processContentForText(quotedTweet, options).split('\n');
     for (const line of contentLines) {
       parts.push(`│ ${line}`);
   }
@@ -525,6 +780,18 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
    */
   static formatThread(thread: ThreadData, options: FormatOptions): string {
     console.log('📝 开始格式化线程，推文数量:', thread.tweets.length);
+
+    if (options.format === 'obsidian') {
+      return this.formatThreadObsidian(thread, options);
+    }
+
+    // 结构化格式整个线程序列化为一个文档
+    if (options.format === 'json') {
+      return JSON.stringify(StructuredDataSerializer.exportThread(thread), null, 2);
+    }
+    if (options.format === 'jsonld') {
+      return JSON.stringify(StructuredDataSerializer.threadToJSONLD(thread), null, 2);
+    }
     
     const formattedTweets = thread.tweets.map((tweet, index) => {
  console.log(`  📝 格式化线程中的第 ${index + 1} 条推文`);
@@ -545,10 +812,227 @@ mediaParts.push(`📷 ${i18nManager.t('image') || '图片'}: ${item.url}`);
     return result;
   }
 
+  /**
+   * Obsidian 格式化线程 - 整个线程输出为一篇笔记
+   */
+  private static formatThreadObsidian(thread: ThreadData, options: FormatOptions): string {
+    const tweets = thread.tweets;
+    const first = tweets[0];
+    const last = tweets[tweets.length - 1];
+
+    const frontMatter = this.buildObsidianFrontMatter({
+      thread_id: thread.id,
+      url: first?.url || '',
+      author: thread.author.displayName,
+      handle: `@${thread.author.username}`,
+      published: this.toISODate(first?.timestamp || thread.createdAt),
+      updated: this.toISODate(last?.timestamp || thread.createdAt),
+      tweet_count: tweets.length,
+      likes: tweets.reduce((sum, tweet) => sum + tweet.metrics.likes, 0),
+      retweets: tweets.reduce((sum, tweet) => sum + tweet.metrics.retweets, 0),
+      replies: tweets.reduce((sum, tweet) => sum + tweet.metrics.replies, 0),
+      tags: this.extractHashtags(tweets.map(tweet => tweet.content))
+    });
+
+    const sections = tweets.map((tweet, index) => [
+      `## ${index + 1}/${tweets.length}`,
+      '',
+      this.formatObsidianBody(tweet, { ...options, includeAuthor: false })
+    ].join('\n'));
+
+    const title = `# 🧵 ${thread.author.displayName} ([[@${thread.author.username}]])`;
+    const result = [frontMatter, '', title, '', sections.join('\n\n---\n\n')].join('\n');
+
+    console.log('✅ Obsidian线程格式化完成，内容长度:', result.length);
+    return result;
+  }
+
+  /**
+   * 格式化会话 - 回复按层级嵌套（Markdown 为嵌套列表，HTML 为嵌套缩进列表）
+   */
+  static formatConversation(conversation: ConversationData, options: FormatOptions): string {
+    console.log('📝 开始格式化会话，推文数量:', conversation.totalCount);
+
+    if (options.format === 'json') {
+      return JSON.stringify(StructuredDataSerializer.exportConversation(conversation), null, 2);
+    }
+    if (options.format === 'jsonld') {
+      return JSON.stringify(StructuredDataSerializer.conversationToJSONLD(conversation), null, 2);
+    }
+
+    const headerText = i18nManager.t('conversation.header', {
+      author: conversation.author.displayName,
+      username: conversation.author.username,
+      count: conversation.totalCount,
+      participants: conversation.participants.length
+    });
+    const incompleteText = conversation.isComplete ? '' : i18nManager.t('conversation.incomplete');
+
+    let result: string;
+    switch (options.format) {
+      case 'html':
+        result = `<div class="conversation" style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #0f1419;">
+  <h3 class="conversation-title" style="margin: 0 0 8px 0; font-size: 18px;">${sanitizeHTML(headerText)}</h3>
+  ${incompleteText ? `<p class="conversation-note" style="margin: 0 0 8px 0; color: #536471; font-size: 14px;">${sanitizeHTML(incompleteText)}</p>` : ''}
+  <ul class="conversation-replies" style="list-style: none; margin: 0; padding: 0;">
+${this.formatConversationNodeHTML(conversation.root, options)}
+  </ul>
+</div>`;
+        break;
+      case 'markdown':
+      case 'obsidian': {
+        const lines = this.formatConversationNodeMarkdown(conversation.root, options, options.format);
+        const title = options.format === 'obsidian'
+          ? `# 💬 ${conversation.author.displayName} ([[@${conversation.author.username}]])`
+          : `# 💬 ${headerText}`;
+        const parts = [title, incompleteText ? `> ${incompleteText}` : '', lines.join('\n')].filter(Boolean);
+        if (options.format === 'obsidian') {
+          parts.unshift(this.buildObsidianFrontMatter({
+            conversation_id: conversation.id,
+            url: conversation.root.tweet.url,
+            author: conversation.author.displayName,
+            handle: `@${conversation.author.username}`,
+            published: this.toISODate(conversation.createdAt),
+            tweet_count: conversation.totalCount,
+            participants: conversation.participants.map(username => `@${username}`)
+          }));
+        }
+        result = parts.join('\n\n');
+        break;
+      }
+      default:
+        result = [
+          `💬 ${headerText}`,
+          incompleteText,
+          this.formatConversationNodeText(conversation.root, options).join('\n')
+        ].filter(Boolean).join('\n\n');
+    }
+
+    console.log('✅ 会话格式化完成，内容长度:', result.length);
+    return result;
+  }
+
+  /**
+   * 会话节点的作者、时间与点赞信息
+   */
+  private static getConversationMeta(tweet: TweetData, options: FormatOptions): string[] {
+    const meta: string[] = [];
+    if (options.includeTimestamp) {
+      meta.push(formatDate(tweet.timestamp, i18nManager.getCurrentLocale()));
+    }
+    if (options.includeMetrics && tweet.metrics.likes > 0) {
+      meta.push(`❤️ ${tweet.metrics.likes}`);
+    }
+    return meta;
+  }
+
+  /**
+   * 会话节点 - Markdown 嵌套列表，每层缩进两个空格
+   */
+  private static formatConversationNodeMarkdown(
+    node: ConversationNode,
+    options: FormatOptions,
+    flavor: 'markdown' | 'obsidian'
+  ): string[] {
+    const indent = '  '.repeat(node.depth);
+    const tweet = node.tweet;
+    const author = flavor === 'obsidian'
+      ? `**${tweet.author.displayName}** [[@${tweet.author.username}]]`
+      : `**${tweet.author.displayName}** [@${tweet.author.username}](https://x.com/${tweet.author.username})`;
+    const meta = this.getConversationMeta(tweet, options);
+    if (options.includeLink) {
+      meta.push(`[${i18nManager.t('view_original') || '查看原推文'}](${tweet.url})`);
+    }
+
+    const lines = [`${indent}- ${[author, ...meta].join(' · ')}`];
+    const body = [this.processContentForMarkdown(tweet, flavor, options)];
+    if (tweet.card) {
+      body.push(this.formatCardMarkdown(tweet.card, flavor, options));
+    }
+    if (options.includeMedia && tweet.media.length > 0) {
+      body.push(flavor === 'obsidian'
+        ? this.formatMediaObsidian(tweet.media, options.mediaPaths)
+        : this.formatMediaMarkdown(tweet.media, options.mediaPaths));
+    }
+    body.join('\n').split('\n').filter(line => line.trim()).forEach(line => {
+      lines.push(`${indent}  ${line}`);
+    });
+
+    node.replies.forEach(reply => {
+      lines.push(...this.formatConversationNodeMarkdown(reply, options, flavor));
+    });
+    if (node.hasMoreReplies) {
+      lines.push(`${indent}  - *${i18nManager.t('conversation.more_replies')}*`);
+    }
+    return lines;
+  }
+
+  /**
+   * 会话节点 - HTML 嵌套列表，回复以左侧竖线缩进
+   */
+  private static formatConversationNodeHTML(node: ConversationNode, options: FormatOptions): string {
+    const tweet = node.tweet;
+    const meta = this.getConversationMeta(tweet, options).map(item => sanitizeHTML(item));
+    if (options.includeLink) {
+      meta.push(`<a href="${sanitizeHTML(tweet.url)}" target="_blank" rel="noopener noreferrer" style="color: #1d9bf0; text-decoration: none;">${i18nManager.t('view_original') || '查看原推文'}</a>`);
+    }
+
+    const replies = node.replies.map(reply => this.formatConversationNodeHTML(reply, options));
+    if (node.hasMoreReplies) {
+      replies.push(`<li class="conversation-more" style="color: #536471; font-style: italic; margin: 8px 0;">${sanitizeHTML(i18nManager.t('conversation.more_replies'))}</li>`);
+    }
+
+    return `<li class="conversation-node" data-depth="${node.depth}" style="margin: 8px 0;">
+  <div class="conversation-author" style="font-size: 14px; color: #536471;">
+    <strong style="color: #0f1419;">${sanitizeHTML(tweet.author.displayName)}</strong>
+    <a href="https://x.com/${sanitizeHTML(tweet.author.username)}" target="_blank" rel="noopener noreferrer" style="color: #536471; text-decoration: none;">@${sanitizeHTML(tweet.author.username)}</a>
+    ${meta.length > 0 ? `· ${meta.join(' · ')}` : ''}
+  </div>
+  <div class="conversation-content" style="margin: 4px 0; line-height: 1.5;">${this.processContentForHTML(tweet, options)}</div>
+  ${tweet.card ? this.formatCardHTML(tweet.card, options) : ''}
+  ${options.includeMedia && tweet.media.length > 0 ? this.formatMediaHTML(tweet.media) : ''}
+  ${replies.length > 0 ? `<ul class="conversation-replies" style="list-style: none; margin: 0; padding-left: 16px; border-left: 2px solid #e1e8ed;">
+${replies.join('\n')}
+  </ul>` : ''}
+</li>`;
+  }
+
+  /**
+   * 会话节点 - 纯文本，每层缩进四个空格
+   */
+  private static formatConversationNodeText(node: ConversationNode, options: FormatOptions): string[] {
+    const indent = '    '.repeat(node.depth);
+    const tweet = node.tweet;
+    const meta = this.getConversationMeta(tweet, options);
+    const lines = [`${indent}${node.depth > 0 ? '↳ ' : ''}${[`${tweet.author.displayName} (@${tweet.author.username})`, ...meta].join(' · ')}`];
+
+    const body = [sanitizeText(this.processContentForText(tweet, options))];
+    if (tweet.card) {
+      body.push(this.formatCardText(tweet.card));
+    }
+    if (options.includeMedia && tweet.media.length > 0) {
+      body.push(this.formatMediaText(tweet.media));
+    }
+    if (options.includeLink) {
+      body.push(tweet.url);
+    }
+    body.join('\n').split('\n').filter(line => line.trim()).forEach(line => {
+      lines.push(`${indent}  ${line}`);
+    });
+
+    node.replies.forEach(reply => {
+      lines.push(...this.formatConversationNodeText(reply, options));
+    });
+    if (node.hasMoreReplies) {
+      lines.push(`${indent}    ↳ ${i18nManager.t('conversation.more_replies')}`);
+    }
+    return lines;
+  }
+
   /**
    * 获取线程分隔符
    */
-  private static getThreadSeparator(format: 'html' | 'markdown' | 'text'): string {
+  private static getThreadSeparator(format: FormatOptions['format']): string {
     switch (format) {
       case 'html':
     return '\n<hr class="thread-separator" style="border: none; border-top: 1px solid #e1e8ed; margin: 16px 0;">\n';
@@ -1,6 +1,9 @@
 // 格式化器模块导出
 
 export * from './content-formatter';
+export * from './template-engine';
+export * from './structured-data';
+export * from './rich-text-renderer';
 
 // 便捷导出
 export { contentFormatter } from './content-formatter';
\ No newline at end of file
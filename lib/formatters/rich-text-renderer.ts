@@ -0,0 +1,144 @@
+// 推文正文分段渲染器 - 把解析器输出的分段转为 HTML、Markdown、纯文本与带链接的文本段
+
+import type { RichTextToken } from '../types';
+
+/**
+ * 带链接的文本段，供 Notion rich_text 等使用
+ */
+export interface RichTextSegment {
+  text: string;
+  href?: string;
+}
+
+export interface RichTextRenderOptions {
+  /** 保留 t.co 短链接，默认使用解析出的完整地址 */
+  keepShortLinks?: boolean;
+  /** HTML 链接的内联样式 */
+  linkStyle?: string;
+}
+
+/**
+ * 推文正文分段渲染器类
+ */
+export class RichTextRenderer {
+  /**
+   * 确定链接的显示文本与地址：显示文本是网址时与地址一致（完整地址或 t.co 短链接），其余显示文本不变
+   */
+  static resolveLinks(tokens: RichTextToken[], keepShortLinks: boolean = false): RichTextToken[] {
+    return tokens.map(token => {
+      if (token.type !== 'link' || !token.expandedUrl || !token.href) {
+        return token;
+      }
+
+      const href = keepShortLinks ? token.href : token.expandedUrl;
+      const isUrlText = /^(https?:\/\/)?[^\s/]+\.[^\s]+$/i.test(token.text);
+      return { type: 'link', text: isUrlText ? href : token.text, href };
+    });
+  }
+
+  /**
+   * 渲染为 HTML
+   */
+  static toHTML(tokens: RichTextToken[], options: RichTextRenderOptions = {}): string {
+    const style = options.linkStyle ? ` style="${this.escapeHTML(options.linkStyle)}"` : '';
+
+    return this.resolveLinks(tokens, options.keepShortLinks).map(token => {
+      switch (token.type) {
+        case 'linebreak':
+          return '<br>';
+        case 'text':
+        case 'emoji':
+          return this.escapeHTML(token.text);
+        default:
+          return token.href
+            ? `<a href="${this.escapeHTML(token.href)}" target="_blank" rel="noopener noreferrer"${style}>${this.escapeHTML(token.text)}</a>`
+            : this.escapeHTML(token.text);
+      }
+    }).join('');
+  }
+
+  /**
+   * 渲染为 Markdown；Obsidian 中提及转为 [[wikilink]]，话题标签保留为原生 #tag
+   */
+  static toMarkdown(
+    tokens: RichTextToken[],
+    flavor: 'markdown' | 'obsidian' = 'markdown',
+    options: RichTextRenderOptions = {}
+  ): string {
+    return this.resolveLinks(tokens, options.keepShortLinks).map(token => {
+      switch (token.type) {
+        case 'linebreak':
+          return '\n';
+        case 'text':
+        case 'emoji':
+          return this.escapeMarkdown(token.text);
+        case 'mention':
+          if (flavor === 'obsidian') {
+            return `[[${token.text}]]`;
+          }
+          break;
+        case 'hashtag':
+          if (flavor === 'obsidian') {
+            return token.text;
+          }
+          break;
+      }
+      return token.href
+        ? `[${this.escapeMarkdown(token.text)}](${this.escapeMarkdownUrl(token.href)})`
+        : this.escapeMarkdown(token.text);
+    }).join('');
+  }
+
+  /**
+   * 渲染为纯文本；显示文本不是完整地址的链接在后面附上地址
+   */
+  static toText(tokens: RichTextToken[], options: RichTextRenderOptions = {}): string {
+    return this.resolveLinks(tokens, options.keepShortLinks).map(token => {
+      if (token.type === 'linebreak') {
+        return '\n';
+      }
+      if (token.type === 'link' && token.href && !/^https?:\/\//i.test(token.text)) {
+        return `${token.text} (${token.href})`;
+      }
+      return token.text;
+    }).join('');
+  }
+
+  /**
+   * 转为文本段；相邻的无链接内容合并为一段
+   */
+  static toSegments(tokens: RichTextToken[], options: RichTextRenderOptions = {}): RichTextSegment[] {
+    const segments: RichTextSegment[] = [];
+    for (const token of this.resolveLinks(tokens, options.keepShortLinks)) {
+      const text = token.type === 'linebreak' ? '\n' : token.text;
+      const href = token.type === 'text' || token.type === 'emoji' || token.type === 'linebreak'
+        ? undefined
+        : token.href || undefined;
+      const last = segments[segments.length - 1];
+
+      if (!href && last && !last.href) {
+        last.text += text;
+      } else {
+        segments.push(href ? { text, href } : { text });
+      }
+    }
+    return segments;
+  }
+
+  private static escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static escapeMarkdown(text: string): string {
+    return text.replace(/([*_`~\[\]\\])/g, '\\$1');
+  }
+
+  private static escapeMarkdownUrl(url: string): string {
+    return url.replace(/[()\s]/g, char => encodeURIComponent(char));
+  }
+}
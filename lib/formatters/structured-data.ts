@@ -0,0 +1,450 @@
+// 结构化数据序列化 - 规范 JSON 与 schema.org JSON-LD 导出
+
+import type { TweetData, ThreadData, ConversationData, ConversationNode, MediaItem, QuotedTweetData, RichTextToken, TweetCard } from '../types';
+
+/**
+ * JSON 导出格式版本
+ * 字段只增不改；删除或改变字段含义时递增主版本号
+ */
+export const TWEET_JSON_SCHEMA_VERSION = '1.5';
+
+/**
+ * 作者
+ */
+export interface AuthorJSON {
+  /** 用户名，不含 @ */
+  username: string;
+  displayName: string;
+  /** 个人主页地址 */
+  profileUrl: string;
+  avatarUrl: string | null;
+}
+
+/**
+ * 媒体项
+ */
+export interface MediaJSON {
+  type: MediaItem['type'];
+  url: string;
+  previewUrl: string | null;
+  alt: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+/**
+ * 链接卡片，1.5 新增
+ */
+export interface CardJSON {
+  type: TweetCard['type'];
+  url: string;
+  title: string | null;
+  description: string | null;
+  domain: string | null;
+  thumbnailUrl: string | null;
+}
+
+/**
+ * 引用推文
+ */
+export interface QuotedTweetJSON {
+  id: string;
+  url: string;
+  author: AuthorJSON;
+  text: string;
+  richText: RichTextToken[] | null;
+  /** ISO 8601 时间，页面未提供时为 null */
+  createdAt: string | null;
+  media: MediaJSON[];
+}
+
+/**
+ * 推文
+ */
+export interface TweetJSON {
+  id: string;
+  url: string;
+  author: AuthorJSON;
+  text: string;
+  /** 正文分段（链接、提及、话题标签等），解析器未提供时为 null */
+  richText: RichTextToken[] | null;
+  /** ISO 8601 时间 */
+  createdAt: string;
+  metrics: {
+    likes: number;
+    retweets: number;
+    replies: number;
+  };
+  media: MediaJSON[];
+  quotedTweet: QuotedTweetJSON | null;
+  /** 链接卡片，没有卡片时为 null */
+  card: CardJSON | null;
+  /** 所属线程信息，非线程推文为 null */
+  thread: {
+    id: string | null;
+    position: number | null;
+  } | null;
+}
+
+/**
+ * 线程
+ */
+export interface ThreadJSON {
+  id: string;
+  url: string;
+  author: AuthorJSON;
+  /** ISO 8601 时间 */
+  createdAt: string;
+  isComplete: boolean;
+  tweetCount: number;
+  /** 无法获取的线程位置（从 1 开始），1.1 新增 */
+  missingPositions: number[];
+  tweets: TweetJSON[];
+}
+
+/**
+ * 会话回复树节点，1.2 新增
+ */
+export interface ConversationNodeJSON {
+  tweet: TweetJSON;
+  /** 被回复推文的 ID，根推文为 null */
+  parentId: string | null;
+  depth: number;
+  /** 是否还有未展开的回复 */
+  hasMoreReplies: boolean;
+  replies: ConversationNodeJSON[];
+}
+
+/**
+ * 会话，1.2 新增
+ */
+export interface ConversationJSON {
+  /** 根推文 ID */
+  id: string;
+  url: string;
+  /** 楼主 */
+  author: AuthorJSON;
+  /** ISO 8601 时间 */
+  createdAt: string;
+  isComplete: boolean;
+  tweetCount: number;
+  /** 参与者用户名（不含 @） */
+  participants: string[];
+  root: ConversationNodeJSON;
+}
+
+/**
+ * 导出文档（顶层包装）
+ */
+export type StructuredExport =
+  | { schemaVersion: string; type: 'tweet'; exportedAt: string; tweet: TweetJSON }
+  | { schemaVersion: string; type: 'thread'; exportedAt: string; thread: ThreadJSON }
+  | { schemaVersion: string; type: 'collection'; exportedAt: string; tweets: TweetJSON[] }
+  | { schemaVersion: string; type: 'conversation'; exportedAt: string; conversation: ConversationJSON };
+
+/**
+ * 结构化数据序列化器
+ */
+export class StructuredDataSerializer {
+  /**
+   * 导出单条推文为规范 JSON 文档
+   */
+  static exportTweet(tweet: TweetData): StructuredExport {
+    return {
+      schemaVersion: TWEET_JSON_SCHEMA_VERSION,
+      type: 'tweet',
+      exportedAt: new Date().toISOString(),
+      tweet: this.serializeTweet(tweet)
+    };
+  }
+
+  /**
+   * 导出线程为规范 JSON 文档
+   */
+  static exportThread(thread: ThreadData): StructuredExport {
+    return {
+      schemaVersion: TWEET_JSON_SCHEMA_VERSION,
+      type: 'thread',
+      exportedAt: new Date().toISOString(),
+      thread: this.serializeThread(thread)
+    };
+  }
+
+  /**
+   * 导出多条独立推文（如批量选择）为规范 JSON 文档
+   */
+  static exportCollection(tweets: TweetData[]): StructuredExport {
+    return {
+      schemaVersion: TWEET_JSON_SCHEMA_VERSION,
+      type: 'collection',
+      exportedAt: new Date().toISOString(),
+      tweets: tweets.map(tweet => this.serializeTweet(tweet))
+    };
+  }
+
+  /**
+   * 导出会话回复树为规范 JSON 文档
+   */
+  static exportConversation(conversation: ConversationData): StructuredExport {
+    return {
+      schemaVersion: TWEET_JSON_SCHEMA_VERSION,
+      type: 'conversation',
+      exportedAt: new Date().toISOString(),
+      conversation: this.serializeConversation(conversation)
+    };
+  }
+
+  static serializeTweet(tweet: TweetData): TweetJSON {
+    return {
+      id: tweet.id,
+      url: tweet.url,
+      author: this.serializeAuthor(tweet.author),
+      text: tweet.content,
+      richText: tweet.richText || null,
+      createdAt: this.toISOString(tweet.timestamp) || '',
+      metrics: {
+        likes: tweet.metrics.likes,
+        retweets: tweet.metrics.retweets,
+        replies: tweet.metrics.replies
+      },
+      media: tweet.media.map(item => this.serializeMedia(item)),
+      quotedTweet: tweet.quotedTweet ? this.serializeQuotedTweet(tweet.quotedTweet) : null,
+      card: tweet.card ? this.serializeCard(tweet.card) : null,
+      thread: tweet.isThread
+        ? { id: tweet.threadId || null, position: tweet.threadPosition ?? null }
+        : null
+    };
+  }
+
+  static serializeQuotedTweet(quoted: QuotedTweetData): QuotedTweetJSON {
+    return {
+      id: quoted.id,
+      url: quoted.url,
+      author: this.serializeAuthor(quoted.author),
+      text: quoted.content,
+      richText: quoted.richText || null,
+      createdAt: this.toISOString(quoted.timestamp),
+      media: (quoted.media || []).map(item => this.serializeMedia(item))
+    };
+  }
+
+  static serializeCard(card: TweetCard): CardJSON {
+    return {
+      type: card.type,
+      url: card.url,
+      title: card.title || null,
+      description: card.description || null,
+      domain: card.domain || null,
+      thumbnailUrl: card.thumbnail || null
+    };
+  }
+
+  static serializeMedia(item: MediaItem): MediaJSON {
+    return {
+      type: item.type,
+      url: item.url,
+      previewUrl: item.previewUrl || null,
+      alt: item.alt || null,
+      width: item.width ?? null,
+      height: item.height ?? null
+    };
+  }
+
+  static serializeThread(thread: ThreadData): ThreadJSON {
+    return {
+      id: thread.id,
+      url: thread.tweets[0]?.url || '',
+      author: this.serializeAuthor(thread.author),
+      createdAt: this.toISOString(thread.createdAt) || '',
+      isComplete: thread.isComplete,
+      tweetCount: thread.tweets.length,
+      missingPositions: thread.missingPositions || [],
+      tweets: thread.tweets.map(tweet => this.serializeTweet(tweet))
+    };
+  }
+
+  static serializeConversation(conversation: ConversationData): ConversationJSON {
+    const serializeNode = (node: ConversationNode): ConversationNodeJSON => ({
+      tweet: this.serializeTweet(node.tweet),
+      parentId: node.parentId,
+      depth: node.depth,
+      hasMoreReplies: node.hasMoreReplies === true,
+      replies: node.replies.map(serializeNode)
+    });
+
+    return {
+      id: conversation.id,
+      url: conversation.root.tweet.url,
+      author: this.serializeAuthor(conversation.root.tweet.author),
+      createdAt: this.toISOString(conversation.createdAt) || '',
+      isComplete: conversation.isComplete,
+      tweetCount: conversation.totalCount,
+      participants: conversation.participants,
+      root: serializeNode(conversation.root)
+    };
+  }
+
+  /**
+   * 转换为 schema.org SocialMediaPosting（JSON-LD）
+   */
+  static tweetToJSONLD(tweet: TweetData): Record<string, any> {
+    return {
+      '@context': 'https://schema.org',
+      ...this.buildPosting(tweet)
+    };
+  }
+
+  /**
+   * 线程转换为 JSON-LD：首条推文为主体，其余推文通过 hasPart 依次列出
+   */
+  static threadToJSONLD(thread: ThreadData): Record<string, any> {
+    const [first, ...rest] = thread.tweets;
+    if (!first) {
+      return { '@context': 'https://schema.org', '@type': 'SocialMediaPosting', '@id': thread.id };
+    }
+
+    return {
+      '@context': 'https://schema.org',
+      ...this.buildPosting(first),
+      position: 1,
+      hasPart: rest.map((tweet, index) => ({
+        ...this.buildPosting(tweet),
+        position: tweet.threadPosition || index + 2,
+        isPartOf: { '@id': first.url }
+      }))
+    };
+  }
+
+  /**
+   * 会话转换为 JSON-LD：根推文为主体，回复按层级嵌套在 comment 中
+   */
+  static conversationToJSONLD(conversation: ConversationData): Record<string, any> {
+    const buildNode = (node: ConversationNode): Record<string, any> => {
+      const posting = this.buildPosting(node.tweet);
+      if (node.replies.length > 0) {
+        posting.comment = node.replies.map(reply => ({
+          ...buildNode(reply),
+          parentItem: { '@id': node.tweet.url }
+        }));
+      }
+      return posting;
+    };
+
+    return {
+      '@context': 'https://schema.org',
+      ...buildNode(conversation.root)
+    };
+  }
+
+  /**
+   * 多条独立推文转换为 JSON-LD @graph
+   */
+  static collectionToJSONLD(tweets: TweetData[]): Record<string, any> {
+    return {
+      '@context': 'https://schema.org',
+      '@graph': tweets.map(tweet => this.buildPosting(tweet))
+    };
+  }
+
+  private static buildPosting(tweet: TweetData): Record<string, any> {
+    const images = tweet.media.filter(item => item.type === 'image');
+    const videos = tweet.media.filter(item => item.type !== 'image');
+
+    const posting: Record<string, any> = {
+      '@type': 'SocialMediaPosting',
+      '@id': tweet.url,
+      identifier: tweet.id,
+      url: tweet.url,
+      articleBody: tweet.content,
+      datePublished: this.toISOString(tweet.timestamp),
+      author: this.buildPerson(tweet.author),
+      interactionStatistic: [
+        this.buildCounter('LikeAction', tweet.metrics.likes),
+        this.buildCounter('ShareAction', tweet.metrics.retweets),
+        this.buildCounter('CommentAction', tweet.metrics.replies)
+      ]
+    };
+
+    if (images.length > 0) {
+      posting.image = images.map(item => ({
+        '@type': 'ImageObject',
+        contentUrl: item.url,
+        ...(item.alt ? { caption: item.alt } : {}),
+        ...(item.width ? { width: item.width } : {}),
+        ...(item.height ? { height: item.height } : {})
+      }));
+    }
+
+    if (videos.length > 0) {
+      posting.video = videos.map(item => ({
+        '@type': 'VideoObject',
+        contentUrl: item.url,
+        ...(item.previewUrl ? { thumbnailUrl: item.previewUrl } : {}),
+        ...(item.alt ? { description: item.alt } : {})
+      }));
+    }
+
+    if (tweet.quotedTweet) {
+      const quoted = tweet.quotedTweet;
+      posting.sharedContent = {
+        '@type': 'SocialMediaPosting',
+        '@id': quoted.url,
+        identifier: quoted.id,
+        url: quoted.url,
+        articleBody: quoted.content,
+        ...(quoted.timestamp ? { datePublished: this.toISOString(quoted.timestamp) } : {}),
+        author: this.buildPerson(quoted.author)
+      };
+    }
+
+    if (tweet.card) {
+      posting.citation = {
+        '@type': 'WebPage',
+        url: tweet.card.url,
+        ...(tweet.card.title ? { name: tweet.card.title } : {}),
+        ...(tweet.card.description ? { description: tweet.card.description } : {}),
+        ...(tweet.card.thumbnail ? { thumbnailUrl: tweet.card.thumbnail } : {})
+      };
+    }
+
+    return posting;
+  }
+
+  private static buildPerson(author: TweetData['author']): Record<string, any> {
+    const profileUrl = `https://x.com/${author.username}`;
+    return {
+      '@type': 'Person',
+      name: author.displayName,
+      alternateName: `@${author.username}`,
+      identifier: author.username,
+      url: profileUrl,
+      ...(author.avatar ? { image: author.avatar } : {})
+    };
+  }
+
+  private static buildCounter(action: string, count: number): Record<string, any> {
+    return {
+      '@type': 'InteractionCounter',
+      interactionType: `https://schema.org/${action}`,
+      userInteractionCount: count
+    };
+  }
+
+  private static serializeAuthor(author: TweetData['author']): AuthorJSON {
+    return {
+      username: author.username,
+      displayName: author.displayName,
+      profileUrl: `https://x.com/${author.username}`,
+      avatarUrl: author.avatar || null
+    };
+  }
+
+  /**
+   * 统一输出 ISO 8601 时间（兼容经过消息/存储序列化后的字符串）
+   */
+  private static toISOString(value: Date | string | undefined): string | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+}
@@ -0,0 +1,370 @@
+// 用户自定义模板引擎 - 支持 {{变量|过滤器}}、{{#each}}、{{#if}} 等占位符语法
+
+import type { TweetData, ThreadData } from '../types';
+import { formatFullTimestamp } from '../utils/date';
+import { i18nManager } from '../i18n';
+
+/**
+ * 模板语法错误
+ */
+export class TemplateSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateSyntaxError';
+  }
+}
+
+interface TemplateFilter {
+  name: string;
+  args: string[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; filters: TemplateFilter[] }
+  | { type: 'each' | 'if' | 'unless'; path: string; children: TemplateNode[]; inverse: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { children: TemplateNode[] }>;
+
+/**
+ * 渲染选项
+ */
+export interface TemplateRenderOptions {
+  /** 输出为 HTML 时自动转义变量（可用 |raw 关闭） */
+  escapeHTML?: boolean;
+}
+
+type TemplateFilterFn = (value: any, args: string[]) => any;
+
+/**
+ * 模板引擎类
+ */
+export class TemplateEngine {
+  private static parseCache = new Map<string, TemplateNode[]>();
+
+  private static filters: Record<string, TemplateFilterFn> = {
+    date: (value, [pattern]) => {
+      const date = TemplateEngine.toDate(value);
+      return date ? TemplateEngine.formatDatePattern(date, pattern || 'YYYY-MM-DD HH:mm') : '';
+    },
+    upper: (value) => TemplateEngine.stringify(value).toUpperCase(),
+    lower: (value) => TemplateEngine.stringify(value).toLowerCase(),
+    trim: (value) => TemplateEngine.stringify(value).trim(),
+    truncate: (value, [length]) => {
+      const text = TemplateEngine.stringify(value);
+      const max = parseInt(length, 10) || 100;
+      return text.length > max ? text.substring(0, max) + '...' : text;
+    },
+    default: (value, [fallback]) => TemplateEngine.isTruthy(value) ? value : (fallback ?? ''),
+    join: (value, [separator]) => Array.isArray(value)
+      ? value.map(item => TemplateEngine.stringify(item)).join(separator ?? ', ')
+      : value,
+    number: (value) => typeof value === 'number' ? value.toLocaleString() : value,
+    json: (value) => JSON.stringify(value ?? null),
+    // 标记为原样输出，由 renderNodes 识别
+    raw: (value) => value
+  };
+
+  /**
+   * 渲染模板
+   */
+  static render(template: string, context: Record<string, any>, options: TemplateRenderOptions = {}): string {
+    const nodes = this.parse(template);
+    return this.renderNodes(nodes, [context], options);
+  }
+
+  /**
+   * 校验模板语法，返回错误信息（无错误时返回 null）
+   */
+  static validate(template: string): string | null {
+    try {
+      this.parse(template);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * 构建单条推文的模板上下文
+   */
+  static createTweetContext(tweet: TweetData): Record<string, any> {
+    return {
+      ...tweet,
+      likes: tweet.metrics.likes,
+      retweets: tweet.metrics.retweets,
+      replies: tweet.metrics.replies,
+      images: tweet.media.filter(item => item.type === 'image'),
+      videos: tweet.media.filter(item => item.type !== 'image'),
+      mediaCount: tweet.media.length,
+      hasMedia: tweet.media.length > 0
+    };
+  }
+
+  /**
+   * 构建线程的模板上下文（顶层字段取自首条推文，便于复用单推文模板）
+   */
+  static createThreadContext(thread: ThreadData): Record<string, any> {
+    const tweets = thread.tweets.map((tweet, index) => ({
+      ...this.createTweetContext(tweet),
+      position: tweet.threadPosition || index + 1
+    }));
+    const first = tweets[0] || {};
+
+    return {
+      ...first,
+      thread: {
+        id: thread.id,
+        author: thread.author,
+        createdAt: thread.createdAt,
+        isComplete: thread.isComplete,
+        count: thread.tweets.length
+      },
+      tweets,
+      count: thread.tweets.length,
+      content: thread.tweets.map(tweet => tweet.content).join('\n\n'),
+      isThread: true
+    };
+  }
+
+  /**
+   * 解析模板为语法树
+   */
+  private static parse(template: string): TemplateNode[] {
+    const cached = this.parseCache.get(template);
+    if (cached) return cached;
+
+    const root: TemplateNode[] = [];
+    const stack: Array<{ node: BlockNode; inElse: boolean }> = [];
+    const current = () => {
+      const top = stack[stack.length - 1];
+      return top ? (top.inElse ? top.node.inverse : top.node.children) : root;
+    };
+
+    const tagPattern = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(template)) !== null) {
+      if (match.index > lastIndex) {
+        current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+      }
+      lastIndex = tagPattern.lastIndex;
+
+      const tag = match[1];
+      if (tag.startsWith('#')) {
+        const [keyword, ...rest] = tag.slice(1).trim().split(/\s+/);
+        const path = rest.join(' ');
+        if (!['each', 'if', 'unless'].includes(keyword)) {
+          throw new TemplateSyntaxError(`Unknown block "{{#${keyword}}}"`);
+        }
+        if (!path) {
+          throw new TemplateSyntaxError(`Block "{{#${keyword}}}" requires a value`);
+        }
+        const node: BlockNode = { type: keyword as BlockNode['type'], path, children: [], inverse: [] };
+        current().push(node);
+        stack.push({ node, inElse: false });
+      } else if (tag.startsWith('/')) {
+        const keyword = tag.slice(1).trim();
+        const top = stack.pop();
+        if (!top || top.node.type !== keyword) {
+          throw new TemplateSyntaxError(`Unexpected "{{/${keyword}}}"`);
+        }
+      } else if (tag === 'else') {
+        const top = stack[stack.length - 1];
+        if (!top || top.inElse) {
+          throw new TemplateSyntaxError('Unexpected "{{else}}"');
+        }
+        top.inElse = true;
+      } else if (tag) {
+        current().push(this.parseVariable(tag));
+      }
+    }
+
+    if (stack.length > 0) {
+      throw new TemplateSyntaxError(`Unclosed block "{{#${stack[stack.length - 1].node.type}}}"`);
+    }
+
+    if (lastIndex < template.length) {
+      root.push({ type: 'text', value: template.slice(lastIndex) });
+    }
+
+    this.parseCache.set(template, root);
+    return root;
+  }
+
+  /**
+   * 解析变量与过滤器，如 timestamp|date:"YYYY-MM-DD"
+   */
+  private static parseVariable(tag: string): TemplateNode {
+    const parts = this.splitOutsideQuotes(tag, '|');
+    const path = parts[0].trim();
+    const filters = parts.slice(1).map(part => {
+      const [name, ...args] = this.splitOutsideQuotes(part, ':');
+      const filterName = name.trim();
+      if (!this.filters[filterName]) {
+        throw new TemplateSyntaxError(`Unknown filter "${filterName}"`);
+      }
+      return {
+        name: filterName,
+        args: args.map(arg => arg.trim().replace(/^(["'])([\s\S]*)\1$/, '$2'))
+      };
+    });
+
+    return { type: 'variable', path, filters };
+  }
+
+  /**
+   * 按分隔符切分字符串，忽略引号内的分隔符
+   */
+  private static splitOutsideQuotes(input: string, separator: string): string[] {
+    const result: string[] = [];
+    let buffer = '';
+    let quote: string | null = null;
+
+    for (const char of input) {
+      if (quote) {
+        if (char === quote) quote = null;
+        buffer += char;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+        buffer += char;
+      } else if (char === separator) {
+        result.push(buffer);
+        buffer = '';
+      } else {
+        buffer += char;
+      }
+    }
+
+    result.push(buffer);
+    return result;
+  }
+
+  /**
+   * 渲染节点列表
+   */
+  private static renderNodes(nodes: TemplateNode[], scopes: any[], options: TemplateRenderOptions): string {
+    let output = '';
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          output += node.value;
+          break;
+
+        case 'variable': {
+          let value = this.resolve(node.path, scopes);
+          for (const filter of node.filters) {
+            value = this.filters[filter.name](value, filter.args);
+          }
+          const text = this.stringify(value);
+          const isRaw = node.filters.some(filter => filter.name === 'raw');
+          output += options.escapeHTML && !isRaw ? this.escapeHTML(text) : text;
+          break;
+        }
+
+        case 'if':
+        case 'unless': {
+          const truthy = this.isTruthy(this.resolve(node.path, scopes));
+          const branch = (node.type === 'if') === truthy ? node.children : node.inverse;
+          output += this.renderNodes(branch, scopes, options);
+          break;
+        }
+
+        case 'each': {
+          const items = this.resolve(node.path, scopes);
+          if (!Array.isArray(items) || items.length === 0) {
+            output += this.renderNodes(node.inverse, scopes, options);
+            break;
+          }
+          items.forEach((item, index) => {
+            const meta = {
+              this: item,
+              '@index': index,
+              '@number': index + 1,
+              '@first': index === 0,
+              '@last': index === items.length - 1
+            };
+            output += this.renderNodes(node.children, [...scopes, meta, item], options);
+          });
+          break;
+        }
+      }
+    }
+
+    return output;
+  }
+
+  /**
+   * 从内到外查找变量
+   */
+  private static resolve(path: string, scopes: any[]): any {
+    const segments = path.split('.');
+    const [head, ...rest] = segments;
+
+    for (let i = scopes.length - 1; i >= 0; i--) {
+      const scope = scopes[i];
+      if (scope !== null && typeof scope === 'object' && head in scope) {
+        return rest.reduce((value, key) => (value == null ? undefined : value[key]), scope[head]);
+      }
+    }
+
+    return undefined;
+  }
+
+  private static isTruthy(value: any): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    return Boolean(value);
+  }
+
+  private static stringify(value: any): string {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) {
+      return formatFullTimestamp(value, i18nManager.getCurrentLocale());
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.stringify(item)).join(', ');
+    }
+    if (typeof value === 'object') {
+      return value.url || value.displayName || '';
+    }
+    return String(value);
+  }
+
+  private static toDate(value: any): Date | null {
+    if (!value) return null;
+    const date = value instanceof Date ? value : new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  /**
+   * 按 YYYY/MM/DD/HH/mm/ss 模式格式化日期
+   */
+  private static formatDatePattern(date: Date, pattern: string): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const tokens: Record<string, string> = {
+      YYYY: date.getFullYear().toString(),
+      YY: date.getFullYear().toString().slice(-2),
+      MM: pad(date.getMonth() + 1),
+      M: (date.getMonth() + 1).toString(),
+      DD: pad(date.getDate()),
+      D: date.getDate().toString(),
+      HH: pad(date.getHours()),
+      H: date.getHours().toString(),
+      mm: pad(date.getMinutes()),
+      ss: pad(date.getSeconds())
+    };
+
+    return pattern.replace(/YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, token => tokens[token]);
+  }
+
+  private static escapeHTML(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
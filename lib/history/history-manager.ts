@@ -0,0 +1,190 @@
+// 复制历史管理器 - 本地持久化每一次复制操作
+
+import type { TweetData, ThreadData, FormatOptions, HistoryEntry } from '../types';
+import { storageManager } from '../utils/storage';
+import { EXTENSION_CONFIG } from '../utils/constants';
+import { reviveTweetData } from '../utils/date';
+import { tagRuleEngine, TagRuleEngine } from '../tagging';
+
+/**
+ * 复制历史管理器类
+ */
+export class HistoryManager {
+  private static instance: HistoryManager;
+  // 串行化写入，避免并发复制时互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  public static getInstance(): HistoryManager {
+    if (!HistoryManager.instance) {
+      HistoryManager.instance = new HistoryManager();
+    }
+    return HistoryManager.instance;
+  }
+
+  /**
+   * 记录一次推文复制
+   */
+  async recordTweet(tweet: TweetData, options: FormatOptions): Promise<void> {
+    await this.addEntry({ type: 'tweet', tweet }, options);
+  }
+
+  /**
+   * 记录一次线程复制
+   */
+  async recordThread(thread: ThreadData, options: FormatOptions): Promise<void> {
+    await this.addEntry({ type: 'thread', thread }, options);
+  }
+
+  /**
+   * 获取全部历史（按复制时间倒序）
+   */
+  async getEntries(): Promise<HistoryEntry[]> {
+    const raw = await storageManager.getHistory();
+    return raw.map(entry => this.deserializeEntry(entry));
+  }
+
+  /**
+   * 全文搜索历史记录
+   */
+  async search(query: string): Promise<HistoryEntry[]> {
+    const entries = await this.getEntries();
+    const keywords = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (keywords.length === 0) return entries;
+
+    return entries.filter(entry => {
+      const haystack = this.getSearchableText(entry);
+      return keywords.every(keyword => haystack.includes(keyword));
+    });
+  }
+
+  /**
+   * 删除单条历史
+   */
+  async removeEntry(id: string): Promise<void> {
+    await this.enqueue(async () => {
+      const raw = await storageManager.getHistory<HistoryEntry>();
+      await storageManager.saveHistory(raw.filter(entry => entry.id !== id));
+    });
+  }
+
+  /**
+   * 清空历史
+   */
+  async clear(): Promise<void> {
+    await this.enqueue(() => storageManager.saveHistory([]));
+  }
+
+  /**
+   * 按上限裁剪历史
+   */
+  async trim(limit: number): Promise<void> {
+    const max = this.normalizeLimit(limit);
+    await this.enqueue(async () => {
+      const raw = await storageManager.getHistory();
+      if (raw.length > max) {
+        await storageManager.saveHistory(raw.slice(0, max));
+      }
+    });
+  }
+
+  /**
+   * 规范化历史上限
+   */
+  normalizeLimit(limit: number): number {
+    const { MIN_LIMIT, MAX_LIMIT } = EXTENSION_CONFIG.HISTORY;
+    if (!Number.isFinite(limit)) return MIN_LIMIT;
+    return Math.min(MAX_LIMIT, Math.max(MIN_LIMIT, Math.floor(limit)));
+  }
+
+  /**
+   * 添加历史记录
+   */
+  private async addEntry(
+    data: Pick<HistoryEntry, 'type' | 'tweet' | 'thread'>,
+    options: FormatOptions
+  ): Promise<void> {
+    const settings = await storageManager.getSettings();
+    if (!settings.enableHistory) return;
+
+    const limit = this.normalizeLimit(settings.historyLimit);
+    const tweets = data.thread ? data.thread.tweets : data.tweet ? [data.tweet] : [];
+    const tagging = await tagRuleEngine.apply(TagRuleEngine.fromTweets(tweets));
+    const entry: HistoryEntry = {
+      id: this.generateId(),
+      format: options.format,
+      options: { ...options },
+      copiedAt: new Date(),
+      ...data,
+      tags: tagging.tags,
+      category: tagging.category
+    };
+
+    await this.enqueue(async () => {
+      const raw = await storageManager.getHistory();
+      const entries = [this.serializeEntry(entry), ...raw].slice(0, limit);
+      await storageManager.saveHistory(entries);
+    });
+  }
+
+  /**
+   * 串行执行写操作
+   */
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task);
+    this.writeQueue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * 序列化为可存储的纯对象（Date 转为 ISO 字符串）
+   */
+  private serializeEntry(entry: HistoryEntry): any {
+    return JSON.parse(JSON.stringify(entry));
+  }
+
+  /**
+   * 反序列化并恢复日期字段
+   */
+  private deserializeEntry(raw: any): HistoryEntry {
+    const entry: HistoryEntry = { ...raw, copiedAt: new Date(raw.copiedAt) };
+    if (raw.tweet) {
+      entry.tweet = reviveTweetData(raw.tweet);
+    }
+    if (raw.thread) {
+      entry.thread = {
+        ...raw.thread,
+        createdAt: new Date(raw.thread.createdAt),
+        tweets: (raw.thread.tweets || []).map(reviveTweetData)
+      };
+    }
+    return entry;
+  }
+
+  /**
+   * 拼接用于搜索的文本
+   */
+  private getSearchableText(entry: HistoryEntry): string {
+    const tweets = entry.thread ? entry.thread.tweets : entry.tweet ? [entry.tweet] : [];
+    return [entry.category || '', ...(entry.tags || [])]
+      .concat(tweets.map(tweet => [
+        tweet.author.displayName,
+        tweet.author.username,
+        tweet.content,
+        tweet.url,
+        tweet.quotedTweet?.content || '',
+        tweet.quotedTweet?.author.username || ''
+      ].join('\n')))
+      .join('\n')
+      .toLowerCase();
+  }
+
+  /**
+   * 生成唯一 ID
+   */
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+// 导出单例实例
+export const historyManager = HistoryManager.getInstance();
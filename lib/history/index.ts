@@ -0,0 +1,6 @@
+// 复制历史模块导出
+
+export * from './history-manager';
+
+// 便捷导出
+export { historyManager } from './history-manager';
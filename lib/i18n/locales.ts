@@ -60,6 +60,7 @@ const zhCN: LocaleData = {
   notion_save_success: '推文已保存到 Notion',
   notion_save_failed: '保存到 Notion 失败',
   notion_already_exists: '推文已存在于 Notion 中',
+  notion_save_queued: '暂时无法连接 Notion，已加入待同步队列，稍后自动重试',
   // Notion设置
   'notion.settings.title': 'Notion 设置',
   'notion.settings.loading': '加载 Notion 设置中...',
@@ -72,7 +73,6 @@ const zhCN: LocaleData = {
   'notion.settings.save_options': '保存选项',
   'notion.settings.auto_tags': '自动添加标签',
   'notion.settings.save_media': '保存媒体文件',
-  'notion.settings.check_duplicates': '检查重复推文',
   'notion.settings.actions': '操作',
   'notion.settings.test_connection': '测试连接',
   'notion.settings.view_stats': '查看统计',
@@ -100,6 +100,133 @@ const zhCN: LocaleData = {
   'notion.settings.client_secret_placeholder': '输入您的 Client Secret',
   'notion.settings.connect': '连接 Notion',
   'notion.settings.cancel': '取消',
+
+  // Notion 属性映射
+  'notion.mapping.title': '属性映射',
+  'notion.mapping.description': '选择推文字段写入数据库中的哪一列，查重使用“推文链接”对应的列',
+  'notion.mapping.loading': '读取数据库结构中...',
+  'notion.mapping.load_failed': '读取数据库结构失败：{{error}}',
+  'notion.mapping.no_database': '请先选择数据库',
+  'notion.mapping.not_mapped': '不写入',
+  'notion.mapping.auto': '当前为自动匹配',
+  'notion.mapping.custom': '当前为自定义映射',
+  'notion.mapping.save': '保存映射',
+  'notion.mapping.reset': '恢复自动匹配',
+  'notion.mapping.saved': '属性映射已保存',
+  'notion.mapping.save_failed': '保存属性映射失败：{{error}}',
+  'notion.mapping.url_required': '未映射推文链接时无法检查重复保存',
+  'notion.mapping.field.title': '标题',
+  'notion.mapping.field.content': '内容',
+  'notion.mapping.field.url': '推文链接',
+  'notion.mapping.field.author': '作者',
+  'notion.mapping.field.publishTime': '发布时间',
+  'notion.mapping.field.category': '分类',
+  'notion.mapping.field.tags': '标签',
+  'notion.mapping.field.type': '推文类型',
+  'notion.mapping.field.media': '媒体文件',
+  'notion.mapping.field.mediaSummary': '媒体信息',
+  'notion.mapping.field.linkUrl': '分享链接',
+  'notion.mapping.field.linkTitle': '链接标题',
+  'notion.mapping.field.likes': '点赞数',
+  'notion.mapping.field.retweets': '转推数',
+  'notion.mapping.field.replies': '回复数',
+  'notion.mapping.field.hasMedia': '含媒体',
+  'notion.mapping.field.tweetCount': '推文数',
+  'notion.mapping.field.note': '备注',
+  'notion.mapping.field.toRead': '稍后读',
+  'notion.mapping.field.rating': '评分',
+
+  // Notion 待同步队列
+  'notion.duplicate.label': '推文已存在时',
+  'notion.duplicate.skip': '跳过',
+  'notion.duplicate.update': '更新属性',
+  'notion.duplicate.append': '追加新版本',
+  'notion.duplicate.duplicate': '另存一份',
+  'notion.duplicate.skip_desc': '保留 Notion 中的页面，不做修改',
+  'notion.duplicate.update_desc': '原地更新页面属性，刷新互动数据、媒体与编辑后的内容',
+  'notion.duplicate.append_desc': '在原页面末尾追加带保存时间的当前内容',
+  'notion.duplicate.duplicate_desc': '新建一个重复的页面',
+  'notion.duplicate.updated': 'Notion 中的推文已更新',
+  'notion.duplicate.appended': '新版本已追加到 Notion 页面',
+  'notion.duplicate.saved': '已保存处理方式',
+  'notion.duplicate.save_failed': '保存处理方式失败',
+  'notion.routing.title': '路由规则',
+  'notion.routing.description': '按作者、话题、关键词、媒体或推文类型把推文保存到不同的数据库，按顺序使用第一条命中的规则，未命中时保存到默认数据库',
+  'notion.routing.loading': '正在加载路由规则...',
+  'notion.routing.load_failed': '加载路由规则失败：{{error}}',
+  'notion.routing.empty': '还没有路由规则',
+  'notion.routing.untitled': '未命名规则',
+  'notion.routing.add': '添加规则',
+  'notion.routing.edit': '编辑',
+  'notion.routing.delete': '删除',
+  'notion.routing.save': '保存规则',
+  'notion.routing.cancel': '取消',
+  'notion.routing.name': '名称',
+  'notion.routing.database': '数据库',
+  'notion.routing.authors': '作者',
+  'notion.routing.hashtags': '话题',
+  'notion.routing.keywords': '关键词',
+  'notion.routing.media': '媒体',
+  'notion.routing.media_any': '不限',
+  'notion.routing.media_with': '含媒体',
+  'notion.routing.media_without': '不含媒体',
+  'notion.routing.types': '类型',
+  'notion.routing.type.original': '原创',
+  'notion.routing.type.reply': '回复',
+  'notion.routing.type.quote': '引用',
+  'notion.routing.type.retweet': '转推',
+  'notion.routing.category': '默认分类',
+  'notion.routing.tags': '附加标签',
+  'notion.routing.database_required': '请选择目标数据库',
+  'notion.routing.condition_required': '请至少设置一个匹配条件',
+  'notion.routing.saved': '路由规则已保存',
+  'notion.routing.save_failed': '保存路由规则失败：{{error}}',
+  'notion.routing.saved_to': '{{message}}：{{database}}',
+  'notion.annotation.enable': '保存前填写备注、标签与评分',
+  'notion.annotation.saved': '注释表单设置已保存',
+  'notion.annotation.save_failed': '保存注释表单设置失败',
+  'notion.collection.tab': '收藏',
+  'notion.collection.title': 'Notion 收藏',
+  'notion.collection.search_placeholder': '搜索标题、正文或作者',
+  'notion.collection.all_categories': '全部分类',
+  'notion.collection.all_tags': '全部标签',
+  'notion.collection.author': '作者',
+  'notion.collection.date_from': '开始日期',
+  'notion.collection.date_to': '结束日期',
+  'notion.collection.loading': '加载中...',
+  'notion.collection.load_more': '加载更多',
+  'notion.collection.empty': '没有符合条件的推文',
+  'notion.collection.load_failed': '加载失败: {{error}}',
+  'notion.collection.open_notion': '在 Notion 中打开',
+  'notion.collection.open_tweet': '打开推文',
+  'notion.collection.copy': '复制',
+  'notion.collection.copied': '已复制到剪贴板',
+  'notion.collection.copy_failed': '复制失败',
+  'notion.oauth.title': '使用 Notion 账号登录',
+  'notion.oauth.description': '通过公共集成授权访问，无需手动创建集成和复制 Token',
+  'notion.oauth.login': '使用 Notion 登录',
+  'notion.oauth.configure': '公共集成配置',
+  'notion.oauth.client_id': 'OAuth Client ID',
+  'notion.oauth.token_endpoint': '令牌交换端点',
+  'notion.oauth.authorize_url': '授权页地址',
+  'notion.oauth.redirect_uri': '回调地址（在集成设置中登记）',
+  'notion.oauth.save': '保存配置',
+  'notion.oauth.saved': 'OAuth 配置已保存',
+  'notion.oauth.save_failed': '保存 OAuth 配置失败',
+  'notion.oauth.permission_denied': '未授予访问令牌交换端点的权限',
+  'notion.oauth.not_configured': '请先填写并保存公共集成配置',
+  'notion.oauth.connected': '已连接工作区 {{workspace}}',
+  'notion.oauth.failed': '登录失败: {{error}}',
+  'notion.oauth.manual_fallback': '也可以手动创建内部集成并填写 Integration Token',
+  'notion.oauth.unnamed_workspace': '未命名工作区',
+  'notion.outbox.title': '待同步',
+  'notion.outbox.empty': '没有待同步的推文',
+  'notion.outbox.pending': '第 {{attempts}} 次失败，{{time}}后重试',
+  'notion.outbox.failed': '已停止重试',
+  'notion.outbox.retry': '重试',
+  'notion.outbox.retry_all': '全部重试',
+  'notion.outbox.discard': '丢弃',
+  'notion.outbox.action_failed': '操作失败：{{error}}',
   
   // 格式选项
   format_html: 'HTML 格式',
@@ -137,6 +264,185 @@ const zhCN: LocaleData = {
   'history.item_thread': '线程 ({{count}} 条)',
   'history.copy_again': '重新复制',
   'history.delete': '删除',
+  'history.search_placeholder': '搜索作者、内容或链接...',
+  'history.no_results': '没有匹配的历史记录',
+  'history.settings': '历史设置',
+  'history.enable': '记录复制历史',
+  'history.limit': '最多保留条数',
+
+  // 存档
+  'archive.save': '保存为存档',
+  'archive.preparing': '正在打包存档...',
+  'archive.saved': '存档已下载',
+  'archive.saved_partial': '存档已下载，{{count}} 个媒体无法离线保存',
+  'archive.failed': '存档失败，请稍后重试',
+
+  // 批量选择
+  'bulk.toggle': '批量选择',
+  'bulk.enabled': '批量选择模式已开启，勾选推文后使用底部操作栏',
+  'bulk.disabled': '批量选择模式已关闭',
+  'bulk.no_tab': '请先打开 Twitter/X 页面',
+  'bulk.select': '选择此推文',
+  'bulk.select_all': '全选可见',
+  'bulk.clear': '清空',
+  'bulk.exit': '退出批量选择',
+  'bulk.selected': '已选择 {{count}} 条',
+  'bulk.copy': '复制',
+  'bulk.screenshot': '截图',
+  'bulk.notion': '保存到 Notion',
+  'bulk.progress': '{{action}}：{{processed}}/{{total}}（失败 {{errors}}）',
+  'bulk.done': '{{action}}完成：成功 {{successful}} 条，失败 {{failed}} 条',
+  'bulk.failed': '批量操作失败，请稍后重试',
+  'timeline.title': '采集时间线',
+  'timeline.close': '关闭',
+  'timeline.max_count': '最多条数（0 不限）',
+  'timeline.since': '开始日期',
+  'timeline.until': '结束日期',
+  'timeline.idle_scrolls': '无新推文时滚动次数',
+  'timeline.hint': '自动向下滚动并收集当前页面的推文',
+  'timeline.start': '开始采集',
+  'timeline.pause': '暂停',
+  'timeline.resume': '继续',
+  'timeline.cancel': '停止',
+  'timeline.collecting': '正在采集：{{count}} 条（滚动 {{scrolls}} 次）',
+  'timeline.paused': '已暂停：{{count}} 条',
+  'timeline.finished': '已采集 {{count}} 条（{{reason}}）',
+  'timeline.reason_count': '达到数量上限',
+  'timeline.reason_date': '超出日期范围',
+  'timeline.reason_idle': '没有更多推文',
+  'timeline.reason_cancelled': '已手动停止',
+  'timeline.copy': '复制',
+  'timeline.download': '下载文件',
+  'timeline.restart': '重新采集',
+  'timeline.copied': '已复制 {{count}} 条推文',
+  'timeline.downloaded': '已导出 {{count}} 条推文',
+  'timeline.failed': '采集失败，请刷新页面后重试',
+
+  // 自动标签规则
+  'webhook.tab': 'Webhook',
+  'webhook.title': 'Webhook 端点',
+  'webhook.description': '在推文右键菜单中选择「发送到 Webhook」，推文或线程会以 JSON 发送到所有启用的端点，失败时在后台自动重试',
+  'webhook.empty': '尚未添加端点',
+  'webhook.add': '添加端点',
+  'webhook.edit': '编辑',
+  'webhook.delete': '删除',
+  'webhook.delete_confirm': '确定删除这个端点吗？',
+  'webhook.name': '名称',
+  'webhook.headers': '请求头',
+  'webhook.secret': '签名密钥',
+  'webhook.secret_placeholder': '可选，用于 HMAC-SHA256 签名',
+  'webhook.signature_header': '签名请求头',
+  'webhook.template': '请求体模板',
+  'webhook.template_hint': '留空时发送与 JSON 导出相同的内容；模板可使用推文模板变量，{{payload|json}} 为完整 JSON，结果必须是合法 JSON',
+  'webhook.save': '保存',
+  'webhook.test': '发送测试',
+  'webhook.cancel': '取消',
+  'webhook.saved': 'Webhook 设置已保存',
+  'webhook.save_failed': '保存 Webhook 设置失败',
+  'webhook.invalid': '端点无效: {{error}}',
+  'webhook.permission_denied': '未授予访问该地址的权限',
+  'webhook.permission_failed': '无法申请访问该地址的权限: {{error}}',
+  'webhook.test_success': '测试成功（HTTP {{status}}）',
+  'webhook.test_failed': '测试失败: {{error}}',
+  'webhook.sent': '已发送到 {{count}} 个 Webhook',
+  'webhook.queued': '{{count}} 个 Webhook 发送失败，将在后台重试',
+  'webhook.send_failed': '发送到 Webhook 失败: {{error}}',
+  'webhook.queue.title': '重试队列',
+  'webhook.queue.empty': '没有等待重试的发送',
+  'destination.tab': '保存目标',
+  'destination.panel_description': '每个已配置的目标会在推文操作栏上显示一个保存按钮',
+  'destination.load_failed': '加载保存目标失败',
+  'destination.configured': '已配置',
+  'destination.not_configured': '未配置',
+  'destination.save': '保存并连接',
+  'destination.test': '测试',
+  'destination.connected': '{{name}} 已连接',
+  'destination.connect_failed': '连接 {{name}} 失败：{{error}}',
+  'destination.test_success': '{{name}} 可用',
+  'destination.test_success_target': '{{name}} 可用：{{target}}',
+  'destination.test_failed': '{{name}} 测试失败：{{error}}',
+  'destination.save_to': '保存到 {{name}}',
+  'destination.saved': '已保存到 {{name}}',
+  'destination.saved_hint': '已保存到 {{name}}，点击可再次保存',
+  'destination.saved_to': '已保存到 {{name}}：{{target}}',
+  'destination.updated': '{{name}} 中的内容已更新',
+  'destination.appended': '新版本已追加到 {{name}}',
+  'destination.skipped': '{{name}} 中已存在，已跳过',
+  'destination.queued': '保存到 {{name}} 失败，已加入重试队列',
+  'destination.save_failed': '保存到 {{name}} 失败：{{error}}',
+  'destination.notion.name': 'Notion',
+  'destination.notion.description': '按路由规则保存到数据库；OAuth 登录、路由与属性映射在「Notion」标签页中设置',
+  'destination.notion.token': 'Token',
+  'destination.notion.token_description': 'Integration Token；已通过 OAuth 登录时留空',
+  'destination.notion.database': '数据库 ID',
+  'destination.notion.database_description': '默认数据库的 ID，留空时保持当前选择',
+  'destination.webhook.name': 'Webhook',
+  'destination.webhook.description': '发送到「Webhook」标签页中启用的端点',
+  'destination.file.name': '本地文件',
+  'destination.file.description': '每条推文保存为下载目录中的一个文件，再次保存时覆盖',
+  'destination.file.enabled': '启用',
+  'destination.file.folder': '文件夹',
+  'destination.file.folder_description': '下载目录下的子文件夹，可用 / 分隔多级',
+  'destination.file.format': '格式',
+  'tagging.tab': '标签',
+  'tagging.title': '自动标签规则',
+  'tagging.description': '保存到 Notion 或记录复制历史时，按规则为推文添加标签并给出分类；分类取优先级最高的命中规则',
+  'tagging.empty': '暂无规则',
+  'tagging.untitled': '未命名规则',
+  'tagging.add': '添加规则',
+  'tagging.reset': '恢复默认',
+  'tagging.reset_confirm': '确定要恢复默认规则吗？当前规则将被删除。',
+  'tagging.edit': '编辑',
+  'tagging.delete': '删除',
+  'tagging.save': '保存规则',
+  'tagging.cancel': '取消',
+  'tagging.name': '名称',
+  'tagging.matcher': '匹配方式',
+  'tagging.matcher.keyword': '关键词',
+  'tagging.matcher.regex': '正则',
+  'tagging.matcher.hashtag': '话题',
+  'tagging.matcher.author': '作者',
+  'tagging.matcher.domain': '链接域名',
+  'tagging.matcher.media': '媒体类型',
+  'tagging.pattern': '模式',
+  'tagging.tags': '标签',
+  'tagging.category': '分类',
+  'tagging.priority': '优先级',
+  'tagging.media.image': '图片',
+  'tagging.media.video': '视频',
+  'tagging.media.gif': 'GIF',
+  'tagging.invalid': '规则无效：{{error}}',
+  'tagging.saved': '标签规则已保存',
+  'tagging.save_failed': '保存标签规则失败',
+  'tagging.test.title': '测试规则',
+  'tagging.test.placeholder': '粘贴推文内容…',
+  'tagging.test.author': '作者',
+  'tagging.test.run': '运行测试',
+  'tagging.test.matched': '命中规则',
+  'tagging.test.no_match': '没有命中任何规则',
+
+  // 自定义模板
+  'template.tab': '模板',
+  'template.title': '自定义复制模板',
+  'template.new': '新模板',
+  'template.name': '模板名称',
+  'template.scope': '作用范围',
+  'template.scope_thread': '整个线程',
+  'template.output_format': '输出格式',
+  'template.body': '模板内容',
+  'template.placeholders': '可用占位符',
+  'template.preview': '实时预览',
+  'template.show_in_context_menu': '显示在右键菜单中',
+  'template.shortcut': '快捷键',
+  'template.shortcut_none': '不绑定',
+  'template.shortcut_slot': '模板快捷键 {{slot}}',
+  'template.configure_shortcuts': '在浏览器中设置按键',
+  'template.save': '保存模板',
+  'template.saved': '模板已保存',
+  'template.save_failed': '模板保存失败',
+  'template.delete_confirm': '确定要删除此模板吗？',
+  'template.name_required': '请填写模板名称',
+  'template.invalid': '模板语法错误：{{error}}',
   
   // 线程相关
   'thread.detected': '检测到推文线程',
@@ -145,6 +451,18 @@ const zhCN: LocaleData = {
   'thread.copy_from_here': '从此处开始复制',
   'thread.loading': '正在加载线程...',
   'thread.count': '共 {{count}} 条推文',
+  'thread.walking': '正在打开会话页读取完整线程...',
+  'thread.missing_positions': '线程中第 {{positions}} 条无法获取，已跳过',
+  'conversation.title': '复制会话',
+  'conversation.description': '读取根推文下所有参与者的回复，按回复层级导出',
+  'conversation.op_only': '只看楼主（保留楼主回复的上下文）',
+  'conversation.top_replies': '只保留点赞最多的前 N 条回复（0 为全部）',
+  'conversation.copy': '读取并复制',
+  'conversation.reading': '正在打开会话页读取回复...',
+  'conversation.header': '{{author}} (@{{username}}) 的会话，共 {{count}} 条推文，{{participants}} 位参与者',
+  'conversation.incomplete': '部分回复未能加载，会话可能不完整',
+  'conversation.more_replies': '还有更多回复未展开',
+  'conversation.failed': '读取会话失败，请稍后重试',
   
   // 时间格式
   'time.now': '刚刚',
@@ -172,8 +490,10 @@ const zhCN: LocaleData = {
   // 成功消息
   'success.tweet_copied': '推文已复制到剪贴板',
   'success.thread_copied': '线程已复制到剪贴板 ({{count}} 条推文)',
+  'success.conversation_copied': '会话已复制到剪贴板 ({{count}} 条推文，{{participants}} 位参与者)',
   'success.settings_saved': '设置已保存',
   'success.history_cleared': '历史记录已清空',
+  'success.template_copied': '已按模板「{{name}}」复制',
   'success.screenshot_saved': '截图已保存',
   'success.operation_completed': '操作已完成',
   'success.cache_cleared': '缓存已清理',
@@ -254,11 +574,15 @@ const zhCN: LocaleData = {
 'format.html_desc': '保留富文本格式，适合粘贴到文档',
   'format.markdown_desc': '轻量标记语言，适合技术文档',
   'format.text_desc': '纯文本格式，适合任何地方',
+  'format.obsidian_desc': 'Obsidian 笔记，含 YAML 属性与双链',
+  'format.json_desc': '结构化 JSON，字段带版本号，时间为 ISO 格式',
+  'format.jsonld_desc': 'schema.org SocialMediaPosting 结构化数据',
   include_author: '包含作者信息',
   include_timestamp: '包含时间戳',
   include_metrics: '包含互动数据',
   include_media: '包含媒体信息',
   include_link: '包含原文链接',
+  keep_short_links: '保留 t.co 短链接',
   save_settings: '保存设置',
   reset_default: '恢复默认',
   copy_history: '复制历史',
@@ -357,6 +681,7 @@ const en: LocaleData = {
   notion_save_success: 'Tweet saved to Notion',
   notion_save_failed: 'Failed to save to Notion',
   notion_already_exists: 'Tweet already exists in Notion',
+  notion_save_queued: 'Notion is unreachable right now. The tweet was queued and will be retried automatically',
   // Notion settings
   'notion.settings.title': 'Notion Settings',
   'notion.settings.loading': 'Loading Notion settings...',
@@ -369,7 +694,6 @@ const en: LocaleData = {
   'notion.settings.save_options': 'Save Options',
   'notion.settings.auto_tags': 'Auto add tags',
   'notion.settings.save_media': 'Save media files',
-  'notion.settings.check_duplicates': 'Check duplicate tweets',
   'notion.settings.actions': 'Actions',
   'notion.settings.test_connection': 'Test Connection',
   'notion.settings.view_stats': 'View Statistics',
@@ -395,6 +719,133 @@ const en: LocaleData = {
   'notion.settings.client_secret_placeholder': 'Enter your Client Secret',
   'notion.settings.connect': 'Connect Notion',
   'notion.settings.cancel': 'Cancel',
+
+  // Notion property mapping
+  'notion.mapping.title': 'Property Mapping',
+  'notion.mapping.description': 'Choose which database column each tweet field is written to. Duplicate checks use the column mapped to Tweet URL',
+  'notion.mapping.loading': 'Reading database schema...',
+  'notion.mapping.load_failed': 'Failed to read database schema: {{error}}',
+  'notion.mapping.no_database': 'Select a database first',
+  'notion.mapping.not_mapped': 'Do not write',
+  'notion.mapping.auto': 'Using automatic matching',
+  'notion.mapping.custom': 'Using a custom mapping',
+  'notion.mapping.save': 'Save Mapping',
+  'notion.mapping.reset': 'Reset to Automatic',
+  'notion.mapping.saved': 'Property mapping saved',
+  'notion.mapping.save_failed': 'Failed to save property mapping: {{error}}',
+  'notion.mapping.url_required': 'Duplicate checks are disabled while Tweet URL is not mapped',
+  'notion.mapping.field.title': 'Title',
+  'notion.mapping.field.content': 'Content',
+  'notion.mapping.field.url': 'Tweet URL',
+  'notion.mapping.field.author': 'Author',
+  'notion.mapping.field.publishTime': 'Published',
+  'notion.mapping.field.category': 'Category',
+  'notion.mapping.field.tags': 'Tags',
+  'notion.mapping.field.type': 'Tweet Type',
+  'notion.mapping.field.media': 'Media Files',
+  'notion.mapping.field.mediaSummary': 'Media Info',
+  'notion.mapping.field.linkUrl': 'Shared Link',
+  'notion.mapping.field.linkTitle': 'Link Title',
+  'notion.mapping.field.likes': 'Likes',
+  'notion.mapping.field.retweets': 'Retweets',
+  'notion.mapping.field.replies': 'Replies',
+  'notion.mapping.field.hasMedia': 'Has Media',
+  'notion.mapping.field.tweetCount': 'Tweet Count',
+  'notion.mapping.field.note': 'Note',
+  'notion.mapping.field.toRead': 'To Read',
+  'notion.mapping.field.rating': 'Rating',
+
+  // Notion outbox
+  'notion.duplicate.label': 'When a tweet exists',
+  'notion.duplicate.skip': 'Skip',
+  'notion.duplicate.update': 'Update properties',
+  'notion.duplicate.append': 'Append new version',
+  'notion.duplicate.duplicate': 'Create duplicate',
+  'notion.duplicate.skip_desc': 'Keep the existing Notion page unchanged',
+  'notion.duplicate.update_desc': 'Update the page properties in place, refreshing metrics, media and edited content',
+  'notion.duplicate.append_desc': 'Append the current version to the end of the existing page',
+  'notion.duplicate.duplicate_desc': 'Create another page for the same tweet',
+  'notion.duplicate.updated': 'Tweet updated in Notion',
+  'notion.duplicate.appended': 'New version appended to the Notion page',
+  'notion.duplicate.saved': 'Duplicate handling saved',
+  'notion.duplicate.save_failed': 'Failed to save duplicate handling',
+  'notion.routing.title': 'Routing Rules',
+  'notion.routing.description': 'Save tweets to different databases by author, hashtag, keyword, media or tweet type. The first matching rule wins; unmatched tweets go to the default database',
+  'notion.routing.loading': 'Loading routing rules...',
+  'notion.routing.load_failed': 'Failed to load routing rules: {{error}}',
+  'notion.routing.empty': 'No routing rules yet',
+  'notion.routing.untitled': 'Untitled rule',
+  'notion.routing.add': 'Add Rule',
+  'notion.routing.edit': 'Edit',
+  'notion.routing.delete': 'Delete',
+  'notion.routing.save': 'Save Rule',
+  'notion.routing.cancel': 'Cancel',
+  'notion.routing.name': 'Name',
+  'notion.routing.database': 'Database',
+  'notion.routing.authors': 'Authors',
+  'notion.routing.hashtags': 'Hashtags',
+  'notion.routing.keywords': 'Keywords',
+  'notion.routing.media': 'Media',
+  'notion.routing.media_any': 'Any',
+  'notion.routing.media_with': 'With media',
+  'notion.routing.media_without': 'Without media',
+  'notion.routing.types': 'Types',
+  'notion.routing.type.original': 'Original',
+  'notion.routing.type.reply': 'Reply',
+  'notion.routing.type.quote': 'Quote',
+  'notion.routing.type.retweet': 'Retweet',
+  'notion.routing.category': 'Category',
+  'notion.routing.tags': 'Extra tags',
+  'notion.routing.database_required': 'Please choose a target database',
+  'notion.routing.condition_required': 'Please set at least one condition',
+  'notion.routing.saved': 'Routing rules saved',
+  'notion.routing.save_failed': 'Failed to save routing rules: {{error}}',
+  'notion.routing.saved_to': '{{message}}: {{database}}',
+  'notion.annotation.enable': 'Add notes, tags and rating before saving',
+  'notion.annotation.saved': 'Annotation form setting saved',
+  'notion.annotation.save_failed': 'Failed to save annotation form setting',
+  'notion.collection.tab': 'Collection',
+  'notion.collection.title': 'Notion Collection',
+  'notion.collection.search_placeholder': 'Search title, content or author',
+  'notion.collection.all_categories': 'All categories',
+  'notion.collection.all_tags': 'All tags',
+  'notion.collection.author': 'Author',
+  'notion.collection.date_from': 'From',
+  'notion.collection.date_to': 'To',
+  'notion.collection.loading': 'Loading...',
+  'notion.collection.load_more': 'Load more',
+  'notion.collection.empty': 'No saved tweets match these filters',
+  'notion.collection.load_failed': 'Failed to load: {{error}}',
+  'notion.collection.open_notion': 'Open in Notion',
+  'notion.collection.open_tweet': 'Open tweet',
+  'notion.collection.copy': 'Copy',
+  'notion.collection.copied': 'Copied to clipboard',
+  'notion.collection.copy_failed': 'Copy failed',
+  'notion.oauth.title': 'Sign in with Notion',
+  'notion.oauth.description': 'Authorize through a public integration instead of creating an integration and copying its token',
+  'notion.oauth.login': 'Sign in with Notion',
+  'notion.oauth.configure': 'Public integration settings',
+  'notion.oauth.client_id': 'OAuth Client ID',
+  'notion.oauth.token_endpoint': 'Token exchange endpoint',
+  'notion.oauth.authorize_url': 'Authorization URL',
+  'notion.oauth.redirect_uri': 'Redirect URI (register it in the integration settings)',
+  'notion.oauth.save': 'Save settings',
+  'notion.oauth.saved': 'OAuth settings saved',
+  'notion.oauth.save_failed': 'Failed to save OAuth settings',
+  'notion.oauth.permission_denied': 'Permission to reach the token exchange endpoint was not granted',
+  'notion.oauth.not_configured': 'Fill in and save the public integration settings first',
+  'notion.oauth.connected': 'Connected to workspace {{workspace}}',
+  'notion.oauth.failed': 'Sign-in failed: {{error}}',
+  'notion.oauth.manual_fallback': 'Or create an internal integration and paste its Integration Token',
+  'notion.oauth.unnamed_workspace': 'Untitled workspace',
+  'notion.outbox.title': 'Pending Sync',
+  'notion.outbox.empty': 'No tweets waiting to sync',
+  'notion.outbox.pending': 'Failed {{attempts}} time(s), retrying in {{time}}',
+  'notion.outbox.failed': 'Retries stopped',
+  'notion.outbox.retry': 'Retry',
+  'notion.outbox.retry_all': 'Retry All',
+  'notion.outbox.discard': 'Discard',
+  'notion.outbox.action_failed': 'Action failed: {{error}}',
   'notion.settings.disconnect': 'Disconnect',
   'notion.settings.close': 'Close',
   
@@ -429,6 +880,181 @@ const en: LocaleData = {
   'history.item_thread': 'Thread ({{count}} tweets)',
   'history.copy_again': 'Copy Again',
   'history.delete': 'Delete',
+  'history.search_placeholder': 'Search author, content or link...',
+  'history.no_results': 'No matching history',
+  'history.settings': 'History Settings',
+  'history.enable': 'Record copy history',
+  'history.limit': 'Maximum entries to keep',
+
+  'archive.save': 'Save as archive',
+  'archive.preparing': 'Preparing archive...',
+  'archive.saved': 'Archive downloaded',
+  'archive.saved_partial': 'Archive downloaded, {{count}} media item(s) could not be saved offline',
+  'archive.failed': 'Failed to save archive. Please try again.',
+
+  'bulk.toggle': 'Bulk select',
+  'bulk.enabled': 'Bulk selection on. Tick tweets, then use the tray at the bottom',
+  'bulk.disabled': 'Bulk selection off',
+  'bulk.no_tab': 'Open a Twitter/X page first',
+  'bulk.select': 'Select this tweet',
+  'bulk.select_all': 'Select visible',
+  'bulk.clear': 'Clear',
+  'bulk.exit': 'Exit bulk selection',
+  'bulk.selected': '{{count}} selected',
+  'bulk.copy': 'Copy',
+  'bulk.screenshot': 'Screenshot',
+  'bulk.notion': 'Save to Notion',
+  'bulk.progress': '{{action}}: {{processed}}/{{total}} ({{errors}} failed)',
+  'bulk.done': '{{action}} finished: {{successful}} succeeded, {{failed}} failed',
+  'bulk.failed': 'Bulk action failed. Please try again.',
+  'timeline.title': 'Collect timeline',
+  'timeline.close': 'Close',
+  'timeline.max_count': 'Max tweets (0 = no limit)',
+  'timeline.since': 'From date',
+  'timeline.until': 'To date',
+  'timeline.idle_scrolls': 'Scrolls without new tweets',
+  'timeline.hint': 'Scrolls down and collects tweets on this page',
+  'timeline.start': 'Start',
+  'timeline.pause': 'Pause',
+  'timeline.resume': 'Resume',
+  'timeline.cancel': 'Stop',
+  'timeline.collecting': 'Collecting: {{count}} tweets ({{scrolls}} scrolls)',
+  'timeline.paused': 'Paused: {{count}} tweets',
+  'timeline.finished': 'Collected {{count}} tweets ({{reason}})',
+  'timeline.reason_count': 'limit reached',
+  'timeline.reason_date': 'past the date range',
+  'timeline.reason_idle': 'no more tweets',
+  'timeline.reason_cancelled': 'stopped',
+  'timeline.copy': 'Copy',
+  'timeline.download': 'Download file',
+  'timeline.restart': 'Collect again',
+  'timeline.copied': 'Copied {{count}} tweets',
+  'timeline.downloaded': 'Exported {{count}} tweets',
+  'timeline.failed': 'Collection failed. Reload the page and try again.',
+
+  'webhook.tab': 'Webhooks',
+  'webhook.title': 'Webhook Endpoints',
+  'webhook.description': 'Choose "Send to Webhook" in the tweet context menu to POST the tweet or thread as JSON to every enabled endpoint. Failed sends are retried in the background',
+  'webhook.empty': 'No endpoints yet',
+  'webhook.add': 'Add endpoint',
+  'webhook.edit': 'Edit',
+  'webhook.delete': 'Delete',
+  'webhook.delete_confirm': 'Delete this endpoint?',
+  'webhook.name': 'Name',
+  'webhook.headers': 'Headers',
+  'webhook.secret': 'Signing secret',
+  'webhook.secret_placeholder': 'Optional, enables HMAC-SHA256 signing',
+  'webhook.signature_header': 'Signature header',
+  'webhook.template': 'Payload template',
+  'webhook.template_hint': 'Leave empty to send the same document as the JSON export. Templates can use the tweet template variables, and {{payload|json}} is the full JSON. The result must be valid JSON',
+  'webhook.save': 'Save',
+  'webhook.test': 'Send test',
+  'webhook.cancel': 'Cancel',
+  'webhook.saved': 'Webhook settings saved',
+  'webhook.save_failed': 'Failed to save webhook settings',
+  'webhook.invalid': 'Invalid endpoint: {{error}}',
+  'webhook.permission_denied': 'Permission to reach this address was not granted',
+  'webhook.permission_failed': 'Could not request permission to reach this address: {{error}}',
+  'webhook.test_success': 'Test succeeded (HTTP {{status}})',
+  'webhook.test_failed': 'Test failed: {{error}}',
+  'webhook.sent': 'Sent to {{count}} webhook(s)',
+  'webhook.queued': '{{count}} webhook(s) failed and will be retried in the background',
+  'webhook.send_failed': 'Failed to send to webhook: {{error}}',
+  'webhook.queue.title': 'Retry Queue',
+  'webhook.queue.empty': 'No sends waiting for retry',
+  'destination.tab': 'Destinations',
+  'destination.panel_description': 'Each configured destination adds a save button to the tweet action bar',
+  'destination.load_failed': 'Failed to load destinations',
+  'destination.configured': 'Configured',
+  'destination.not_configured': 'Not configured',
+  'destination.save': 'Save & Connect',
+  'destination.test': 'Test',
+  'destination.connected': '{{name}} connected',
+  'destination.connect_failed': 'Failed to connect {{name}}: {{error}}',
+  'destination.test_success': '{{name}} is ready',
+  'destination.test_success_target': '{{name}} is ready: {{target}}',
+  'destination.test_failed': '{{name}} test failed: {{error}}',
+  'destination.save_to': 'Save to {{name}}',
+  'destination.saved': 'Saved to {{name}}',
+  'destination.saved_hint': 'Saved to {{name}}, click to save again',
+  'destination.saved_to': 'Saved to {{name}}: {{target}}',
+  'destination.updated': 'Updated in {{name}}',
+  'destination.appended': 'New version appended in {{name}}',
+  'destination.skipped': 'Already in {{name}}, skipped',
+  'destination.queued': 'Saving to {{name}} failed, queued for retry',
+  'destination.save_failed': 'Failed to save to {{name}}: {{error}}',
+  'destination.notion.name': 'Notion',
+  'destination.notion.description': 'Saves to databases by routing rules; OAuth login, routing and property mapping live in the Notion tab',
+  'destination.notion.token': 'Token',
+  'destination.notion.token_description': 'Integration token; leave empty when signed in with OAuth',
+  'destination.notion.database': 'Database ID',
+  'destination.notion.database_description': 'ID of the default database; leave empty to keep the current one',
+  'destination.webhook.name': 'Webhook',
+  'destination.webhook.description': 'Sends to the endpoints enabled in the Webhooks tab',
+  'destination.file.name': 'Local File',
+  'destination.file.description': 'Saves each tweet as a file in the downloads folder, overwriting on re-save',
+  'destination.file.enabled': 'Enabled',
+  'destination.file.folder': 'Folder',
+  'destination.file.folder_description': 'Subfolder of the downloads folder; use / for nested folders',
+  'destination.file.format': 'Format',
+  'tagging.tab': 'Tags',
+  'tagging.title': 'Auto-tagging Rules',
+  'tagging.description': 'Rules add tags and a category to tweets saved to Notion or recorded in history; the category comes from the highest-priority matching rule',
+  'tagging.empty': 'No rules yet',
+  'tagging.untitled': 'Untitled rule',
+  'tagging.add': 'Add rule',
+  'tagging.reset': 'Restore defaults',
+  'tagging.reset_confirm': 'Restore the default rules? Your current rules will be removed.',
+  'tagging.edit': 'Edit',
+  'tagging.delete': 'Delete',
+  'tagging.save': 'Save rule',
+  'tagging.cancel': 'Cancel',
+  'tagging.name': 'Name',
+  'tagging.matcher': 'Match by',
+  'tagging.matcher.keyword': 'Keyword',
+  'tagging.matcher.regex': 'Regex',
+  'tagging.matcher.hashtag': 'Hashtag',
+  'tagging.matcher.author': 'Author',
+  'tagging.matcher.domain': 'Link domain',
+  'tagging.matcher.media': 'Media type',
+  'tagging.pattern': 'Pattern',
+  'tagging.tags': 'Tags',
+  'tagging.category': 'Category',
+  'tagging.priority': 'Priority',
+  'tagging.media.image': 'Image',
+  'tagging.media.video': 'Video',
+  'tagging.media.gif': 'GIF',
+  'tagging.invalid': 'Invalid rule: {{error}}',
+  'tagging.saved': 'Tagging rules saved',
+  'tagging.save_failed': 'Failed to save tagging rules',
+  'tagging.test.title': 'Test Rules',
+  'tagging.test.placeholder': 'Paste tweet text…',
+  'tagging.test.author': 'Author',
+  'tagging.test.run': 'Run test',
+  'tagging.test.matched': 'Matched',
+  'tagging.test.no_match': 'No rules matched',
+
+  'template.tab': 'Templates',
+  'template.title': 'Custom Copy Templates',
+  'template.new': 'New template',
+  'template.name': 'Template name',
+  'template.scope': 'Applies to',
+  'template.scope_thread': 'Whole thread',
+  'template.output_format': 'Output format',
+  'template.body': 'Template',
+  'template.placeholders': 'Available placeholders',
+  'template.preview': 'Live Preview',
+  'template.show_in_context_menu': 'Show in context menu',
+  'template.shortcut': 'Shortcut',
+  'template.shortcut_none': 'None',
+  'template.shortcut_slot': 'Template shortcut {{slot}}',
+  'template.configure_shortcuts': 'Set keys in browser settings',
+  'template.save': 'Save Template',
+  'template.saved': 'Template saved',
+  'template.save_failed': 'Failed to save template',
+  'template.delete_confirm': 'Are you sure you want to delete this template?',
+  'template.name_required': 'Please enter a template name',
+  'template.invalid': 'Template syntax error: {{error}}',
   
   'thread.detected': 'Thread Detected',
   'thread.copy_single': 'Copy This Tweet Only',
@@ -436,6 +1062,18 @@ const en: LocaleData = {
   'thread.copy_from_here': 'Copy From Here',
   'thread.loading': 'Loading thread...',
   'thread.count': '{{count}} tweets total',
+  'thread.walking': 'Opening the conversation to read the full thread...',
+  'thread.missing_positions': 'Could not load thread position(s) {{positions}}; skipped',
+  'conversation.title': 'Copy Conversation',
+  'conversation.description': 'Read replies from every participant under the root tweet and export them by reply level',
+  'conversation.op_only': 'Only the original poster (keep the context of their replies)',
+  'conversation.top_replies': 'Keep only the top N replies by likes (0 for all)',
+  'conversation.copy': 'Read and Copy',
+  'conversation.reading': 'Opening the conversation to read replies...',
+  'conversation.header': 'Conversation by {{author}} (@{{username}}) - {{count}} tweets, {{participants}} participants',
+  'conversation.incomplete': 'Some replies could not be loaded; the conversation may be incomplete',
+  'conversation.more_replies': 'More replies not expanded',
+  'conversation.failed': 'Failed to read the conversation, please try again',
   
   'time.now': 'now',
   'time.minutes_ago': '{{count}}m ago',
@@ -462,8 +1100,10 @@ const en: LocaleData = {
   // Success messages
   'success.tweet_copied': 'Tweet copied to clipboard',
   'success.thread_copied': 'Thread copied to clipboard ({{count}} tweets)',
+  'success.conversation_copied': 'Conversation copied to clipboard ({{count}} tweets, {{participants}} participants)',
   'success.settings_saved': 'Settings saved',
   'success.history_cleared': 'History cleared',
+  'success.template_copied': 'Copied with template "{{name}}"',
   'success.screenshot_saved': 'Screenshot saved',
   'success.operation_completed': 'Operation completed',
   'success.cache_cleared': 'Cache cleared',
@@ -555,11 +1195,15 @@ const en: LocaleData = {
   'format.html_desc': 'Rich text format, suitable for documents',
   'format.markdown_desc': 'Lightweight markup, great for technical docs',
   'format.text_desc': 'Plain text format, works everywhere',
+  'format.obsidian_desc': 'Obsidian note with YAML properties and wikilinks',
+  'format.json_desc': 'Versioned structured JSON with ISO dates',
+  'format.jsonld_desc': 'schema.org SocialMediaPosting structured data',
   include_author: 'Include Author',
   include_timestamp: 'Include Timestamp',
   include_metrics: 'Include Metrics',
   include_media: 'Include Media',
   include_link: 'Include Link',
+  keep_short_links: 'Keep t.co short links',
   save_settings: 'Save Settings',
   reset_default: 'Reset Default',
   copy_history: 'Copy History',
@@ -719,6 +1363,7 @@ loading: '読み込み中...',
   include_metrics: 'メトリクスを含める',
   include_media: 'メディアを含める',
   include_link: 'リンクを含める',
+  keep_short_links: 't.co 短縮リンクを保持',
   save_settings: '設定を保存',
   reset_default: 'デフォルトにリセット',
   copy_history: 'コピー履歴',
@@ -868,6 +1513,7 @@ const ko: LocaleData = {
   include_metrics: '메트릭 포함',
   include_media: '미디어 포함',
   include_link: '링크 포함',
+  keep_short_links: 't.co 단축 링크 유지',
   save_settings: '설정 저장',
   reset_default: '기본값으로 재설정',
   copy_history: '복사 기록',
@@ -1017,6 +1663,7 @@ const es: LocaleData = {
   include_metrics: 'Incluir Métricas',
   include_media: 'Incluir Media',
   include_link: 'Incluir Enlace',
+  keep_short_links: 'Mantener enlaces cortos t.co',
   save_settings: 'Guardar Configuración',
   reset_default: 'Restablecer por Defecto',
   copy_history: 'Historial de Copiado',
@@ -0,0 +1,142 @@
+import { NotionDatabase, TweetAnnotations } from './types';
+import { PropertyMapping } from './property-mapping';
+
+/**
+ * 保存前注释表单中的一项，由目标数据库的结构生成
+ */
+export type AnnotationField =
+  | { kind: 'note'; property: string }
+  | { kind: 'tags'; property: string; options: string[] }
+  | { kind: 'select'; property: string; options: string[] }
+  | { kind: 'rating'; property: string }
+  | { kind: 'toRead'; property: string };
+
+/**
+ * 注释表单的取值
+ */
+export interface AnnotationValues {
+  tags: string[];
+  annotations: TweetAnnotations;
+}
+
+export interface AnnotationSettings {
+  /** 保存前显示注释表单 */
+  enabled: boolean;
+  /** 用上一次填写的内容预填表单 */
+  rememberLast: boolean;
+}
+
+export const DEFAULT_ANNOTATION_SETTINGS: AnnotationSettings = {
+  enabled: false,
+  rememberLast: false
+};
+
+const SETTINGS_KEY = 'notion_annotation_settings';
+const LAST_VALUES_KEY = 'notion_annotation_last';
+
+/**
+ * 保存前注释：表单设置、上次填写的内容，以及按数据库结构生成表单
+ */
+export class NotionAnnotations {
+  private static instance: NotionAnnotations;
+
+  static getInstance(): NotionAnnotations {
+    if (!NotionAnnotations.instance) {
+      NotionAnnotations.instance = new NotionAnnotations();
+    }
+    return NotionAnnotations.instance;
+  }
+
+  async getSettings(): Promise<AnnotationSettings> {
+    const result = await browser.storage.local.get(SETTINGS_KEY);
+    return { ...DEFAULT_ANNOTATION_SETTINGS, ...(result[SETTINGS_KEY] as Partial<AnnotationSettings> | undefined) };
+  }
+
+  async saveSettings(settings: Partial<AnnotationSettings>): Promise<AnnotationSettings> {
+    const merged = { ...(await this.getSettings()), ...settings };
+    await browser.storage.local.set({ [SETTINGS_KEY]: merged });
+    return merged;
+  }
+
+  /**
+   * 某个数据库上一次填写的内容
+   */
+  async getLastValues(databaseId: string): Promise<AnnotationValues | null> {
+    const result = await browser.storage.local.get(LAST_VALUES_KEY);
+    const values = (result[LAST_VALUES_KEY] || {}) as Record<string, AnnotationValues>;
+    return values[this.normalizeId(databaseId)] || null;
+  }
+
+  async saveLastValues(databaseId: string, values: AnnotationValues): Promise<void> {
+    const result = await browser.storage.local.get(LAST_VALUES_KEY);
+    const stored = { ...(result[LAST_VALUES_KEY] || {}) } as Record<string, AnnotationValues>;
+    stored[this.normalizeId(databaseId)] = values;
+    await browser.storage.local.set({ [LAST_VALUES_KEY]: stored });
+  }
+
+  /**
+   * 按数据库结构生成表单：映射的备注、标签、评分、稍后读，以及未映射到推文字段的单选属性
+   * 映射为单选的评分作为单选项填写，分类由分类选择器决定
+   */
+  static buildSchema(database: NotionDatabase, mapping: PropertyMapping): AnnotationField[] {
+    const properties = database.properties || {};
+    const typeOf = (name?: string) => name ? properties[name]?.type : undefined;
+    const fields: AnnotationField[] = [];
+
+    if (mapping.note && typeOf(mapping.note) === 'rich_text') {
+      fields.push({ kind: 'note', property: mapping.note });
+    }
+
+    if (mapping.tags && typeOf(mapping.tags)) {
+      fields.push({ kind: 'tags', property: mapping.tags, options: this.getOptions(database, mapping.tags) });
+    }
+
+    if (mapping.rating && typeOf(mapping.rating) === 'number') {
+      fields.push({ kind: 'rating', property: mapping.rating });
+    }
+
+    const mapped = new Set(Object.values(mapping));
+    for (const [name, property] of Object.entries(properties)) {
+      if (property?.type === 'select' && (!mapped.has(name) || name === mapping.rating)) {
+        fields.push({ kind: 'select', property: name, options: this.getOptions(database, name) });
+      }
+    }
+
+    if (mapping.toRead && typeOf(mapping.toRead) === 'checkbox') {
+      fields.push({ kind: 'toRead', property: mapping.toRead });
+    }
+
+    return fields;
+  }
+
+  /**
+   * 单选属性的取值；属性已不存在或不是单选时忽略
+   */
+  static buildSelectProperties(annotations: TweetAnnotations | undefined, database: NotionDatabase): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    for (const [name, option] of Object.entries(annotations?.selects || {})) {
+      const value = option.replace(/,/g, ' ').trim();
+      if (value && database.properties?.[name]?.type === 'select') {
+        properties[name] = { select: { name: value } };
+      }
+    }
+
+    return properties;
+  }
+
+  /**
+   * 单选或多选属性已有的选项名
+   */
+  static getOptions(database: NotionDatabase, propertyName: string): string[] {
+    const property = database.properties?.[propertyName];
+    const options = property?.[property.type]?.options;
+    return Array.isArray(options) ? options.map((option: { name: string }) => option.name) : [];
+  }
+
+  private normalizeId(databaseId: string): string {
+    return databaseId.replace(/-/g, '');
+  }
+}
+
+export const notionAnnotations = NotionAnnotations.getInstance();
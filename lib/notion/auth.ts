@@ -1,4 +1,8 @@
 import { notionClient, NotionConfig, AuthResult } from './index';
+import { notionOAuth, NotionOAuth } from './oauth';
+
+/** 访问令牌在过期前多久刷新 */
+const TOKEN_REFRESH_MARGIN = 60 * 1000;
 
 export class NotionAuthManager {
   private static instance: NotionAuthManager;
@@ -7,8 +11,16 @@ export class NotionAuthManager {
     ACCESS_TOKEN: 'notion_access_token',
     DATABASE_ID: 'notion_database_id',
     WORKSPACE_NAME: 'notion_workspace_name',
-    WORKSPACE_ID: 'notion_workspace_id'
+    WORKSPACE_ID: 'notion_workspace_id',
+    DUPLICATE_POLICY: 'notion_duplicate_policy',
+    AUTH_TYPE: 'notion_auth_type',
+    REFRESH_TOKEN: 'notion_refresh_token',
+    TOKEN_EXPIRES_AT: 'notion_token_expires_at',
+    WORKSPACE_ICON: 'notion_workspace_icon',
+    BOT_ID: 'notion_bot_id'
   };
+  /** 进行中的刷新，避免并发刷新使刷新令牌失效 */
+  private refreshing: Promise<boolean> | null = null;
 
   private constructor() {}
 
@@ -25,7 +37,13 @@ export class NotionAuthManager {
         this.STORAGE_KEYS.ACCESS_TOKEN,
         this.STORAGE_KEYS.DATABASE_ID,
         this.STORAGE_KEYS.WORKSPACE_NAME,
-        this.STORAGE_KEYS.WORKSPACE_ID
+        this.STORAGE_KEYS.WORKSPACE_ID,
+        this.STORAGE_KEYS.DUPLICATE_POLICY,
+        this.STORAGE_KEYS.AUTH_TYPE,
+        this.STORAGE_KEYS.REFRESH_TOKEN,
+        this.STORAGE_KEYS.TOKEN_EXPIRES_AT,
+        this.STORAGE_KEYS.WORKSPACE_ICON,
+        this.STORAGE_KEYS.BOT_ID
       ]);
 
       if (result[this.STORAGE_KEYS.ACCESS_TOKEN]) {
@@ -33,10 +51,21 @@ export class NotionAuthManager {
           accessToken: result[this.STORAGE_KEYS.ACCESS_TOKEN],
           databaseId: result[this.STORAGE_KEYS.DATABASE_ID],
           workspaceName: result[this.STORAGE_KEYS.WORKSPACE_NAME],
-          workspaceId: result[this.STORAGE_KEYS.WORKSPACE_ID]
+          workspaceId: result[this.STORAGE_KEYS.WORKSPACE_ID],
+          duplicatePolicy: result[this.STORAGE_KEYS.DUPLICATE_POLICY],
+          authType: result[this.STORAGE_KEYS.AUTH_TYPE] || 'token',
+          refreshToken: result[this.STORAGE_KEYS.REFRESH_TOKEN],
+          expiresAt: result[this.STORAGE_KEYS.TOKEN_EXPIRES_AT],
+          workspaceIcon: result[this.STORAGE_KEYS.WORKSPACE_ICON],
+          botId: result[this.STORAGE_KEYS.BOT_ID]
         };
 
         notionClient.setConfig(this.config);
+
+        // OAuth 访问令牌即将过期时先刷新
+        if (this.config.expiresAt && this.config.expiresAt - Date.now() < TOKEN_REFRESH_MARGIN) {
+          await this.refreshAccessToken();
+        }
         return this.config;
       }
 
@@ -62,6 +91,24 @@ export class NotionAuthManager {
     if (config.workspaceId) {
       updateData[this.STORAGE_KEYS.WORKSPACE_ID] = config.workspaceId;
     }
+    if (config.duplicatePolicy) {
+      updateData[this.STORAGE_KEYS.DUPLICATE_POLICY] = config.duplicatePolicy;
+    }
+    if (config.authType) {
+      updateData[this.STORAGE_KEYS.AUTH_TYPE] = config.authType;
+    }
+    if (config.refreshToken) {
+      updateData[this.STORAGE_KEYS.REFRESH_TOKEN] = config.refreshToken;
+    }
+    if (config.expiresAt) {
+      updateData[this.STORAGE_KEYS.TOKEN_EXPIRES_AT] = config.expiresAt;
+    }
+    if (config.workspaceIcon) {
+      updateData[this.STORAGE_KEYS.WORKSPACE_ICON] = config.workspaceIcon;
+    }
+    if (config.botId) {
+      updateData[this.STORAGE_KEYS.BOT_ID] = config.botId;
+    }
 
     await chrome.storage.sync.set(updateData);
 
@@ -86,11 +133,25 @@ export class NotionAuthManager {
       this.STORAGE_KEYS.WORKSPACE_NAME,
       this.STORAGE_KEYS.WORKSPACE_ID
     ]);
+    await this.clearOAuthTokens();
+    await browser.storage.sync.remove(this.STORAGE_KEYS.AUTH_TYPE);
 
     this.config = null;
     notionClient.clearConfig();
   }
 
+  /**
+   * 清除 OAuth 专有的令牌与工作区信息（切换为手动 Token 时使用）
+   */
+  private async clearOAuthTokens(): Promise<void> {
+    await browser.storage.sync.remove([
+      this.STORAGE_KEYS.REFRESH_TOKEN,
+      this.STORAGE_KEYS.TOKEN_EXPIRES_AT,
+      this.STORAGE_KEYS.WORKSPACE_ICON,
+      this.STORAGE_KEYS.BOT_ID
+    ]);
+  }
+
   async isConnected(): Promise<boolean> {
     if (!this.config) {
       await this.loadConfig();
@@ -100,7 +161,98 @@ export class NotionAuthManager {
       return false;
     }
 
-    return notionClient.validateToken();
+    if (await notionClient.validateToken()) {
+      return true;
+    }
+
+    // OAuth 令牌可能已被提前作废，刷新后再验证一次
+    return this.config.refreshToken
+      ? (await this.refreshAccessToken()) && notionClient.validateToken()
+      : false;
+  }
+
+  /**
+   * 通过 Notion 公共集成登录（OAuth 授权码流程）
+   */
+  async authenticateWithOAuth(): Promise<AuthResult> {
+    try {
+      console.log('Starting Notion OAuth login...');
+      const settings = await notionOAuth.getSettings();
+      const tokens = await notionOAuth.authorize(settings);
+
+      // 保留已选择的数据库与重复策略
+      const previous = this.config || await this.loadConfig();
+      this.config = {
+        ...NotionOAuth.toConfig(tokens),
+        databaseId: previous?.databaseId,
+        duplicatePolicy: previous?.duplicatePolicy
+      };
+      await this.clearOAuthTokens();
+      await this.saveConfig(this.config);
+      console.log('✅ Notion OAuth login successful:', this.config.workspaceName);
+
+      return {
+        success: true,
+        data: {
+          workspace_name: this.config.workspaceName,
+          workspace_icon: this.config.workspaceIcon,
+          workspace_id: this.config.workspaceId
+        }
+      };
+    } catch (error: any) {
+      console.error('Notion OAuth login failed:', error);
+      return {
+        success: false,
+        error: error?.message || 'OAuth login failed'
+      };
+    }
+  }
+
+  /**
+   * 用刷新令牌换取新的访问令牌；失败时保留原令牌
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshing) {
+      this.refreshing = this.performRefresh().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async performRefresh(): Promise<boolean> {
+    const refreshToken = this.config?.refreshToken;
+    if (this.config?.authType !== 'oauth' || !refreshToken) {
+      return false;
+    }
+
+    try {
+      const settings = await notionOAuth.getSettings();
+      const tokens = await NotionOAuth.requestToken(settings.tokenEndpoint, {
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken
+      });
+      const refreshed = NotionOAuth.toConfig(tokens);
+
+      // 刷新响应可能不含刷新令牌或工作区信息，沿用原值
+      this.config = {
+        ...this.config,
+        accessToken: refreshed.accessToken,
+        refreshToken: refreshed.refreshToken || refreshToken,
+        expiresAt: refreshed.expiresAt,
+        workspaceName: refreshed.workspaceName || this.config.workspaceName,
+        workspaceIcon: refreshed.workspaceIcon || this.config.workspaceIcon
+      };
+      if (!refreshed.expiresAt) {
+        await browser.storage.sync.remove(this.STORAGE_KEYS.TOKEN_EXPIRES_AT);
+      }
+      await this.saveConfig(this.config);
+      console.log('🔄 Notion access token refreshed');
+      return true;
+    } catch (error) {
+      console.error('Failed to refresh Notion access token:', error);
+      return false;
+    }
   }
 
   async authenticate(): Promise<AuthResult> {
@@ -116,6 +268,7 @@ export class NotionAuthManager {
       
       this.config = {
         accessToken: integrationToken,
+        authType: 'token',
         workspaceName: 'My Workspace',
         workspaceId: 'workspace'
       };
@@ -127,7 +280,8 @@ export class NotionAuthManager {
       const isValid = await notionClient.validateToken();
       
       if (isValid) {
-        // 验证成功后保存配置
+        // 验证成功后保存配置，并清除之前 OAuth 登录留下的令牌
+        await this.clearOAuthTokens();
         await this.saveConfig(this.config);
         console.log('Authentication successful');
         
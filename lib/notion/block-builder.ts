@@ -0,0 +1,339 @@
+import { MediaAsset, NotionBlock, RichTextInput, TextLink, TweetData } from './types';
+import type { RichTextToken } from '../types';
+import { RichTextRenderer } from '../formatters/rich-text-renderer';
+
+/**
+ * Notion API 的长度限制
+ */
+export const NOTION_LIMITS = {
+  /** 单个富文本对象的最大字符数 */
+  RICH_TEXT_LENGTH: 2000,
+  /** 单个块或属性中富文本对象的最大数量 */
+  RICH_TEXT_ITEMS: 100,
+  /** 单次请求可写入的子块数量 */
+  CHILDREN_PER_REQUEST: 100,
+  /** 链接地址的最大长度 */
+  URL_LENGTH: 2000
+} as const;
+
+type TextSegment = {
+  content: string;
+  url?: string;
+};
+
+/** 正文中未被 DOM 链接覆盖的网址、提及与话题 */
+const ENTITY_PATTERN = /https?:\/\/[^\s]+|@\w{1,15}|#[\p{L}\p{N}_]+/gu;
+
+/**
+ * 将推文转换为 Notion 页面正文块
+ */
+export class NotionBlockBuilder {
+  /**
+   * 构建页面正文；线程按推文分节
+   */
+  static buildPageBlocks(tweetData: TweetData): NotionBlock[] {
+    const thread = tweetData.thread || [];
+    if (thread.length <= 1) {
+      return this.buildTweetBlocks(tweetData);
+    }
+
+    const blocks: NotionBlock[] = [];
+    thread.forEach((tweet, index) => {
+      if (index > 0) {
+        blocks.push({ object: 'block', type: 'divider', divider: {} });
+      }
+      blocks.push(this.buildSectionHeading(tweet, index + 1, thread.length));
+      blocks.push(...this.buildTweetBlocks(tweet));
+    });
+    return blocks;
+  }
+
+  /**
+   * 追加到已有页面的新版本：分隔线、带保存时间的标题，之后是推文正文
+   */
+  static buildVersionBlocks(tweetData: TweetData): NotionBlock[] {
+    const time = new Date(tweetData.savedAt);
+    const label = isNaN(time.getTime())
+      ? '🔄'
+      : `🔄 ${time.toISOString().slice(0, 16).replace('T', ' ')}`;
+
+    return [
+      { object: 'block', type: 'divider', divider: {} },
+      {
+        object: 'block',
+        type: 'heading_3',
+        heading_3: { rich_text: this.toRichText([{ content: label, url: tweetData.url }]) }
+      },
+      ...this.buildPageBlocks(tweetData)
+    ];
+  }
+
+  /**
+   * 单条推文的正文：段落、链接卡片、媒体、引用推文
+   */
+  static buildTweetBlocks(tweetData: TweetData): NotionBlock[] {
+    const blocks: NotionBlock[] = [];
+
+    for (const paragraph of this.splitParagraphs(this.segmentContent(tweetData.content, tweetData.textLinks, tweetData.richText))) {
+      for (const richText of this.chunkRichText(this.toRichText(paragraph))) {
+        blocks.push({ object: 'block', type: 'paragraph', paragraph: { rich_text: richText } });
+      }
+    }
+
+    const cardBlock = tweetData.card ? this.buildCardBlock(tweetData.card) : null;
+    if (cardBlock) {
+      blocks.push(cardBlock);
+    }
+
+    for (const asset of tweetData.media?.assets || []) {
+      const block = this.buildMediaBlock(asset, tweetData.url);
+      // 多个无法直接播放的视频只嵌入一次原推文
+      if (block && !(block.type === 'embed' && blocks.some(item => item.type === 'embed'))
+        && !(block.type === 'bookmark' && block.bookmark.url === cardBlock?.bookmark.url)) {
+        blocks.push(block);
+      }
+    }
+
+    if (tweetData.quotedTweet) {
+      blocks.push(...this.buildQuoteBlocks(tweetData.quotedTweet));
+    }
+
+    return blocks;
+  }
+
+  /**
+   * 将文本转换为富文本数组（用于属性），超出数量限制的部分被截断
+   */
+  static buildRichText(text: string, links?: TextLink[], richText?: RichTextToken[]): RichTextInput[] {
+    return this.toRichText(this.segmentContent(text, links, richText)).slice(0, NOTION_LIMITS.RICH_TEXT_ITEMS);
+  }
+
+  /**
+   * 把超出单块数量限制的富文本拆分到多个块
+   */
+  static chunkRichText(richText: RichTextInput[]): RichTextInput[][] {
+    const chunks: RichTextInput[][] = [];
+    for (let i = 0; i < richText.length; i += NOTION_LIMITS.RICH_TEXT_ITEMS) {
+      chunks.push(richText.slice(i, i + NOTION_LIMITS.RICH_TEXT_ITEMS));
+    }
+    return chunks;
+  }
+
+  /**
+   * 按单次请求的数量限制拆分子块
+   */
+  static chunkBlocks(blocks: NotionBlock[]): NotionBlock[][] {
+    const chunks: NotionBlock[][] = [];
+    for (let i = 0; i < blocks.length; i += NOTION_LIMITS.CHILDREN_PER_REQUEST) {
+      chunks.push(blocks.slice(i, i + NOTION_LIMITS.CHILDREN_PER_REQUEST));
+    }
+    return chunks;
+  }
+
+  /**
+   * 有正文分段时直接使用，否则从文本中识别链接
+   */
+  private static segmentContent(text: string, links?: TextLink[], richText?: RichTextToken[]): TextSegment[] {
+    if (richText?.length) {
+      return RichTextRenderer.toSegments(richText).map(segment => ({ content: segment.text, url: segment.href }));
+    }
+    return this.segmentText(text, links);
+  }
+
+  /**
+   * 将文本切分为普通文本与链接片段
+   * 优先使用 DOM 中的链接（显示文本可能是截断的地址），其余网址、提及与话题按正则识别
+   */
+  private static segmentText(text: string, links: TextLink[] = []): TextSegment[] {
+    const ranges: Array<{ start: number; end: number; url: string }> = [];
+
+    let cursor = 0;
+    for (const link of links) {
+      const start = text.indexOf(link.text, cursor);
+      if (start < 0) continue;
+      ranges.push({ start, end: start + link.text.length, url: link.url });
+      cursor = start + link.text.length;
+    }
+
+    for (const match of text.matchAll(ENTITY_PATTERN)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+      if (ranges.some(range => start < range.end && end > range.start)) continue;
+      ranges.push({ start, end, url: this.resolveEntityUrl(match[0]) });
+    }
+
+    ranges.sort((a, b) => a.start - b.start);
+
+    const segments: TextSegment[] = [];
+    let position = 0;
+    for (const range of ranges) {
+      if (range.start > position) {
+        segments.push({ content: text.slice(position, range.start) });
+      }
+      segments.push({ content: text.slice(range.start, range.end), url: range.url });
+      position = range.end;
+    }
+    if (position < text.length) {
+      segments.push({ content: text.slice(position) });
+    }
+    return segments;
+  }
+
+  /**
+   * 按空行拆分段落
+   */
+  private static splitParagraphs(segments: TextSegment[]): TextSegment[][] {
+    const paragraphs: TextSegment[][] = [[]];
+
+    for (const segment of segments) {
+      if (segment.url) {
+        paragraphs[paragraphs.length - 1].push(segment);
+        continue;
+      }
+
+      segment.content.split(/\n\s*\n/).forEach((part, index) => {
+        if (index > 0) {
+          paragraphs.push([]);
+        }
+        if (part) {
+          paragraphs[paragraphs.length - 1].push({ content: part });
+        }
+      });
+    }
+
+    return paragraphs
+      .map(paragraph => this.trimParagraph(paragraph))
+      .filter(paragraph => paragraph.length > 0);
+  }
+
+  private static trimParagraph(paragraph: TextSegment[]): TextSegment[] {
+    const result = paragraph.map(segment => ({ ...segment }));
+    if (result.length > 0 && !result[0].url) {
+      result[0].content = result[0].content.replace(/^\s+/, '');
+    }
+    const last = result[result.length - 1];
+    if (last && !last.url) {
+      last.content = last.content.replace(/\s+$/, '');
+    }
+    return result.filter(segment => segment.content.length > 0);
+  }
+
+  /**
+   * 片段转换为富文本，超出单个对象长度限制的文本被拆分
+   */
+  private static toRichText(segments: TextSegment[], annotations?: RichTextInput['annotations']): RichTextInput[] {
+    const richText: RichTextInput[] = [];
+
+    for (const segment of segments) {
+      const url = segment.url && segment.url.length <= NOTION_LIMITS.URL_LENGTH ? segment.url : undefined;
+      for (let i = 0; i < segment.content.length; i += NOTION_LIMITS.RICH_TEXT_LENGTH) {
+        richText.push({
+          type: 'text',
+          text: {
+            content: segment.content.slice(i, i + NOTION_LIMITS.RICH_TEXT_LENGTH),
+            ...(url ? { link: { url } } : {})
+          },
+          ...(annotations ? { annotations } : {})
+        });
+      }
+    }
+
+    return richText;
+  }
+
+  private static resolveEntityUrl(entity: string): string {
+    if (entity.startsWith('@')) {
+      return `https://x.com/${entity.slice(1)}`;
+    }
+    if (entity.startsWith('#')) {
+      return `https://x.com/hashtag/${encodeURIComponent(entity.slice(1))}`;
+    }
+    return entity;
+  }
+
+  /**
+   * 媒体块：图片使用 image，可直接播放的视频使用 video，其余视频嵌入推文本身
+   */
+  private static buildMediaBlock(asset: MediaAsset, tweetUrl: string): NotionBlock | null {
+    const isExternal = /^https?:\/\//.test(asset.url) && asset.url.length <= NOTION_LIMITS.URL_LENGTH;
+    const caption = asset.alt
+      ? this.toRichText([{ content: asset.alt.slice(0, NOTION_LIMITS.RICH_TEXT_LENGTH) }])
+      : [];
+
+    switch (asset.type) {
+      case 'image':
+        return isExternal ? {
+          object: 'block',
+          type: 'image',
+          image: { type: 'external', external: { url: asset.url }, caption }
+        } : null;
+      case 'video':
+      case 'gif':
+        if (isExternal && /\.mp4(\?|$)/i.test(asset.url)) {
+          return {
+            object: 'block',
+            type: 'video',
+            video: { type: 'external', external: { url: asset.url }, caption }
+          };
+        }
+        // blob 或流媒体地址无法直接播放，嵌入原推文
+        return { object: 'block', type: 'embed', embed: { url: tweetUrl, caption } };
+      case 'link':
+        return isExternal ? { object: 'block', type: 'bookmark', bookmark: { url: asset.url, caption } } : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 链接卡片：书签块，标题（加粗）与描述作为说明
+   */
+  private static buildCardBlock(card: NonNullable<TweetData['card']>): NotionBlock | null {
+    if (!/^https?:\/\//.test(card.url) || card.url.length > NOTION_LIMITS.URL_LENGTH) {
+      return null;
+    }
+
+    const caption: RichTextInput[] = [
+      ...(card.title ? this.toRichText([{ content: card.title.slice(0, NOTION_LIMITS.RICH_TEXT_LENGTH) }], { bold: true }) : []),
+      ...(card.title && card.description ? this.toRichText([{ content: '\n' }]) : []),
+      ...(card.description ? this.toRichText([{ content: card.description.slice(0, NOTION_LIMITS.RICH_TEXT_LENGTH) }]) : [])
+    ];
+    return { object: 'block', type: 'bookmark', bookmark: { url: card.url, caption } };
+  }
+
+  /**
+   * 引用推文：作者（加粗）与正文放在引用块中，正文过长时拆分为多个引用块
+   */
+  private static buildQuoteBlocks(quoted: NonNullable<TweetData['quotedTweet']>): NotionBlock[] {
+    const handle = quoted.username ? `@${quoted.username.replace(/^@/, '')}` : '';
+    const authorLine = [quoted.author, handle].filter(Boolean).join(' ');
+
+    const richText: RichTextInput[] = [
+      ...this.toRichText([{ content: authorLine || quoted.url, url: quoted.url }], { bold: true }),
+      ...this.toRichText([{ content: '\n' }]),
+      ...this.toRichText(this.segmentContent(quoted.content, undefined, quoted.richText))
+    ];
+
+    return this.chunkRichText(richText).map(chunk => ({
+      object: 'block',
+      type: 'quote',
+      quote: { rich_text: chunk }
+    }));
+  }
+
+  /**
+   * 线程分节标题：序号与发布时间，链接到该推文
+   */
+  private static buildSectionHeading(tweet: TweetData, position: number, total: number): NotionBlock {
+    const time = new Date(tweet.publishTime);
+    const label = isNaN(time.getTime())
+      ? `🧵 ${position}/${total}`
+      : `🧵 ${position}/${total} · ${time.toISOString().slice(0, 16).replace('T', ' ')}`;
+
+    return {
+      object: 'block',
+      type: 'heading_3',
+      heading_3: { rich_text: this.toRichText([{ content: label, url: tweet.url }]) }
+    };
+  }
+}
@@ -5,32 +5,35 @@ import {
   NotionUser,
   DatabaseQueryResponse,
   DatabaseQueryParameters,
+  PropertyFilter,
   CreatePageParameters,
+  NotionBlock,
+  DuplicatePolicy,
   TweetData,
   NotionError,
   AuthResult,
-  SyncResult,
-  MediaAsset
+  SyncResult
 } from './types';
 import { notionErrorHandler, withRetry, withErrorBoundary } from './error-handler';
+import { NotionBlockBuilder } from './block-builder';
+import { NotionPropertyMapper, notionPropertyMapper, PropertyMapping } from './property-mapping';
+import { NotionAnnotations } from './annotations';
+import { NotionCollection, CollectionPage, CollectionQuery } from './collection';
 
-type AuthorPropertyType = 'rich_text' | 'select' | 'multi_select';
+/** 数据库结构缓存时间 */
+const DATABASE_CACHE_TTL = 5 * 60 * 1000;
+/** 批量查找时单次查询包含的链接数（Notion 组合条件的数量有限制） */
+const URL_BATCH_SIZE = 50;
 
-type AuthorPropertyInfo = {
-  name: string;
-  type: AuthorPropertyType;
-};
-
-type DatabasePropertyMap = {
-  mediaFilesProperty?: string;
-  mediaSummaryProperty?: string;
-  authorProperty?: AuthorPropertyInfo;
-};
+/** 相邻请求的最小间隔（约 3 次/秒） */
+const REQUEST_INTERVAL = 350;
 
 export class NotionClient {
   private readonly apiUrl = 'https://api.notion.com/v1';
   private readonly version = '2022-06-28';
   private config: NotionConfig | null = null;
+  private databaseCache = new Map<string, { database: NotionDatabase; fetchedAt: number }>();
+  private nextRequestAt = 0;
 
   constructor(config?: NotionConfig) {
     if (config) {
@@ -52,6 +55,7 @@ export class NotionClient {
     }
 
     const url = `${this.apiUrl}${endpoint}`;
+    await this.throttle();
     
     try {
       const response = await fetch(url, {
@@ -79,6 +83,12 @@ export class NotionClient {
           status: response.status,
           details: errorData
         };
+
+        // 限流或服务不可用时 Notion 会返回建议的等待时间（秒）
+        const retryAfter = parseFloat(response.headers.get('Retry-After') || '');
+        if (Number.isFinite(retryAfter) && retryAfter > 0) {
+          error.retryAfter = retryAfter * 1000;
+        }
         
         console.error('Notion API Error:', error);
         throw error;
@@ -98,6 +108,19 @@ export class NotionClient {
     }
   }
 
+  /**
+   * Notion 平均每秒约允许 3 个请求，所有请求按最小间隔依次发出
+   */
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextRequestAt);
+    this.nextRequestAt = startAt + REQUEST_INTERVAL;
+
+    if (startAt > now) {
+      await new Promise(resolve => setTimeout(resolve, startAt - now));
+    }
+  }
+
   private getErrorMessage(status: number, errorData: any): string {
     const defaultMessage = errorData.message || `HTTP ${status}`;
     
@@ -181,52 +204,9 @@ export class NotionClient {
 
   async createDatabase(parentPageId: string, title: string = 'Tweet Collection'): Promise<NotionDatabase> {
     const properties = {
-      '标题': {
-        title: {}
-      },
+      ...NotionPropertyMapper.buildDatabaseSchema(),
       '保存时间': {
         created_time: {}
-      },
-      '作者': {
-        rich_text: {}
-      },
-      '内容': {
-        rich_text: {}
-      },
-      '分类': {
-        select: {
-          options: [
-            { name: '技术', color: 'blue' },
-            { name: '资讯', color: 'green' },
-            { name: '学习', color: 'purple' },
-            { name: '工作', color: 'red' },
-            { name: '生活', color: 'yellow' },
-            { name: '其他', color: 'gray' }
-          ]
-        }
-      },
-      '发布时间': {
-        date: {}
-      },
-      '推文链接': {
-        url: {}
-      },
-      '标签': {
-        multi_select: {
-          options: [
-            { name: '技术', color: 'blue' },
-            { name: '资讯', color: 'green' },
-            { name: '灵感', color: 'yellow' },
-            { name: '学习', color: 'purple' },
-            { name: '工作', color: 'red' }
-          ]
-        }
-      },
-      '媒体文件': {
-        files: {}
-      },
-      '媒体信息': {
-        rich_text: {}
       }
     };
 
@@ -258,278 +238,208 @@ export class NotionClient {
 
   async checkTweetExists(databaseId: string, tweetUrl: string): Promise<boolean> {
     try {
-      const response = await this.queryDatabase(databaseId, {
-        filter: {
-          property: '推文链接',
-          url: {
-            equals: tweetUrl
-          }
-        },
-        page_size: 1
-      });
-      return response.results.length > 0;
+      return (await this.findTweetPage(databaseId, tweetUrl)) !== null;
     } catch (error) {
       console.error('Error checking tweet existence:', error);
       return false;
     }
   }
 
-  async saveTweet(databaseId: string, tweetData: TweetData): Promise<SyncResult> {
-    try {
-      const propertyMap = await this.ensureMediaSupport(databaseId, tweetData.media?.assets || []);
-      const pageData = this.formatTweetForNotion(tweetData, propertyMap);
-      
-      const page = await this.request<NotionPage>('/pages', {
-        method: 'POST',
-        body: JSON.stringify({
-          parent: { database_id: databaseId },
-          properties: pageData
-        })
-      });
-
-      return {
-        success: true,
-        data: page
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: (error as any).message || 'Failed to save tweet'
-      };
+  /**
+   * 按推文链接查找已保存的页面；链接字段未映射时无法查找，返回 null
+   */
+  async findTweetPage(databaseId: string, tweetUrl: string): Promise<NotionPage | null> {
+    const { database, mapping } = await this.getPropertyMapping(databaseId);
+    const filter = NotionPropertyMapper.buildUrlFilter(mapping, database, tweetUrl);
+    if (!filter) {
+      console.warn('Tweet URL property is not mapped, skipping duplicate check');
+      return null;
     }
-  }
 
-  private formatTweetForNotion(
-    tweetData: TweetData,
-    propertyMap?: DatabasePropertyMap
-  ): CreatePageParameters['properties'] {
-    const { content, author, username, url, publishTime, tags = [], category, media: tweetMedia } = tweetData;
-
-    const titleContent = content.slice(0, 100) + (content.length > 100 ? '...' : '');
-    const authorText = this.buildAuthorText(author, username);
-    const richContent = authorText ? `作者: ${authorText}\n\n${content}` : content;
-
-    const media = tweetMedia || { hasImages: false, hasVideo: false, hasLinks: false, assets: [] };
-    const mediaAssets = media.assets || [];
-    const fileAssets = mediaAssets.filter(asset => asset.type === 'image' || asset.type === 'gif' || asset.type === 'video');
-    const mediaSummary = this.buildMediaSummary(mediaAssets);
-
-    const properties: CreatePageParameters['properties'] = {
-      '标题': {
-        title: [
-          {
-            type: 'text',
-            text: {
-              content: titleContent
-            }
-          }
-        ]
-      },
-      '内容': {
-        rich_text: [
-          {
-            type: 'text',
-            text: { content: richContent }
-          }
-        ]
-      },
-      '推文链接': {
-        url: url
-      },
-      '发布时间': {
-        date: {
-          start: publishTime
-        }
-      },
-      '分类': {
-        select: {
-          name: category || '其他'
-        }
-      },
-      '标签': {
-        multi_select: tags.map(tag => ({ name: tag }))
-      }
-    };
+    const response = await this.queryDatabase(databaseId, {
+      filter,
+      page_size: 1
+    });
+    return response.results[0] || null;
+  }
 
-    if (propertyMap?.authorProperty && authorText) {
-      const authorProperty = propertyMap.authorProperty;
-      if (authorProperty.type === 'rich_text') {
-        properties[authorProperty.name] = {
-          rich_text: [
-            {
-              type: 'text',
-              text: { content: authorText }
-            }
-          ]
-        };
-      } else if (authorProperty.type === 'select') {
-        properties[authorProperty.name] = {
-          select: {
-            name: authorText
-          }
-        };
-      } else if (authorProperty.type === 'multi_select') {
-        properties[authorProperty.name] = {
-          multi_select: [{ name: authorText }]
-        };
+  /**
+   * 批量查找已保存的页面：多个链接组成 OR 条件，每次查询最多 URL_BATCH_SIZE 个链接
+   * 返回 推文链接 → 页面；链接字段未映射时返回空结果
+   */
+  async findTweetPages(databaseId: string, tweetUrls: string[]): Promise<Map<string, NotionPage>> {
+    const pages = new Map<string, NotionPage>();
+    const { database, mapping } = await this.getPropertyMapping(databaseId);
+    const urls = Array.from(new Set(tweetUrls));
+
+    for (let i = 0; i < urls.length; i += URL_BATCH_SIZE) {
+      const filters = urls
+        .slice(i, i + URL_BATCH_SIZE)
+        .map(url => NotionPropertyMapper.buildUrlFilter(mapping, database, url))
+        .filter((filter): filter is PropertyFilter => filter !== null);
+      if (filters.length === 0) {
+        console.warn('Tweet URL property is not mapped, skipping saved check');
+        return pages;
       }
-    }
 
-    if (propertyMap?.mediaFilesProperty && fileAssets.length > 0) {
-      properties[propertyMap.mediaFilesProperty] = {
-        files: fileAssets.map((asset, index) => ({
-          name: `${asset.type}-${index + 1}`,
-          type: 'external',
-          external: {
-            url: asset.url
+      let cursor: string | undefined;
+      do {
+        const response = await this.queryDatabase(databaseId, {
+          filter: filters.length === 1 ? filters[0] : { or: filters },
+          page_size: 100,
+          start_cursor: cursor
+        });
+        for (const page of response.results) {
+          const url = NotionPropertyMapper.readTweetUrl(page, mapping);
+          if (url && !pages.has(url)) {
+            pages.set(url, page);
           }
-        }))
-      };
-    }
-
-    if (propertyMap?.mediaSummaryProperty && mediaSummary) {
-      properties[propertyMap.mediaSummaryProperty] = {
-        rich_text: [
-          {
-            type: 'text',
-            text: {
-              content: mediaSummary
-            }
-          }
-        ]
-      };
+        }
+        cursor = response.has_more ? response.next_cursor : undefined;
+      } while (cursor);
     }
 
-    return properties;
+    return pages;
   }
 
-  private buildAuthorText(author: string, username: string): string {
-    const trimmedAuthor = author.trim();
-    const trimmedUsername = username.trim();
-
-    if (!trimmedAuthor && !trimmedUsername) return '';
-
-    if (!trimmedUsername) return trimmedAuthor;
-
-    const handle = trimmedUsername.startsWith('@') ? trimmedUsername : `@${trimmedUsername}`;
-    if (!trimmedAuthor) return handle;
-
-    return `${trimmedAuthor} (${handle})`;
-  }
-
-  private buildMediaSummary(assets: MediaAsset[]): string {
-    if (!assets.length) return '';
-
-    const parts = assets.map((asset, index) => {
-      const label = asset.type === 'gif' ? 'GIF' : asset.type.toUpperCase();
-      const alt = asset.alt ? `（${asset.alt.slice(0, 40)}）` : '';
-      return `${index + 1}. ${label} → ${asset.url}${alt}`;
-    });
+  /**
+   * 读取数据库结构与属性映射（结构缓存一段时间，避免每次保存都重新读取）
+   */
+  async getPropertyMapping(databaseId: string): Promise<{ database: NotionDatabase; mapping: PropertyMapping }> {
+    const cached = this.databaseCache.get(databaseId);
+    const database = cached && Date.now() - cached.fetchedAt < DATABASE_CACHE_TTL
+      ? cached.database
+      : await this.getDatabase(databaseId);
+
+    if (database !== cached?.database) {
+      this.databaseCache.set(databaseId, { database, fetchedAt: Date.now() });
+    }
 
-    return parts.join('\n');
+    return { database, mapping: await notionPropertyMapper.resolveMapping(database) };
   }
 
-  private async ensureMediaSupport(
-    databaseId: string,
-    assets: MediaAsset[]
-  ): Promise<DatabasePropertyMap> {
-    const database = await this.getDatabase(databaseId);
-    const current: DatabasePropertyMap = this.resolveMediaPropertyNames(database);
-
-    const propertiesToAdd: Record<string, any> = {};
-
-    const authorCandidate = this.resolveAuthorPropertyCandidate(database);
-    if (authorCandidate) {
-      if (this.isSupportedAuthorPropertyType(authorCandidate.type)) {
-        current.authorProperty = {
-          name: authorCandidate.name,
-          type: authorCandidate.type
-        };
-      } else {
-        console.warn('Author property exists with unsupported type:', authorCandidate.type);
-      }
+  /**
+   * 丢弃缓存的数据库结构（映射或数据库变更后调用）
+   */
+  invalidateDatabaseCache(databaseId?: string): void {
+    if (databaseId) {
+      this.databaseCache.delete(databaseId);
     } else {
-      propertiesToAdd['作者'] = { rich_text: {} };
-      current.authorProperty = { name: '作者', type: 'rich_text' };
+      this.databaseCache.clear();
     }
+  }
 
-    if (assets.length > 0) {
-      if (!current.mediaFilesProperty) {
-        propertiesToAdd['媒体文件'] = { files: {} };
-        current.mediaFilesProperty = '媒体文件';
+  /**
+   * 保存推文；推文已存在时按 policy 跳过、更新、追加新版本或另建页面
+   */
+  async saveTweet(databaseId: string, tweetData: TweetData, policy: DuplicatePolicy = 'duplicate'): Promise<SyncResult> {
+    try {
+      const { database, mapping } = await this.getPropertyMapping(databaseId);
+      const pageData = this.formatTweetForNotion(tweetData, mapping, database);
+
+      const existing = policy === 'duplicate' ? null : await this.findTweetPage(databaseId, tweetData.url);
+      if (existing) {
+        switch (policy) {
+          case 'skip':
+            return { success: true, exists: true, action: 'skipped', data: existing };
+          case 'update':
+            return { success: true, exists: true, action: 'updated', data: await this.updatePage(existing.id, pageData) };
+          case 'append':
+            for (const blocks of NotionBlockBuilder.chunkBlocks(NotionBlockBuilder.buildVersionBlocks(tweetData))) {
+              await this.appendBlockChildren(existing.id, blocks);
+            }
+            return { success: true, exists: true, action: 'appended', data: existing };
+        }
       }
 
-      if (!current.mediaSummaryProperty) {
-        const databaseProperties = database.properties || {};
-        const preferredSummaryName =
-          databaseProperties['媒体信息'] && databaseProperties['媒体信息']?.type !== 'rich_text'
-            ? '媒体摘要'
-            : '媒体信息';
+      // 创建页面时只能附带一批子块，其余分批追加
+      const [firstBlocks = [], ...restBlocks] = NotionBlockBuilder.chunkBlocks(NotionBlockBuilder.buildPageBlocks(tweetData));
+      const page = await this.request<NotionPage>('/pages', {
+        method: 'POST',
+        body: JSON.stringify({
+          parent: { database_id: databaseId },
+          properties: pageData,
+          children: firstBlocks
+        })
+      });
 
-        propertiesToAdd[preferredSummaryName] = { rich_text: {} };
-        current.mediaSummaryProperty = preferredSummaryName;
+      for (const blocks of restBlocks) {
+        await this.appendBlockChildren(page.id, blocks);
       }
-    }
 
-    if (Object.keys(propertiesToAdd).length > 0) {
-      await this.request<NotionDatabase>(`/databases/${databaseId}`, {
-        method: 'PATCH',
-        body: JSON.stringify({ properties: propertiesToAdd })
-      });
+      return {
+        success: true,
+        data: page,
+        action: 'created'
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: (error as any).message || 'Failed to save tweet',
+        code: (error as any).code,
+        status: (error as any).status,
+        retryAfter: (error as any).retryAfter
+      };
     }
+  }
 
-    return current;
+  /**
+   * 更新页面属性
+   */
+  async updatePage(pageId: string, properties: Record<string, any>): Promise<NotionPage> {
+    return this.request<NotionPage>(`/pages/${pageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ properties })
+    });
   }
 
-  private resolveMediaPropertyNames(database: NotionDatabase): {
-    mediaFilesProperty?: string;
-    mediaSummaryProperty?: string;
-  } {
-    const properties = database.properties || {};
-    const entries = Object.entries(properties);
-
-    const filesProperty =
-      properties['媒体文件']?.type === 'files'
-        ? (['媒体文件', properties['媒体文件'] as Property] as [string, Property])
-        : (entries.find(([, prop]) => prop?.type === 'files') as [string, Property] | undefined);
-
-    const summaryCandidates = ['媒体信息', '媒体摘要'] as const;
-    const summaryProperty =
-      (summaryCandidates
-        .map(name => (properties[name]?.type === 'rich_text' ? ([name, properties[name] as Property] as [string, Property]) : null))
-        .find((entry): entry is [string, Property] => Boolean(entry))) ||
-      (entries.find(([name, prop]) => name.toLowerCase().includes('media') && prop?.type === 'rich_text') as
-        | [string, Property]
-        | undefined);
+  /**
+   * 向页面或块追加子块（单次最多 100 个）
+   */
+  async appendBlockChildren(blockId: string, children: NotionBlock[]): Promise<void> {
+    await this.request(`/blocks/${blockId}/children`, {
+      method: 'PATCH',
+      body: JSON.stringify({ children })
+    });
+  }
 
+  /**
+   * 页面属性：映射的推文字段与注释，以及注释表单中填写的单选属性
+   */
+  private formatTweetForNotion(
+    tweetData: TweetData,
+    mapping: PropertyMapping,
+    database: NotionDatabase
+  ): CreatePageParameters['properties'] {
     return {
-      mediaFilesProperty: filesProperty ? filesProperty[0] : undefined,
-      mediaSummaryProperty: summaryProperty ? summaryProperty[0] : undefined
+      ...NotionPropertyMapper.buildProperties(tweetData, mapping, database),
+      ...NotionAnnotations.buildSelectProperties(tweetData.annotations, database)
     };
   }
 
-  private resolveAuthorPropertyCandidate(database: NotionDatabase): { name: string; type: string } | undefined {
-    const properties = database.properties || {};
-    const directCandidates = ['作者', 'Author', 'author'] as const;
-
-    for (const name of directCandidates) {
-      const property = properties[name];
-      if (property?.type) {
-        return { name, type: property.type };
-      }
-    }
-
-    const entries = Object.entries(properties);
-    const fallback = entries.find(([name]) => name.includes('作者') || name.toLowerCase().includes('author'));
-    if (fallback && fallback[1]?.type) {
-      return { name: fallback[0], type: fallback[1].type };
-    }
-
-    return undefined;
-  }
+  /**
+   * 分页浏览已保存的推文；cursor 为上一页返回的 nextCursor
+   */
+  async queryCollection(
+    databaseId: string,
+    query: CollectionQuery,
+    cursor?: string,
+    pageSize = 20
+  ): Promise<CollectionPage> {
+    const { database, mapping } = await this.getPropertyMapping(databaseId);
+    const response = await this.queryDatabase(databaseId, {
+      filter: NotionCollection.buildFilter(query, mapping, database),
+      sorts: NotionCollection.buildSorts(mapping, database),
+      start_cursor: cursor,
+      page_size: pageSize
+    });
 
-  private isSupportedAuthorPropertyType(type: string): type is AuthorPropertyType {
-    return type === 'rich_text' || type === 'select' || type === 'multi_select';
+    return {
+      items: response.results.map(page => NotionCollection.readItem(page, mapping)),
+      hasMore: response.has_more,
+      nextCursor: response.next_cursor || undefined,
+      options: NotionCollection.getFilterOptions(database, mapping)
+    };
   }
 
   async getDatabaseStats(databaseId: string): Promise<{ total: number; thisMonth: number; unread: number }> {
@@ -582,6 +492,14 @@ export class NotionClient {
     return titleText || 'Untitled database';
   }
 
+  /**
+   * 数据库名称（使用结构缓存）
+   */
+  async getDatabaseTitle(databaseId: string): Promise<string> {
+    const { database } = await this.getPropertyMapping(databaseId);
+    return this.extractDatabaseTitle(database);
+  }
+
   async getUserDatabases(): Promise<Array<{ id: string; title: string; url: string }>> {
     try {
       const response = await this.request<{ results: NotionDatabase[] }>('/search', {
@@ -643,5 +561,6 @@ export class NotionClient {
 
   clearConfig() {
     this.config = null;
+    this.databaseCache.clear();
   }
 }
@@ -0,0 +1,172 @@
+import { DatabaseFilter, DatabaseQueryParameters, NotionDatabase, NotionPage, PropertyFilter } from './types';
+import { NotionPropertyMapper, PropertyMapping, TweetField } from './property-mapping';
+
+/**
+ * 浏览已保存推文时的筛选条件；日期为 YYYY-MM-DD
+ */
+export interface CollectionQuery {
+  search?: string;
+  category?: string;
+  tag?: string;
+  author?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+/**
+ * 已保存推文的一行
+ */
+export interface CollectionItem {
+  pageId: string;
+  pageUrl: string;
+  title: string;
+  content: string;
+  author: string;
+  username: string;
+  publishTime?: string;
+  tweetUrl?: string;
+  category?: string;
+  tags: string[];
+  stats: {
+    likes: number;
+    retweets: number;
+    replies: number;
+  };
+}
+
+export interface CollectionPage {
+  items: CollectionItem[];
+  hasMore: boolean;
+  nextCursor?: string;
+  /** 筛选下拉框中的可选项（来自数据库的选项） */
+  options: {
+    categories: string[];
+    tags: string[];
+  };
+}
+
+/**
+ * 浏览已保存的推文：按属性映射生成查询条件，并把页面转换为列表行
+ */
+export class NotionCollection {
+  /**
+   * 组合筛选条件；未映射或类型无法筛选的条件被忽略
+   */
+  static buildFilter(query: CollectionQuery, mapping: PropertyMapping, database: NotionDatabase): DatabaseFilter | undefined {
+    const filters: DatabaseFilter[] = [];
+    const add = (filter: PropertyFilter | null) => {
+      if (filter) filters.push(filter);
+    };
+
+    add(this.buildTextFilter('category', query.category, mapping, database));
+    add(this.buildTextFilter('tags', query.tag, mapping, database));
+    add(this.buildTextFilter('author', query.author, mapping, database));
+
+    const dateProperty = mapping.publishTime;
+    if (dateProperty && database.properties?.[dateProperty]?.type === 'date') {
+      if (query.dateFrom) {
+        filters.push({ property: dateProperty, date: { on_or_after: query.dateFrom } });
+      }
+      if (query.dateTo) {
+        filters.push({ property: dateProperty, date: { on_or_before: query.dateTo } });
+      }
+    }
+
+    // 搜索框匹配标题、正文或作者任意一个
+    const search = (['title', 'content', 'author'] as TweetField[])
+      .map(field => this.buildTextFilter(field, query.search, mapping, database, true))
+      .filter((filter): filter is PropertyFilter => filter !== null);
+    if (search.length > 0) {
+      filters.push(search.length === 1 ? search[0] : { or: search });
+    }
+
+    if (filters.length === 0) return undefined;
+    return filters.length === 1 ? filters[0] : { and: filters };
+  }
+
+  /**
+   * 按发布时间倒序；发布时间不是日期属性时按保存时间
+   */
+  static buildSorts(mapping: PropertyMapping, database: NotionDatabase): NonNullable<DatabaseQueryParameters['sorts']> {
+    const dateProperty = mapping.publishTime;
+    return dateProperty && database.properties?.[dateProperty]?.type === 'date'
+      ? [{ property: dateProperty, direction: 'descending' }]
+      : [{ timestamp: 'created_time', direction: 'descending' }];
+  }
+
+  /**
+   * 页面转换为列表行
+   */
+  static readItem(page: NotionPage, mapping: PropertyMapping): CollectionItem {
+    const read = (field: TweetField) => {
+      const name = mapping[field];
+      return name ? NotionPropertyMapper.readPropertyText(page.properties?.[name]) : '';
+    };
+    const number = (field: TweetField) => Number(read(field)) || 0;
+
+    // 作者保存为「名称 (@用户名)」
+    const authorText = read('author');
+    const authorMatch = authorText.match(/^(.*?)\s*\(@([^)]+)\)$/);
+    const tags = read('tags');
+
+    return {
+      pageId: page.id,
+      pageUrl: page.url,
+      title: read('title'),
+      // 正文属性开头写入了作者
+      content: read('content').replace(/^作者: .*\n\n/, ''),
+      author: authorMatch ? authorMatch[1] : authorText.replace(/^@/, ''),
+      username: authorMatch ? authorMatch[2] : authorText.startsWith('@') ? authorText.slice(1) : '',
+      publishTime: read('publishTime') || page.created_time,
+      tweetUrl: NotionPropertyMapper.readTweetUrl(page, mapping) || undefined,
+      category: read('category') || undefined,
+      tags: tags ? tags.split(', ') : [],
+      stats: {
+        likes: number('likes'),
+        retweets: number('retweets'),
+        replies: number('replies')
+      }
+    };
+  }
+
+  /**
+   * 分类与标签属性中已有的选项
+   */
+  static getFilterOptions(database: NotionDatabase, mapping: PropertyMapping): CollectionPage['options'] {
+    const options = (name?: string) => {
+      const property = name ? database.properties?.[name] : undefined;
+      const list = property?.[property.type]?.options;
+      return Array.isArray(list) ? list.map((option: { name: string }) => option.name) : [];
+    };
+    return { categories: options(mapping.category), tags: options(mapping.tags) };
+  }
+
+  /**
+   * 文本条件：单选为等于，多选为包含，文本为包含
+   */
+  private static buildTextFilter(
+    field: TweetField,
+    value: string | undefined,
+    mapping: PropertyMapping,
+    database: NotionDatabase,
+    textOnly = false
+  ): PropertyFilter | null {
+    const text = value?.trim();
+    const name = mapping[field];
+    const type = name ? database.properties?.[name]?.type : undefined;
+    if (!text || !name || !type) return null;
+
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+      case 'url':
+        return { property: name, [type]: { contains: text } };
+      case 'select':
+        return textOnly ? null : { property: name, select: { equals: text } };
+      case 'multi_select':
+        return textOnly ? null : { property: name, multi_select: { contains: text } };
+      default:
+        return null;
+    }
+  }
+}
@@ -67,7 +67,8 @@ export class NotionErrorHandler {
   isNetworkError(error: NotionError): boolean {
     return error.code.includes('NETWORK') || 
            error.code.includes('FETCH') || 
-           error.code.startsWith('HTTP_5');
+           error.code.startsWith('HTTP_5') ||
+           error.details?.status >= 500;
   }
 
   isAuthError(error: NotionError): boolean {
@@ -79,7 +80,9 @@ export class NotionErrorHandler {
 
   isRateLimitError(error: NotionError): boolean {
     return error.code.includes('RATE_LIMIT') || 
-           error.code === 'HTTP_429';
+           error.code === 'HTTP_429' ||
+           error.code === 'rate_limited' ||
+           error.details?.status === 429;
   }
 
   isValidationError(error: NotionError): boolean {
@@ -125,6 +128,12 @@ export class NotionErrorHandler {
   }
 
   getRetryDelay(error: NotionError, attempt: number): number {
+    // 优先使用服务端返回的 Retry-After
+    const retryAfter = error.details?.retryAfter;
+    if (typeof retryAfter === 'number' && retryAfter > 0) {
+      return retryAfter;
+    }
+
     if (this.isRateLimitError(error)) {
       // 指数退避，最长 60 秒
       return Math.min(1000 * Math.pow(2, attempt), 60000);
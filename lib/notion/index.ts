@@ -1,8 +1,38 @@
 export { NotionClient } from './client';
-export { NotionButtonManager } from './button-manager';
+export { NotionSavePrompt } from './save-prompt';
 export { TweetExtractor } from './tweet-extractor';
+export { NotionBlockBuilder, NOTION_LIMITS } from './block-builder';
+export {
+  NotionPropertyMapper,
+  notionPropertyMapper,
+  TWEET_FIELDS,
+  DEFAULT_PROPERTY_MAPPING,
+  type NotionPropertyType,
+  type TweetField,
+  type TweetFieldDefinition,
+  type PropertyMapping
+} from './property-mapping';
 export { notionAuthManager } from './auth';
+export {
+  NotionOAuth,
+  notionOAuth,
+  DEFAULT_OAUTH_SETTINGS,
+  type NotionOAuthSettings,
+  type NotionTokenResponse,
+  type NotionTokenRequest
+} from './oauth';
 export { notionErrorHandler, withRetry, withErrorBoundary } from './error-handler';
+export { NotionOutbox, notionOutbox, type OutboxItem, type OutboxSaveHandler } from './outbox';
+export { NotionRouter, notionRouter, type RoutingRule } from './routing';
+export { NotionCollection, type CollectionQuery, type CollectionItem, type CollectionPage } from './collection';
+export {
+  NotionAnnotations,
+  notionAnnotations,
+  DEFAULT_ANNOTATION_SETTINGS,
+  type AnnotationField,
+  type AnnotationValues,
+  type AnnotationSettings
+} from './annotations';
 export { notionDebugHelper, NotionDebugHelper } from './debug-helper';
 export * from './types';
 
@@ -0,0 +1,184 @@
+import { NotionConfig } from './types';
+
+/**
+ * 公共集成（OAuth）登录配置
+ * 令牌交换端点由用户自行部署并持有 client secret，请求体与 Notion 的 /v1/oauth/token 相同，
+ * 返回 Notion 的令牌响应原文
+ */
+export interface NotionOAuthSettings {
+  clientId: string;
+  tokenEndpoint: string;
+  /** 授权页地址；可指向本地模拟服务器用于测试 */
+  authorizeUrl: string;
+}
+
+/**
+ * 令牌交换端点返回的内容（Notion OAuth 令牌响应）
+ */
+export interface NotionTokenResponse {
+  access_token: string;
+  refresh_token?: string | null;
+  /** 有效期（秒）；缺省表示不过期 */
+  expires_in?: number | null;
+  bot_id?: string;
+  workspace_id?: string;
+  workspace_name?: string | null;
+  /** URL、emoji 或 null */
+  workspace_icon?: string | null;
+}
+
+export type NotionTokenRequest =
+  | { grant_type: 'authorization_code'; code: string; redirect_uri: string }
+  | { grant_type: 'refresh_token'; refresh_token: string };
+
+export const DEFAULT_OAUTH_SETTINGS: NotionOAuthSettings = {
+  clientId: '',
+  tokenEndpoint: '',
+  authorizeUrl: 'https://api.notion.com/v1/oauth/authorize'
+};
+
+const SETTINGS_KEY = 'notion_oauth_settings';
+const REDIRECT_PATH = 'notion';
+
+/**
+ * Notion OAuth 授权码流程：登录配置、授权地址、回调解析与令牌交换
+ */
+export class NotionOAuth {
+  private static instance: NotionOAuth;
+
+  static getInstance(): NotionOAuth {
+    if (!NotionOAuth.instance) {
+      NotionOAuth.instance = new NotionOAuth();
+    }
+    return NotionOAuth.instance;
+  }
+
+  async getSettings(): Promise<NotionOAuthSettings> {
+    const result = await browser.storage.sync.get(SETTINGS_KEY);
+    return { ...DEFAULT_OAUTH_SETTINGS, ...(result[SETTINGS_KEY] as Partial<NotionOAuthSettings> | undefined) };
+  }
+
+  async saveSettings(settings: Partial<NotionOAuthSettings>): Promise<NotionOAuthSettings> {
+    const merged = { ...(await this.getSettings()), ...settings };
+    await browser.storage.sync.set({ [SETTINGS_KEY]: merged });
+    return merged;
+  }
+
+  /**
+   * 需要在 Notion 集成设置中登记的回调地址
+   */
+  getRedirectUri(): string {
+    return browser.identity.getRedirectURL(REDIRECT_PATH);
+  }
+
+  /**
+   * 打开授权页并用授权码换取令牌
+   */
+  async authorize(settings: NotionOAuthSettings): Promise<NotionTokenResponse> {
+    const error = NotionOAuth.validateSettings(settings);
+    if (error) {
+      throw new Error(error);
+    }
+
+    const redirectUri = this.getRedirectUri();
+    const state = crypto.randomUUID();
+    const responseUrl = await browser.identity.launchWebAuthFlow({
+      url: NotionOAuth.buildAuthorizeUrl(settings, redirectUri, state),
+      interactive: true
+    });
+    if (!responseUrl) {
+      throw new Error('授权已取消');
+    }
+
+    const code = NotionOAuth.parseRedirect(responseUrl, state);
+    return NotionOAuth.requestToken(settings.tokenEndpoint, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri
+    });
+  }
+
+  /**
+   * 校验登录配置，返回错误信息或 null
+   */
+  static validateSettings(settings: NotionOAuthSettings): string | null {
+    if (!settings.clientId.trim()) return '请先配置 OAuth Client ID';
+    if (!this.isHttpUrl(settings.tokenEndpoint)) return '令牌交换端点必须是 http(s) 地址';
+    if (!this.isHttpUrl(settings.authorizeUrl)) return '授权页地址必须是 http(s) 地址';
+    return null;
+  }
+
+  static buildAuthorizeUrl(settings: NotionOAuthSettings, redirectUri: string, state: string): string {
+    const url = new URL(settings.authorizeUrl);
+    url.searchParams.set('client_id', settings.clientId.trim());
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('owner', 'user');
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('state', state);
+    return url.toString();
+  }
+
+  /**
+   * 从回调地址取出授权码；用户拒绝或 state 不一致时抛出错误
+   */
+  static parseRedirect(responseUrl: string, expectedState: string): string {
+    const params = new URL(responseUrl).searchParams;
+
+    const error = params.get('error');
+    if (error) {
+      throw new Error(error === 'access_denied' ? '用户拒绝了授权' : `授权失败: ${error}`);
+    }
+    if (params.get('state') !== expectedState) {
+      throw new Error('授权回调校验失败，请重试');
+    }
+
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('授权回调中缺少授权码');
+    }
+    return code;
+  }
+
+  /**
+   * 调用令牌交换端点（授权码或刷新令牌）
+   */
+  static async requestToken(endpoint: string, body: NotionTokenRequest): Promise<NotionTokenResponse> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || typeof data?.access_token !== 'string') {
+      throw new Error(data?.error_description || data?.message || data?.error || `令牌交换失败 (HTTP ${response.status})`);
+    }
+    return data as NotionTokenResponse;
+  }
+
+  /**
+   * 令牌响应转换为连接配置
+   */
+  static toConfig(tokens: NotionTokenResponse, now = Date.now()): NotionConfig {
+    return {
+      accessToken: tokens.access_token,
+      authType: 'oauth',
+      refreshToken: tokens.refresh_token || undefined,
+      expiresAt: tokens.expires_in ? now + tokens.expires_in * 1000 : undefined,
+      workspaceName: tokens.workspace_name || undefined,
+      workspaceIcon: tokens.workspace_icon || undefined,
+      workspaceId: tokens.workspace_id || undefined,
+      botId: tokens.bot_id || undefined
+    };
+  }
+
+  private static isHttpUrl(value: string): boolean {
+    try {
+      return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+      return false;
+    }
+  }
+}
+
+export const notionOAuth = NotionOAuth.getInstance();
@@ -0,0 +1,197 @@
+import { DuplicatePolicy, SyncResult, TweetData } from './types';
+import { notionErrorHandler, NotionError } from './error-handler';
+import { RetryQueueStore, advanceRetryEntry, createRetryEntry, getRetryDelay, type RetryQueueEntry } from '../utils/retry-queue';
+
+/**
+ * 待同步队列中的一次保存
+ */
+export interface OutboxItem extends RetryQueueEntry {
+  databaseId: string;
+  tweetData: TweetData;
+  /** 保存时选择的已存在处理方式 */
+  policy?: DuplicatePolicy;
+}
+
+/**
+ * 执行一次保存，由后台注入（避免队列直接依赖客户端实例）
+ */
+export type OutboxSaveHandler = (databaseId: string, tweetData: TweetData, policy?: DuplicatePolicy) => Promise<SyncResult>;
+
+const STORAGE_KEY = 'notion_outbox';
+const ALARM_NAME = 'notion-outbox';
+
+/**
+ * Notion 待同步队列
+ * 因网络错误、限流或服务不可用而失败的保存持久化到本地存储，按指数退避自动重试
+ */
+export class NotionOutbox {
+  private static instance: NotionOutbox;
+  private saveHandler: OutboxSaveHandler | null = null;
+  private processing = false;
+  private store = new RetryQueueStore<OutboxItem>(STORAGE_KEY, ALARM_NAME, items => this.updateBadge(items));
+
+  static getInstance(): NotionOutbox {
+    if (!NotionOutbox.instance) {
+      NotionOutbox.instance = new NotionOutbox();
+    }
+    return NotionOutbox.instance;
+  }
+
+  /**
+   * 在后台启动队列：恢复角标并处理到期的条目
+   */
+  async start(saveHandler: OutboxSaveHandler): Promise<void> {
+    this.saveHandler = saveHandler;
+    this.store.listen(() => this.process());
+
+    await this.updateBadge(await this.getItems());
+    await this.process();
+  }
+
+  async getItems(): Promise<OutboxItem[]> {
+    return this.store.getItems();
+  }
+
+  /**
+   * 记录一次失败的保存；可重试的错误进入等待，其余直接标记为失败
+   */
+  async enqueue(databaseId: string, tweetData: TweetData, result: SyncResult, policy?: DuplicatePolicy): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      ...createRetryEntry(NotionOutbox.isRetryable(result), result.error, result.retryAfter),
+      databaseId,
+      tweetData,
+      policy
+    };
+
+    // 同一推文只保留最新的一条
+    await this.store.update(items => [...items.filter(existing => existing.tweetData.url !== tweetData.url), item]);
+    console.log(`📮 已加入 Notion 待同步队列（${item.status}）:`, tweetData.url);
+    await this.store.schedule(() => this.process());
+    return item;
+  }
+
+  /**
+   * 立即重试；不传 id 时重试全部条目
+   */
+  async retry(id?: string): Promise<void> {
+    await this.store.update(items => items.map(item => (!id || item.id === id)
+      ? { ...item, status: 'pending', nextAttemptAt: Date.now() }
+      : item
+    ));
+    // 不等待处理完成，调用方可立即刷新列表
+    this.process();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.store.update(items => items.filter(item => item.id !== id));
+  }
+
+  /**
+   * 推文已通过其他途径保存成功时移除对应条目
+   */
+  async removeByUrl(url: string): Promise<void> {
+    await this.store.update(items => items.some(item => item.tweetData.url === url)
+      ? items.filter(item => item.tweetData.url !== url)
+      : null
+    );
+  }
+
+  /**
+   * 依次处理到期的条目；客户端负责请求间隔，这里每次只处理一条
+   */
+  async process(): Promise<void> {
+    if (this.processing || !this.saveHandler) return;
+    this.processing = true;
+
+    try {
+      while (true) {
+        const due = await this.store.getDue();
+        if (!due) break;
+
+        let result: SyncResult;
+        try {
+          result = await this.saveHandler(due.databaseId, due.tweetData, due.policy);
+        } catch (error) {
+          result = { success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+
+        await this.applyResult(due, result);
+
+        // 限流时整个队列一起等待
+        if (!result.success && notionErrorHandler.isRateLimitError(NotionOutbox.toNotionError(result))) {
+          break;
+        }
+      }
+    } finally {
+      this.processing = false;
+      await this.store.schedule(() => this.process());
+    }
+  }
+
+  private async applyResult(item: OutboxItem, result: SyncResult): Promise<void> {
+    if (result.success) {
+      console.log('📮 待同步条目已保存到 Notion:', item.tweetData.url);
+    }
+
+    const updated = advanceRetryEntry(item, NotionOutbox.isRetryable(result), result.error, result.retryAfter);
+
+    await this.store.update(items => {
+      // 处理期间条目可能已被丢弃
+      if (!items.some(existing => existing.id === item.id)) return null;
+
+      if (result.success) {
+        return items.filter(existing => existing.id !== item.id);
+      }
+
+      if (result.retryAfter) {
+        // 限流对所有条目生效，推迟其余等待中的条目
+        return items.map(existing => existing.id === item.id
+          ? updated
+          : existing.status === 'pending'
+            ? { ...existing, nextAttemptAt: Math.max(existing.nextAttemptAt, updated.nextAttemptAt) }
+            : existing
+        );
+      }
+
+      return items.map(existing => existing.id === item.id ? updated : existing);
+    });
+  }
+
+  /**
+   * 扩展图标角标显示待同步数量，存在失败条目时为红色
+   */
+  private async updateBadge(items: OutboxItem[]): Promise<void> {
+    try {
+      const hasFailed = items.some(item => item.status === 'failed');
+      await browser.action.setBadgeText({ text: items.length > 0 ? String(items.length) : '' });
+      await browser.action.setBadgeBackgroundColor({ color: hasFailed ? '#f4212e' : '#1d9bf0' });
+    } catch (error) {
+      console.warn('Failed to update outbox badge:', error);
+    }
+  }
+
+  /**
+   * 网络错误、限流与服务端错误可以重试
+   */
+  static isRetryable(result: SyncResult): boolean {
+    return notionErrorHandler.shouldRetry(NotionOutbox.toNotionError(result));
+  }
+
+  /**
+   * 指数退避：优先使用 Retry-After，否则 5 秒起每次翻倍，加入随机抖动
+   */
+  static getRetryDelay(result: SyncResult, attempts: number): number {
+    return getRetryDelay(attempts, result.retryAfter);
+  }
+
+  private static toNotionError(result: SyncResult): NotionError {
+    return {
+      code: result.code || (result.status !== undefined ? `HTTP_${result.status}` : 'UNKNOWN_ERROR'),
+      message: result.error || '',
+      details: result,
+      timestamp: Date.now()
+    };
+  }
+}
+
+export const notionOutbox = NotionOutbox.getInstance();
@@ -0,0 +1,548 @@
+import { MediaAsset, NotionDatabase, NotionPage, PropertyFilter, TextLink, TweetData } from './types';
+import { NotionBlockBuilder } from './block-builder';
+import type { RichTextToken } from '../types';
+
+/**
+ * 支持写入的数据库属性类型
+ */
+export type NotionPropertyType =
+  | 'title'
+  | 'rich_text'
+  | 'url'
+  | 'date'
+  | 'number'
+  | 'select'
+  | 'multi_select'
+  | 'files'
+  | 'checkbox';
+
+/**
+ * 可写入数据库的推文字段
+ */
+export type TweetField =
+  | 'title'
+  | 'content'
+  | 'url'
+  | 'author'
+  | 'publishTime'
+  | 'category'
+  | 'tags'
+  | 'type'
+  | 'media'
+  | 'mediaSummary'
+  | 'linkUrl'
+  | 'linkTitle'
+  | 'likes'
+  | 'retweets'
+  | 'replies'
+  | 'hasMedia'
+  | 'tweetCount'
+  | 'note'
+  | 'toRead'
+  | 'rating';
+
+/**
+ * 推文字段到数据库属性名的映射，未映射的字段不写入
+ */
+export type PropertyMapping = Partial<Record<TweetField, string>>;
+
+export interface TweetFieldDefinition {
+  field: TweetField;
+  /** 可写入的属性类型，第一个为新建数据库时使用的类型 */
+  types: NotionPropertyType[];
+  /** 自动匹配时识别的属性名（不区分大小写） */
+  aliases: string[];
+  /** 没有同名属性时退而使用该类型的第一个属性 */
+  fallbackType?: NotionPropertyType;
+}
+
+/**
+ * 字段定义（顺序即设置界面中的顺序）
+ */
+export const TWEET_FIELDS: TweetFieldDefinition[] = [
+  { field: 'title', types: ['title', 'rich_text'], aliases: ['标题', 'Title'], fallbackType: 'title' },
+  { field: 'content', types: ['rich_text', 'title'], aliases: ['内容', 'Content', 'Text', '正文'] },
+  { field: 'url', types: ['url', 'rich_text', 'title'], aliases: ['推文链接', 'URL', 'Link', 'Tweet URL', '链接'], fallbackType: 'url' },
+  { field: 'author', types: ['rich_text', 'select', 'multi_select', 'title'], aliases: ['作者', 'Author'] },
+  { field: 'publishTime', types: ['date', 'rich_text'], aliases: ['发布时间', 'Published', 'Publish Time', 'Date'] },
+  { field: 'category', types: ['select', 'multi_select', 'rich_text'], aliases: ['分类', 'Category'] },
+  { field: 'tags', types: ['multi_select', 'rich_text', 'select'], aliases: ['标签', 'Tags'] },
+  { field: 'type', types: ['select', 'rich_text', 'multi_select'], aliases: ['类型', 'Type'] },
+  { field: 'media', types: ['files', 'url', 'rich_text'], aliases: ['媒体文件', 'Media', 'Files'], fallbackType: 'files' },
+  { field: 'mediaSummary', types: ['rich_text'], aliases: ['媒体信息', '媒体摘要', 'Media Info'] },
+  { field: 'linkUrl', types: ['url', 'rich_text'], aliases: ['分享链接', '卡片链接', 'Shared Link', 'Card URL'] },
+  { field: 'linkTitle', types: ['rich_text'], aliases: ['链接标题', '卡片标题', 'Link Title', 'Card Title'] },
+  { field: 'likes', types: ['number', 'rich_text'], aliases: ['点赞', '点赞数', 'Likes'] },
+  { field: 'retweets', types: ['number', 'rich_text'], aliases: ['转推', '转推数', 'Retweets'] },
+  { field: 'replies', types: ['number', 'rich_text'], aliases: ['回复', '回复数', 'Replies'] },
+  { field: 'hasMedia', types: ['checkbox', 'select'], aliases: ['含媒体', 'Has Media'] },
+  { field: 'tweetCount', types: ['number', 'rich_text'], aliases: ['推文数', 'Tweet Count', 'Tweets'] },
+  { field: 'note', types: ['rich_text'], aliases: ['备注', '笔记', 'Note', 'Notes'] },
+  { field: 'toRead', types: ['checkbox'], aliases: ['稍后读', '待读', 'To Read', 'Read Later'] },
+  { field: 'rating', types: ['number', 'select'], aliases: ['评分', 'Rating', 'Score'] }
+];
+
+/**
+ * 新建数据库时使用的属性名
+ */
+export const DEFAULT_PROPERTY_MAPPING: PropertyMapping = {
+  title: '标题',
+  author: '作者',
+  content: '内容',
+  category: '分类',
+  publishTime: '发布时间',
+  url: '推文链接',
+  tags: '标签',
+  media: '媒体文件',
+  mediaSummary: '媒体信息',
+  linkUrl: '分享链接',
+  linkTitle: '链接标题',
+  tweetCount: '推文数',
+  note: '备注',
+  toRead: '稍后读',
+  rating: '评分'
+};
+
+/** 新建数据库时预置的选项 */
+const DEFAULT_SELECT_OPTIONS: Partial<Record<TweetField, Array<{ name: string; color: string }>>> = {
+  category: [
+    { name: '技术', color: 'blue' },
+    { name: '资讯', color: 'green' },
+    { name: '学习', color: 'purple' },
+    { name: '工作', color: 'red' },
+    { name: '生活', color: 'yellow' },
+    { name: '其他', color: 'gray' }
+  ],
+  tags: [
+    { name: '技术', color: 'blue' },
+    { name: '资讯', color: 'green' },
+    { name: '灵感', color: 'yellow' },
+    { name: '学习', color: 'purple' },
+    { name: '工作', color: 'red' }
+  ]
+};
+
+const STORAGE_KEY = 'notion_property_mappings';
+
+/** 选项名不能包含逗号，长度不超过 100 */
+const SELECT_NAME_LENGTH = 100;
+
+/**
+ * 字段取值，按目标属性类型转换
+ */
+type FieldValue =
+  | { kind: 'text'; text: string; links?: TextLink[]; richText?: RichTextToken[] }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'date'; iso: string; endIso?: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'files'; assets: MediaAsset[] }
+  | { kind: 'boolean'; value: boolean };
+
+/**
+ * 数据库属性映射：自动匹配、按数据库保存，并把推文字段转换为属性值
+ */
+export class NotionPropertyMapper {
+  private static instance: NotionPropertyMapper;
+
+  static getInstance(): NotionPropertyMapper {
+    if (!NotionPropertyMapper.instance) {
+      NotionPropertyMapper.instance = new NotionPropertyMapper();
+    }
+    return NotionPropertyMapper.instance;
+  }
+
+  /**
+   * 读取数据库使用的映射：已保存的映射（剔除失效的属性），否则自动匹配
+   */
+  async resolveMapping(database: NotionDatabase): Promise<PropertyMapping> {
+    const stored = await this.getStoredMapping(database.id);
+    return stored
+      ? NotionPropertyMapper.validateMapping(stored, database)
+      : NotionPropertyMapper.suggestMapping(database);
+  }
+
+  async getStoredMapping(databaseId: string): Promise<PropertyMapping | null> {
+    const result = await browser.storage.local.get(STORAGE_KEY);
+    const mappings = (result[STORAGE_KEY] || {}) as Record<string, PropertyMapping>;
+    return mappings[this.normalizeId(databaseId)] || null;
+  }
+
+  /**
+   * 保存映射；传入 null 时清除，恢复自动匹配
+   */
+  async saveMapping(databaseId: string, mapping: PropertyMapping | null): Promise<void> {
+    const result = await browser.storage.local.get(STORAGE_KEY);
+    const mappings = { ...(result[STORAGE_KEY] || {}) } as Record<string, PropertyMapping>;
+    const key = this.normalizeId(databaseId);
+
+    if (mapping) {
+      mappings[key] = mapping;
+    } else {
+      delete mappings[key];
+    }
+
+    await browser.storage.local.set({ [STORAGE_KEY]: mappings });
+    console.log('🗂️ Notion 属性映射已保存:', key);
+  }
+
+  /**
+   * 按属性名和类型自动匹配；每个属性只分配给一个字段
+   * 先为所有字段匹配同名属性，再按名称包含关系与默认类型匹配，避免通用字段（标题、链接）占用专用字段的属性
+   */
+  static suggestMapping(database: NotionDatabase): PropertyMapping {
+    const properties = Object.entries(database.properties || {});
+    const used = new Set<string>();
+    const mapping: PropertyMapping = {};
+
+    const assign = (definition: TweetFieldDefinition, matches: Array<[string, any]>): void => {
+      // 同一轮中有多个候选时优先使用默认类型的属性
+      const match = matches.find(([, property]) => property.type === definition.fallbackType) || matches[0];
+      if (match) {
+        mapping[definition.field] = match[0];
+        used.add(match[0]);
+      }
+    };
+    const compatibleWith = (definition: TweetFieldDefinition) => properties.filter(([name, property]) =>
+      !used.has(name) && definition.types.includes(property?.type as NotionPropertyType)
+    );
+
+    for (const definition of TWEET_FIELDS) {
+      const aliases = definition.aliases.map(alias => alias.toLowerCase());
+      assign(definition, compatibleWith(definition).filter(([name]) => aliases.includes(name.toLowerCase())));
+    }
+
+    for (const definition of TWEET_FIELDS) {
+      if (mapping[definition.field]) continue;
+
+      const compatible = compatibleWith(definition);
+      const aliases = definition.aliases.map(alias => alias.toLowerCase());
+      const partial = compatible.filter(([name]) => aliases.some(alias => name.toLowerCase().includes(alias)));
+      assign(definition, partial.length > 0
+        ? partial
+        : compatible.filter(([, property]) => definition.fallbackType && property.type === definition.fallbackType));
+    }
+
+    return mapping;
+  }
+
+  /**
+   * 剔除已不存在或类型不兼容的属性
+   */
+  static validateMapping(mapping: PropertyMapping, database: NotionDatabase): PropertyMapping {
+    const properties = database.properties || {};
+    const result: PropertyMapping = {};
+
+    for (const definition of TWEET_FIELDS) {
+      const name = mapping[definition.field];
+      const type = name ? properties[name]?.type : undefined;
+      if (name && definition.types.includes(type as NotionPropertyType)) {
+        result[definition.field] = name;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * 列出数据库中可用于某个字段的属性
+   */
+  static getCompatibleProperties(field: TweetField, database: NotionDatabase): Array<{ name: string; type: string }> {
+    const definition = TWEET_FIELDS.find(item => item.field === field);
+    if (!definition) return [];
+
+    return Object.entries(database.properties || {})
+      .filter(([, property]) => definition.types.includes(property?.type as NotionPropertyType))
+      .map(([name, property]) => ({ name, type: property.type }));
+  }
+
+  /**
+   * 新建数据库的属性定义
+   */
+  static buildDatabaseSchema(): Record<string, any> {
+    const schema: Record<string, any> = {};
+
+    for (const definition of TWEET_FIELDS) {
+      const name = DEFAULT_PROPERTY_MAPPING[definition.field];
+      if (!name) continue;
+
+      const type = definition.types[0];
+      const options = DEFAULT_SELECT_OPTIONS[definition.field];
+      schema[name] = { [type]: options ? { options } : {} };
+    }
+
+    return schema;
+  }
+
+  /**
+   * 按映射生成页面属性
+   */
+  static buildProperties(tweetData: TweetData, mapping: PropertyMapping, database: NotionDatabase): Record<string, any> {
+    const properties: Record<string, any> = {};
+
+    for (const definition of TWEET_FIELDS) {
+      const name = mapping[definition.field];
+      const type = name ? database.properties?.[name]?.type as NotionPropertyType | undefined : undefined;
+      if (!name || !type) continue;
+
+      const fieldValue = this.getFieldValue(tweetData, definition.field);
+      const value = fieldValue ? this.encodeValue(fieldValue, type) : null;
+      if (value !== null) {
+        properties[name] = value;
+      }
+    }
+
+    return properties;
+  }
+
+  /**
+   * 按推文链接查重的过滤条件；链接字段未映射时无法查重
+   */
+  static buildUrlFilter(mapping: PropertyMapping, database: NotionDatabase, tweetUrl: string): PropertyFilter | null {
+    const name = mapping.url;
+    const type = name ? database.properties?.[name]?.type : undefined;
+    if (!name || (type !== 'url' && type !== 'rich_text' && type !== 'title')) {
+      return null;
+    }
+
+    return { property: name, [type]: { equals: tweetUrl } };
+  }
+
+  /**
+   * 读取页面中推文链接属性的值
+   */
+  static readTweetUrl(page: NotionPage, mapping: PropertyMapping): string | null {
+    const property = mapping.url ? page.properties?.[mapping.url] : undefined;
+    return property && ['url', 'rich_text', 'title'].includes(property.type)
+      ? this.readPropertyText(property) || null
+      : null;
+  }
+
+  /**
+   * 属性值转换为文本；多选以逗号连接，日期取开始时间
+   */
+  static readPropertyText(property: any): string {
+    switch (property?.type) {
+      case 'title':
+      case 'rich_text':
+        return (property[property.type] || [])
+          .map((item: { plain_text?: string; text?: { content: string } }) => item.plain_text ?? item.text?.content ?? '')
+          .join('');
+      case 'url':
+        return property.url || '';
+      case 'select':
+        return property.select?.name || '';
+      case 'multi_select':
+        return (property.multi_select || []).map((option: { name: string }) => option.name).join(', ');
+      case 'number':
+        return property.number === null || property.number === undefined ? '' : String(property.number);
+      case 'date':
+        return property.date?.start || '';
+      case 'checkbox':
+        return property.checkbox ? '✓' : '';
+      default:
+        return '';
+    }
+  }
+
+  static buildAuthorText(author: string, username: string): string {
+    const trimmedAuthor = author.trim();
+    const trimmedUsername = username.trim();
+
+    if (!trimmedAuthor && !trimmedUsername) return '';
+
+    if (!trimmedUsername) return trimmedAuthor;
+
+    const handle = trimmedUsername.startsWith('@') ? trimmedUsername : `@${trimmedUsername}`;
+    if (!trimmedAuthor) return handle;
+
+    return `${trimmedAuthor} (${handle})`;
+  }
+
+  static buildMediaSummary(assets: MediaAsset[]): string {
+    if (!assets.length) return '';
+
+    const parts = assets.map((asset, index) => {
+      const label = asset.type === 'gif' ? 'GIF' : asset.type.toUpperCase();
+      const alt = asset.alt ? `（${asset.alt.slice(0, 40)}）` : '';
+      return `${index + 1}. ${label} → ${asset.url}${alt}`;
+    });
+
+    return parts.join('\n');
+  }
+
+  /**
+   * 字段取值；未填写的注释返回 null，更新已有页面时不会覆盖原值
+   */
+  private static getFieldValue(tweetData: TweetData, field: TweetField): FieldValue | null {
+    const annotations = tweetData.annotations || {};
+    const assets = tweetData.media?.assets || [];
+    const authorText = this.buildAuthorText(tweetData.author, tweetData.username);
+
+    switch (field) {
+      case 'title': {
+        // 线程以第一条推文作为标题
+        const content = tweetData.thread?.[0]?.content ?? tweetData.content;
+        return { kind: 'text', text: content.slice(0, 100) + (content.length > 100 ? '...' : '') };
+      }
+      case 'content':
+        return {
+          kind: 'text',
+          text: authorText ? `作者: ${authorText}\n\n${tweetData.content}` : tweetData.content,
+          links: tweetData.textLinks,
+          richText: tweetData.richText?.length && authorText
+            ? [{ type: 'text', text: `作者: ${authorText}` }, { type: 'linebreak', text: '\n' }, { type: 'linebreak', text: '\n' }, ...tweetData.richText]
+            : tweetData.richText
+        };
+      case 'url':
+        return { kind: 'text', text: tweetData.url };
+      case 'author':
+        return { kind: 'text', text: authorText };
+      case 'publishTime': {
+        // 线程记录第一条到最后一条推文的时间范围
+        const thread = tweetData.thread || [];
+        return thread.length > 1
+          ? { kind: 'date', iso: thread[0].publishTime, endIso: thread[thread.length - 1].publishTime }
+          : { kind: 'date', iso: tweetData.publishTime };
+      }
+      case 'category':
+        return { kind: 'text', text: tweetData.category || '其他' };
+      case 'tags':
+        return { kind: 'list', items: tweetData.tags || [] };
+      case 'type':
+        return { kind: 'text', text: tweetData.type };
+      case 'media':
+        return { kind: 'files', assets: assets.filter(asset => asset.type === 'image' || asset.type === 'gif' || asset.type === 'video') };
+      case 'mediaSummary':
+        return { kind: 'text', text: this.buildMediaSummary(assets) };
+      case 'linkUrl':
+        return tweetData.card ? { kind: 'text', text: tweetData.card.url } : null;
+      case 'linkTitle':
+        return tweetData.card?.title ? { kind: 'text', text: tweetData.card.title } : null;
+      case 'likes':
+        return { kind: 'number', value: tweetData.stats?.likes || 0 };
+      case 'retweets':
+        return { kind: 'number', value: tweetData.stats?.retweets || 0 };
+      case 'replies':
+        return { kind: 'number', value: tweetData.stats?.replies || 0 };
+      case 'hasMedia':
+        return { kind: 'boolean', value: assets.length > 0 || tweetData.media?.hasImages || tweetData.media?.hasVideo || false };
+      case 'tweetCount':
+        return { kind: 'number', value: tweetData.thread?.length || 1 };
+      case 'note':
+        return annotations.note ? { kind: 'text', text: annotations.note } : null;
+      case 'toRead':
+        return annotations.toRead === undefined ? null : { kind: 'boolean', value: annotations.toRead };
+      case 'rating':
+        return annotations.rating === undefined ? null : { kind: 'number', value: annotations.rating };
+    }
+  }
+
+  /**
+   * 将字段值转换为指定类型的属性值；无法表示时返回 null（不写入该属性）
+   */
+  private static encodeValue(value: FieldValue, type: NotionPropertyType): any {
+    switch (type) {
+      case 'title':
+      case 'rich_text': {
+        const text = this.valueToText(value);
+        if (!text && type === 'rich_text') return null;
+        return {
+          [type]: value.kind === 'text'
+            ? NotionBlockBuilder.buildRichText(text, value.links, value.richText)
+            : NotionBlockBuilder.buildRichText(text)
+        };
+      }
+      case 'url': {
+        const url = value.kind === 'files' ? value.assets[0]?.url : this.valueToText(value);
+        return url && /^https?:\/\//.test(url) ? { url } : null;
+      }
+      case 'date': {
+        const time = new Date(value.kind === 'date' ? value.iso : this.valueToText(value));
+        if (isNaN(time.getTime())) return null;
+        const end = value.kind === 'date' && value.endIso ? new Date(value.endIso) : null;
+        return end && !isNaN(end.getTime()) && end.getTime() > time.getTime()
+          ? { date: { start: time.toISOString(), end: end.toISOString() } }
+          : { date: { start: time.toISOString() } };
+      }
+      case 'number': {
+        const number = this.valueToNumber(value);
+        return number === null ? null : { number };
+      }
+      case 'select': {
+        const [name] = this.valueToNames(value);
+        return name ? { select: { name } } : null;
+      }
+      case 'multi_select':
+        return { multi_select: this.valueToNames(value).map(name => ({ name })) };
+      case 'files': {
+        const urls = value.kind === 'files'
+          ? value.assets.map(asset => ({ name: asset.type, url: asset.url }))
+          : [{ name: 'link', url: this.valueToText(value) }];
+        const files = urls
+          .filter(file => /^https?:\/\//.test(file.url))
+          .map((file, index) => ({ name: `${file.name}-${index + 1}`, type: 'external', external: { url: file.url } }));
+        return files.length > 0 ? { files } : null;
+      }
+      case 'checkbox':
+        return { checkbox: this.valueToBoolean(value) };
+      default:
+        return null;
+    }
+  }
+
+  private static valueToText(value: FieldValue): string {
+    switch (value.kind) {
+      case 'text': return value.text;
+      case 'list': return value.items.join(', ');
+      case 'date': return value.endIso ? `${value.iso} – ${value.endIso}` : value.iso;
+      case 'number': return String(value.value);
+      case 'files': return value.assets.map(asset => asset.url).join('\n');
+      case 'boolean': return value.value ? '✓' : '';
+    }
+  }
+
+  private static valueToNumber(value: FieldValue): number | null {
+    switch (value.kind) {
+      case 'number': return value.value;
+      case 'boolean': return value.value ? 1 : 0;
+      case 'list': return value.items.length;
+      case 'files': return value.assets.length;
+      default: {
+        const number = parseFloat(this.valueToText(value));
+        return Number.isFinite(number) ? number : null;
+      }
+    }
+  }
+
+  private static valueToBoolean(value: FieldValue): boolean {
+    switch (value.kind) {
+      case 'boolean': return value.value;
+      case 'number': return value.value > 0;
+      case 'list': return value.items.length > 0;
+      case 'files': return value.assets.length > 0;
+      default: return this.valueToText(value).trim().length > 0;
+    }
+  }
+
+  /**
+   * 选项名：去掉逗号并截断，去重
+   */
+  private static valueToNames(value: FieldValue): string[] {
+    const items = value.kind === 'list'
+      ? value.items
+      : value.kind === 'boolean'
+        ? [value.value ? 'Yes' : 'No']
+        : [this.valueToText(value)];
+
+    const names = items
+      .map(item => item.replace(/,/g, ' ').trim().slice(0, SELECT_NAME_LENGTH))
+      .filter(Boolean);
+    return Array.from(new Set(names));
+  }
+
+  private normalizeId(databaseId: string): string {
+    return databaseId.replace(/-/g, '');
+  }
+}
+
+export const notionPropertyMapper = NotionPropertyMapper.getInstance();
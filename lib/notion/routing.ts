@@ -0,0 +1,134 @@
+import { TweetData } from './types';
+
+/**
+ * 保存推文时的路由规则：条件全部满足时保存到规则指定的数据库
+ * 同一条件中的多个值任意一个命中即可，未填写的条件不参与匹配
+ */
+export interface RoutingRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** 作者用户名（不含 @，不区分大小写） */
+  authors: string[];
+  /** 话题（不含 #，不区分大小写） */
+  hashtags: string[];
+  /** 正文关键词（不区分大小写） */
+  keywords: string[];
+  /** true：必须含图片或视频；false：必须不含；未设置：不限 */
+  hasMedia?: boolean;
+  tweetTypes: TweetData['type'][];
+  databaseId: string;
+  /** 规则保存时的数据库名称，用于显示 */
+  databaseTitle?: string;
+  /** 推文未选择分类时使用 */
+  category?: string;
+  /** 追加到推文标签 */
+  tags: string[];
+}
+
+const STORAGE_KEY = 'notion_routing_rules';
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+
+/**
+ * 按规则把推文路由到不同的 Notion 数据库
+ */
+export class NotionRouter {
+  private static instance: NotionRouter;
+
+  static getInstance(): NotionRouter {
+    if (!NotionRouter.instance) {
+      NotionRouter.instance = new NotionRouter();
+    }
+    return NotionRouter.instance;
+  }
+
+  async getRules(): Promise<RoutingRule[]> {
+    const result = await browser.storage.local.get(STORAGE_KEY);
+    return (result[STORAGE_KEY] as RoutingRule[] | undefined) || [];
+  }
+
+  async saveRules(rules: RoutingRule[]): Promise<RoutingRule[]> {
+    const normalized = rules.map(rule => NotionRouter.normalizeRule(rule));
+    await browser.storage.local.set({ [STORAGE_KEY]: normalized });
+    console.log('🧭 Notion 路由规则已保存:', normalized.length);
+    return normalized;
+  }
+
+  /**
+   * 按顺序返回第一个启用且命中的规则
+   */
+  static matchRule(rules: RoutingRule[], tweetData: TweetData): RoutingRule | null {
+    return rules.find(rule => rule.enabled && rule.databaseId && this.matches(rule, tweetData)) || null;
+  }
+
+  /**
+   * 规则的全部条件是否满足；没有任何条件的规则不匹配
+   */
+  static matches(rule: RoutingRule, tweetData: TweetData): boolean {
+    const checks: boolean[] = [];
+    const content = tweetData.content.toLowerCase();
+
+    if (rule.authors.length > 0) {
+      const username = tweetData.username.replace(/^@/, '').toLowerCase();
+      checks.push(rule.authors.some(author => author.toLowerCase() === username));
+    }
+
+    if (rule.hashtags.length > 0) {
+      const hashtags = new Set(Array.from(tweetData.content.matchAll(HASHTAG_PATTERN), match => match[1].toLowerCase()));
+      checks.push(rule.hashtags.some(tag => hashtags.has(tag.toLowerCase())));
+    }
+
+    if (rule.keywords.length > 0) {
+      checks.push(rule.keywords.some(keyword => content.includes(keyword.toLowerCase())));
+    }
+
+    if (rule.hasMedia !== undefined) {
+      checks.push((tweetData.media.hasImages || tweetData.media.hasVideo) === rule.hasMedia);
+    }
+
+    if (rule.tweetTypes.length > 0) {
+      checks.push(rule.tweetTypes.includes(tweetData.type));
+    }
+
+    return checks.length > 0 && checks.every(Boolean);
+  }
+
+  /**
+   * 应用规则的默认分类与标签
+   */
+  static applyDefaults(tweetData: TweetData, rule: RoutingRule): TweetData {
+    const tags = Array.from(new Set([...(tweetData.tags || []), ...rule.tags]));
+    return {
+      ...tweetData,
+      category: tweetData.category || rule.category || undefined,
+      tags
+    };
+  }
+
+  static isSameDatabase(a: string, b: string): boolean {
+    return a.replace(/-/g, '') === b.replace(/-/g, '');
+  }
+
+  /**
+   * 去掉列表值的空白与前缀符号
+   */
+  private static normalizeRule(rule: RoutingRule): RoutingRule {
+    const clean = (values: string[] = [], prefix = '') => values
+      .map(value => value.trim())
+      .map(value => prefix && value.startsWith(prefix) ? value.slice(prefix.length) : value)
+      .filter(Boolean);
+
+    return {
+      ...rule,
+      name: rule.name.trim(),
+      authors: clean(rule.authors, '@'),
+      hashtags: clean(rule.hashtags, '#'),
+      keywords: clean(rule.keywords),
+      tweetTypes: rule.tweetTypes || [],
+      category: rule.category?.trim() || undefined,
+      tags: clean(rule.tags)
+    };
+  }
+}
+
+export const notionRouter = NotionRouter.getInstance();
@@ -0,0 +1,1123 @@
+import { threadParser } from '../parsers/thread-parser';
+import { DuplicatePolicy } from './types';
+import { tagRuleEngine, TagRuleEngine } from '../tagging';
+import { notionAnnotations, type AnnotationField, type AnnotationValues } from './annotations';
+import type { ThreadData, TweetData as ParsedTweetData } from '../types';
+import type { DestinationPayload, DestinationPrompt } from '../destinations/destination';
+import type { NotionSaveOptions } from '../destinations/notion-destination';
+
+/**
+ * 本次保存的目标数据库与可选数据库
+ */
+interface SaveTarget {
+  databaseId: string;
+  ruleName?: string;
+  category?: string;
+  databases: Array<{ id: string; title: string; isDefault: boolean }>;
+}
+
+/**
+ * 保存到 Notion 前的交互：选择分类与数据库、是否保存整个线程、填写注释、已存在时的处理方式
+ * 选择结果作为 NotionSaveOptions 随 DESTINATION_SAVE 发送，由 notionDestination 生成记录并保存
+ */
+export class NotionSavePrompt implements DestinationPrompt {
+  constructor(private notify: (message: string, type: 'success' | 'error' | 'info') => void) {}
+
+  async prompt(tweetElement: HTMLElement, payload: DestinationPayload): Promise<DestinationPayload | null> {
+    // 按路由规则确定目标数据库，在分类选择器中可手动更改；推文属于线程时可选择保存整个线程
+    const target = await this.resolveSaveTarget(payload.tweet);
+    // 自动标签规则给出的分类作为建议（路由规则的分类优先）
+    const tagging = await tagRuleEngine.apply(TagRuleEngine.fromTweets([payload.tweet]));
+    const selection = await this.showCategorySelector(target, payload.tweet.isThread, target?.category || tagging.category);
+    if (!selection) {
+      return null; // 用户取消了选择
+    }
+
+    // 按目标数据库的结构填写备注、标签等注释（设置中开启时）
+    const annotation = await this.collectAnnotations(selection.databaseId, tagging.tags);
+    if (!annotation) {
+      return null; // 用户取消了注释
+    }
+
+    let thread: ThreadData | undefined;
+    if (selection.saveThread) {
+      thread = await this.parseThread(tweetElement) || undefined;
+      if (!thread) {
+        this.notify('未能读取完整线程，仅保存当前推文', 'info');
+      }
+    }
+
+    // 检查是否已存在（线程按第一条推文的链接），已存在时选择处理方式
+    let policy: DuplicatePolicy | undefined;
+    const existing = await this.checkTweetExists(thread ? thread.tweets[0].url : payload.tweet.url, selection.databaseId);
+    if (existing.exists) {
+      const selectedPolicy = await this.showDuplicatePolicySelector(existing.policy);
+      if (!selectedPolicy) {
+        return null; // 用户取消了选择
+      }
+      policy = selectedPolicy;
+    }
+
+    // 注释表单中确认过的标签优先，否则由 notionDestination 按自动标签规则生成
+    const options: NotionSaveOptions = {
+      databaseId: selection.databaseId,
+      policy,
+      category: selection.category,
+      tags: annotation.values?.tags,
+      annotations: annotation.values?.annotations
+    };
+    return { ...payload, thread, options: { ...options } };
+  }
+
+  /**
+   * 解析推文所在的线程；与文件导出一样沿自我回复链遍历完整线程，只有一条推文或解析失败时返回 null
+   */
+  private async parseThread(tweetElement: HTMLElement): Promise<ThreadData | null> {
+    try {
+      const thread = await threadParser.parseThread(tweetElement, { walk: true });
+      return thread && thread.tweets.length > 1 ? thread : null;
+    } catch (error) {
+      console.warn('Failed to parse thread:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 查询保存目标；失败时由后台使用默认数据库
+   */
+  private async resolveSaveTarget(tweet: ParsedTweetData): Promise<SaveTarget | null> {
+    try {
+      const response = await browser.runtime.sendMessage({
+        type: 'NOTION_RESOLVE_TARGET',
+        tweet
+      });
+      return response?.success ? { ...response.target, databases: response.databases } : null;
+    } catch (error) {
+      console.warn('Failed to resolve Notion target:', error);
+      return null;
+    }
+  }
+
+  private async checkTweetExists(
+    url: string,
+    databaseId?: string
+  ): Promise<{ exists: boolean; policy: DuplicatePolicy }> {
+    try {
+      const response = await browser.runtime.sendMessage({
+        type: 'NOTION_CHECK_EXISTS',
+        url: url,
+        databaseId
+      });
+      return { exists: response?.exists || false, policy: response?.policy || 'skip' };
+    } catch (error) {
+      console.warn('Failed to check tweet existence:', error);
+      return { exists: false, policy: 'skip' };
+    }
+  }
+
+  /**
+   * 选择分类、目标数据库以及是否保存整个线程
+   * 只有一个可选数据库、不在线程中且设置了默认分类时直接使用默认分类
+   * 建议分类（路由规则或自动标签规则给出）在列表中高亮
+   */
+  private async showCategorySelector(
+    target: SaveTarget | null,
+    canSaveThread: boolean,
+    suggestedCategory?: string
+  ): Promise<{ category: string; databaseId?: string; saveThread: boolean } | null> {
+    return new Promise(async (resolve) => {
+      // 从存储中获取分类，如果没有则使用默认分类
+      let categories = [
+        { name: '技术', color: '#0066CC' },
+        { name: '资讯', color: '#00AA55' },
+        { name: '学习', color: '#8B5CF6' },
+        { name: '工作', color: '#DC2626' },
+        { name: '生活', color: '#F59E0B' },
+        { name: '其他', color: '#6B7280' }
+      ];
+
+      try {
+        const result = await chrome.storage.sync.get(['notionCategories', 'notionSettings']);
+        if (result.notionCategories && result.notionCategories.length > 0) {
+          categories = result.notionCategories;
+        }
+
+        // 检查是否有默认分类设置
+        if (result.notionSettings && result.notionSettings.defaultCategory) {
+          const defaultCategory = result.notionSettings.defaultCategory;
+          const defaultCategoryExists = categories.find(cat => cat.name === defaultCategory);
+          if (defaultCategoryExists && (!target || target.databases.length <= 1) && !canSaveThread) {
+            resolve({ category: defaultCategory, databaseId: target?.databaseId, saveThread: false });
+            return;
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to load categories from storage, using defaults:', error);
+      }
+
+      // 创建模态对话框
+      const modal = document.createElement('div');
+      modal.className = 'tweet-craft-category-modal';
+      modal.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 10000;
+        backdrop-filter: blur(4px);
+      `;
+
+      const dialog = document.createElement('div');
+      dialog.style.cssText = `
+        background: white;
+        padding: 24px;
+        border-radius: 16px;
+        max-width: 400px;
+        width: 90%;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        position: relative;
+        animation: modalSlideIn 0.3s ease-out;
+      `;
+
+      // 添加动画样式
+      if (!document.getElementById('category-modal-styles')) {
+        const style = document.createElement('style');
+        style.id = 'category-modal-styles';
+        style.textContent = `
+          @keyframes modalSlideIn {
+            from { 
+              opacity: 0; 
+              transform: translateY(-20px) scale(0.95); 
+            }
+            to { 
+              opacity: 1; 
+              transform: translateY(0) scale(1); 
+            }
+          }
+          
+          .category-item:hover {
+            transform: translateY(-2px);
+            box-shadow: 0 8px 20px rgba(0, 0, 0, 0.12);
+          }
+        `;
+        document.head.appendChild(style);
+      }
+
+      const title = document.createElement('h3');
+      title.textContent = '选择分类';
+      title.style.cssText = `
+        margin: 0 0 16px 0;
+        font-size: 18px;
+        font-weight: 600;
+        color: #1f2937;
+        text-align: center;
+      `;
+
+      const subtitle = document.createElement('p');
+      subtitle.textContent = '为这条推文选择一个分类：';
+      subtitle.style.cssText = `
+        margin: 0 0 20px 0;
+        color: #6b7280;
+        font-size: 14px;
+        text-align: center;
+      `;
+
+      // 目标数据库：显示命中的规则，多个数据库时可手动更改
+      const targetRow = document.createElement('div');
+      targetRow.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 0 0 16px 0;
+        font-size: 13px;
+        color: #374151;
+      `;
+      const targetLabel = document.createElement('span');
+      targetLabel.textContent = '保存到';
+      targetLabel.style.cssText = 'flex-shrink: 0; font-weight: 500;';
+      const databaseSelect = document.createElement('select');
+      databaseSelect.style.cssText = `
+        flex: 1;
+        min-width: 0;
+        padding: 6px 8px;
+        border: 1px solid #d1d5db;
+        border-radius: 8px;
+        font-size: 13px;
+        background: white;
+      `;
+      (target?.databases || []).forEach(database => {
+        const option = document.createElement('option');
+        option.value = database.id;
+        option.textContent = database.isDefault ? `${database.title}（默认）` : database.title;
+        option.selected = database.id === target?.databaseId;
+        databaseSelect.appendChild(option);
+      });
+      databaseSelect.disabled = databaseSelect.options.length <= 1;
+      targetRow.appendChild(targetLabel);
+      targetRow.appendChild(databaseSelect);
+
+      const ruleHint = document.createElement('p');
+      ruleHint.textContent = target?.ruleName ? `已匹配规则「${target.ruleName}」` : '';
+      ruleHint.style.cssText = `
+        margin: -8px 0 16px 0;
+        color: #6b7280;
+        font-size: 12px;
+      `;
+
+      // 线程选项：整个线程保存为一个页面
+      const threadOption = document.createElement('label');
+      threadOption.style.cssText = `
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        margin: 0 0 16px 0;
+        font-size: 13px;
+        color: #374151;
+        cursor: pointer;
+      `;
+      const threadCheckbox = document.createElement('input');
+      threadCheckbox.type = 'checkbox';
+      threadCheckbox.checked = true;
+      threadOption.appendChild(threadCheckbox);
+      threadOption.appendChild(document.createTextNode('保存整个线程为一个页面'));
+
+      const selectCategory = (category: string) => {
+        document.body.removeChild(modal);
+        resolve({
+          category,
+          databaseId: databaseSelect.value || target?.databaseId,
+          saveThread: canSaveThread && threadCheckbox.checked
+        });
+      };
+
+      const categoryGrid = document.createElement('div');
+      categoryGrid.style.cssText = `
+        display: grid;
+        grid-template-columns: repeat(2, 1fr);
+        gap: 12px;
+        margin-bottom: 20px;
+      `;
+
+      categories.forEach(category => {
+        const categoryItem = document.createElement('div');
+        categoryItem.className = 'category-item';
+        categoryItem.style.cssText = `
+          padding: 12px 16px;
+          border: 2px solid ${category.name === suggestedCategory ? category.color : `${category.color}20`};
+          background: ${category.color}10;
+          border-radius: 12px;
+          cursor: pointer;
+          transition: all 0.2s ease;
+          text-align: center;
+          font-weight: 500;
+          color: ${category.color};
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          min-height: 48px;
+        `;
+        
+        categoryItem.textContent = category.name;
+        
+        categoryItem.addEventListener('click', () => selectCategory(category.name));
+        
+        categoryGrid.appendChild(categoryItem);
+      });
+
+      // 新建分类选项
+      const newCategoryItem = document.createElement('div');
+      newCategoryItem.className = 'category-item';
+      newCategoryItem.style.cssText = `
+        padding: 12px 16px;
+        border: 2px dashed #d1d5db;
+        background: #f9fafb;
+        border-radius: 12px;
+        cursor: pointer;
+        transition: all 0.2s ease;
+        text-align: center;
+        font-weight: 500;
+        color: #6b7280;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        min-height: 48px;
+        grid-column: span 2;
+      `;
+      
+      newCategoryItem.innerHTML = '+ 新建分类';
+      newCategoryItem.addEventListener('click', async () => {
+        const customCategory = await this.showNewCategoryDialog();
+        if (customCategory) {
+          // 保存新分类到存储
+          try {
+            categories.push({ name: customCategory, color: '#6B7280' });
+            await chrome.storage.sync.set({
+              notionCategories: categories
+            });
+          } catch (error) {
+            console.warn('Failed to save new category:', error);
+          }
+        }
+        if (customCategory) {
+          selectCategory(customCategory);
+        } else {
+          document.body.removeChild(modal);
+          resolve(null);
+        }
+      });
+      
+      categoryGrid.appendChild(newCategoryItem);
+
+      // 取消按钮
+      const cancelButton = document.createElement('button');
+      cancelButton.textContent = '取消';
+      cancelButton.style.cssText = `
+        width: 100%;
+        padding: 12px;
+        border: 1px solid #d1d5db;
+        background: white;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+        color: #6b7280;
+        transition: all 0.2s ease;
+      `;
+      
+      cancelButton.addEventListener('click', () => {
+        document.body.removeChild(modal);
+        resolve(null);
+      });
+
+      cancelButton.addEventListener('mouseenter', () => {
+        cancelButton.style.background = '#f9fafb';
+        cancelButton.style.borderColor = '#9ca3af';
+      });
+
+      cancelButton.addEventListener('mouseleave', () => {
+        cancelButton.style.background = 'white';
+        cancelButton.style.borderColor = '#d1d5db';
+      });
+
+      dialog.appendChild(title);
+      dialog.appendChild(subtitle);
+      if (target) {
+        dialog.appendChild(targetRow);
+        if (target.ruleName) {
+          dialog.appendChild(ruleHint);
+        }
+      }
+      if (canSaveThread) {
+        dialog.appendChild(threadOption);
+      }
+      dialog.appendChild(categoryGrid);
+      dialog.appendChild(cancelButton);
+      modal.appendChild(dialog);
+      document.body.appendChild(modal);
+
+      // 点击背景关闭
+      modal.addEventListener('click', (e) => {
+        if (e.target === modal) {
+          document.body.removeChild(modal);
+          resolve(null);
+        }
+      });
+
+      // ESC键关闭
+      const handleEscape = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          document.body.removeChild(modal);
+          document.removeEventListener('keydown', handleEscape);
+          resolve(null);
+        }
+      };
+      document.addEventListener('keydown', handleEscape);
+    });
+  }
+
+  /**
+   * 推文已存在时选择处理方式；默认项高亮，回车确认，ESC 取消
+   */
+  private showDuplicatePolicySelector(defaultPolicy: DuplicatePolicy): Promise<DuplicatePolicy | null> {
+    return new Promise((resolve) => {
+      const options: Array<{ policy: DuplicatePolicy; label: string; description: string }> = [
+        { policy: 'skip', label: '跳过', description: '保留 Notion 中的页面，不做修改' },
+        { policy: 'update', label: '更新属性', description: '刷新互动数据、媒体与编辑后的内容' },
+        { policy: 'append', label: '追加新版本', description: '在原页面末尾追加当前内容' },
+        { policy: 'duplicate', label: '另存一份', description: '新建一个重复的页面' }
+      ];
+
+      const modal = document.createElement('div');
+      modal.className = 'tweet-craft-duplicate-modal';
+      modal.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 10000;
+        backdrop-filter: blur(4px);
+      `;
+
+      const dialog = document.createElement('div');
+      dialog.style.cssText = `
+        background: white;
+        padding: 24px;
+        border-radius: 16px;
+        max-width: 400px;
+        width: 90%;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        position: relative;
+      `;
+
+      const title = document.createElement('h3');
+      title.textContent = '推文已存在';
+      title.style.cssText = `
+        margin: 0 0 16px 0;
+        font-size: 18px;
+        font-weight: 600;
+        color: #1f2937;
+        text-align: center;
+      `;
+
+      const subtitle = document.createElement('p');
+      subtitle.textContent = '这条推文已保存在 Notion 中，选择处理方式：';
+      subtitle.style.cssText = `
+        margin: 0 0 20px 0;
+        color: #6b7280;
+        font-size: 14px;
+        text-align: center;
+      `;
+
+      const list = document.createElement('div');
+      list.style.cssText = `
+        display: flex;
+        flex-direction: column;
+        gap: 8px;
+        margin-bottom: 20px;
+      `;
+
+      const close = (policy: DuplicatePolicy | null) => {
+        document.removeEventListener('keydown', handleKeydown);
+        if (modal.parentNode) {
+          modal.parentNode.removeChild(modal);
+        }
+        resolve(policy);
+      };
+
+      options.forEach(option => {
+        const isDefault = option.policy === defaultPolicy;
+        const item = document.createElement('div');
+        item.style.cssText = `
+          padding: 12px 16px;
+          border: 2px solid ${isDefault ? '#1d9bf0' : '#e5e7eb'};
+          background: ${isDefault ? '#1d9bf010' : 'white'};
+          border-radius: 12px;
+          cursor: pointer;
+          transition: all 0.2s ease;
+        `;
+
+        const label = document.createElement('div');
+        label.textContent = isDefault ? `${option.label}（默认）` : option.label;
+        label.style.cssText = 'font-weight: 600; color: #1f2937; font-size: 14px;';
+
+        const description = document.createElement('div');
+        description.textContent = option.description;
+        description.style.cssText = 'color: #6b7280; font-size: 12px; margin-top: 2px;';
+
+        item.appendChild(label);
+        item.appendChild(description);
+        item.addEventListener('click', () => close(option.policy));
+        list.appendChild(item);
+      });
+
+      const cancelButton = document.createElement('button');
+      cancelButton.textContent = '取消';
+      cancelButton.style.cssText = `
+        width: 100%;
+        padding: 12px;
+        border: 1px solid #d1d5db;
+        background: white;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+        color: #6b7280;
+      `;
+      cancelButton.addEventListener('click', () => close(null));
+
+      dialog.appendChild(title);
+      dialog.appendChild(subtitle);
+      dialog.appendChild(list);
+      dialog.appendChild(cancelButton);
+      modal.appendChild(dialog);
+      document.body.appendChild(modal);
+
+      // 点击背景关闭
+      modal.addEventListener('click', (e) => {
+        if (e.target === modal) {
+          close(null);
+        }
+      });
+
+      // 回车使用默认方式，ESC 取消
+      const handleKeydown = (e: KeyboardEvent) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          close(defaultPolicy);
+        } else if (e.key === 'Escape') {
+          close(null);
+        }
+      };
+      document.addEventListener('keydown', handleKeydown);
+    });
+  }
+
+  /**
+   * 设置中开启注释表单时，按目标数据库的结构填写备注、标签等
+   * 返回 null 表示用户取消；values 为空表示未显示表单
+   */
+  private async collectAnnotations(databaseId: string | undefined, suggestedTags: string[]): Promise<{ values?: AnnotationValues } | null> {
+    const settings = await notionAnnotations.getSettings();
+    if (!settings.enabled) return {};
+
+    let fields: AnnotationField[] = [];
+    try {
+      const response = await browser.runtime.sendMessage({ type: 'NOTION_GET_ANNOTATION_SCHEMA', databaseId });
+      fields = response?.success ? response.fields : [];
+    } catch (error) {
+      console.warn('Failed to load annotation schema:', error);
+    }
+    if (fields.length === 0) return {};
+
+    // 未指定数据库时为默认数据库
+    const storageId = databaseId || 'default';
+    const last = settings.rememberLast ? await notionAnnotations.getLastValues(storageId) : null;
+    const result = await this.showAnnotationForm(fields, {
+      tags: Array.from(new Set([...suggestedTags, ...(last?.tags || [])])),
+      annotations: last?.annotations || {}
+    }, settings.rememberLast);
+    if (!result) return null;
+
+    if (result.rememberLast !== settings.rememberLast) {
+      await notionAnnotations.saveSettings({ rememberLast: result.rememberLast });
+    }
+    if (result.rememberLast) {
+      await notionAnnotations.saveLastValues(storageId, result.values);
+    }
+    return { values: result.values };
+  }
+
+  /**
+   * 保存前的注释表单；Ctrl/⌘+Enter 或在单行输入框中回车保存，ESC 取消
+   */
+  private showAnnotationForm(
+    fields: AnnotationField[],
+    initial: AnnotationValues,
+    rememberLast: boolean
+  ): Promise<{ values: AnnotationValues; rememberLast: boolean } | null> {
+    return new Promise((resolve) => {
+      const tags = [...initial.tags];
+      let rating = initial.annotations.rating;
+      const readers: Array<(values: AnnotationValues) => void> = [];
+
+      const modal = document.createElement('div');
+      modal.className = 'tweet-craft-annotation-modal';
+      modal.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 10000;
+        backdrop-filter: blur(4px);
+      `;
+
+      const dialog = document.createElement('div');
+      dialog.style.cssText = `
+        background: white;
+        padding: 24px;
+        border-radius: 16px;
+        max-width: 440px;
+        width: 90%;
+        max-height: 90vh;
+        overflow-y: auto;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        position: relative;
+      `;
+
+      const title = document.createElement('h3');
+      title.textContent = '添加注释';
+      title.style.cssText = `
+        margin: 0 0 16px 0;
+        font-size: 18px;
+        font-weight: 600;
+        color: #1f2937;
+        text-align: center;
+      `;
+
+      const form = document.createElement('div');
+      form.style.cssText = `
+        display: flex;
+        flex-direction: column;
+        gap: 14px;
+        margin-bottom: 16px;
+      `;
+
+      const inputStyle = `
+        width: 100%;
+        padding: 8px 10px;
+        border: 1px solid #d1d5db;
+        border-radius: 8px;
+        font-size: 14px;
+        font-family: inherit;
+        box-sizing: border-box;
+      `;
+
+      const addRow = (labelText: string, control: HTMLElement) => {
+        const row = document.createElement('div');
+        const label = document.createElement('div');
+        label.textContent = labelText;
+        label.style.cssText = 'font-size: 13px; font-weight: 600; color: #374151; margin-bottom: 6px;';
+        row.appendChild(label);
+        row.appendChild(control);
+        form.appendChild(row);
+      };
+
+      fields.forEach(field => {
+        switch (field.kind) {
+          case 'note': {
+            const textarea = document.createElement('textarea');
+            textarea.rows = 3;
+            textarea.placeholder = '写点什么…';
+            textarea.value = initial.annotations.note || '';
+            textarea.style.cssText = `${inputStyle} resize: vertical;`;
+            addRow(`备注（${field.property}）`, textarea);
+            readers.push(values => {
+              const note = textarea.value.trim();
+              if (note) values.annotations.note = note;
+            });
+            break;
+          }
+          case 'tags': {
+            const box = document.createElement('div');
+            box.style.cssText = `${inputStyle} display: flex; flex-wrap: wrap; gap: 4px; align-items: center;`;
+
+            const datalist = document.createElement('datalist');
+            datalist.id = `tweet-craft-tag-options-${Date.now()}`;
+
+            const input = document.createElement('input');
+            input.type = 'text';
+            input.placeholder = '输入标签，回车添加';
+            input.setAttribute('list', datalist.id);
+            input.style.cssText = 'flex: 1; min-width: 100px; border: none; outline: none; font-size: 14px; font-family: inherit;';
+
+            const renderTags = () => {
+              box.querySelectorAll('.tweet-craft-tag-chip').forEach(chip => chip.remove());
+              tags.forEach((tag, index) => {
+                const chip = document.createElement('span');
+                chip.className = 'tweet-craft-tag-chip';
+                chip.textContent = `#${tag} ×`;
+                chip.title = '移除';
+                chip.style.cssText = `
+                  padding: 2px 8px;
+                  border-radius: 10px;
+                  background: #1d9bf015;
+                  color: #1d9bf0;
+                  font-size: 12px;
+                  cursor: pointer;
+                `;
+                chip.addEventListener('click', () => {
+                  tags.splice(index, 1);
+                  renderTags();
+                });
+                box.insertBefore(chip, input);
+              });
+
+              // 只提示数据库中已有且尚未添加的选项
+              datalist.innerHTML = '';
+              field.options.filter(option => !tags.includes(option)).forEach(option => {
+                const item = document.createElement('option');
+                item.value = option;
+                datalist.appendChild(item);
+              });
+            };
+
+            const addTag = (value: string) => {
+              const tag = value.replace(/,/g, ' ').trim().replace(/^#/, '');
+              if (tag && !tags.includes(tag)) {
+                tags.push(tag);
+              }
+              input.value = '';
+              renderTags();
+            };
+
+            input.addEventListener('keydown', (e) => {
+              if ((e.key === 'Enter' && !e.ctrlKey && !e.metaKey && !e.isComposing || e.key === ',') && input.value.trim()) {
+                e.preventDefault();
+                e.stopPropagation();
+                addTag(input.value);
+              } else if (e.key === 'Backspace' && !input.value && tags.length > 0) {
+                tags.pop();
+                renderTags();
+              }
+            });
+
+            // 从候选列表中选择时直接添加
+            input.addEventListener('input', (e) => {
+              const inputType = (e as InputEvent).inputType;
+              if ((!inputType || inputType === 'insertReplacementText') && field.options.includes(input.value)) {
+                addTag(input.value);
+              }
+            });
+
+            box.appendChild(input);
+            box.appendChild(datalist);
+            box.addEventListener('click', (e) => {
+              if (e.target === box) input.focus();
+            });
+            renderTags();
+            addRow(`标签（${field.property}）`, box);
+            readers.push(values => {
+              if (input.value.trim()) addTag(input.value);
+              values.tags = [...tags];
+            });
+            break;
+          }
+          case 'select': {
+            const select = document.createElement('select');
+            select.style.cssText = inputStyle;
+            ['', ...field.options].forEach(option => {
+              const item = document.createElement('option');
+              item.value = option;
+              item.textContent = option || '—';
+              item.selected = option === (initial.annotations.selects?.[field.property] || '');
+              select.appendChild(item);
+            });
+            addRow(field.property, select);
+            readers.push(values => {
+              if (select.value) {
+                values.annotations.selects = { ...values.annotations.selects, [field.property]: select.value };
+              }
+            });
+            break;
+          }
+          case 'rating': {
+            const stars = document.createElement('div');
+            stars.style.cssText = 'display: flex; gap: 4px;';
+            const renderStars = () => {
+              stars.querySelectorAll('button').forEach((star, index) => {
+                star.textContent = rating !== undefined && index < rating ? '★' : '☆';
+              });
+            };
+            for (let value = 1; value <= 5; value++) {
+              const star = document.createElement('button');
+              star.type = 'button';
+              star.title = String(value);
+              star.style.cssText = 'border: none; background: none; font-size: 22px; color: #f59e0b; cursor: pointer; padding: 0 2px;';
+              // 再次点击当前评分时清除
+              star.addEventListener('click', () => {
+                rating = rating === value ? undefined : value;
+                renderStars();
+              });
+              stars.appendChild(star);
+            }
+            renderStars();
+            addRow(`评分（${field.property}）`, stars);
+            readers.push(values => {
+              if (rating !== undefined) values.annotations.rating = rating;
+            });
+            break;
+          }
+          case 'toRead': {
+            const label = document.createElement('label');
+            label.style.cssText = 'display: flex; align-items: center; gap: 8px; font-size: 14px; color: #374151; cursor: pointer;';
+            const checkbox = document.createElement('input');
+            checkbox.type = 'checkbox';
+            checkbox.checked = initial.annotations.toRead ?? false;
+            label.appendChild(checkbox);
+            label.appendChild(document.createTextNode(`稍后阅读（${field.property}）`));
+            form.appendChild(label);
+            readers.push(values => {
+              values.annotations.toRead = checkbox.checked;
+            });
+            break;
+          }
+        }
+      });
+
+      const rememberLabel = document.createElement('label');
+      rememberLabel.style.cssText = 'display: flex; align-items: center; gap: 8px; font-size: 13px; color: #6b7280; cursor: pointer; margin-bottom: 16px;';
+      const rememberInput = document.createElement('input');
+      rememberInput.type = 'checkbox';
+      rememberInput.checked = rememberLast;
+      rememberLabel.appendChild(rememberInput);
+      rememberLabel.appendChild(document.createTextNode('记住本次填写的内容'));
+
+      const actions = document.createElement('div');
+      actions.style.cssText = 'display: flex; gap: 8px;';
+
+      const saveButton = document.createElement('button');
+      saveButton.textContent = '保存';
+      saveButton.style.cssText = `
+        flex: 1;
+        padding: 12px;
+        border: none;
+        background: #1d9bf0;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 600;
+        color: white;
+      `;
+
+      const cancelButton = document.createElement('button');
+      cancelButton.textContent = '取消';
+      cancelButton.style.cssText = `
+        flex: 1;
+        padding: 12px;
+        border: 1px solid #d1d5db;
+        background: white;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+        color: #6b7280;
+      `;
+
+      const hint = document.createElement('p');
+      hint.textContent = 'Ctrl/⌘ + Enter 保存 · Esc 取消';
+      hint.style.cssText = 'margin: 10px 0 0 0; color: #9ca3af; font-size: 12px; text-align: center;';
+
+      const close = (result: { values: AnnotationValues; rememberLast: boolean } | null) => {
+        document.removeEventListener('keydown', handleKeydown);
+        if (modal.parentNode) {
+          modal.parentNode.removeChild(modal);
+        }
+        resolve(result);
+      };
+
+      const submit = () => {
+        const values: AnnotationValues = { tags: [...initial.tags], annotations: {} };
+        readers.forEach(read => read(values));
+        close({ values, rememberLast: rememberInput.checked });
+      };
+
+      saveButton.addEventListener('click', submit);
+      cancelButton.addEventListener('click', () => close(null));
+
+      actions.appendChild(saveButton);
+      actions.appendChild(cancelButton);
+      dialog.appendChild(title);
+      dialog.appendChild(form);
+      dialog.appendChild(rememberLabel);
+      dialog.appendChild(actions);
+      dialog.appendChild(hint);
+      modal.appendChild(dialog);
+      document.body.appendChild(modal);
+
+      // 点击背景关闭
+      modal.addEventListener('click', (e) => {
+        if (e.target === modal) {
+          close(null);
+        }
+      });
+
+      // 标签输入框中的回车用于添加标签，见上方的处理
+      const handleKeydown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          close(null);
+        } else if (e.key === 'Enter' && !e.isComposing && (e.ctrlKey || e.metaKey || (e.target as HTMLElement).tagName !== 'TEXTAREA')) {
+          e.preventDefault();
+          submit();
+        }
+      };
+      document.addEventListener('keydown', handleKeydown);
+
+      (form.querySelector('textarea, input, select') as HTMLElement | null)?.focus();
+    });
+  }
+
+  private async showNewCategoryDialog(): Promise<string | null> {
+    return new Promise((resolve) => {
+      const modal = document.createElement('div');
+      modal.className = 'tweet-craft-new-category-modal';
+      modal.style.cssText = `
+        position: fixed;
+        top: 0;
+        left: 0;
+        width: 100%;
+        height: 100%;
+        background: rgba(0, 0, 0, 0.6);
+        display: flex;
+        justify-content: center;
+        align-items: center;
+        z-index: 10001;
+        backdrop-filter: blur(4px);
+      `;
+
+      const dialog = document.createElement('div');
+      dialog.style.cssText = `
+        background: white;
+        padding: 24px;
+        border-radius: 16px;
+        max-width: 350px;
+        width: 90%;
+        box-shadow: 0 20px 40px rgba(0, 0, 0, 0.15);
+        font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        animation: modalSlideIn 0.3s ease-out;
+      `;
+
+      const title = document.createElement('h3');
+      title.textContent = '新建分类';
+      title.style.cssText = `
+        margin: 0 0 16px 0;
+        font-size: 18px;
+        font-weight: 600;
+        color: #1f2937;
+        text-align: center;
+      `;
+
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.placeholder = '输入分类名称...';
+      input.style.cssText = `
+        width: 100%;
+        padding: 12px 16px;
+        border: 2px solid #e5e7eb;
+        border-radius: 8px;
+        font-size: 14px;
+        box-sizing: border-box;
+        margin-bottom: 20px;
+        transition: border-color 0.2s ease;
+      `;
+
+      input.addEventListener('focus', () => {
+        input.style.borderColor = '#3b82f6';
+        input.style.outline = 'none';
+      });
+
+      input.addEventListener('blur', () => {
+        input.style.borderColor = '#e5e7eb';
+      });
+
+      const buttonContainer = document.createElement('div');
+      buttonContainer.style.cssText = `
+        display: flex;
+        gap: 12px;
+      `;
+
+      const confirmButton = document.createElement('button');
+      confirmButton.textContent = '确认';
+      confirmButton.style.cssText = `
+        flex: 1;
+        padding: 12px;
+        border: none;
+        background: #3b82f6;
+        color: white;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+        transition: background-color 0.2s ease;
+      `;
+
+      const cancelButton = document.createElement('button');
+      cancelButton.textContent = '取消';
+      cancelButton.style.cssText = `
+        flex: 1;
+        padding: 12px;
+        border: 1px solid #d1d5db;
+        background: white;
+        color: #6b7280;
+        border-radius: 8px;
+        cursor: pointer;
+        font-size: 14px;
+        font-weight: 500;
+        transition: all 0.2s ease;
+      `;
+
+      const handleConfirm = () => {
+        const categoryName = input.value.trim();
+        if (categoryName) {
+          document.body.removeChild(modal);
+          resolve(categoryName);
+        } else {
+          input.style.borderColor = '#ef4444';
+          input.focus();
+        }
+      };
+
+      const handleCancel = () => {
+        document.body.removeChild(modal);
+        resolve(null);
+      };
+
+      confirmButton.addEventListener('click', handleConfirm);
+      cancelButton.addEventListener('click', handleCancel);
+
+      // 回车确认
+      input.addEventListener('keydown', (e) => {
+        if (e.key === 'Enter') {
+          handleConfirm();
+        } else if (e.key === 'Escape') {
+          handleCancel();
+        }
+      });
+
+      confirmButton.addEventListener('mouseenter', () => {
+        confirmButton.style.background = '#2563eb';
+      });
+
+      confirmButton.addEventListener('mouseleave', () => {
+        confirmButton.style.background = '#3b82f6';
+      });
+
+      cancelButton.addEventListener('mouseenter', () => {
+        cancelButton.style.background = '#f9fafb';
+        cancelButton.style.borderColor = '#9ca3af';
+      });
+
+      cancelButton.addEventListener('mouseleave', () => {
+        cancelButton.style.background = 'white';
+        cancelButton.style.borderColor = '#d1d5db';
+      });
+
+      buttonContainer.appendChild(confirmButton);
+      buttonContainer.appendChild(cancelButton);
+      
+      dialog.appendChild(title);
+      dialog.appendChild(input);
+      dialog.appendChild(buttonContainer);
+      modal.appendChild(dialog);
+      document.body.appendChild(modal);
+
+      // 自动聚焦输入框
+      setTimeout(() => input.focus(), 100);
+
+      // 点击背景关闭
+      modal.addEventListener('click', (e) => {
+        if (e.target === modal) {
+          handleCancel();
+        }
+      });
+    });
+  }
+}
@@ -1,5 +1,9 @@
 import { EnhancedMediaExtractor } from '../parsers/enhanced-media-extractor';
-import { MediaAsset, TweetData } from '../notion/types';
+import { tweetParser } from '../parsers/tweet-parser';
+import { RichTextParser } from '../parsers/rich-text-parser';
+import { RichTextRenderer } from '../formatters/rich-text-renderer';
+import { MediaAsset, QuotedTweetInfo, TextLink, TweetData } from '../notion/types';
+import type { RichTextToken, ThreadData, TweetCard, TweetData as ParsedTweetData } from '../types';
 
 const TWEET_SELECTOR = '[data-testid="tweet"]';
 const TWEET_ARTICLE_SELECTOR = 'article[data-testid="tweet"]';
@@ -8,9 +12,7 @@ export class TweetExtractor {
   static extractTweetData(tweetElement: Element): TweetData | null {
     try {
       // 提取推文URL
-      const tweetLink = tweetElement.querySelector('a[href*="/status/"]');
-      const url = tweetLink?.getAttribute('href') || '';
-      const fullUrl = url.startsWith('http') ? url : `https://x.com${url}`;
+      const fullUrl = this.extractTweetUrl(tweetElement) || '';
       const tweetId = this.extractTweetId(fullUrl);
 
       if (!tweetId) {
@@ -36,10 +38,20 @@ export class TweetExtractor {
       // 确定推文类型
       const type = this.determineTweetType(tweetElement);
 
+      // 正文链接与引用推文
+      const textLinks = this.extractTextLinks(tweetElement);
+      const richText = this.extractRichText(tweetElement);
+      const quotedTweet = this.extractQuotedTweet(tweetElement);
+      const card = this.extractCard(tweetElement, richText);
+
       return {
         id: tweetId,
         url: fullUrl,
         content: content || '',
+        textLinks,
+        richText: richText.length > 0 ? richText : undefined,
+        quotedTweet,
+        card,
         author: authorInfo.name,
         username: authorInfo.handle,
         publishTime: publishTime || new Date().toISOString(),
@@ -54,6 +66,96 @@ export class TweetExtractor {
     }
   }
 
+  /**
+   * 将线程保存为一条数据：以第一条推文为主体（链接用于去重），
+   * 正文依次包含全部推文，媒体汇总到一起
+   */
+  static buildThreadData(thread: ThreadData): TweetData | null {
+    const tweets = thread.tweets.map(tweet => this.fromParsedTweet(tweet));
+    const [root] = tweets;
+    if (!root) return null;
+
+    const assets = tweets.flatMap(tweet => tweet.media.assets || []);
+    return {
+      ...root,
+      content: tweets.map(tweet => tweet.content).filter(Boolean).join('\n\n'),
+      richText: tweets.some(tweet => tweet.richText?.length)
+        ? RichTextParser.concat(tweets.map(tweet => tweet.richText || (tweet.content ? [{ type: 'text', text: tweet.content }] : [])))
+        : undefined,
+      media: {
+        hasImages: tweets.some(tweet => tweet.media.hasImages),
+        hasVideo: tweets.some(tweet => tweet.media.hasVideo),
+        hasLinks: tweets.some(tweet => tweet.media.hasLinks),
+        assets
+      },
+      thread: tweets
+    };
+  }
+
+  /**
+   * 将解析器得到的推文转换为保存数据
+   */
+  static fromParsedTweet(tweet: ParsedTweetData): TweetData {
+    const assets: MediaAsset[] = tweet.media.map(item => ({
+      type: item.type,
+      url: item.url,
+      previewUrl: item.previewUrl,
+      alt: item.alt
+    }));
+    const time = tweet.timestamp instanceof Date ? tweet.timestamp : new Date(tweet.timestamp);
+
+    return {
+      id: tweet.id,
+      url: tweet.url,
+      content: tweet.content,
+      richText: tweet.richText,
+      author: tweet.author.displayName,
+      username: tweet.author.username,
+      publishTime: isNaN(time.getTime()) ? new Date().toISOString() : time.toISOString(),
+      type: tweet.isReply ? '回复' : tweet.isRetweet ? '转推' : tweet.quotedTweet ? '引用推文' : '原创推文',
+      media: {
+        hasImages: assets.some(asset => asset.type === 'image'),
+        hasVideo: assets.some(asset => asset.type === 'video' || asset.type === 'gif'),
+        hasLinks: Boolean(tweet.card),
+        assets
+      },
+      stats: { ...tweet.metrics },
+      quotedTweet: tweet.quotedTweet ? {
+        url: tweet.quotedTweet.url,
+        content: tweet.quotedTweet.content,
+        richText: tweet.quotedTweet.richText,
+        author: tweet.quotedTweet.author.displayName,
+        username: tweet.quotedTweet.author.username
+      } : undefined,
+      card: tweet.card,
+      savedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * 正文链接改回 t.co 短链接（设置中选择保留短链接时使用）
+   */
+  static withShortLinks(tweetData: TweetData): TweetData {
+    return {
+      ...tweetData,
+      richText: tweetData.richText && RichTextRenderer.resolveLinks(tweetData.richText, true),
+      quotedTweet: tweetData.quotedTweet && {
+        ...tweetData.quotedTweet,
+        richText: tweetData.quotedTweet.richText && RichTextRenderer.resolveLinks(tweetData.quotedTweet.richText, true)
+      },
+      thread: tweetData.thread?.map(tweet => this.withShortLinks(tweet))
+    };
+  }
+
+  /**
+   * 推文链接（与保存时写入 Notion 的链接一致）
+   */
+  static extractTweetUrl(tweetElement: Element): string | null {
+    const href = tweetElement.querySelector('a[href*="/status/"]')?.getAttribute('href');
+    if (!href) return null;
+    return href.startsWith('http') ? href : `https://x.com${href}`;
+  }
+
   private static extractTweetId(url: string): string | null {
     const match = url.match(/\/status\/(\d+)/);
     return match ? match[1] : null;
@@ -98,6 +200,66 @@ export class TweetExtractor {
     return (rootTweet.textContent || '').trim();
   }
 
+  /**
+   * 提取正文中的链接、提及与话题（显示文本可能是截断的地址，实际地址取自 href）
+   */
+  private static extractTextLinks(tweetElement: Element): TextLink[] {
+    const rootTweet = this.getRootTweet(tweetElement);
+    const links: TextLink[] = [];
+
+    rootTweet.querySelectorAll('[data-testid="tweetText"] a[href]').forEach(anchor => {
+      if (!this.isWithinRootTweet(anchor, rootTweet)) return;
+      const text = (anchor.textContent || '').trim();
+      const href = RichTextParser.resolveExpandedUrl(anchor) || anchor.getAttribute('href') || '';
+      if (!text || !href) return;
+
+      links.push({
+        text,
+        url: href.startsWith('http') ? href : `https://x.com${href}`
+      });
+    });
+
+    return links;
+  }
+
+  /**
+   * 正文分段；与 extractTweetContent 一样只取主推文中的正文
+   */
+  private static extractRichText(tweetElement: Element): RichTextToken[] {
+    const rootTweet = this.getRootTweet(tweetElement);
+    const textNodes = Array.from(rootTweet.querySelectorAll('[data-testid="tweetText"]'))
+      .filter(node => this.isWithinRootTweet(node, rootTweet));
+    const cardUrl = RichTextParser.findCardUrl(rootTweet);
+    return RichTextParser.concat(textNodes.map(node => RichTextParser.parse(node, cardUrl)));
+  }
+
+  private static extractCard(tweetElement: Element, richText: RichTextToken[]): TweetCard | undefined {
+    try {
+      return tweetParser.extractCard(this.getRootTweet(tweetElement) as HTMLElement, richText) || undefined;
+    } catch (error) {
+      console.warn('Failed to extract link card:', error);
+      return undefined;
+    }
+  }
+
+  private static extractQuotedTweet(tweetElement: Element): QuotedTweetInfo | undefined {
+    try {
+      const quoted = tweetParser.extractQuotedTweet(this.getRootTweet(tweetElement) as HTMLElement);
+      if (!quoted) return undefined;
+
+      return {
+        url: quoted.url,
+        content: quoted.content,
+        richText: quoted.richText,
+        author: quoted.author.displayName,
+        username: quoted.author.username
+      };
+    } catch (error) {
+      console.warn('Failed to extract quoted tweet:', error);
+      return undefined;
+    }
+  }
+
   private static extractPublishTime(tweetElement: Element): string | null {
     const timeElement = tweetElement.querySelector('time');
     return timeElement?.getAttribute('datetime');
@@ -431,37 +593,4 @@ export class TweetExtractor {
 
     return hasContent && hasAuthor && hasActions;
   }
-
-  static generateTagsFromContent(content: string): string[] {
-    const tags: string[] = [];
-    const text = content.toLowerCase();
-
-    // 基于内容生成标签
-    if (text.includes('代码') || text.includes('code') || text.includes('编程') || text.includes('github')) {
-      tags.push('技术');
-    }
-    
-    if (text.includes('ai') || text.includes('机器学习') || text.includes('深度学习') || text.includes('人工智能')) {
-      tags.push('AI');
-      tags.push('技术');
-    }
-    
-    if (text.includes('新闻') || text.includes('资讯') || text.includes('报道')) {
-      tags.push('资讯');
-    }
-    
-    if (text.includes('学习') || text.includes('教程') || text.includes('course') || text.includes('learn')) {
-      tags.push('学习');
-    }
-    
-    if (text.includes('工作') || text.includes('job') || text.includes('career') || text.includes('职业')) {
-      tags.push('工作');
-    }
-    
-    if (text.includes('想法') || text.includes('灵感') || text.includes('idea') || text.includes('思考')) {
-      tags.push('灵感');
-    }
-
-    return [...new Set(tags)]; // 去重
-  }
 }
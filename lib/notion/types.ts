@@ -1,3 +1,5 @@
+import type { RichTextToken, TweetCard } from '../types';
+
 export interface NotionUser {
   object: 'user';
   id: string;
@@ -147,17 +149,55 @@ export interface CreatePageParameters {
     database_id: string;
   };
   properties: Record<string, any>;
+  children?: NotionBlock[];
 }
 
-export interface DatabaseQueryParameters {
-  filter?: {
-    property: string;
-    [key: string]: any;
+/**
+ * 写入请求中的富文本（响应中的 RichText 额外包含 plain_text 等只读字段）
+ */
+export interface RichTextInput {
+  type: 'text';
+  text: {
+    content: string;
+    link?: {
+      url: string;
+    } | null;
   };
-  sorts?: Array<{
-    property: string;
-    direction: 'ascending' | 'descending';
-  }>;
+  annotations?: RichText['annotations'];
+}
+
+/**
+ * 页面正文块
+ */
+export interface NotionBlock {
+  object: 'block';
+  type: string;
+  [key: string]: any;
+}
+
+/**
+ * 单个属性的过滤条件
+ */
+export interface PropertyFilter {
+  property: string;
+  [key: string]: any;
+}
+
+/**
+ * 查询过滤条件：单个属性条件，或用 or / and 组合的条件
+ */
+export type DatabaseFilter =
+  | PropertyFilter
+  | { or: DatabaseFilter[] }
+  | { and: DatabaseFilter[] };
+
+export interface DatabaseQueryParameters {
+  filter?: DatabaseFilter;
+  /** 按属性或按页面的创建、编辑时间排序 */
+  sorts?: Array<
+    | { property: string; direction: 'ascending' | 'descending' }
+    | { timestamp: 'created_time' | 'last_edited_time'; direction: 'ascending' | 'descending' }
+  >;
   start_cursor?: string;
   page_size?: number;
 }
@@ -168,11 +208,28 @@ export interface DatabaseQueryResponse {
   next_cursor?: string;
 }
 
+/**
+ * 推文已存在于数据库时的处理方式
+ * skip：跳过；update：原地更新属性；append：把新版本追加到页面正文；duplicate：再建一个页面
+ */
+export type DuplicatePolicy = 'skip' | 'update' | 'append' | 'duplicate';
+
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = 'skip';
+
 export interface NotionConfig {
   accessToken: string;
+  /** 连接方式：手动填写的 Integration Token 或 OAuth 登录 */
+  authType?: 'token' | 'oauth';
+  /** OAuth 刷新令牌与访问令牌过期时间（毫秒时间戳） */
+  refreshToken?: string;
+  expiresAt?: number;
   databaseId?: string;
   workspaceName?: string;
+  /** 工作区图标：URL 或 emoji */
+  workspaceIcon?: string;
   workspaceId?: string;
+  botId?: string;
+  duplicatePolicy?: DuplicatePolicy;
 }
 
 export interface MediaAsset {
@@ -182,10 +239,41 @@ export interface MediaAsset {
   alt?: string;
 }
 
+/**
+ * 正文中的链接（显示文本与实际地址）
+ */
+export interface TextLink {
+  text: string;
+  url: string;
+}
+
+export interface QuotedTweetInfo {
+  url: string;
+  content: string;
+  richText?: RichTextToken[];
+  author: string;
+  username: string;
+}
+
+/**
+ * 保存前填写的注释，写入映射的属性
+ */
+export interface TweetAnnotations {
+  note?: string;
+  toRead?: boolean;
+  rating?: number;
+  /** 单选属性的取值：属性名 → 选项名 */
+  selects?: Record<string, string>;
+}
+
 export interface TweetData {
   id: string;
   url: string;
   content: string;
+  /** 正文中的链接、提及与话题，写入页面正文时保留为链接 */
+  textLinks?: TextLink[];
+  /** 正文分段，存在时优先于 textLinks */
+  richText?: RichTextToken[];
   author: string;
   username: string;
   publishTime: string;
@@ -201,8 +289,14 @@ export interface TweetData {
     retweets: number;
     replies: number;
   };
+  quotedTweet?: QuotedTweetInfo;
+  /** 链接卡片，写入页面正文时为书签块 */
+  card?: TweetCard;
+  /** 线程中的全部推文（按顺序，包含当前推文），存在时页面正文按推文分节 */
+  thread?: TweetData[];
   tags?: string[];
   category?: string;
+  annotations?: TweetAnnotations;
   savedAt: string;
 }
 
@@ -223,4 +317,13 @@ export interface SyncResult {
   data?: any;
   error?: string;
   exists?: boolean;
+  /** 失败时的错误码与 HTTP 状态（网络错误为 0） */
+  code?: string;
+  status?: number;
+  /** 服务端建议的重试等待时间（毫秒） */
+  retryAfter?: number;
+  /** 保存失败后已加入待同步队列 */
+  queued?: boolean;
+  /** 成功时实际执行的操作 */
+  action?: 'created' | 'updated' | 'appended' | 'skipped';
 }
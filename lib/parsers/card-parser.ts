@@ -0,0 +1,135 @@
+// 链接卡片解析器 - 从 card.wrapper 中提取卡片类型、地址、标题、描述、域名与缩略图
+
+import type { RichTextToken, TweetCard } from '../types';
+import { getAttribute, query, queryAll } from '../utils/dom';
+import { getDomain, isTwitterShortUrl } from '../utils/url';
+import { RichTextParser } from './rich-text-parser';
+
+const TWITTER_ORIGIN = 'https://x.com';
+
+// 域名文本，如 example.com、From example.com、来自 example.com
+const DOMAIN_TEXT_PATTERN = /^(?:\S+\s+)?((?:[a-z0-9-]+\.)+[a-z]{2,})$/i;
+
+/**
+ * 链接卡片解析器类
+ */
+export class CardParser {
+  /**
+   * 解析卡片容器；找不到卡片链接时返回 null
+   * @param richText 推文正文分段，用于把卡片的 t.co 短链接还原为正文中解析出的完整地址
+   */
+  static parse(wrapper: Element | null, richText?: RichTextToken[]): TweetCard | null {
+    if (!wrapper) {
+      return null;
+    }
+
+    const anchor = query(wrapper, 'a[href]');
+    if (!anchor) {
+      return null;
+    }
+
+    const url = this.resolveUrl(anchor, richText);
+    const { title, description, domain } = this.extractText(wrapper, anchor);
+    const thumbnail = this.extractThumbnail(wrapper);
+    const fallbackDomain = isTwitterShortUrl(url) ? '' : getDomain(url).replace(/^www\./, '');
+
+    const card: TweetCard = { type: this.detectType(wrapper), url };
+    if (title) card.title = title;
+    if (description) card.description = description;
+    if (domain || fallbackDomain) card.domain = domain || fallbackDomain;
+    if (thumbnail) card.thumbnail = thumbnail;
+    return card;
+  }
+
+  /**
+   * 按卡片内部结构判断类型
+   */
+  private static detectType(wrapper: Element): TweetCard['type'] {
+    if (query(wrapper, '[data-testid^="card.unified"], [data-testid*="UnifiedCard"]')) {
+      return 'unified';
+    }
+    if (query(wrapper, '[data-testid="videoPlayer"], [data-testid="playButton"], video, iframe')) {
+      return 'player';
+    }
+    if (query(wrapper, '[data-testid^="card.layoutLarge"]')) {
+      return 'summary_large_image';
+    }
+    return 'summary';
+  }
+
+  /**
+   * 卡片地址：t.co 短链接优先从链接属性还原，其次查找正文中同一短链接的完整地址
+   */
+  private static resolveUrl(anchor: Element, richText?: RichTextToken[]): string {
+    const href = this.resolveHref(getAttribute(anchor, 'href'));
+    if (!isTwitterShortUrl(href)) {
+      return href;
+    }
+
+    const expanded = RichTextParser.resolveExpandedUrl(anchor)
+      || richText?.find(token => token.type === 'link' && token.href === href)?.expandedUrl;
+    return expanded || href;
+  }
+
+  /**
+   * 详情区域的叶子文本依次为域名、标题、描述；大图卡片没有详情区域时从链接的 aria-label 中取标题
+   */
+  private static extractText(wrapper: Element, anchor: Element): { title?: string; description?: string; domain?: string } {
+    const detail = query(wrapper, '[data-testid$=".detail"]') || wrapper;
+    const texts: string[] = [];
+    for (const span of queryAll(detail, 'span')) {
+      const text = (span.textContent || '').trim();
+      if (text && !query(span, 'span') && !texts.includes(text)) {
+        texts.push(text);
+      }
+    }
+
+    let domain: string | undefined;
+    const rest: string[] = [];
+    for (const text of texts) {
+      const match = DOMAIN_TEXT_PATTERN.exec(text);
+      if (match && !domain) {
+        domain = match[1].toLowerCase();
+      } else {
+        rest.push(text);
+      }
+    }
+
+    let title: string | undefined = rest[0];
+    const description: string | undefined = rest[1];
+    if (!title) {
+      const label = getAttribute(anchor, 'aria-label').trim();
+      const prefix = label.split(/\s+/)[0] || '';
+      const labelDomain = DOMAIN_TEXT_PATTERN.exec(prefix)?.[1];
+      if (labelDomain) {
+        domain = domain || labelDomain.toLowerCase();
+        title = label.slice(prefix.length).trim() || undefined;
+      } else {
+        title = label || undefined;
+      }
+    }
+    return { title, description, domain };
+  }
+
+  /**
+   * 缩略图：第一张图片或视频封面，忽略内联占位图
+   */
+  private static extractThumbnail(wrapper: Element): string | undefined {
+    for (const image of queryAll(wrapper, 'img[src]')) {
+      const src = getAttribute(image, 'src');
+      if (src && !src.startsWith('data:') && !src.includes('/emoji/')) {
+        return src;
+      }
+    }
+    const poster = getAttribute(query(wrapper, 'video[poster]'), 'poster');
+    return poster || undefined;
+  }
+
+  private static resolveHref(href: string): string {
+    try {
+      return new URL(href, TWITTER_ORIGIN).href;
+    } catch {
+      return href;
+    }
+  }
+}
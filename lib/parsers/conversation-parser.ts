@@ -0,0 +1,246 @@
+// 会话解析器 - 从根推文的会话页读取所有参与者的回复并重建回复树
+
+import type { ConversationData, ConversationFilter, ConversationNode, TweetData } from '../types';
+import { tweetParser } from './tweet-parser';
+import { conversationReader, type ConversationCell } from './conversation-reader';
+import { performanceMonitor } from '../utils/performance';
+
+/**
+ * 会话解析选项
+ */
+export interface ConversationParseOptions {
+  /** 打开根推文的会话页并滚动读取全部回复（会在当前标签页内跳转，完成后返回） */
+  walk?: boolean;
+  /** 最多点击“显示更多回复”的次数 */
+  maxLoadMore?: number;
+  filter?: ConversationFilter;
+  onProgress?: (collected: number) => void;
+}
+
+const DEFAULT_MAX_LOAD_MORE = 5;
+
+/**
+ * 会话解析器类
+ */
+export class ConversationParser {
+  private static instance: ConversationParser;
+
+  public static getInstance(): ConversationParser {
+    if (!ConversationParser.instance) {
+      ConversationParser.instance = new ConversationParser();
+    }
+    return ConversationParser.instance;
+  }
+
+  /**
+   * 解析推文所在的会话
+   * walk 为 false 时只读取当前会话页已渲染的内容
+   */
+  async parseConversation(startTweetElement: HTMLElement, options: ConversationParseOptions = {}): Promise<ConversationData | null> {
+    performanceMonitor.startMeasure('parse-conversation');
+
+    try {
+      const startTweet = await tweetParser.parseTweet(startTweetElement);
+      if (!startTweet) return null;
+
+      let conversation: ConversationData | null;
+      if (options.walk) {
+        conversation = await this.walkConversation(startTweet, startTweetElement, options);
+      } else {
+        const focalId = conversationReader.getFocalTweetId();
+        conversation = focalId
+          ? ConversationParser.buildTree(await conversationReader.readRenderedCells(), focalId)
+          : null;
+      }
+
+      // 无法读取会话时只包含起始推文
+      conversation = conversation || ConversationParser.buildTree(
+        [{ kind: 'tweet', offset: 0, tweet: startTweet, element: startTweetElement }],
+        startTweet.id
+      );
+
+      return conversation && options.filter
+        ? ConversationParser.applyFilter(conversation, options.filter)
+        : conversation;
+    } catch (error) {
+      console.error('Failed to parse conversation:', error);
+      return null;
+    } finally {
+      performanceMonitor.endMeasure('parse-conversation');
+    }
+  }
+
+  /**
+   * 打开会话页；起始推文不是根推文时再打开根推文的会话页，读取全部回复
+   */
+  private walkConversation(
+    startTweet: TweetData,
+    startElement: HTMLElement,
+    options: ConversationParseOptions
+  ): Promise<ConversationData | null> {
+    return conversationReader.runSession(async (session) => {
+      console.log('💬 开始读取会话:', startTweet.url);
+
+      let focalId = startTweet.id;
+      if (!conversationReader.isConversationOf(startTweet.id)) {
+        focalId = await session.open(conversationReader.findPermalink(startElement, startTweet.id));
+      }
+
+      // 焦点推文上方为祖先推文，第一条即为根推文
+      const currentFocal = focalId;
+      const ancestors = await conversationReader.scanConversation({
+        isDone: cells => cells.some(cell => cell.kind === 'tweet' && cell.tweet.id === currentFocal)
+      });
+      const rootCell = ancestors.find(cell => cell.kind === 'tweet') as Extract<ConversationCell, { kind: 'tweet' }> | undefined;
+      if (rootCell && rootCell.tweet.id !== focalId) {
+        focalId = await session.open(await conversationReader.findRenderedPermalink(rootCell.tweet.id));
+      }
+
+      const cells = await conversationReader.scanConversation({
+        maxLoadMore: options.maxLoadMore ?? DEFAULT_MAX_LOAD_MORE,
+        onProgress: scanned => options.onProgress?.(scanned.filter(cell => cell.kind === 'tweet').length)
+      });
+
+      const conversation = ConversationParser.buildTree(cells, focalId);
+      console.log(`💬 会话读取完成：${conversation?.totalCount || 0} 条推文`);
+      return conversation;
+    });
+  }
+
+  /**
+   * 从会话单元重建回复树
+   * 焦点推文上方依次是其祖先推文；下方每个模块的首条推文回复焦点推文，其后逐条回复上一条
+   */
+  static buildTree(cells: ConversationCell[], focalId: string): ConversationData | null {
+    const focalIndex = cells.findIndex(cell => cell.kind === 'tweet' && cell.tweet.id === focalId);
+    if (focalIndex < 0) return null;
+
+    const createNode = (tweet: TweetData, parent: ConversationNode | null): ConversationNode => {
+      const node: ConversationNode = {
+        tweet,
+        parentId: parent ? parent.tweet.id : null,
+        depth: parent ? parent.depth + 1 : 0,
+        replies: []
+      };
+      parent?.replies.push(node);
+      return node;
+    };
+
+    // 祖先链
+    let root: ConversationNode | null = null;
+    let parent: ConversationNode | null = null;
+    let missing = 0;
+    for (const cell of cells.slice(0, focalIndex)) {
+      if (cell.kind === 'tweet') {
+        parent = createNode(cell.tweet, parent);
+        root = root || parent;
+      } else if (cell.kind === 'unavailable' && parent) {
+        missing++;
+      }
+    }
+
+    const focal = createNode((cells[focalIndex] as Extract<ConversationCell, { kind: 'tweet' }>).tweet, parent);
+    root = root || focal;
+
+    // 回复模块
+    let moduleLast: ConversationNode | null = null;
+    let hasMore = false;
+    for (const cell of cells.slice(focalIndex + 1)) {
+      if (cell.kind === 'end') break;
+
+      switch (cell.kind) {
+        case 'tweet':
+          moduleLast = createNode(cell.tweet, moduleLast || focal);
+          break;
+        case 'show-replies':
+          if (moduleLast) {
+            moduleLast.hasMoreReplies = true;
+          }
+          hasMore = true;
+          moduleLast = null;
+          break;
+        case 'load-more':
+          hasMore = true;
+          moduleLast = null;
+          break;
+        case 'unavailable':
+          missing++;
+          break;
+        default:
+          moduleLast = null;
+      }
+    }
+
+    const reachedStart = cells[0].offset <= 0;
+    return ConversationParser.summarize(root, reachedStart && !hasMore && missing === 0);
+  }
+
+  /**
+   * 按条件过滤会话
+   * 只看楼主时保留楼主的推文以及通往这些推文的上下文；热门回复按点赞数保留根推文的前 N 条直接回复
+   */
+  static applyFilter(conversation: ConversationData, filter: ConversationFilter): ConversationData {
+    let root = conversation.root;
+    const op = conversation.author.username.toLowerCase();
+
+    if (filter.opOnly) {
+      const prune = (node: ConversationNode): ConversationNode | null => {
+        const replies = node.replies.map(prune).filter((reply): reply is ConversationNode => reply !== null);
+        const isOp = node.tweet.author.username.toLowerCase() === op;
+        return isOp || replies.length > 0 ? { ...node, replies } : null;
+      };
+      root = prune(root) || { ...root, replies: [] };
+    }
+
+    if (filter.topReplies && filter.topReplies > 0) {
+      const replies = [...root.replies]
+        .sort((a, b) => b.tweet.metrics.likes - a.tweet.metrics.likes)
+        .slice(0, filter.topReplies);
+      root = { ...root, replies };
+    }
+
+    return ConversationParser.summarize(root, conversation.isComplete && !filter.opOnly && !filter.topReplies);
+  }
+
+  /**
+   * 按树的先序遍历展开所有节点
+   */
+  static flatten(conversation: ConversationData): ConversationNode[] {
+    const nodes: ConversationNode[] = [];
+    const visit = (node: ConversationNode) => {
+      nodes.push(node);
+      node.replies.forEach(visit);
+    };
+    visit(conversation.root);
+    return nodes;
+  }
+
+  private static summarize(root: ConversationNode, isComplete: boolean): ConversationData {
+    const participants: string[] = [];
+    let totalCount = 0;
+    const visit = (node: ConversationNode) => {
+      totalCount++;
+      if (!participants.includes(node.tweet.author.username)) {
+        participants.push(node.tweet.author.username);
+      }
+      node.replies.forEach(visit);
+    };
+    visit(root);
+
+    return {
+      id: root.tweet.id,
+      root,
+      author: {
+        username: root.tweet.author.username,
+        displayName: root.tweet.author.displayName
+      },
+      participants,
+      totalCount,
+      createdAt: root.tweet.timestamp,
+      isComplete
+    };
+  }
+}
+
+// 导出单例实例
+export const conversationParser = ConversationParser.getInstance();
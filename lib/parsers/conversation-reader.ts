@@ -0,0 +1,341 @@
+// 会话页读取器 - 读取会话页的列表单元，并负责站内跳转与返回
+
+import type { TweetData } from '../types';
+import { tweetParser } from './tweet-parser';
+import { TWITTER_PATTERNS } from '../utils/constants';
+import { tweetCache } from '../utils/performance';
+
+/**
+ * 会话页中的一个列表单元
+ */
+export type ConversationCell =
+  | { kind: 'tweet'; offset: number; tweet: TweetData; element: HTMLElement }
+  /** 模块末尾的“显示回复”，需要打开最后一条推文的会话页才能看到后续回复 */
+  | { kind: 'show-replies'; offset: number; element: HTMLElement }
+  /** 会话底部的“显示更多回复”，点击后在当前页加载 */
+  | { kind: 'load-more'; offset: number; element: HTMLElement }
+  | { kind: 'unavailable'; offset: number }
+  | { kind: 'separator'; offset: number }
+  /** “发现更多”等推荐区块的标题，之后的推文与会话无关 */
+  | { kind: 'end'; offset: number };
+
+/**
+ * 会话页跳转会话，结束时自动返回起始页面
+ */
+export interface ConversationSession {
+  /** 点击链接打开会话页，返回新会话页的焦点推文 ID */
+  open: (link: HTMLElement | null) => Promise<string>;
+}
+
+/**
+ * 滚动读取选项
+ */
+export interface ConversationScanOptions {
+  /** 读取到满足条件时提前结束 */
+  isDone?: (cells: ConversationCell[]) => boolean;
+  /** 最多点击“显示更多回复”的次数 */
+  maxLoadMore?: number;
+  onProgress?: (cells: ConversationCell[]) => void;
+}
+
+const CELL_SELECTOR = '[data-testid="cellInnerDiv"]';
+const SHOW_MORE_TEXT_SELECTOR = 'button[data-testid="tweet-text-show-more-link"]';
+const SHOW_REPLIES_PATTERN = /^(show( \d+)? repl(y|ies)|显示回复|查看回复|顯示回覆|返信を表示)$/i;
+const LOAD_MORE_PATTERN = /^(show (more|additional) replies|显示更多回复|查看更多回复|显示其他回复|顯示更多回覆|他の返信を表示)/i;
+const SECTION_END_PATTERN = /^(discover more|more posts|发现更多|更多帖子|更多推文|さらに表示)/i;
+const UNAVAILABLE_PATTERN = /unavailable|deleted|doesn[’']t exist|does not exist|suspended|withheld|hidden|不可用|已删除|不存在|已被隐藏|無法|削除/i;
+const SCROLL_DELAY = 700;
+const MAX_SCROLLS = 60;
+const NAVIGATION_TIMEOUT = 10000;
+
+/**
+ * 会话页读取器类
+ */
+export class ConversationReader {
+  private static instance: ConversationReader;
+  private navigating = false;
+
+  public static getInstance(): ConversationReader {
+    if (!ConversationReader.instance) {
+      ConversationReader.instance = new ConversationReader();
+    }
+    return ConversationReader.instance;
+  }
+
+  /**
+   * 在跳转会话中执行任务，结束后返回起始页面
+   * 同一时间只允许一个会话，避免两次遍历互相打断
+   */
+  async runSession<T>(task: (session: ConversationSession) => Promise<T>): Promise<T> {
+    if (this.navigating) {
+      throw new Error('Conversation navigation already in progress');
+    }
+
+    this.navigating = true;
+    const originalPath = window.location.pathname;
+    let navigations = 0;
+
+    try {
+      return await task({
+        open: async (link) => {
+          const focalId = await this.openConversation(link);
+          navigations++;
+          return focalId;
+        }
+      });
+    } finally {
+      if (navigations > 0) {
+        await this.returnTo(originalPath, navigations);
+      }
+      this.navigating = false;
+    }
+  }
+
+  isConversationOf(tweetId: string): boolean {
+    return window.location.pathname.includes(`/status/${tweetId}`);
+  }
+
+  isConversationPage(): boolean {
+    return window.location.pathname.includes('/status/');
+  }
+
+  /**
+   * 当前会话页的焦点推文 ID
+   */
+  getFocalTweetId(): string | null {
+    return window.location.pathname.match(TWITTER_PATTERNS.TWEET_ID)?.[1] || null;
+  }
+
+  /**
+   * 回到页面顶部并查找已渲染推文的会话页链接
+   */
+  async findRenderedPermalink(tweetId: string): Promise<HTMLElement | null> {
+    window.scrollTo({ top: 0, behavior: 'auto' });
+    await this.delay(SCROLL_DELAY);
+    return this.findPermalink(document.body, tweetId);
+  }
+
+  /**
+   * 推文元素中指向自身会话页的链接
+   */
+  findPermalink(element: HTMLElement, tweetId: string): HTMLElement | null {
+    const time = element.querySelector(`a[href*="/status/${tweetId}"] time`);
+    return (time?.closest('a') || element.querySelector(`a[href*="/status/${tweetId}"]`)) as HTMLElement | null;
+  }
+
+  /**
+   * 从顶部开始滚动会话页并读取所有单元
+   */
+  async scanConversation(options: ConversationScanOptions = {}): Promise<ConversationCell[]> {
+    const collected = new Map<string, ConversationCell>();
+    let loadMoreClicks = 0;
+
+    window.scrollTo({ top: 0, behavior: 'auto' });
+    await this.delay(SCROLL_DELAY);
+
+    for (let i = 0; i < MAX_SCROLLS; i++) {
+      await this.collectRenderedCells(collected);
+      const cells = this.sortCells(collected);
+      options.onProgress?.(cells);
+
+      if (options.isDone?.(cells)) {
+        return cells;
+      }
+
+      if (this.isAtBottom() && i > 0) {
+        // 优先展开“显示更多回复”，否则等待一次懒加载，仍在底部说明会话已结束
+        const loadMore = this.findRenderedLoadMore();
+        if (loadMore && loadMoreClicks < (options.maxLoadMore ?? 0)) {
+          loadMore.click();
+          loadMoreClicks++;
+          await this.delay(SCROLL_DELAY * 2);
+          continue;
+        }
+
+        await this.delay(SCROLL_DELAY * 2);
+        await this.collectRenderedCells(collected);
+        if (this.isAtBottom()) {
+          break;
+        }
+      }
+
+      window.scrollBy({ top: Math.round(window.innerHeight * 0.8), behavior: 'auto' });
+      await this.delay(SCROLL_DELAY);
+    }
+
+    return this.sortCells(collected);
+  }
+
+  /**
+   * 只读取当前已渲染的单元（不滚动、不展开）
+   */
+  async readRenderedCells(): Promise<ConversationCell[]> {
+    const collected = new Map<string, ConversationCell>();
+    await this.collectRenderedCells(collected, false);
+    return this.sortCells(collected);
+  }
+
+  /**
+   * 读取当前渲染的单元
+   * 虚拟列表只渲染视口附近的内容，多次读取的结果按偏移合并
+   */
+  private async collectRenderedCells(collected: Map<string, ConversationCell>, expand: boolean = true): Promise<void> {
+    const elements = Array.from(document.querySelectorAll(CELL_SELECTOR)) as HTMLElement[];
+    if (elements.length === 0) return;
+
+    const offsets = elements.map(element => this.getCellOffset(element));
+    const min = Math.min(...offsets);
+    const max = Math.max(...offsets);
+
+    // 当前渲染范围内的旧标记以本次读取为准
+    for (const [key, cell] of collected) {
+      if (cell.kind !== 'tweet' && cell.offset >= min && cell.offset <= max) {
+        collected.delete(key);
+      }
+    }
+
+    for (let i = 0; i < elements.length; i++) {
+      const cell = await this.classifyCell(elements[i], offsets[i], expand);
+      const key = cell.kind === 'tweet' ? cell.tweet.id : `${cell.kind}:${cell.offset}`;
+      collected.set(key, cell);
+    }
+  }
+
+  private async classifyCell(element: HTMLElement, offset: number, expand: boolean): Promise<ConversationCell> {
+    const article = element.querySelector('article[data-testid="tweet"]') as HTMLElement | null;
+    if (article) {
+      if (expand) {
+        await this.expandText(article);
+      }
+      const [tweet] = await tweetParser.parseTweets([article]);
+      return tweet ? { kind: 'tweet', offset, tweet, element: article } : { kind: 'unavailable', offset };
+    }
+
+    const text = (element.textContent || '').trim();
+    if (!text) {
+      return { kind: 'separator', offset };
+    }
+
+    if (SECTION_END_PATTERN.test(text)) {
+      return { kind: 'end', offset };
+    }
+
+    const control = this.findControl(element, LOAD_MORE_PATTERN);
+    if (control || LOAD_MORE_PATTERN.test(text)) {
+      return { kind: 'load-more', offset, element: control || element };
+    }
+
+    const link = this.findControl(element, SHOW_REPLIES_PATTERN);
+    if (link || SHOW_REPLIES_PATTERN.test(text)) {
+      return { kind: 'show-replies', offset, element: link || element };
+    }
+
+    return UNAVAILABLE_PATTERN.test(text) && text.length < 200
+      ? { kind: 'unavailable', offset }
+      : { kind: 'separator', offset };
+  }
+
+  private findControl(element: HTMLElement, pattern: RegExp): HTMLElement | null {
+    return (Array.from(element.querySelectorAll('a, [role="button"], button'))
+      .find(node => pattern.test((node.textContent || '').trim())) as HTMLElement | undefined) || null;
+  }
+
+  private findRenderedLoadMore(): HTMLElement | null {
+    for (const element of Array.from(document.querySelectorAll(CELL_SELECTOR)) as HTMLElement[]) {
+      if (element.querySelector('article')) continue;
+      const control = this.findControl(element, LOAD_MORE_PATTERN);
+      if (control) return control;
+    }
+    return null;
+  }
+
+  /**
+   * 展开被截断的长推文（只点击就地展开的按钮，不跟随跳转链接）
+   */
+  private async expandText(article: HTMLElement): Promise<void> {
+    const button = Array.from(article.querySelectorAll(SHOW_MORE_TEXT_SELECTOR))
+      .find(node => node.closest('article') === article) as HTMLElement | undefined;
+    if (!button) return;
+
+    button.click();
+    await this.delay(300);
+
+    // 丢弃展开前缓存的截断内容
+    const id = article.querySelector('a[href*="/status/"] time')?.closest('a')?.getAttribute('href')?.match(TWITTER_PATTERNS.TWEET_ID)?.[1];
+    if (id) {
+      tweetCache.delete(id);
+    }
+  }
+
+  private sortCells(collected: Map<string, ConversationCell>): ConversationCell[] {
+    return Array.from(collected.values()).sort((a, b) => a.offset - b.offset);
+  }
+
+  /**
+   * 单元在列表中的位置（虚拟列表使用 translateY 定位）
+   */
+  private getCellOffset(element: HTMLElement): number {
+    const match = element.style.transform.match(/translateY\((-?[\d.]+)px\)/);
+    if (match) {
+      return parseFloat(match[1]);
+    }
+    return Math.round(element.getBoundingClientRect().top + window.scrollY);
+  }
+
+  private isAtBottom(): boolean {
+    return window.innerHeight + window.scrollY >= document.documentElement.scrollHeight - 4;
+  }
+
+  /**
+   * 在当前标签页内打开推文会话页（站内路由跳转，内容脚本保持运行）
+   * 返回新会话页的焦点推文 ID
+   */
+  private async openConversation(link: HTMLElement | null): Promise<string> {
+    if (!link) {
+      throw new Error('Conversation link not found');
+    }
+
+    const previousPath = window.location.pathname;
+    link.click();
+
+    let focalId: string | null = null;
+    const loaded = await this.waitFor(() => {
+      if (window.location.pathname === previousPath) return false;
+      focalId = this.getFocalTweetId();
+      return focalId !== null && this.isTweetRendered(focalId);
+    });
+    if (!loaded || !focalId) {
+      throw new Error('Conversation view did not load');
+    }
+    return focalId;
+  }
+
+  private async returnTo(path: string, navigations: number): Promise<void> {
+    window.history.go(-navigations);
+    await this.waitFor(() => window.location.pathname === path);
+  }
+
+  private isTweetRendered(tweetId: string): boolean {
+    return document.querySelector(`article[data-testid="tweet"] a[href*="/status/${tweetId}"]`) !== null;
+  }
+
+  private async waitFor(condition: () => boolean): Promise<boolean> {
+    const deadline = Date.now() + NAVIGATION_TIMEOUT;
+    while (Date.now() < deadline) {
+      if (condition()) {
+        // 留出时间让会话内容渲染
+        await this.delay(SCROLL_DELAY);
+        return true;
+      }
+      await this.delay(100);
+    }
+    return false;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+// 导出单例实例
+export const conversationReader = ConversationReader.getInstance();
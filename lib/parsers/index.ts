@@ -1,8 +1,16 @@
 // 解析器模块导出
 
 export * from './tweet-parser';
+export * from './rich-text-parser';
+export * from './card-parser';
 export * from './thread-parser';
+export * from './thread-walker';
+export * from './conversation-reader';
+export * from './conversation-parser';
 
 // 便捷导出
 export { tweetParser } from './tweet-parser';
-export { threadParser } from './thread-parser';
\ No newline at end of file
+export { threadParser } from './thread-parser';
+export { threadWalker } from './thread-walker';
+export { conversationReader } from './conversation-reader';
+export { conversationParser } from './conversation-parser';
\ No newline at end of file
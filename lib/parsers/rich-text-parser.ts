@@ -0,0 +1,196 @@
+// 推文正文分段解析器 - 把 tweetText DOM 转为文本、链接、提及、话题标签、表情等分段
+
+import type { RichTextToken } from '../types';
+import { TWITTER_SELECTORS } from '../utils/constants';
+import { getAttribute, queryAll } from '../utils/dom';
+import { expandDisplayUrl, isTwitterShortUrl, isValidUrl } from '../utils/url';
+
+const TWITTER_ORIGIN = 'https://x.com';
+
+/**
+ * 推文正文分段解析器类
+ */
+export class RichTextParser {
+  /**
+   * 解析正文元素；相邻文本合并，首尾空白与换行去掉
+   * @param cardUrl 链接卡片的目标地址，用于还原无法从正文得到的最后一个短链接
+   */
+  static parse(element: Element | null, cardUrl?: string): RichTextToken[] {
+    if (!element) {
+      return [];
+    }
+
+    const tokens: RichTextToken[] = [];
+    element.childNodes.forEach(node => this.walk(node, tokens));
+    const normalized = this.normalize(tokens);
+
+    // 卡片对应正文中的最后一个链接
+    const unresolved = normalized.filter(token => token.type === 'link' && token.href && isTwitterShortUrl(token.href) && !token.expandedUrl);
+    if (cardUrl && unresolved.length > 0) {
+      unresolved[unresolved.length - 1].expandedUrl = cardUrl;
+    }
+    return normalized;
+  }
+
+  /**
+   * 链接对应的完整地址，依次取 data-expanded-url / title 属性与显示文本；不是短链接或无法还原时返回 null
+   */
+  static resolveExpandedUrl(anchor: Element): string | null {
+    const href = getAttribute(anchor, 'href');
+    if (!isTwitterShortUrl(href)) {
+      return null;
+    }
+
+    for (const candidate of [getAttribute(anchor, 'data-expanded-url'), getAttribute(anchor, 'title')]) {
+      if (/^https?:\/\//i.test(candidate) && isValidUrl(candidate) && !isTwitterShortUrl(candidate)) {
+        return candidate;
+      }
+    }
+    return expandDisplayUrl(anchor.textContent || '');
+  }
+
+  /**
+   * 链接卡片的目标地址；卡片链接同样是短链接时返回 undefined
+   */
+  static findCardUrl(container: Element | null): string | undefined {
+    if (!container) {
+      return undefined;
+    }
+
+    for (const anchor of queryAll(container, `${TWITTER_SELECTORS.TWEET_CARDS} a[href]`)) {
+      const url = getAttribute(anchor, 'data-expanded-url') || getAttribute(anchor, 'href');
+      if (/^https?:\/\//i.test(url) && !isTwitterShortUrl(url)) {
+        return url;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 拼接为纯文本，与 content 一致
+   */
+  static toPlainText(tokens: RichTextToken[]): string {
+    return tokens.map(token => token.type === 'linebreak' ? '\n' : token.text).join('');
+  }
+
+  /**
+   * 按段落拼接多条推文的正文（用于线程）
+   */
+  static concat(lists: RichTextToken[][]): RichTextToken[] {
+    const tokens: RichTextToken[] = [];
+    lists.filter(list => list.length > 0).forEach((list, index) => {
+      if (index > 0) {
+        tokens.push({ type: 'linebreak', text: '\n' }, { type: 'linebreak', text: '\n' });
+      }
+      tokens.push(...list);
+    });
+    return tokens;
+  }
+
+  private static walk(node: Node, tokens: RichTextToken[]): void {
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.pushText(node.textContent || '', tokens);
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as Element;
+    switch (element.tagName.toLowerCase()) {
+      case 'br':
+        tokens.push({ type: 'linebreak', text: '\n' });
+        return;
+      case 'img': {
+        const alt = getAttribute(element, 'alt');
+        if (alt) {
+          tokens.push({ type: 'emoji', text: alt, src: getAttribute(element, 'src') || undefined });
+        }
+        return;
+      }
+      case 'a':
+        tokens.push(this.parseAnchor(element));
+        return;
+      default:
+        element.childNodes.forEach(child => this.walk(child, tokens));
+    }
+  }
+
+  private static pushText(text: string, tokens: RichTextToken[]): void {
+    text.split('\n').forEach((part, index) => {
+      if (index > 0) {
+        tokens.push({ type: 'linebreak', text: '\n' });
+      }
+      if (part) {
+        tokens.push({ type: 'text', text: part });
+      }
+    });
+  }
+
+  /**
+   * 按链接地址与文本前缀区分话题标签、股票代码、提及与普通链接
+   */
+  private static parseAnchor(anchor: Element): RichTextToken {
+    const href = this.resolveHref(getAttribute(anchor, 'href'));
+    const text = (anchor.textContent || '').trim();
+
+    if (/\/hashtag\//i.test(href) && text.startsWith('#')) {
+      return { type: 'hashtag', text, href };
+    }
+    if (/^\$[A-Za-z]/.test(text)) {
+      return { type: 'cashtag', text, href };
+    }
+    if (/^@\w+$/.test(text)) {
+      return { type: 'mention', text, href };
+    }
+
+    // 长链接的显示文本以省略号结尾，隐藏部分仍在 textContent 中
+    const display = text.replace(/…$/, '');
+    const expandedUrl = this.resolveExpandedUrl(anchor);
+    return expandedUrl
+      ? { type: 'link', text: display || href, href, expandedUrl }
+      : { type: 'link', text: display || href, href };
+  }
+
+  private static resolveHref(href: string): string {
+    if (!href) {
+      return '';
+    }
+    try {
+      return new URL(href, TWITTER_ORIGIN).href;
+    } catch {
+      return href;
+    }
+  }
+
+  private static normalize(tokens: RichTextToken[]): RichTextToken[] {
+    const merged: RichTextToken[] = [];
+    for (const token of tokens) {
+      const last = merged[merged.length - 1];
+      if (token.type === 'text' && last?.type === 'text') {
+        last.text += token.text;
+      } else {
+        merged.push({ ...token });
+      }
+    }
+
+    while (merged.length > 0 && this.isBlank(merged[0])) {
+      merged.shift();
+    }
+    while (merged.length > 0 && this.isBlank(merged[merged.length - 1])) {
+      merged.pop();
+    }
+    if (merged[0]?.type === 'text') {
+      merged[0].text = merged[0].text.trimStart();
+    }
+    const last = merged[merged.length - 1];
+    if (last?.type === 'text') {
+      last.text = last.text.trimEnd();
+    }
+    return merged;
+  }
+
+  private static isBlank(token: RichTextToken): boolean {
+    return token.type === 'linebreak' || (token.type === 'text' && !token.text.trim());
+  }
+}
@@ -0,0 +1,248 @@
+// 线程遍历器 - 打开会话页，沿作者的自我回复链重建完整线程
+
+import type { TweetData } from '../types';
+import { TWITTER_PATTERNS } from '../utils/constants';
+import { conversationReader, type ConversationCell } from './conversation-reader';
+
+/**
+ * 遍历选项
+ */
+export interface ThreadWalkOptions {
+  /** 是否允许在当前标签页打开会话页（完成后自动返回） */
+  navigate: boolean;
+  /** 最多跟随“显示回复”的次数 */
+  maxSteps: number;
+  onProgress?: (collected: number) => void;
+}
+
+/**
+ * 遍历结果
+ * tweets 按线程顺序排列；missingPositions 为无法获取的位置（从 1 开始）
+ */
+export interface ThreadWalkResult {
+  tweets: TweetData[];
+  missingPositions: number[];
+  /** 是否确认到达线程开头与结尾 */
+  reachedStart: boolean;
+  reachedEnd: boolean;
+}
+
+/**
+ * 从会话单元中提取的回复链
+ * slots 中的 null 表示链上无法获取的推文（已删除、不可见等）
+ */
+export interface ReplyChain {
+  slots: Array<TweetData | null>;
+  focalIndex: number;
+  /** 链末尾的“显示回复”入口 */
+  continuation: HTMLElement | null;
+  reachedStart: boolean;
+  reachedEnd: boolean;
+}
+
+const DEFAULT_WALK_OPTIONS: ThreadWalkOptions = {
+  navigate: true,
+  maxSteps: 20
+};
+
+/**
+ * 线程遍历器类
+ */
+export class ThreadWalker {
+  private static instance: ThreadWalker;
+
+  public static getInstance(): ThreadWalker {
+    if (!ThreadWalker.instance) {
+      ThreadWalker.instance = new ThreadWalker();
+    }
+    return ThreadWalker.instance;
+  }
+
+  /**
+   * 从指定推文开始遍历线程
+   * 不允许跳转时只读取当前已渲染的会话内容
+   */
+  async walk(startTweet: TweetData, startElement: HTMLElement, options: Partial<ThreadWalkOptions> = {}): Promise<ThreadWalkResult> {
+    const config = { ...DEFAULT_WALK_OPTIONS, ...options };
+    const author = startTweet.author.username;
+
+    if (!config.navigate) {
+      // 时间线中同一作者的相邻推文不一定有回复关系，只有会话页可以直接读取
+      if (!conversationReader.isConversationPage()) {
+        return this.toResult({ slots: [startTweet], focalIndex: 0, continuation: null, reachedStart: false, reachedEnd: false });
+      }
+      return this.toResult(ThreadWalker.extractReplyChain(await conversationReader.readRenderedCells(), startTweet.id, author));
+    }
+
+    return conversationReader.runSession(async (session) => {
+      console.log('🧵 开始遍历线程:', startTweet.url);
+
+      let focalId = startTweet.id;
+      if (!conversationReader.isConversationOf(startTweet.id)) {
+        focalId = await session.open(conversationReader.findPermalink(startElement, startTweet.id));
+      }
+
+      let slots: Array<TweetData | null> = [];
+      let chain: ReplyChain | null = null;
+
+      for (let step = 0; step <= config.maxSteps; step++) {
+        const currentFocal = focalId;
+        const cells = await conversationReader.scanConversation({
+          isDone: (scanned) => {
+            const scannedChain = ThreadWalker.extractReplyChain(scanned, currentFocal, author);
+            return scannedChain.focalIndex >= 0 && (scannedChain.continuation !== null || scannedChain.reachedEnd);
+          }
+        });
+        chain = ThreadWalker.extractReplyChain(cells, focalId, author);
+        slots = ThreadWalker.mergeSlots(slots, chain.slots);
+        config.onProgress?.(slots.filter(Boolean).length);
+
+        if (!chain.continuation || step === config.maxSteps) break;
+
+        // 跟随“显示回复”，新会话页的焦点推文位于回复链上
+        focalId = await session.open(chain.continuation);
+      }
+
+      const result = this.toResult({
+        slots,
+        focalIndex: 0,
+        continuation: chain?.continuation || null,
+        reachedStart: chain?.reachedStart ?? false,
+        reachedEnd: chain?.reachedEnd ?? false
+      });
+      console.log(`🧵 线程遍历完成：${result.tweets.length} 条，缺失位置`, result.missingPositions);
+      return result;
+    });
+  }
+
+  /**
+   * 从会话单元中按回复关系提取作者的自我回复链
+   * 会话页中焦点推文上方依次是其祖先推文，下方同一模块内的推文逐条回复上一条
+   */
+  static extractReplyChain(cells: ConversationCell[], focalId: string, author: string): ReplyChain {
+    const focalIndex = cells.findIndex(cell => cell.kind === 'tweet' && cell.tweet.id === focalId);
+    if (focalIndex < 0) {
+      return { slots: [], focalIndex: -1, continuation: null, reachedStart: false, reachedEnd: false };
+    }
+
+    const isAuthor = (tweet: TweetData) => tweet.author.username.toLowerCase() === author.toLowerCase();
+    const focal = cells[focalIndex] as Extract<ConversationCell, { kind: 'tweet' }>;
+    const before: Array<TweetData | null> = [];
+    const after: Array<TweetData | null> = [];
+
+    // 向上：祖先推文，遇到其他作者说明线程从下一条开始
+    let reachedStart = false;
+    let i = focalIndex - 1;
+    for (; i >= 0; i--) {
+      const cell = cells[i];
+      if (cell.kind === 'tweet' && isAuthor(cell.tweet)) {
+        before.unshift(cell.tweet);
+      } else if (cell.kind === 'unavailable') {
+        before.unshift(null);
+      } else {
+        reachedStart = true;
+        break;
+      }
+    }
+    if (i < 0) {
+      // 已到列表顶部，列表首项位于 0 偏移时说明没有未加载的祖先
+      reachedStart = cells[0].offset <= 0;
+    }
+    // 开头的不可用单元无法判断是否属于线程
+    while (before.length > 0 && before[0] === null) {
+      before.shift();
+    }
+
+    // 向下：同一模块内作者的连续回复
+    let continuation: HTMLElement | null = null;
+    let reachedEnd = false;
+    for (let j = focalIndex + 1; j < cells.length; j++) {
+      const cell = cells[j];
+      if (cell.kind === 'tweet' && isAuthor(cell.tweet)) {
+        after.push(cell.tweet);
+      } else if (cell.kind === 'unavailable') {
+        after.push(null);
+      } else if (cell.kind === 'show-replies') {
+        continuation = cell.element;
+        break;
+      } else {
+        reachedEnd = true;
+        break;
+      }
+    }
+    while (after.length > 0 && after[after.length - 1] === null) {
+      after.pop();
+    }
+
+    return {
+      slots: [...before, focal.tweet, ...after],
+      focalIndex: before.length,
+      continuation,
+      reachedStart,
+      reachedEnd: reachedEnd && !continuation
+    };
+  }
+
+  /**
+   * 合并两次读取的回复链（后一次读取的祖先链应包含前一次的推文）
+   */
+  static mergeSlots(previous: Array<TweetData | null>, next: Array<TweetData | null>): Array<TweetData | null> {
+    if (previous.length === 0) return next;
+
+    const nextIds = next.map(tweet => tweet?.id);
+    for (let i = previous.length - 1; i >= 0; i--) {
+      const tweet = previous[i];
+      if (!tweet) continue;
+
+      const index = nextIds.indexOf(tweet.id);
+      if (index >= 0) {
+        // 以重叠推文对齐：前一次的前缀 + 新读取的后续部分
+        return [...previous.slice(0, i), ...next.slice(index)];
+      }
+    }
+
+    // 没有重叠，中间位置未知
+    return [...previous, null, ...next];
+  }
+
+  /**
+   * 计算缺失位置：链上不可用的推文，以及“n/N”编号显示的尾部缺失
+   */
+  static findMissingPositions(slots: Array<TweetData | null>): number[] {
+    const missing: number[] = [];
+    slots.forEach((tweet, index) => {
+      if (!tweet) missing.push(index + 1);
+    });
+
+    const declaredTotal = slots.reduce((max, tweet) => {
+      const match = tweet?.content.trim().match(TWITTER_PATTERNS.THREAD_NUMBER);
+      return match ? Math.max(max, parseInt(match[2], 10)) : max;
+    }, 0);
+    for (let position = slots.length + 1; position <= declaredTotal; position++) {
+      missing.push(position);
+    }
+
+    return missing;
+  }
+
+  private toResult(chain: ReplyChain): ThreadWalkResult {
+    const missingPositions = ThreadWalker.findMissingPositions(chain.slots);
+    const rootId = chain.slots.find(Boolean)?.id;
+
+    const tweets: TweetData[] = [];
+    chain.slots.forEach((tweet, index) => {
+      if (!tweet) return;
+      tweets.push({ ...tweet, isThread: true, threadPosition: index + 1, threadId: rootId });
+    });
+
+    return {
+      tweets,
+      missingPositions,
+      reachedStart: chain.reachedStart,
+      reachedEnd: chain.reachedEnd
+    };
+  }
+}
+
+// 导出单例实例
+export const threadWalker = ThreadWalker.getInstance();
@@ -1,6 +1,6 @@
 // Twitter 推文解析器
 
-import type { TweetData, MediaItem, ThreadData, ParsedTweetElement, QuotedTweetData } from '../types';
+import type { TweetData, MediaItem, ThreadData, ParsedTweetElement, QuotedTweetData, TweetCard, RichTextToken } from '../types';
 import { TWITTER_SELECTORS, TWITTER_PATTERNS } from '../utils/constants';
 import { getTextContent, getAttribute, query, queryAll, closest } from '../utils/dom';
 import { parseTwitterDate } from '../utils/date';
@@ -8,6 +8,8 @@ import { extractTweetId, extractUsername, buildTweetUrl } from '../utils/url';
 import { validateTweetData } from '../utils/validation';
 import { performanceMonitor, tweetCache } from '../utils/performance';
 import { EnhancedMediaExtractor } from './enhanced-media-extractor';
+import { RichTextParser } from './rich-text-parser';
+import { CardParser } from './card-parser';
 
 /**
  * Twitter 推文解析器类
@@ -71,12 +73,15 @@ export class TweetParser {
     const id = this.extractTweetIdFromElement(tweetElement);
     const author = this.extractAuthorInfo(tweetElement);
     const content = this.extractTweetContent(tweetElement);
+    const richText = RichTextParser.parse(query(tweetElement, TWITTER_SELECTORS.TWEET_TEXT), RichTextParser.findCardUrl(tweetElement));
     const timestamp = this.extractTimestamp(tweetElement);
     const metrics = this.extractMetrics(tweetElement);
   const media = EnhancedMediaExtractor.extractMediaItems(tweetElement);
     const url = this.buildTweetUrl(author?.username || '', id || '');
     const threadInfo = this.detectThreadInfo(tweetElement);
+    const context = this.detectTweetContext(tweetElement);
     const quotedTweet = this.extractQuotedTweet(tweetElement);
+    const card = this.extractCard(tweetElement, richText);
 
     // 验证必要字段
     if (!id || !author || !author.username || !author.displayName) {
@@ -88,14 +93,18 @@ export class TweetParser {
       id: id,
    author: author,
       content: content,
+      richText: richText.length > 0 ? richText : undefined,
     timestamp: timestamp,
       metrics: metrics,
       media: media,
       isThread: threadInfo.isThread,
+      isReply: context.isReply || undefined,
+      isRetweet: context.isRetweet || undefined,
     threadPosition: threadInfo.position,
       threadId: threadInfo.threadId,
     url: url,
-   quotedTweet: quotedTweet || undefined
+   quotedTweet: quotedTweet || undefined,
+      card: card || undefined
  };
 
     return tweetData;
@@ -344,8 +353,13 @@ if (!contentElement) {
       const href = getAttribute(link, 'href');
       const linkText = getTextContent(link);
       
-      // 如果是短链接，保留原始文本
+      // 短链接替换为解析出的完整地址，无法解析时保留原始文本
       if (href.includes('t.co/')) {
+        const expandedUrl = RichTextParser.resolveExpandedUrl(link);
+        const visibleText = ((link as HTMLElement).innerText || '').trim() || linkText;
+        if (expandedUrl && visibleText) {
+          processedText = processedText.replace(visibleText, expandedUrl);
+        }
         continue;
    }
       
@@ -546,6 +560,24 @@ mediaItems.push({
  };
   }
 
+  /**
+   * 按推文顶部的上下文判断是否为回复或转推；没有上下文但与其他推文位于同一容器时视为对话中的回复
+   */
+  private detectTweetContext(tweetElement: HTMLElement): { isReply: boolean; isRetweet: boolean } {
+    const socialContext = query(tweetElement, '[data-testid="socialContext"]');
+    if (socialContext) {
+      const text = socialContext.textContent || '';
+      return {
+        isReply: text.includes('回复') || text.includes('Replying to'),
+        isRetweet: text.includes('转推') || text.includes('Retweeted')
+      };
+    }
+
+    const article = closest(tweetElement, 'article');
+    const sibling = article?.parentElement?.querySelector(':scope > article');
+    return { isReply: Boolean(sibling && sibling !== article), isRetweet: false };
+  }
+
   /**
    * 生成线程ID
    */
@@ -653,7 +685,7 @@ mediaItems.push({
   /**
    * 提取引用推文信息
    */
-  private extractQuotedTweet(tweetElement: HTMLElement): QuotedTweetData | null {
+  extractQuotedTweet(tweetElement: HTMLElement): QuotedTweetData | null {
     console.log('🔍 检查推文中是否包含引用推文');
     
     // 使用多种选择器尝试找到引用推文容器
@@ -670,6 +702,7 @@ mediaItems.push({
     const quotedId = this.extractQuotedTweetId(quotedTweetContainer);
 const quotedAuthor = this.extractQuotedTweetAuthor(quotedTweetContainer);
    const quotedContent = this.extractQuotedTweetContent(quotedTweetContainer);
+      const quotedRichText = RichTextParser.parse(query(quotedTweetContainer, TWITTER_SELECTORS.QUOTE_TWEET_CONTENT || '[data-testid="tweetText"]'));
       const quotedTimestamp = this.extractQuotedTweetTimestamp(quotedTweetContainer);
       const quotedMedia = this.extractQuotedTweetMedia(quotedTweetContainer);
       const quotedUrl = this.buildQuotedTweetUrl(quotedAuthor?.username || '', quotedId || '');
@@ -684,6 +717,7 @@ const quotedAuthor = this.extractQuotedTweetAuthor(quotedTweetContainer);
         id: quotedId || '',
         author: quotedAuthor,
    content: quotedContent,
+        richText: quotedRichText.length > 0 ? quotedRichText : undefined,
         timestamp: quotedTimestamp,
         media: quotedMedia,
         url: quotedUrl
@@ -698,6 +732,17 @@ const quotedAuthor = this.extractQuotedTweetAuthor(quotedTweetContainer);
   }
   }
 
+  /**
+   * 提取链接卡片，跳过引用推文内的卡片
+   */
+  extractCard(tweetElement: HTMLElement, richText?: RichTextToken[]): TweetCard | null {
+    const quotedContainer = this.findQuotedTweetContainer(tweetElement);
+    const wrapper = queryAll(tweetElement, TWITTER_SELECTORS.TWEET_CARDS)
+      .find(element => !quotedContainer || !quotedContainer.contains(element));
+
+    return CardParser.parse(wrapper || null, richText);
+  }
+
   /**
    * 查找引用推文容器
    */
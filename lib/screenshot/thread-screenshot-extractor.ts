@@ -1,7 +1,7 @@
 // 线程截图提取器 - 专门处理推文线程的截图
 import { screenshotManager } from './screenshot-manager';
 import { threadParser } from '../parsers';
-import { TweetData } from '../types';
+import { TweetData, TweetCard } from '../types';
 
 /**
  * 线程截图提取器类
@@ -334,6 +334,14 @@ authorCount: threadData.authors.length,
       mediaDiv.style.marginBottom = '12px';
       tweetDiv.appendChild(mediaDiv);
     }
+
+    // 链接卡片
+    const cardHtml = this.generateCardHtml(tweet.card);
+    if (cardHtml) {
+      const cardDiv = document.createElement('div');
+      cardDiv.innerHTML = cardHtml;
+      tweetDiv.appendChild(cardDiv);
+    }
     
     // 推文元信息
     const meta = document.createElement('div');
@@ -439,6 +447,7 @@ const timeSpan = this.calculateTimeSpan(threadData.tweets);
             ${tweet.content}
           </div>
       ${mediaHtml}
+          ${this.generateCardHtml(tweet.card)}
           <div style="display: flex; justify-content: space-between; align-items: center; font-size: 12px; color: #657786; margin-top: 12px; padding-top: 8px; border-top: 1px solid #f1f3f4;">
             <span>${formatDate(tweet.timestamp)}</span>
      <span>${metricsHtml}</span>
@@ -507,6 +516,32 @@ const timeSpan = this.calculateTimeSpan(threadData.tweets);
     }).join('');
   }
 
+  /**
+   * 生成链接卡片HTML
+   * @param card 卡片数据
+   * @returns HTML字符串，没有卡片时为空
+   */
+  private generateCardHtml(card?: TweetCard): string {
+    if (!card) return '';
+
+    const escape = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+    return `
+      <div style="border: 1px solid #e1e8ed; border-radius: 12px; overflow: hidden; margin: 8px 0 12px;">
+        ${card.thumbnail ? `<img src="${escape(card.thumbnail)}" alt="" style="width: 100%; display: block;">` : ''}
+        <div style="padding: 10px 12px;">
+          ${card.domain ? `<div style="color: #657786; font-size: 12px;">${escape(card.domain)}</div>` : ''}
+          <div style="color: #0f1419; font-size: 14px; font-weight: 600;">${escape(card.title || card.url)}</div>
+          ${card.description ? `<div style="color: #657786; font-size: 13px; margin-top: 2px;">${escape(card.description)}</div>` : ''}
+        </div>
+      </div>
+    `;
+  }
+
   /**
  * 计算时间跨度
    * @param tweets 推文列表
@@ -0,0 +1,6 @@
+// 自动标签规则模块导出
+
+export * from './tag-rule-engine';
+
+// 便捷导出
+export { tagRuleEngine } from './tag-rule-engine';
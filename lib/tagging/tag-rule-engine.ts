@@ -0,0 +1,271 @@
+// 自动标签规则引擎 - 按关键词、正则、话题、作者、链接域名或媒体类型为推文打标签并给出分类
+
+import type { TagRule, TweetData } from '../types';
+import type { TweetData as NotionTweetData } from '../notion/types';
+import { storageManager } from '../utils/storage';
+import { EXTENSION_CONFIG } from '../utils/constants';
+
+/**
+ * 规则匹配所需的推文信息
+ */
+export interface TaggableTweet {
+  content: string;
+  username: string;
+  /** 正文链接的域名（小写，不含 www.） */
+  domains: string[];
+  mediaTypes: Array<'image' | 'video' | 'gif'>;
+}
+
+/**
+ * 规则执行结果
+ */
+export interface TaggingResult {
+  tags: string[];
+  category?: string;
+  /** 命中的规则 ID（按优先级排序） */
+  matchedRuleIds: string[];
+}
+
+/**
+ * 未保存过规则时使用的默认规则
+ */
+export const DEFAULT_TAG_RULES: TagRule[] = [
+  { id: 'default-tech', name: '技术', enabled: true, matcher: 'keyword', pattern: '代码, code, 编程, github', tags: ['技术'], category: '技术', priority: 10 },
+  { id: 'default-ai', name: 'AI', enabled: true, matcher: 'keyword', pattern: 'ai, 机器学习, 深度学习, 人工智能', tags: ['AI', '技术'], category: '技术', priority: 20 },
+  { id: 'default-news', name: '资讯', enabled: true, matcher: 'keyword', pattern: '新闻, 资讯, 报道', tags: ['资讯'], category: '资讯', priority: 10 },
+  { id: 'default-learning', name: '学习', enabled: true, matcher: 'keyword', pattern: '学习, 教程, course, learn', tags: ['学习'], category: '学习', priority: 10 },
+  { id: 'default-work', name: '工作', enabled: true, matcher: 'keyword', pattern: '工作, job, career, 职业', tags: ['工作'], category: '工作', priority: 10 },
+  { id: 'default-idea', name: '灵感', enabled: true, matcher: 'keyword', pattern: '想法, 灵感, idea, 思考', tags: ['灵感'], priority: 5 }
+];
+
+const HASHTAG_PATTERN = /#([\p{L}\p{N}_]+)/gu;
+const DOMAIN_PATTERN = /\b(?:https?:\/\/)?((?:[a-z0-9-]+\.)+[a-z]{2,})(?=[\/\s?#…]|$)/gi;
+/** 推文中的提及、话题与短链接不算作外部域名 */
+const INTERNAL_DOMAINS = ['t.co', 'x.com', 'twitter.com'];
+
+/**
+ * 自动标签规则引擎类
+ */
+export class TagRuleEngine {
+  private static instance: TagRuleEngine;
+  /** 已加载的规则；null 表示尚未加载 */
+  private rules: TagRule[] | null = null;
+  private watching = false;
+
+  public static getInstance(): TagRuleEngine {
+    if (!TagRuleEngine.instance) {
+      TagRuleEngine.instance = new TagRuleEngine();
+    }
+    return TagRuleEngine.instance;
+  }
+
+  /**
+   * 获取规则（从未保存过时为默认规则）
+   */
+  async getRules(): Promise<TagRule[]> {
+    return (await storageManager.getTagRules()) || DEFAULT_TAG_RULES.map(rule => ({ ...rule }));
+  }
+
+  async saveRules(rules: TagRule[]): Promise<void> {
+    await storageManager.saveTagRules(rules);
+    this.rules = rules;
+  }
+
+  /**
+   * 恢复默认规则
+   */
+  async resetRules(): Promise<TagRule[]> {
+    await storageManager.saveTagRules(null);
+    this.rules = null;
+    return this.getRules();
+  }
+
+  /**
+   * 加载规则到内存并跟随存储变化，之后可同步调用 tag()
+   */
+  async load(): Promise<void> {
+    if (!this.watching) {
+      this.watching = true;
+      browser.storage.onChanged.addListener((changes, area) => {
+        const change = changes[EXTENSION_CONFIG.STORAGE_KEYS.TAG_RULES];
+        if (area === 'local' && change) {
+          this.rules = Array.isArray(change.newValue) ? change.newValue as TagRule[] : null;
+        }
+      });
+    }
+    this.rules = await this.getRules();
+  }
+
+  /**
+   * 使用已加载的规则打标签；尚未加载时使用默认规则
+   */
+  tag(input: TaggableTweet): TaggingResult {
+    return TagRuleEngine.evaluate(this.rules || DEFAULT_TAG_RULES, input);
+  }
+
+  /**
+   * 读取最新规则后打标签
+   */
+  async apply(input: TaggableTweet): Promise<TaggingResult> {
+    if (!this.rules) {
+      await this.load();
+    }
+    return this.tag(input);
+  }
+
+  /**
+   * 创建新规则（未保存）
+   */
+  createRule(): TagRule {
+    return {
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      name: '',
+      enabled: true,
+      matcher: 'keyword',
+      pattern: '',
+      tags: [],
+      priority: 10
+    };
+  }
+
+  /**
+   * 执行规则：标签按优先级合并去重，分类取优先级最高且设置了分类的规则
+   */
+  static evaluate(rules: TagRule[], input: TaggableTweet): TaggingResult {
+    const matched = rules
+      .filter(rule => rule.enabled && this.matches(rule, input))
+      .sort((a, b) => b.priority - a.priority);
+
+    return {
+      tags: Array.from(new Set(matched.flatMap(rule => rule.tags))),
+      category: matched.find(rule => rule.category)?.category,
+      matchedRuleIds: matched.map(rule => rule.id)
+    };
+  }
+
+  /**
+   * 单条规则是否命中；无效的正则视为不命中
+   */
+  static matches(rule: TagRule, input: TaggableTweet): boolean {
+    if (rule.matcher === 'regex') {
+      const regex = this.compileRegex(rule.pattern);
+      return regex !== null && regex.test(input.content);
+    }
+
+    const values = this.splitPattern(rule.pattern);
+    if (values.length === 0) return false;
+
+    switch (rule.matcher) {
+      case 'keyword': {
+        const content = input.content.toLowerCase();
+        return values.some(value => content.includes(value));
+      }
+      case 'hashtag': {
+        const hashtags = new Set(Array.from(input.content.matchAll(HASHTAG_PATTERN), match => match[1].toLowerCase()));
+        return values.some(value => hashtags.has(value.replace(/^#/, '')));
+      }
+      case 'author': {
+        const username = input.username.replace(/^@/, '').toLowerCase();
+        return values.some(value => value.replace(/^@/, '') === username);
+      }
+      case 'domain':
+        return values.some(value => {
+          const domain = value.replace(/^www\./, '');
+          return input.domains.some(item => item === domain || item.endsWith(`.${domain}`));
+        });
+      case 'media':
+        return values.some(value => value === 'any' ? input.mediaTypes.length > 0 : input.mediaTypes.includes(value as TaggableTweet['mediaTypes'][number]));
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * 校验规则，返回错误信息或 null
+   */
+  static validateRule(rule: TagRule): string | null {
+    if (!rule.pattern.trim()) return 'Pattern is required';
+    if (rule.matcher === 'regex' && !this.compileRegex(rule.pattern)) return 'Invalid regular expression';
+    if (rule.tags.length === 0 && !rule.category) return 'A rule needs tags or a category';
+    return null;
+  }
+
+  /**
+   * 从 Notion 保存数据构建匹配信息（链接域名优先取自 DOM 链接）
+   */
+  static fromNotionTweet(tweet: NotionTweetData): TaggableTweet {
+    const linkDomains = (tweet.textLinks || []).map(link => {
+      const host = this.getHostname(link.url);
+      // t.co 短链接的显示文本是真实地址
+      return host && !INTERNAL_DOMAINS.includes(host) ? host : this.extractDomains(link.text)[0];
+    });
+
+    return {
+      content: tweet.content,
+      username: tweet.username,
+      domains: this.unique([...linkDomains.filter((domain): domain is string => !!domain), ...this.extractDomains(tweet.content)]),
+      mediaTypes: this.unique((tweet.media?.assets || [])
+        .map(asset => asset.type)
+        .filter((type): type is TaggableTweet['mediaTypes'][number] => type !== 'link'))
+    };
+  }
+
+  /**
+   * 从解析得到的推文（或整个线程）构建匹配信息
+   */
+  static fromTweets(tweets: TweetData[]): TaggableTweet {
+    const content = tweets.map(tweet => tweet.content).join('\n\n');
+    return {
+      content,
+      username: tweets[0]?.author.username || '',
+      domains: this.extractDomains(content),
+      mediaTypes: this.unique(tweets.flatMap(tweet => tweet.media.map(item => item.type)))
+    };
+  }
+
+  /**
+   * 从纯文本构建匹配信息（用于规则测试）
+   */
+  static fromText(content: string, username = '', mediaTypes: TaggableTweet['mediaTypes'] = []): TaggableTweet {
+    return { content, username, domains: this.extractDomains(content), mediaTypes };
+  }
+
+  /**
+   * 提取文本中的外部链接域名
+   */
+  static extractDomains(text: string): string[] {
+    const domains = Array.from(text.matchAll(DOMAIN_PATTERN), match => match[1].toLowerCase().replace(/^www\./, ''));
+    return this.unique(domains.filter(domain => !INTERNAL_DOMAINS.includes(domain)));
+  }
+
+  private static splitPattern(pattern: string): string[] {
+    return pattern.split(/[,，\n]/).map(value => value.trim().toLowerCase()).filter(Boolean);
+  }
+
+  /**
+   * 编译正则；支持 /pattern/flags 写法，默认不区分大小写
+   */
+  private static compileRegex(pattern: string): RegExp | null {
+    try {
+      const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+      return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern, 'iu');
+    } catch {
+      return null;
+    }
+  }
+
+  private static getHostname(url: string): string | null {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+
+  private static unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+  }
+}
+
+// 导出单例实例
+export const tagRuleEngine = TagRuleEngine.getInstance();
@@ -0,0 +1,6 @@
+// 自定义模板模块导出
+
+export * from './template-manager';
+
+// 便捷导出
+export { templateManager } from './template-manager';
@@ -0,0 +1,134 @@
+// 自定义模板管理器 - 模板的增删改查与渲染
+
+import type { CopyTemplate, TweetData, ThreadData } from '../types';
+import { storageManager } from '../utils/storage';
+import { contentFormatter } from '../formatters';
+
+/**
+ * 新建模板时的默认内容
+ */
+export const DEFAULT_TEMPLATE_BODY = `> {{content}}
+
+— {{author.displayName}} (@{{author.username}}) · {{timestamp|date:"YYYY-MM-DD"}}
+{{#each media}}
+![{{alt|default:"media"}}]({{url}})
+{{/each}}
+{{#if quotedTweet}}
+> > {{quotedTweet.content}} — @{{quotedTweet.author.username}}
+{{/if}}
+{{url}}`;
+
+export const DEFAULT_THREAD_TEMPLATE_BODY = `# {{author.displayName}} · {{count}} tweets
+
+{{#each tweets}}
+{{position}}. {{content}}
+{{#each media}}
+   ![]({{url}})
+{{/each}}
+{{/each}}
+
+{{url}}`;
+
+/**
+ * 模板管理器类
+ */
+export class TemplateManager {
+  private static instance: TemplateManager;
+
+  public static getInstance(): TemplateManager {
+    if (!TemplateManager.instance) {
+      TemplateManager.instance = new TemplateManager();
+    }
+    return TemplateManager.instance;
+  }
+
+  /**
+   * 获取全部模板
+   */
+  async getTemplates(): Promise<CopyTemplate[]> {
+    return storageManager.getTemplates();
+  }
+
+  /**
+   * 按 ID 获取模板
+   */
+  async getTemplate(id: string): Promise<CopyTemplate | null> {
+    const templates = await this.getTemplates();
+    return templates.find(template => template.id === id) || null;
+  }
+
+  /**
+   * 按快捷键槽位获取模板
+   */
+  async getTemplateByShortcut(slot: number): Promise<CopyTemplate | null> {
+    const templates = await this.getTemplates();
+    return templates.find(template => template.shortcutSlot === slot) || null;
+  }
+
+  /**
+   * 创建新模板（未保存）
+   */
+  createTemplate(scope: CopyTemplate['scope'] = 'tweet'): CopyTemplate {
+    return {
+      id: this.generateId(),
+      name: '',
+      body: scope === 'thread' ? DEFAULT_THREAD_TEMPLATE_BODY : DEFAULT_TEMPLATE_BODY,
+      scope,
+      format: 'markdown',
+      showInContextMenu: true,
+      updatedAt: Date.now()
+    };
+  }
+
+  /**
+   * 新增或更新模板；同一快捷键槽位只保留最后绑定的模板
+   */
+  async saveTemplate(template: CopyTemplate): Promise<CopyTemplate> {
+    const templates = await this.getTemplates();
+    const saved: CopyTemplate = { ...template, updatedAt: Date.now() };
+
+    const next = templates
+      .filter(item => item.id !== saved.id)
+      .map(item => saved.shortcutSlot && item.shortcutSlot === saved.shortcutSlot
+        ? { ...item, shortcutSlot: undefined }
+        : item);
+
+    const index = templates.findIndex(item => item.id === saved.id);
+    next.splice(index >= 0 ? index : next.length, 0, saved);
+
+    await storageManager.saveTemplates(next);
+    return saved;
+  }
+
+  /**
+   * 删除模板
+   */
+  async deleteTemplate(id: string): Promise<void> {
+    const templates = await this.getTemplates();
+    await storageManager.saveTemplates(templates.filter(template => template.id !== id));
+  }
+
+  /**
+   * 渲染推文
+   */
+  renderTweet(template: CopyTemplate, tweet: TweetData): string {
+    return contentFormatter.formatTweetWithTemplate(tweet, template.body, template.format);
+  }
+
+  /**
+   * 渲染线程
+   */
+  renderThread(template: CopyTemplate, thread: ThreadData): string {
+    return contentFormatter.formatThreadWithTemplate(thread, template.body, template.format);
+  }
+
+  /**
+   * 生成唯一 ID
+   */
+  private generateId(): string {
+    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  }
+}
+
+// 导出单例实例
+export const templateManager = TemplateManager.getInstance();
@@ -8,6 +8,8 @@ export interface TweetData {
     avatar?: string;
   };
   content: string;
+  /** 正文的结构化分段，由解析器从 DOM 生成；存在时格式化器据此输出 */
+  richText?: RichTextToken[];
   timestamp: Date;
   metrics: {
     likes: number;
@@ -16,10 +18,16 @@ export interface TweetData {
   };
   media: MediaItem[];
   isThread: boolean;
+  /** 推文是回复（顶部有回复上下文或位于对话中） */
+  isReply?: boolean;
+  /** 推文是转推（顶部有转推上下文） */
+  isRetweet?: boolean;
   threadPosition?: number;
   threadId?: string;
   url: string;
   quotedTweet?: QuotedTweetData;
+  /** 链接卡片（推文中分享的网页预览） */
+  card?: TweetCard;
 }
 
 export interface QuotedTweetData {
@@ -30,11 +38,44 @@ export interface QuotedTweetData {
   avatar?: string;
   };
 content: string;
+  richText?: RichTextToken[];
   timestamp?: Date;
   media?: MediaItem[];
   url: string;
 }
 
+/**
+ * 推文正文分段
+ * - text / linebreak：普通文本与换行
+ * - link：text 为显示文本（去掉省略号），href 为实际链接；href 是 t.co 短链接时 expandedUrl 为解析出的完整地址
+ * - mention / hashtag / cashtag：text 含 @、#、$ 前缀，href 为 x.com 上的链接
+ * - emoji：图片表情，text 为其 alt 文本，src 为图片地址
+ */
+export interface RichTextToken {
+  type: 'text' | 'link' | 'mention' | 'hashtag' | 'cashtag' | 'emoji' | 'linebreak';
+  text: string;
+  href?: string;
+  expandedUrl?: string;
+  src?: string;
+}
+
+/**
+ * 链接卡片
+ * - summary：小缩略图在左侧的摘要卡片
+ * - summary_large_image：大图在上方的摘要卡片
+ * - player：视频、音频等可播放的卡片
+ * - unified：广告、应用推广等统一卡片
+ * url 为卡片指向的地址，t.co 短链接能还原时为完整地址
+ */
+export interface TweetCard {
+  type: 'summary' | 'summary_large_image' | 'player' | 'unified';
+  url: string;
+  title?: string;
+  description?: string;
+  domain?: string;
+  thumbnail?: string;
+}
+
 export interface MediaItem {
   type: 'image' | 'video' | 'gif';
   url: string;
@@ -45,21 +86,26 @@ export interface MediaItem {
 }
 
 export interface FormatOptions {
-  format: 'html' | 'markdown' | 'text';
+  format: 'html' | 'markdown' | 'text' | 'obsidian' | 'json' | 'jsonld';
   includeAuthor: boolean;
   includeTimestamp: boolean;
   includeMetrics: boolean;
   includeMedia: boolean;
   includeLink: boolean;
+  /** 保留 t.co 短链接，默认使用解析出的完整地址 */
+  keepShortLinks?: boolean;
+  /** 媒体 URL 到本地附件路径的映射（如归档/Obsidian 附件），存在时使用本地路径 */
+  mediaPaths?: Record<string, string>;
 }
 
 export interface ExtensionSettings {
-  format: 'html' | 'markdown' | 'text';
+  format: FormatOptions['format'];
   includeAuthor: boolean;
   includeTimestamp: boolean;
   includeMetrics: boolean;
   includeMedia: boolean;
   includeLink: boolean;
+  keepShortLinks: boolean;
   language: string;
   theme: 'light' | 'dark' | 'auto';
   enableKeyboardShortcuts: boolean;
@@ -74,6 +120,8 @@ export interface ExtensionSettings {
     };
     useContentOptions: boolean;
   };
+  enableHistory: boolean;
+  historyLimit: number;
   }
 
 
@@ -104,6 +152,116 @@ export interface ThreadData {
   };
   createdAt: Date;
   isComplete: boolean;
+  /** 无法获取的线程位置（从 1 开始） */
+  missingPositions?: number[];
+}
+
+/**
+ * 会话回复树节点
+ */
+export interface ConversationNode {
+  tweet: TweetData;
+  /** 被回复推文的 ID，根推文为 null */
+  parentId: string | null;
+  /** 根推文为 0 */
+  depth: number;
+  replies: ConversationNode[];
+  /** 还有未展开的回复（页面上显示为“显示回复”） */
+  hasMoreReplies?: boolean;
+}
+
+/**
+ * 完整会话（根推文及所有参与者的嵌套回复）
+ */
+export interface ConversationData {
+  /** 根推文 ID */
+  id: string;
+  root: ConversationNode;
+  /** 楼主（根推文作者） */
+  author: {
+    username: string;
+    displayName: string;
+  };
+  /** 参与者用户名（按首次出现顺序） */
+  participants: string[];
+  totalCount: number;
+  createdAt: Date;
+  isComplete: boolean;
+}
+
+/**
+ * 会话过滤条件
+ */
+export interface ConversationFilter {
+  /** 只保留楼主的回复（保留通往这些回复的上下文） */
+  opOnly?: boolean;
+  /** 只保留点赞数最高的 N 条直接回复，0 表示不限制 */
+  topReplies?: number;
+}
+
+export interface HistoryEntry {
+  id: string;
+  type: 'tweet' | 'thread';
+  format: FormatOptions['format'];
+  options: FormatOptions;
+  copiedAt: Date;
+  tweet?: TweetData;
+  thread?: ThreadData;
+  /** 复制时由自动标签规则得到的标签与分类 */
+  tags?: string[];
+  category?: string;
+}
+
+export interface CopyTemplate {
+  id: string;
+  name: string;
+  body: string;
+  /** 渲染对象：单条推文或整个线程 */
+  scope: 'tweet' | 'thread';
+  /** 写入剪贴板时使用的格式 */
+  format: FormatOptions['format'];
+  showInContextMenu: boolean;
+  /** 绑定的快捷键槽位（对应 copy-template-N 命令） */
+  shortcutSlot?: number;
+  updatedAt: number;
+}
+
+/**
+ * 自动标签规则：命中时为推文添加标签，并按优先级给出分类
+ */
+export interface TagRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  matcher: 'keyword' | 'regex' | 'hashtag' | 'author' | 'domain' | 'media';
+  /** 匹配内容；正则以外可用逗号分隔多个值，任意一个命中即可 */
+  pattern: string;
+  tags: string[];
+  category?: string;
+  /** 多条规则给出分类时使用优先级最高的 */
+  priority: number;
+}
+
+/**
+ * 自定义请求头
+ */
+export interface WebhookHeader {
+  name: string;
+  value: string;
+}
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  enabled: boolean;
+  url: string;
+  headers: WebhookHeader[];
+  /** 设置后用 HMAC-SHA256 对请求体签名 */
+  secret?: string;
+  /** 签名请求头名称，值为 sha256=<十六进制摘要> */
+  signatureHeader: string;
+  /** 请求体模板（渲染结果须为 JSON）；为空时发送规范 JSON 导出 */
+  payloadTemplate?: string;
 }
 
 export interface ParsedTweetElement {
@@ -157,14 +315,14 @@ export interface MessageBase {
 export interface CopyTweetMessage extends MessageBase {
   type: 'COPY_TWEET';
   tweetId: string;
-  format: 'html' | 'markdown' | 'text';
+  format: FormatOptions['format'];
   options: FormatOptions;
 }
 
 export interface CopyThreadMessage extends MessageBase {
   type: 'COPY_THREAD';
   threadId: string;
-  format: 'html' | 'markdown' | 'text';
+  format: FormatOptions['format'];
   options: FormatOptions;
 }
 
@@ -200,6 +358,7 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   includeMetrics: false,
   includeMedia: true,
   includeLink: true,
+  keepShortLinks: false,
   language: 'auto',
   theme: 'auto',
   enableKeyboardShortcuts: true,
@@ -213,6 +372,8 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
     },
     useContentOptions: true
   },
+  enableHistory: true,
+  historyLimit: 200,
   };
 
 export const SUPPORTED_LOCALES = ['zh-CN', 'en', 'ja', 'ko', 'es', 'fr'];
@@ -222,7 +383,10 @@ export const TWITTER_DOMAINS = ['twitter.com', 'x.com'];
 export const COPY_FORMATS = {
   HTML: 'html',
   MARKDOWN: 'markdown',
-  TEXT: 'text'
+  TEXT: 'text',
+  OBSIDIAN: 'obsidian',
+  JSON: 'json',
+  JSONLD: 'jsonld'
 } as const;
 
 export const SCREENSHOT_FORMATS = {
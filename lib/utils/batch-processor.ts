@@ -4,7 +4,7 @@ import { TweetData } from '../types';
 /**
  * 批处理选项接口
  */
-interface BatchOptions {
+export interface BatchOptions {
   batchSize?: number;
   delay?: number;
   maxConcurrency?: number;
@@ -18,7 +18,7 @@ interface BatchOptions {
 /**
  * 批处理进度接口
  */
-interface BatchProgress {
+export interface BatchProgress {
   processed: number;
   total: number;
   currentBatch: number;
@@ -33,7 +33,7 @@ interface BatchProgress {
 /**
  * 批处理结果接口
  */
-interface BatchResult<T> {
+export interface BatchResult<T> {
   results: T[];
   errors: Array<{
     error: Error;
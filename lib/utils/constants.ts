@@ -141,6 +141,12 @@ export const EXTENSION_CONFIG = {
   STORAGE_KEYS: {
     SETTINGS: 'tsc_settings',
     HISTORY: 'tsc_history',
+    TEMPLATES: 'tsc_templates',
+    TAG_RULES: 'tsc_tag_rules',
+    WEBHOOKS: 'tsc_webhooks',
+    WEBHOOK_QUEUE: 'tsc_webhook_queue',
+    FILE_DESTINATION: 'tsc_file_destination',
+    FILE_DESTINATION_SAVED: 'tsc_file_destination_saved',
     CACHE: 'tsc_cache',
   I18N: 'tsc_i18n',
     PERFORMANCE: 'tsc_performance'
@@ -153,6 +159,18 @@ export const EXTENSION_CONFIG = {
     CLEANUP_INTERVAL: 60 * 1000 // 1分钟清理一次
   },
   
+  // 自定义模板配置
+  TEMPLATES: {
+    SHORTCUT_SLOTS: 3,
+    CONTEXT_MENU_PREFIX: 'copy-template:'
+  },
+  
+  // 复制历史配置
+  HISTORY: {
+    MIN_LIMIT: 10,
+    MAX_LIMIT: 1000
+  },
+  
   // 性能配置
   PERFORMANCE: {
     BATCH_SIZE: 10,
@@ -1,5 +1,7 @@
 // 日期处理相关工具函数
 
+import type { TweetData } from '../types';
+
 /**
  * 解析 Twitter 时间格式
  */
@@ -259,6 +261,18 @@ export function parseFromISO(isoString: string): Date {
   return new Date(isoString);
 }
 
+/**
+ * 恢复经过存储或消息传递（JSON 序列化）后推文中的日期字段
+ */
+export function reviveTweetData(raw: unknown): TweetData {
+  const data = raw as TweetData;
+  const tweet: TweetData = { ...data, timestamp: new Date(data.timestamp) };
+  if (data.quotedTweet?.timestamp) {
+    tweet.quotedTweet = { ...data.quotedTweet, timestamp: new Date(data.quotedTweet.timestamp) };
+  }
+  return tweet;
+}
+
 /**
  * 计算两个日期之间的天数差
  */
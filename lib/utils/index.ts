@@ -12,4 +12,5 @@ export * from './memory-manager';
 export * from './error-handler';
 export * from './error-notification';
 export * from './error-recovery';
-export * from './error-cooldown';
\ No newline at end of file
+export * from './error-cooldown';
+export * from './retry-queue';
\ No newline at end of file
@@ -0,0 +1,139 @@
+// 持久化重试队列 - Notion 待同步队列与 Webhook 重试队列共用的存储、退避与调度
+
+/**
+ * 队列条目的公共字段
+ * pending：等待自动重试；failed：不可重试的错误或已达到最大重试次数
+ */
+export interface RetryQueueEntry {
+  id: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export const RETRY_MAX_ATTEMPTS = 8;
+const RETRY_BASE_DELAY = 5000;
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+/** chrome.alarms 的最短间隔，更短的等待用定时器 */
+const MIN_ALARM_DELAY = 30 * 1000;
+
+/**
+ * 指数退避：优先使用 Retry-After（毫秒），否则 5 秒起每次翻倍，加入随机抖动
+ */
+export function getRetryDelay(attempts: number, retryAfter?: number): number {
+  if (retryAfter && retryAfter > 0) {
+    return retryAfter;
+  }
+
+  const delay = Math.min(RETRY_BASE_DELAY * Math.pow(2, attempts - 1), RETRY_MAX_DELAY);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * 新条目的公共字段：可重试时等待下一次尝试，否则直接标记为失败
+ */
+export function createRetryEntry(retryable: boolean, error?: string, retryAfter?: number): RetryQueueEntry {
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    status: retryable ? 'pending' : 'failed',
+    attempts: 1,
+    nextAttemptAt: Date.now() + getRetryDelay(1, retryAfter),
+    lastError: error,
+    createdAt: Date.now()
+  };
+}
+
+/**
+ * 一次失败的重试后更新条目；达到最大次数或不可重试时标记为失败
+ */
+export function advanceRetryEntry<T extends RetryQueueEntry>(item: T, retryable: boolean, error?: string, retryAfter?: number): T {
+  const attempts = item.attempts + 1;
+  return {
+    ...item,
+    attempts,
+    status: attempts >= RETRY_MAX_ATTEMPTS || !retryable ? 'failed' : 'pending',
+    nextAttemptAt: Date.now() + getRetryDelay(attempts, retryAfter),
+    lastError: error
+  };
+}
+
+/**
+ * 队列条目的存储与调度
+ * 所有读-改-写通过 update 串行执行，避免并发写入互相覆盖
+ */
+export class RetryQueueStore<T extends RetryQueueEntry> {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * @param onSaved 每次写入后调用（如更新角标）
+   */
+  constructor(
+    private storageKey: string,
+    private alarmName: string,
+    private onSaved?: (items: T[]) => Promise<void>
+  ) {}
+
+  /**
+   * 闹钟触发时处理队列（后台被回收后由闹钟唤醒）
+   */
+  listen(process: () => void): void {
+    browser.alarms.onAlarm.addListener((alarm) => {
+      if (alarm.name === this.alarmName) {
+        process();
+      }
+    });
+  }
+
+  async getItems(): Promise<T[]> {
+    const result = await browser.storage.local.get(this.storageKey);
+    return (result[this.storageKey] as T[] | undefined) || [];
+  }
+
+  /**
+   * 最早到期的等待中条目
+   */
+  async getDue(): Promise<T | undefined> {
+    return (await this.getItems())
+      .filter(item => item.status === 'pending' && item.nextAttemptAt <= Date.now())
+      .sort((a, b) => a.nextAttemptAt - b.nextAttemptAt)[0];
+  }
+
+  /**
+   * 串行执行读-改-写；change 返回 null 时不写入
+   */
+  update(change: (items: T[]) => T[] | null): Promise<void> {
+    const run = this.writeQueue.then(async () => {
+      const items = change(await this.getItems());
+      if (items) {
+        await browser.storage.local.set({ [this.storageKey]: items });
+        await this.onSaved?.(items);
+      }
+    });
+    this.writeQueue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * 安排下一次处理：短延迟使用定时器，同时设置闹钟以便后台被回收后唤醒
+   */
+  async schedule(process: () => void): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const pending = (await this.getItems()).filter(item => item.status === 'pending');
+    if (pending.length === 0) {
+      await browser.alarms.clear(this.alarmName);
+      return;
+    }
+
+    const nextAt = Math.min(...pending.map(item => item.nextAttemptAt));
+    const delay = Math.max(0, nextAt - Date.now());
+    this.timer = setTimeout(process, delay);
+    browser.alarms.create(this.alarmName, { when: Date.now() + Math.max(delay, MIN_ALARM_DELAY) });
+  }
+}
@@ -1,6 +1,6 @@
 // 存储管理工具函数
 
-import type { ExtensionSettings } from '../types';
+import type { ExtensionSettings, CopyTemplate, TagRule, WebhookEndpoint } from '../types';
 import { DEFAULT_SETTINGS } from '../types';
 import { EXTENSION_CONFIG } from './constants';
 
@@ -50,6 +50,115 @@ export class StorageManager {
     }
   }
 
+  /**
+   * 获取复制历史（原始序列化数据）
+   */
+  async getHistory<T = any>(): Promise<T[]> {
+    try {
+      const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.HISTORY);
+      const history = result[EXTENSION_CONFIG.STORAGE_KEYS.HISTORY];
+      return Array.isArray(history) ? history : [];
+    } catch (error) {
+      console.error('Failed to load history:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存复制历史
+   */
+  async saveHistory<T = any>(entries: T[]): Promise<void> {
+    try {
+      await browser.storage.local.set({
+        [EXTENSION_CONFIG.STORAGE_KEYS.HISTORY]: entries
+      });
+    } catch (error) {
+      console.error('Failed to save history:', error);
+      throw new Error('History save failed');
+    }
+  }
+
+  /**
+   * 获取自定义模板
+   */
+  async getTemplates(): Promise<CopyTemplate[]> {
+    try {
+      const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.TEMPLATES);
+      const templates = result[EXTENSION_CONFIG.STORAGE_KEYS.TEMPLATES];
+      return Array.isArray(templates) ? templates : [];
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存自定义模板
+   */
+  async saveTemplates(templates: CopyTemplate[]): Promise<void> {
+    try {
+      await browser.storage.local.set({
+        [EXTENSION_CONFIG.STORAGE_KEYS.TEMPLATES]: templates
+      });
+    } catch (error) {
+      console.error('Failed to save templates:', error);
+      throw new Error('Templates save failed');
+    }
+  }
+
+  /**
+   * 获取自动标签规则；从未保存过时返回 null
+   */
+  async getTagRules(): Promise<TagRule[] | null> {
+    try {
+      const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.TAG_RULES);
+      const rules = result[EXTENSION_CONFIG.STORAGE_KEYS.TAG_RULES];
+      return Array.isArray(rules) ? rules : null;
+    } catch (error) {
+      console.error('Failed to load tag rules:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 保存自动标签规则；传入 null 时恢复默认规则
+   */
+  async saveTagRules(rules: TagRule[] | null): Promise<void> {
+    try {
+      if (rules) {
+        await browser.storage.local.set({ [EXTENSION_CONFIG.STORAGE_KEYS.TAG_RULES]: rules });
+      } else {
+        await browser.storage.local.remove(EXTENSION_CONFIG.STORAGE_KEYS.TAG_RULES);
+      }
+    } catch (error) {
+      console.error('Failed to save tag rules:', error);
+      throw new Error('Tag rules save failed');
+    }
+  }
+
+  /**
+   * 获取 Webhook 端点
+   */
+  async getWebhooks(): Promise<WebhookEndpoint[]> {
+    try {
+      const result = await browser.storage.local.get(EXTENSION_CONFIG.STORAGE_KEYS.WEBHOOKS);
+      const endpoints = result[EXTENSION_CONFIG.STORAGE_KEYS.WEBHOOKS];
+      return Array.isArray(endpoints) ? endpoints : [];
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
+      return [];
+    }
+  }
+
+  async saveWebhooks(endpoints: WebhookEndpoint[]): Promise<void> {
+    try {
+      await browser.storage.local.set({ [EXTENSION_CONFIG.STORAGE_KEYS.WEBHOOKS]: endpoints });
+    } catch (error) {
+      console.error('Failed to save webhooks:', error);
+      throw new Error('Webhooks save failed');
+    }
+  }
+
   /**
    * 获取缓存数据
    */
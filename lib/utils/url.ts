@@ -218,6 +218,37 @@ export async function expandShortUrl(url: string): Promise<string> {
   }
 }
 
+/**
+ * 是否为 Twitter 的 t.co 短链接
+ */
+export function isTwitterShortUrl(url: string): boolean {
+  try {
+    return new URL(url).hostname === 't.co';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 从链接的显示文本还原完整地址（不访问网络）
+ * 页面只显示截断的地址，但被隐藏的协议与剩余部分仍在 textContent 中，末尾带省略号
+ */
+export function expandDisplayUrl(displayText: string): string | null {
+  const trimmed = displayText.trim();
+  const text = trimmed.replace(/…$/, '');
+  const hasProtocol = /^https?:\/\//i.test(text);
+  if (!/^(https?:\/\/)?[^\s/]+\.[^\s]+$/i.test(text)) {
+    return null;
+  }
+  // 没有隐藏部分时只剩截断的文本，无法还原
+  if (!hasProtocol && trimmed.endsWith('…')) {
+    return null;
+  }
+
+  const url = hasProtocol ? text : `https://${text}`;
+  return isValidUrl(url) ? url : null;
+}
+
 /**
  * 验证 URL 格式
  */
@@ -0,0 +1,7 @@
+// Webhook 模块导出
+
+export * from './webhook-client';
+export * from './webhook-queue';
+
+// 便捷导出
+export { webhookQueue } from './webhook-queue';
@@ -0,0 +1,169 @@
+// Webhook 发送 - 构建请求体、HMAC-SHA256 签名与发送
+
+import type { TweetData, ThreadData, WebhookEndpoint } from '../types';
+import { StructuredDataSerializer } from '../formatters/structured-data';
+import { TemplateEngine } from '../formatters/template-engine';
+import { getRetryDelay } from '../utils/retry-queue';
+
+/**
+ * 发送的内容：单条推文或整个线程
+ */
+export type WebhookSource =
+  | { type: 'tweet'; tweet: TweetData }
+  | { type: 'thread'; thread: ThreadData };
+
+/**
+ * 一次请求的结果；网络错误时 status 为 0
+ */
+export interface WebhookResult {
+  success: boolean;
+  status: number;
+  error?: string;
+  /** 服务端建议的重试等待时间（毫秒） */
+  retryAfter?: number;
+}
+
+export const DEFAULT_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** 允许使用 http 的本机地址，与 wxt.config.ts 中的 optional_host_permissions 一致 */
+const LOCAL_HOSTS = ['localhost', '127.0.0.1'];
+
+/**
+ * Webhook 客户端类
+ */
+export class WebhookClient {
+  /**
+   * 新建端点（未保存）
+   */
+  static createEndpoint(): WebhookEndpoint {
+    return {
+      id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+      name: '',
+      enabled: true,
+      url: '',
+      headers: [],
+      signatureHeader: DEFAULT_SIGNATURE_HEADER
+    };
+  }
+
+  /**
+   * 校验端点，返回错误信息或 null
+   */
+  static validateEndpoint(endpoint: WebhookEndpoint): string | null {
+    try {
+      const url = new URL(endpoint.url);
+      if (!['http:', 'https:'].includes(url.protocol)) {
+        return 'URL must use http or https';
+      }
+      // 可申请的主机权限只覆盖 https 与本机的 http 地址
+      if (url.protocol === 'http:' && !LOCAL_HOSTS.includes(url.hostname)) {
+        return 'Plain http is only allowed for localhost and 127.0.0.1, use https';
+      }
+    } catch {
+      return 'Invalid URL';
+    }
+
+    const invalidHeader = endpoint.headers.find(header => !HEADER_NAME_PATTERN.test(header.name));
+    if (invalidHeader) return `Invalid header name: ${invalidHeader.name}`;
+    if (endpoint.secret && !HEADER_NAME_PATTERN.test(endpoint.signatureHeader)) return 'Invalid signature header name';
+
+    if (endpoint.payloadTemplate?.trim()) {
+      const error = TemplateEngine.validate(endpoint.payloadTemplate);
+      if (error) return error;
+    }
+    return null;
+  }
+
+  /**
+   * 构建请求体：默认为与 JSON 导出格式相同的规范 JSON；
+   * 有模板时以推文模板上下文渲染，另提供 payload（规范 JSON 导出）变量
+   */
+  static buildBody(endpoint: WebhookEndpoint, source: WebhookSource): string {
+    const payload = source.type === 'tweet'
+      ? StructuredDataSerializer.exportTweet(source.tweet)
+      : StructuredDataSerializer.exportThread(source.thread);
+
+    if (!endpoint.payloadTemplate?.trim()) {
+      return JSON.stringify(payload);
+    }
+
+    const context = source.type === 'tweet'
+      ? TemplateEngine.createTweetContext(source.tweet)
+      : TemplateEngine.createThreadContext(source.thread);
+    const body = TemplateEngine.render(endpoint.payloadTemplate, { ...context, payload });
+
+    try {
+      JSON.parse(body);
+    } catch {
+      throw new Error('Payload template did not produce valid JSON');
+    }
+    return body;
+  }
+
+  /**
+   * HMAC-SHA256 签名，返回十六进制摘要
+   */
+  static async sign(secret: string, body: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+    return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 请求头：自定义请求头可覆盖 Content-Type，签名头最后写入
+   */
+  static async buildHeaders(endpoint: WebhookEndpoint, body: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    for (const header of endpoint.headers) {
+      headers[header.name] = header.value;
+    }
+    if (endpoint.secret) {
+      headers[endpoint.signatureHeader || DEFAULT_SIGNATURE_HEADER] = `sha256=${await this.sign(endpoint.secret, body)}`;
+    }
+    return headers;
+  }
+
+  /**
+   * POST 请求体到端点
+   */
+  static async send(endpoint: WebhookEndpoint, body: string): Promise<WebhookResult> {
+    try {
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: await this.buildHeaders(endpoint, body),
+        body
+      });
+
+      if (response.ok) {
+        return { success: true, status: response.status };
+      }
+
+      const retryAfter = Number(response.headers.get('Retry-After'));
+      return {
+        success: false,
+        status: response.status,
+        error: `HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`,
+        retryAfter: retryAfter > 0 ? retryAfter * 1000 : undefined
+      };
+    } catch (error) {
+      return { success: false, status: 0, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * 网络错误、超时、限流与服务端错误可以重试
+   */
+  static isRetryable(result: WebhookResult): boolean {
+    return !result.success && (result.status === 0 || result.status === 408 || result.status === 429 || result.status >= 500);
+  }
+
+  /**
+   * 指数退避：优先使用 Retry-After，否则 5 秒起每次翻倍，加入随机抖动
+   */
+  static getRetryDelay(result: WebhookResult, attempts: number): number {
+    return getRetryDelay(attempts, result.retryAfter);
+  }
+}
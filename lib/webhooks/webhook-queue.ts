@@ -0,0 +1,170 @@
+// Webhook 重试队列 - 失败的发送持久化到本地存储，按指数退避在后台重试
+
+import type { WebhookEndpoint } from '../types';
+import { storageManager } from '../utils/storage';
+import { EXTENSION_CONFIG } from '../utils/constants';
+import { RetryQueueStore, advanceRetryEntry, createRetryEntry, type RetryQueueEntry } from '../utils/retry-queue';
+import { WebhookClient, type WebhookResult, type WebhookSource } from './webhook-client';
+
+/**
+ * 队列中的一次发送；请求体在首次发送时生成，重试时按端点当前配置重新签名
+ */
+export interface WebhookQueueItem extends RetryQueueEntry {
+  endpointId: string;
+  endpointName: string;
+  /** 推文或线程首条推文的地址，用于列表展示 */
+  sourceUrl: string;
+  body: string;
+}
+
+/**
+ * 向一个端点发送的结果
+ */
+export interface WebhookDispatchResult {
+  endpointId: string;
+  endpointName: string;
+  success: boolean;
+  /** 失败后已加入队列等待重试 */
+  queued: boolean;
+  error?: string;
+}
+
+const ALARM_NAME = 'webhook-queue';
+
+/**
+ * Webhook 重试队列类
+ */
+export class WebhookQueue {
+  private static instance: WebhookQueue;
+  private processing = false;
+  private store = new RetryQueueStore<WebhookQueueItem>(EXTENSION_CONFIG.STORAGE_KEYS.WEBHOOK_QUEUE, ALARM_NAME);
+
+  public static getInstance(): WebhookQueue {
+    if (!WebhookQueue.instance) {
+      WebhookQueue.instance = new WebhookQueue();
+    }
+    return WebhookQueue.instance;
+  }
+
+  /**
+   * 在后台启动队列并处理到期的条目
+   */
+  async start(): Promise<void> {
+    this.store.listen(() => this.process());
+    await this.process();
+  }
+
+  async getItems(): Promise<WebhookQueueItem[]> {
+    return this.store.getItems();
+  }
+
+  /**
+   * 发送到指定端点（不指定时为全部启用的端点）；失败的发送进入队列
+   */
+  async dispatch(source: WebhookSource, endpointIds?: string[]): Promise<WebhookDispatchResult[]> {
+    const endpoints = (await storageManager.getWebhooks())
+      .filter(endpoint => endpointIds ? endpointIds.includes(endpoint.id) : endpoint.enabled);
+    if (endpoints.length === 0) {
+      throw new Error('No webhook endpoint configured');
+    }
+
+    const sourceUrl = source.type === 'tweet' ? source.tweet.url : source.thread.tweets[0]?.url || '';
+
+    return Promise.all(endpoints.map(async (endpoint): Promise<WebhookDispatchResult> => {
+      const base = { endpointId: endpoint.id, endpointName: endpoint.name || endpoint.url };
+
+      let body: string;
+      try {
+        body = WebhookClient.buildBody(endpoint, source);
+      } catch (error) {
+        // 模板错误重试也无法成功
+        return { ...base, success: false, queued: false, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      const result = await WebhookClient.send(endpoint, body);
+      if (result.success) {
+        console.log('🔗 已发送到 Webhook:', base.endpointName, sourceUrl);
+        return { ...base, success: true, queued: false };
+      }
+
+      const item = await this.enqueue(endpoint, sourceUrl, body, result);
+      return { ...base, success: false, queued: item.status === 'pending', error: result.error };
+    }));
+  }
+
+  /**
+   * 立即重试；不传 id 时重试全部条目
+   */
+  async retry(id?: string): Promise<void> {
+    await this.store.update(items => items.map(item => (!id || item.id === id)
+      ? { ...item, status: 'pending', nextAttemptAt: Date.now() }
+      : item
+    ));
+    // 不等待处理完成，调用方可立即刷新列表
+    this.process();
+  }
+
+  async discard(id: string): Promise<void> {
+    await this.store.update(items => items.filter(item => item.id !== id));
+  }
+
+  /**
+   * 依次处理到期的条目
+   */
+  async process(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (true) {
+        const due = await this.store.getDue();
+        if (!due) break;
+
+        // 端点可能已被删除或修改，按当前配置发送
+        const endpoint = (await storageManager.getWebhooks()).find(item => item.id === due.endpointId);
+        const result: WebhookResult = endpoint
+          ? await WebhookClient.send(endpoint, due.body)
+          : { success: false, status: -1, error: 'Endpoint removed' };
+
+        await this.applyResult(due, result);
+      }
+    } finally {
+      this.processing = false;
+      await this.store.schedule(() => this.process());
+    }
+  }
+
+  private async enqueue(endpoint: WebhookEndpoint, sourceUrl: string, body: string, result: WebhookResult): Promise<WebhookQueueItem> {
+    const item: WebhookQueueItem = {
+      ...createRetryEntry(WebhookClient.isRetryable(result), result.error, result.retryAfter),
+      endpointId: endpoint.id,
+      endpointName: endpoint.name || endpoint.url,
+      sourceUrl,
+      body
+    };
+
+    await this.store.update(items => [...items, item]);
+    console.log(`🔗 已加入 Webhook 重试队列（${item.status}）:`, item.endpointName, sourceUrl);
+    await this.store.schedule(() => this.process());
+    return item;
+  }
+
+  private async applyResult(item: WebhookQueueItem, result: WebhookResult): Promise<void> {
+    if (result.success) {
+      console.log('🔗 重试发送成功:', item.endpointName, item.sourceUrl);
+    }
+
+    const updated = advanceRetryEntry(item, WebhookClient.isRetryable(result), result.error, result.retryAfter);
+    await this.store.update(items => {
+      // 处理期间条目可能已被丢弃
+      if (!items.some(existing => existing.id === item.id)) return null;
+
+      return result.success
+        ? items.filter(existing => existing.id !== item.id)
+        : items.map(existing => existing.id === item.id ? updated : existing);
+    });
+  }
+}
+
+// 导出单例实例
+export const webhookQueue = WebhookQueue.getInstance();
@@ -1,6 +1,34 @@
 // 扩展特定功能测试套件
 
 import { testRunner, describe, it, Assert, MockHelper } from './test-framework';
+import { TemplateEngine } from '../lib/formatters/template-engine';
+import { expandDisplayUrl } from '../lib/utils/url';
+import { StructuredDataSerializer, TWEET_JSON_SCHEMA_VERSION } from '../lib/formatters/structured-data';
+import { contentFormatter } from '../lib/formatters/content-formatter';
+import { TimelineCollector } from '../lib/content/timeline-collector';
+import { ThreadWalker } from '../lib/parsers/thread-walker';
+import { ConversationParser } from '../lib/parsers/conversation-parser';
+import { RichTextParser } from '../lib/parsers/rich-text-parser';
+import { CardParser } from '../lib/parsers/card-parser';
+import { NotionBlockBuilder, NOTION_LIMITS } from '../lib/notion/block-builder';
+import { NotionPropertyMapper } from '../lib/notion/property-mapping';
+import { NotionOutbox } from '../lib/notion/outbox';
+import { createRetryEntry, advanceRetryEntry, RETRY_MAX_ATTEMPTS } from '../lib/utils/retry-queue';
+import { NotionRouter, RoutingRule } from '../lib/notion/routing';
+import { NotionAnnotations } from '../lib/notion/annotations';
+import { NotionClient } from '../lib/notion/client';
+import { NotionCollection } from '../lib/notion/collection';
+import { NotionOAuth } from '../lib/notion/oauth';
+import { TweetExtractor } from '../lib/notion/tweet-extractor';
+import { TagRuleEngine, DEFAULT_TAG_RULES } from '../lib/tagging/tag-rule-engine';
+import { WebhookClient, type WebhookSource } from '../lib/webhooks/webhook-client';
+import { webhookQueue } from '../lib/webhooks/webhook-queue';
+import { DestinationRegistry } from '../lib/destinations/registry';
+import { FileDestination } from '../lib/destinations/file-destination';
+import { NotionDestination } from '../lib/destinations/notion-destination';
+import { webhookDestination } from '../lib/destinations/webhook-destination';
+import type { Destination, DestinationPayload } from '../lib/destinations/destination';
+import type { RichTextToken, TagRule } from '../lib/types';
 
 // Twitter 内容解析测试
 const twitterParsingTests = describe('Twitter Content Parsing', () => [
@@ -161,6 +189,203 @@ const twitterParsingTests = describe('Twitter Content Parsing', () => [
     Assert.arrayLength(Array.from(tweetElements), 3);
     Assert.stringContains(tweetElements[0].textContent, '1/3');
 Assert.stringContains(tweetElements[2].textContent, '3/3');
+  }),
+
+  it('should classify timeline tweets against the collection date range', async () => {
+    const tweet = createTemplateTweet();
+    const range = { since: new Date(2024, 0, 10), until: new Date(2024, 0, 20) };
+
+    Assert.equals(TimelineCollector.matchDateRange(tweet, range), 'in-range');
+    Assert.equals(TimelineCollector.matchDateRange(tweet, { since: new Date(2024, 1, 1) }), 'older');
+    Assert.equals(TimelineCollector.matchDateRange(tweet, { until: new Date(2024, 0, 1) }), 'newer');
+    Assert.equals(TimelineCollector.matchDateRange({ ...tweet, timestamp: 'invalid' }, range), 'in-range');
+  }),
+
+  it('should follow the self-reply chain and report missing positions', async () => {
+    const tweet = (id: string, username: string = 'author', content: string = 'text'): any => ({
+      ...createTemplateTweet(), id, content, author: { username, displayName: username }
+    });
+    const cells: any[] = [
+      { kind: 'tweet', offset: 0, tweet: tweet('10', 'someone') },
+      { kind: 'tweet', offset: 100, tweet: tweet('11') },
+      { kind: 'unavailable', offset: 200 },
+      { kind: 'tweet', offset: 300, tweet: tweet('13') },
+      { kind: 'tweet', offset: 400, tweet: tweet('14', 'author', 'more below 4/6') },
+      { kind: 'separator', offset: 500 },
+      { kind: 'tweet', offset: 600, tweet: tweet('20', 'author') }
+    ];
+
+    const chain = ThreadWalker.extractReplyChain(cells, '13', 'author');
+    Assert.deepEquals(chain.slots.map(slot => slot?.id ?? null), ['11', null, '13', '14']);
+    Assert.isTrue(chain.reachedStart);
+    Assert.isTrue(chain.reachedEnd);
+    Assert.deepEquals(ThreadWalker.findMissingPositions(chain.slots), [2, 5, 6]);
+
+    const merged = ThreadWalker.mergeSlots(chain.slots, [tweet('13'), tweet('14'), tweet('15')]);
+    Assert.deepEquals(merged.map(slot => slot?.id ?? null), ['11', null, '13', '14', '15']);
+  }),
+
+  it('should rebuild the reply tree and filter by author and likes', async () => {
+    const tweet = (id: string, username: string, likes: number = 0): any => ({
+      ...createTemplateTweet(), id, author: { username, displayName: username },
+      metrics: { likes, retweets: 0, replies: 0 }
+    });
+    const cells: any[] = [
+      { kind: 'tweet', offset: 0, tweet: tweet('1', 'op') },
+      { kind: 'tweet', offset: 100, tweet: tweet('2', 'alice', 5) },
+      { kind: 'tweet', offset: 200, tweet: tweet('3', 'op') },
+      { kind: 'separator', offset: 300 },
+      { kind: 'tweet', offset: 400, tweet: tweet('4', 'bob', 50) },
+      { kind: 'show-replies', offset: 500 },
+      { kind: 'end', offset: 600 },
+      { kind: 'tweet', offset: 700, tweet: tweet('99', 'promoted') }
+    ];
+
+    const conversation = ConversationParser.buildTree(cells, '1')!;
+    Assert.equals(conversation.totalCount, 4);
+    Assert.deepEquals(conversation.participants, ['op', 'alice', 'bob']);
+    Assert.deepEquals(conversation.root.replies.map(node => node.tweet.id), ['2', '4']);
+    Assert.equals(conversation.root.replies[0].replies[0].parentId, '2');
+    Assert.equals(conversation.root.replies[0].replies[0].depth, 2);
+    Assert.isTrue(conversation.root.replies[1].hasMoreReplies === true);
+    Assert.isFalse(conversation.isComplete);
+
+    const opOnly = ConversationParser.applyFilter(conversation, { opOnly: true });
+    Assert.deepEquals(ConversationParser.flatten(opOnly).map(node => node.tweet.id), ['1', '2', '3']);
+
+    const top = ConversationParser.applyFilter(conversation, { topReplies: 1 });
+    Assert.deepEquals(ConversationParser.flatten(top).map(node => node.tweet.id), ['1', '4']);
+
+    const markdown = contentFormatter.formatConversation(conversation, {
+      format: 'markdown', includeAuthor: true, includeTimestamp: false, includeMetrics: false, includeMedia: false, includeLink: false
+    });
+    Assert.stringContains(markdown, '\n    - **op**');
+  }),
+
+  it('should tokenize tweet text into links, mentions, tags and emoji', async () => {
+    const doc = MockHelper.mockDOM('<html><body><div data-testid="tweetText">'
+      + '<span>Read </span><a href="https://t.co/abc"><span>https://</span>example.com/pa<span>th/long</span><span>…</span></a>'
+      + '<span> by </span><a href="/jack">@jack</a><span> </span><a href="/hashtag/news?src=hashtag_click">#news</a>'
+      + '<span> </span><a href="/search?q=%24TSLA&amp;src=cashtag_click">$TSLA</a>'
+      + '<img alt="🚀" src="https://abs.twimg.com/emoji/v2/svg/1f680.svg"><span>\nsecond line </span>'
+      + '</div></body></html>');
+    const tokens = RichTextParser.parse(doc.querySelector('[data-testid="tweetText"]'));
+
+    Assert.deepEquals(tokens.map(token => token.type), [
+      'text', 'link', 'text', 'mention', 'text', 'hashtag', 'text', 'cashtag', 'emoji', 'linebreak', 'text'
+    ]);
+    Assert.deepEquals(tokens[1], {
+      type: 'link', text: 'https://example.com/path/long', href: 'https://t.co/abc', expandedUrl: 'https://example.com/path/long'
+    });
+    Assert.equals(tokens[3].href, 'https://x.com/jack');
+    Assert.equals(tokens[5].href, 'https://x.com/hashtag/news?src=hashtag_click');
+    Assert.equals(tokens[8].text, '🚀');
+    Assert.equals(RichTextParser.toPlainText(tokens), 'Read https://example.com/path/long by @jack #news $TSLA🚀\nsecond line');
+  }),
+
+  it('should keep underscore handles and tags intact in Markdown without rich text', async () => {
+    const tweet = { ...createTemplateTweet(), quotedTweet: undefined, media: [], content: 'ask @jack_b about #a_b *now*' };
+    const options = { includeAuthor: false, includeTimestamp: false, includeMetrics: false, includeMedia: false, includeLink: false };
+
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'obsidian' }), 'ask [[@jack_b]] about #a_b \\*now\\*');
+    Assert.equals(contentFormatter.formatTweet(tweet, { ...options, format: 'markdown' }),
+      'ask [@jack\\_b](https://x.com/jack_b) about [#a\\_b](https://x.com/hashtag/a_b) \\*now\\*');
+  }),
+
+  it('should render rich text tokens in every format', async () => {
+    const tweet = {
+      ...createTemplateTweet(),
+      content: 'see docs by @jack_b #a_b',
+      richText: [
+        { type: 'text', text: 'see ' },
+        { type: 'link', text: 'docs', href: 'https://t.co/x' },
+        { type: 'text', text: ' by ' },
+        { type: 'mention', text: '@jack_b', href: 'https://x.com/jack_b' },
+        { type: 'linebreak', text: '\n' },
+        { type: 'hashtag', text: '#a_b', href: 'https://x.com/hashtag/a_b' }
+      ] as RichTextToken[]
+    };
+    const options = { includeAuthor: false, includeTimestamp: false, includeMetrics: false, includeMedia: false, includeLink: false };
+
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'markdown' }),
+      'see [docs](https://t.co/x) by [@jack\\_b](https://x.com/jack_b)\n[#a\\_b](https://x.com/hashtag/a_b)');
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'obsidian' }), 'by [[@jack_b]]\n#a_b');
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'text' }), 'see docs (https://t.co/x) by @jack_b\n#a_b');
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'html' }), '>docs</a> by <a href="https://x.com/jack_b"');
+
+    const blocks = NotionBlockBuilder.buildTweetBlocks({ ...TweetExtractor.fromParsedTweet(tweet), media: { hasImages: false, hasVideo: false, hasLinks: false } });
+    const richText = blocks[0].paragraph.rich_text;
+    Assert.deepEquals(richText.map((item: any) => item.text.link?.url ?? null), [null, 'https://t.co/x', null, 'https://x.com/jack_b', null, 'https://x.com/hashtag/a_b']);
+  }),
+
+  it('should resolve t.co links offline and keep them on request', async () => {
+    Assert.equals(expandDisplayUrl('https://example.com/very-long-path…'), 'https://example.com/very-long-path');
+    Assert.equals(expandDisplayUrl('example.com/very-long…'), null);
+    Assert.equals(expandDisplayUrl('read more'), null);
+
+    const doc = MockHelper.mockDOM('<html><body><article>'
+      + '<div data-testid="tweetText"><a href="https://t.co/a" title="https://docs.example.com/guide">the guide</a>'
+      + '<span> and </span><a href="https://t.co/b">news.example.org/st…</a></div>'
+      + '<div data-testid="card.wrapper"><a href="https://news.example.org/story?id=1"><span>news.example.org</span></a></div>'
+      + '</article></body></html>');
+    const article = doc.querySelector('article')!;
+    const tokens = RichTextParser.parse(article.querySelector('[data-testid="tweetText"]'), RichTextParser.findCardUrl(article));
+    Assert.equals(tokens[0].expandedUrl, 'https://docs.example.com/guide');
+    Assert.equals(tokens[2].expandedUrl, 'https://news.example.org/story?id=1');
+
+    const tweet = { ...createTemplateTweet(), quotedTweet: undefined, content: 'the guide and news.example.org/st', richText: tokens };
+    const options = { includeAuthor: false, includeTimestamp: false, includeMetrics: false, includeMedia: false, includeLink: false };
+    Assert.equals(contentFormatter.formatTweet(tweet, { ...options, format: 'markdown' }),
+      '[the guide](https://docs.example.com/guide) and [https://news.example.org/story?id=1](https://news.example.org/story?id=1)');
+    Assert.equals(contentFormatter.formatTweet(tweet, { ...options, format: 'text', keepShortLinks: true }),
+      'the guide (https://t.co/a) and https://t.co/b');
+
+    const record = TweetExtractor.withShortLinks(TweetExtractor.fromParsedTweet(tweet));
+    Assert.equals(NotionBlockBuilder.buildRichText(record.content, undefined, record.richText)[0].text.link?.url, 'https://t.co/a');
+  }),
+
+  it('should parse link cards and render them in every format', async () => {
+    const doc = MockHelper.mockDOM('<html><body><article>'
+      + '<div data-testid="tweetText"><span>Worth a read </span><a href="https://t.co/c">example.com/post</a></div>'
+      + '<div data-testid="card.wrapper">'
+      + '<div data-testid="card.layoutSmall.media"><a href="https://t.co/c"><img src="https://pbs.twimg.com/card_img/1/thumb.jpg"></a></div>'
+      + '<div data-testid="card.layoutSmall.detail"><a href="https://t.co/c"><div><span>example.com</span></div><div><span>A Post</span></div><div><span>About things</span></div></a></div>'
+      + '</div></article></body></html>');
+    const article = doc.querySelector('article')!;
+    const richText = RichTextParser.parse(article.querySelector('[data-testid="tweetText"]'));
+    const card = CardParser.parse(article.querySelector('[data-testid="card.wrapper"]'), richText)!;
+    Assert.deepEquals(card, {
+      type: 'summary',
+      url: 'https://example.com/post',
+      title: 'A Post',
+      description: 'About things',
+      domain: 'example.com',
+      thumbnail: 'https://pbs.twimg.com/card_img/1/thumb.jpg'
+    });
+    Assert.isTrue(CardParser.parse(null) === null);
+
+    const tweet = { ...createTemplateTweet(), quotedTweet: undefined, media: [], content: 'Worth a read https://example.com/post', richText, card };
+    const options = { includeAuthor: false, includeTimestamp: false, includeMetrics: false, includeMedia: false, includeLink: false };
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'markdown' }),
+      '> 🔗 **[A Post](https://example.com/post)**\n> About things\n> *example.com*');
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'obsidian' }), '> [!info] 🔗 [A Post](https://example.com/post)');
+    Assert.stringContains(contentFormatter.formatTweet(tweet, { ...options, format: 'text' }), '🔗 A Post\nAbout things\nhttps://example.com/post');
+    const html = contentFormatter.formatTweet(tweet, { ...options, format: 'html', includeMedia: true });
+    Assert.stringContains(html, 'class="tweet-card-title"');
+    Assert.stringContains(html, 'src="https://pbs.twimg.com/card_img/1/thumb.jpg"');
+    Assert.equals(StructuredDataSerializer.serializeTweet(tweet).card?.thumbnailUrl, 'https://pbs.twimg.com/card_img/1/thumb.jpg');
+    Assert.equals(StructuredDataSerializer.tweetToJSONLD(tweet).citation.name, 'A Post');
+
+    const record = TweetExtractor.fromParsedTweet(tweet);
+    const bookmark = NotionBlockBuilder.buildTweetBlocks(record).find(block => block.type === 'bookmark');
+    Assert.equals(bookmark?.bookmark.url, 'https://example.com/post');
+    const database: any = { id: 'db', properties: { Name: { type: 'title' }, 'Shared Link': { type: 'url' }, 'Link Title': { type: 'rich_text' } } };
+    const mapping = NotionPropertyMapper.suggestMapping(database);
+    Assert.equals(mapping.title, 'Name');
+    Assert.isTrue(mapping.url === undefined);
+    const properties = NotionPropertyMapper.buildProperties(record, mapping, database);
+    Assert.equals(properties['Shared Link'].url, 'https://example.com/post');
+    Assert.equals(properties['Link Title'].rich_text[0].text.content, 'A Post');
   })
 ]);
 
@@ -246,6 +471,310 @@ author: 'Empty User',
   })
 ]);
 
+// 自定义模板测试
+const templateTests = describe('Copy Templates', () => [
+  it('should render nested fields and date filters', async () => {
+    const context = TemplateEngine.createTweetContext(createTemplateTweet());
+    const output = TemplateEngine.render('{{author.displayName}} · {{timestamp|date:"YYYY-MM-DD"}}', context);
+
+    Assert.equals(output, 'Template User · 2024-01-15');
+  }),
+
+  it('should iterate media with loop variables', async () => {
+    const context = TemplateEngine.createTweetContext(createTemplateTweet());
+    const output = TemplateEngine.render('{{#each media}}[{{@number}}:{{url}}]{{/each}}', context);
+
+    Assert.equals(output, '[1:https://example.com/a.jpg][2:https://example.com/b.mp4]');
+  }),
+
+  it('should render if/else blocks', async () => {
+    const tweet = createTemplateTweet();
+    const template = '{{#if quotedTweet}}Q: {{quotedTweet.content}}{{else}}none{{/if}}';
+
+    Assert.equals(TemplateEngine.render(template, TemplateEngine.createTweetContext(tweet)), 'Q: Quoted text');
+    Assert.equals(TemplateEngine.render(template, TemplateEngine.createTweetContext({ ...tweet, quotedTweet: undefined })), 'none');
+  }),
+
+  it('should escape variables for HTML output unless raw', async () => {
+    const context = { content: '<b>bold</b>' };
+
+    Assert.equals(TemplateEngine.render('{{content}}', context, { escapeHTML: true }), '&lt;b&gt;bold&lt;/b&gt;');
+    Assert.equals(TemplateEngine.render('{{content|raw}}', context, { escapeHTML: true }), '<b>bold</b>');
+  }),
+
+  it('should report syntax errors', async () => {
+    Assert.notNull(TemplateEngine.validate('{{#each media}}unclosed'));
+    Assert.notNull(TemplateEngine.validate('{{content|unknown}}'));
+    Assert.equals(TemplateEngine.validate('{{content}}'), null);
+  })
+]);
+
+// 自动标签规则测试
+const taggingTests = describe('Auto Tagging', () => [
+  it('should merge tags and take the category of the highest-priority rule', async () => {
+    const result = TagRuleEngine.evaluate(DEFAULT_TAG_RULES, TagRuleEngine.fromText('新的 AI 编程教程'));
+
+    Assert.deepEquals(result.tags, ['AI', '技术', '学习']);
+    Assert.equals(result.category, '技术');
+    Assert.equals(result.matchedRuleIds[0], 'default-ai');
+  }),
+
+  it('should match regex, hashtag, author, domain and media rules', async () => {
+    const rule = (matcher: TagRule['matcher'], pattern: string): TagRule => ({
+      id: matcher, name: matcher, enabled: true, matcher, pattern, tags: [matcher], priority: 0
+    });
+    const input = TagRuleEngine.fromText('Released v2.1 #RustLang https://www.github.com/org/repo', '@Dev', ['video']);
+
+    Assert.isTrue(TagRuleEngine.matches(rule('regex', '/\\bv\\d+\\.\\d+/'), input));
+    Assert.isTrue(TagRuleEngine.matches(rule('hashtag', '#rustlang'), input));
+    Assert.isTrue(TagRuleEngine.matches(rule('author', 'dev'), input));
+    Assert.isTrue(TagRuleEngine.matches(rule('domain', 'github.com'), input));
+    Assert.isTrue(TagRuleEngine.matches(rule('media', 'any'), input));
+    Assert.isFalse(TagRuleEngine.matches(rule('media', 'image'), input));
+    Assert.isFalse(TagRuleEngine.matches(rule('keyword', ' , '), input));
+  }),
+
+  it('should reject rules with an invalid regex or no output', async () => {
+    const base: TagRule = { id: 'r', name: 'r', enabled: true, matcher: 'regex', pattern: '(', tags: ['x'], priority: 0 };
+
+    Assert.notNull(TagRuleEngine.validateRule(base));
+    Assert.notNull(TagRuleEngine.validateRule({ ...base, pattern: 'ok', tags: [] }));
+    Assert.equals(TagRuleEngine.validateRule({ ...base, pattern: 'ok' }), null);
+  })
+]);
+
+// Webhook 测试
+const webhookTests = describe('Webhooks', () => [
+  it('should send the JSON export by default and render payload templates', async () => {
+    const tweet = createTemplateTweet();
+    const endpoint = { ...WebhookClient.createEndpoint(), url: 'http://localhost:8787/hook' };
+
+    const body = JSON.parse(WebhookClient.buildBody(endpoint, { type: 'tweet', tweet }));
+    const expected: any = StructuredDataSerializer.exportTweet(tweet);
+    Assert.equals(body.type, 'tweet');
+    Assert.deepEquals(body.tweet, expected.tweet);
+
+    const templated = { ...endpoint, payloadTemplate: '{"text": {{content|json}}, "likes": {{likes}}, "id": {{payload.tweet.id|json}}}' };
+    Assert.deepEquals(JSON.parse(WebhookClient.buildBody(templated, { type: 'tweet', tweet })), { text: 'Template content', likes: 1, id: '1' });
+
+    const thread = { id: '1', tweets: [tweet], totalCount: 1, author: tweet.author, createdAt: tweet.timestamp, isComplete: true };
+    Assert.equals(JSON.parse(WebhookClient.buildBody(endpoint, { type: 'thread', thread })).thread.tweetCount, 1);
+
+    Assert.throws(() => WebhookClient.buildBody({ ...endpoint, payloadTemplate: '{"text": {{content}}}' }, { type: 'tweet', tweet }), 'valid JSON');
+  }),
+
+  it('should sign requests and classify failures from a stand-in server', async () => {
+    Assert.equals(
+      await WebhookClient.sign('key', 'The quick brown fox jumps over the lazy dog'),
+      'f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8'
+    );
+
+    const endpoint = {
+      ...WebhookClient.createEndpoint(),
+      url: 'http://localhost:8787/hook',
+      headers: [{ name: 'Authorization', value: 'Bearer abc' }],
+      secret: 'key'
+    };
+    Assert.isTrue(WebhookClient.validateEndpoint(endpoint) === null);
+    Assert.isTrue(WebhookClient.validateEndpoint({ ...endpoint, url: 'ftp://example.com' }) !== null);
+    Assert.isTrue(WebhookClient.validateEndpoint({ ...endpoint, url: 'http://192.168.1.10/hook' }) !== null);
+    Assert.isTrue(WebhookClient.validateEndpoint({ ...endpoint, url: 'http://localhost:8080/hook' }) === null);
+
+    const requests: Array<{ url: string; init: RequestInit }> = [];
+    const responses = [new Response('', { status: 200 }), new Response('', { status: 503, headers: { 'Retry-After': '7' } }), new Response('', { status: 400 })];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return responses.shift()!;
+    }) as typeof fetch;
+
+    try {
+      const ok = await WebhookClient.send(endpoint, 'The quick brown fox jumps over the lazy dog');
+      const headers = requests[0].init.headers as Record<string, string>;
+      Assert.isTrue(ok.success);
+      Assert.equals(requests[0].init.method, 'POST');
+      Assert.equals(headers['Authorization'], 'Bearer abc');
+      Assert.equals(headers['Content-Type'], 'application/json');
+      Assert.equals(headers['X-Webhook-Signature'], 'sha256=f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8');
+
+      const unavailable = await WebhookClient.send(endpoint, '{}');
+      Assert.isTrue(WebhookClient.isRetryable(unavailable));
+      Assert.equals(WebhookClient.getRetryDelay(unavailable, 1), 7000);
+
+      const rejected = await WebhookClient.send(endpoint, '{}');
+      Assert.isFalse(WebhookClient.isRetryable(rejected));
+      Assert.isTrue(WebhookClient.isRetryable({ success: false, status: 0, error: 'Failed to fetch' }));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  })
+]);
+
+// 保存目标测试
+const destinationTests = describe('Destinations', () => [
+  it('should dispatch by id, apply schema defaults and revive payload dates', async () => {
+    const saved: DestinationPayload[] = [];
+    const destination: Destination = {
+      id: 'memory',
+      name: 'Memory',
+      icon: '<path d="M4 4h16v16H4z"/>',
+      configSchema: [
+        { key: 'folder', label: 'Folder', type: 'text', required: true, defaultValue: 'inbox' },
+        { key: 'mode', label: 'Mode', type: 'select', options: [{ value: 'a', label: 'A' }, { value: 'b', label: 'B' }] }
+      ],
+      getConfig: async () => ({ mode: 'a' }),
+      isConfigured: async () => true,
+      connect: async () => ({ success: true }),
+      test: async () => ({ success: true }),
+      save: async (payload) => {
+        saved.push(payload);
+        return { success: true, action: 'created' };
+      },
+      exists: async (urls) => ({ [urls[0]]: { id: 'page-1' } }),
+      batchSave: async (payloads) => payloads.map(() => ({ success: true })),
+      handleMessage: (message) => message.type === 'MEMORY_PING' ? Promise.resolve({ pong: true }) : undefined
+    };
+
+    const registry = new DestinationRegistry();
+    registry.register(destination);
+    Assert.throws(() => registry.register(destination), 'already registered');
+    Assert.throws(() => registry.get('missing'), 'Unknown destination');
+
+    const [descriptor] = await registry.describe();
+    Assert.equals(descriptor.id, 'memory');
+    Assert.isTrue(descriptor.configured);
+    Assert.deepEquals(await registry.getConfig('memory'), { mode: 'a', folder: 'inbox' });
+
+    Assert.isFalse((await registry.connect('memory', { folder: '' })).success);
+    Assert.isFalse((await registry.connect('memory', { folder: 'x', mode: 'c' })).success);
+    Assert.isTrue((await registry.connect('memory', { folder: 'x', mode: 'b' })).success);
+
+    // 经过消息传递的推文日期为字符串
+    const tweet = JSON.parse(JSON.stringify(createTemplateTweet()));
+    Assert.equals((await registry.save('memory', { tweet })).action, 'created');
+    Assert.isInstanceOf(saved[0].tweet.timestamp, Date);
+    Assert.deepEquals(await registry.exists('memory', [tweet.url]), { [tweet.url]: { id: 'page-1' } });
+
+    const thread = JSON.parse(JSON.stringify({ id: 't', tweets: [tweet, tweet], totalCount: 2, author: tweet.author, createdAt: new Date(), isComplete: true }));
+    await registry.save('memory', { tweet, thread });
+    Assert.isInstanceOf(saved[1].thread?.tweets[1].timestamp, Date);
+    Assert.isInstanceOf(saved[1].thread?.createdAt, Date);
+
+    Assert.deepEquals(await registry.handleMessage({ type: 'MEMORY_PING' }), { pong: true });
+    Assert.equals(registry.handleMessage({ type: 'UNKNOWN' }), undefined);
+  }),
+
+  it('should build Notion records from parsed tweets and page options', async () => {
+    const destination = new NotionDestination();
+    const tweet = { ...createTemplateTweet(), quotedTweet: undefined, isReply: true };
+
+    const record = await destination.buildRecord({ tweet }, { tags: ['read'], category: '学习' });
+    Assert.equals(record?.type, '回复');
+    Assert.equals(record?.url, tweet.url);
+    Assert.deepEquals(record?.tags, ['read']);
+    Assert.equals(record?.category, '学习');
+
+    const second = { ...tweet, id: '3', content: 'Second part', url: 'https://x.com/templateuser/status/3' };
+    const thread = { id: 't', tweets: [tweet, second], totalCount: 2, author: tweet.author, createdAt: new Date(), isComplete: true };
+    const threadRecord = await destination.buildRecord({ tweet, thread });
+    Assert.equals(threadRecord?.thread?.length, 2);
+    Assert.equals(threadRecord?.content, 'Template content\n\nSecond part');
+    Assert.isTrue(Array.isArray(threadRecord?.tags));
+  }),
+
+  it('should build local files in the configured format and folder', async () => {
+    const tweet = createTemplateTweet();
+
+    const markdown = FileDestination.buildFile(tweet, { enabled: true, folder: 'Saves/推文', format: 'markdown' });
+    Assert.equals(markdown.filename, 'Saves/推文/templateuser_1.md');
+    Assert.equals(markdown.mimeType, 'text/markdown');
+    Assert.isTrue(markdown.content.includes('Template content'));
+
+    const json = FileDestination.buildFile(tweet, { enabled: true, folder: 'Saves', format: 'json' });
+    Assert.equals(json.filename, 'Saves/templateuser_1.json');
+    Assert.equals(JSON.parse(json.content).tweet.id, '1');
+
+    Assert.equals(FileDestination.sanitizeFolder('../a:b//c?/'), 'a_b/c_');
+    Assert.equals(FileDestination.buildFile(tweet, { enabled: true, folder: '..', format: 'text' }).filename, 'twitter-saves/templateuser_1.txt');
+  }),
+
+  it('should send whole threads to webhooks when the payload has one', async () => {
+    const tweet = createTemplateTweet();
+    const thread = { id: 't', tweets: [tweet], totalCount: 1, author: tweet.author, createdAt: new Date(), isComplete: true };
+    const sources: WebhookSource[] = [];
+    const originalDispatch = webhookQueue.dispatch;
+    webhookQueue.dispatch = async (source) => {
+      sources.push(source);
+      return [{ endpointId: 'e', endpointName: 'Hook', success: true, queued: false }];
+    };
+
+    try {
+      Assert.isTrue((await webhookDestination.save({ tweet })).success);
+      Assert.isTrue((await webhookDestination.save({ tweet, thread })).success);
+      Assert.equals(sources[0].type, 'tweet');
+      Assert.equals(sources[1].type, 'thread');
+      Assert.equals(sources[1].type === 'thread' ? sources[1].thread.id : '', 't');
+    } finally {
+      webhookQueue.dispatch = originalDispatch;
+    }
+  })
+]);
+
+// 结构化数据导出测试
+const structuredDataTests = describe('Structured Data Export', () => [
+  it('should export versioned JSON with ISO dates', async () => {
+    const exported = StructuredDataSerializer.exportTweet(createTemplateTweet());
+
+    Assert.equals(exported.schemaVersion, TWEET_JSON_SCHEMA_VERSION);
+    Assert.equals(exported.type, 'tweet');
+    if (exported.type !== 'tweet') return;
+    Assert.equals(exported.tweet.createdAt, new Date(2024, 0, 15, 10, 30).toISOString());
+    Assert.equals(exported.tweet.media.length, 2);
+    Assert.equals(exported.tweet.quotedTweet?.createdAt, null);
+    Assert.equals(exported.tweet.thread, null);
+  }),
+
+  it('should build a schema.org SocialMediaPosting', async () => {
+    const jsonld = StructuredDataSerializer.tweetToJSONLD(createTemplateTweet());
+
+    Assert.equals(jsonld['@context'], 'https://schema.org');
+    Assert.equals(jsonld['@type'], 'SocialMediaPosting');
+    Assert.equals(jsonld.author.alternateName, '@templateuser');
+    Assert.equals(jsonld.image.length, 1);
+    Assert.equals(jsonld.video.length, 1);
+    Assert.equals(jsonld.sharedContent.identifier, '2');
+    Assert.equals(jsonld.interactionStatistic[0].userInteractionCount, 1);
+  }),
+
+  it('should list thread tweets as parts of the first posting', async () => {
+    const tweet = createTemplateTweet();
+    const thread = {
+      id: '1',
+      tweets: [tweet, { ...tweet, id: '3', url: 'https://x.com/templateuser/status/3', threadPosition: 2 }],
+      totalCount: 2,
+      author: tweet.author,
+      createdAt: tweet.timestamp,
+      isComplete: true
+    };
+    const jsonld = StructuredDataSerializer.threadToJSONLD(thread);
+
+    Assert.equals(jsonld.hasPart.length, 1);
+    Assert.equals(jsonld.hasPart[0].position, 2);
+    Assert.equals(jsonld.hasPart[0].isPartOf['@id'], tweet.url);
+  }),
+
+  it('should combine selected tweets into one collection', async () => {
+    const tweets = [createTemplateTweet(), { ...createTemplateTweet(), id: '3' }];
+    const options = { format: 'json' as const, includeAuthor: true, includeTimestamp: true, includeMetrics: false, includeMedia: true, includeLink: true };
+    const exported = JSON.parse(contentFormatter.formatTweetCollection(tweets, options));
+
+    Assert.equals(exported.type, 'collection');
+    Assert.equals(exported.tweets.length, 2);
+    Assert.equals(exported.tweets[1].id, '3');
+    Assert.stringContains(contentFormatter.formatTweetCollection(tweets, { ...options, format: 'markdown' }), '---');
+  })
+]);
+
 // 剪贴板功能测试
 const clipboardTests = describe('Clipboard Operations', () => [
   it('should detect clipboard API availability', async () => {
@@ -389,6 +918,371 @@ const storageTests = describe('Storage and Settings', () => [
   })
 ]);
 
+// Notion 同步测试
+const notionTests = describe('Notion Sync', () => [
+  it('should build page blocks within Notion limits', async () => {
+    const tweet: any = {
+      id: '1',
+      url: 'https://x.com/author/status/1',
+      content: `Intro by @friend see example.com/a…\n\n${'x'.repeat(4500)}`,
+      textLinks: [{ text: 'example.com/a…', url: 'https://t.co/abc' }],
+      author: 'Author',
+      username: 'author',
+      publishTime: '2024-01-15T10:30:00.000Z',
+      type: '引用推文',
+      media: {
+        hasImages: true,
+        hasVideo: true,
+        hasLinks: false,
+        assets: [
+          { type: 'image', url: 'https://pbs.twimg.com/media/a.jpg', alt: 'Alt' },
+          { type: 'video', url: 'blob:https://x.com/123' },
+          { type: 'video', url: 'https://video.twimg.com/a.mp4' }
+        ]
+      },
+      quotedTweet: { url: 'https://x.com/q/status/2', content: 'Quoted', author: 'Q', username: 'q' },
+      stats: { likes: 0, retweets: 0, replies: 0 },
+      savedAt: '2024-01-15T10:30:00.000Z'
+    };
+
+    const blocks = NotionBlockBuilder.buildPageBlocks(tweet);
+    Assert.deepEquals(blocks.map(block => block.type), ['paragraph', 'paragraph', 'image', 'embed', 'video', 'quote']);
+
+    const intro = blocks[0].paragraph.rich_text;
+    Assert.equals(intro.find((item: any) => item.text.content === '@friend').text.link.url, 'https://x.com/friend');
+    Assert.equals(intro.find((item: any) => item.text.content === 'example.com/a…').text.link.url, 'https://t.co/abc');
+    Assert.isTrue(blocks[1].paragraph.rich_text.every((item: any) => item.text.content.length <= NOTION_LIMITS.RICH_TEXT_LENGTH));
+    Assert.arrayLength(blocks[1].paragraph.rich_text, 3);
+
+    const threadBlocks = NotionBlockBuilder.buildPageBlocks({ ...tweet, thread: [tweet, { ...tweet, id: '3' }] });
+    Assert.equals(threadBlocks.filter(block => block.type === 'heading_3').length, 2);
+    Assert.arrayLength(NotionBlockBuilder.chunkBlocks(new Array(250).fill(blocks[0])), 3);
+
+    // 追加的新版本以分隔线和保存时间标题开头
+    const versionBlocks = NotionBlockBuilder.buildVersionBlocks({ ...tweet, savedAt: '2024-05-01T08:30:00.000Z' });
+    Assert.deepEquals(versionBlocks.slice(0, 3).map(block => block.type), ['divider', 'heading_3', 'paragraph']);
+    Assert.equals(versionBlocks[1].heading_3.rich_text[0].text.content, '🔄 2024-05-01 08:30');
+    Assert.equals(versionBlocks.length, blocks.length + 2);
+  }),
+
+  it('should map tweet fields onto a custom database schema', async () => {
+    const database: any = {
+      id: 'db',
+      properties: {
+        Name: { type: 'title' },
+        Link: { type: 'rich_text' },
+        Author: { type: 'select' },
+        Likes: { type: 'number' },
+        Topics: { type: 'multi_select' },
+        Images: { type: 'files' },
+        'Has Media': { type: 'checkbox' },
+        Created: { type: 'created_time' }
+      }
+    };
+    const tweet: any = {
+      id: '1',
+      url: 'https://x.com/author/status/1',
+      content: 'Hello, world',
+      author: 'Author',
+      username: 'author',
+      publishTime: '2024-01-15T10:30:00.000Z',
+      type: '原创推文',
+      media: { hasImages: true, hasVideo: false, hasLinks: false, assets: [{ type: 'image', url: 'https://pbs.twimg.com/media/a.jpg' }] },
+      stats: { likes: 42, retweets: 0, replies: 0 },
+      tags: ['a,b', 'c'],
+      savedAt: '2024-01-15T10:30:00.000Z'
+    };
+
+    const suggested = NotionPropertyMapper.suggestMapping(database);
+    Assert.equals(suggested.title, 'Name');
+    Assert.equals(suggested.url, 'Link');
+    Assert.equals(suggested.author, 'Author');
+    Assert.equals(suggested.likes, 'Likes');
+    Assert.equals(suggested.media, 'Images');
+    Assert.equals(suggested.hasMedia, 'Has Media');
+
+    const mapping = { ...suggested, tags: 'Topics', publishTime: 'Created', content: 'Missing' };
+    const validated = NotionPropertyMapper.validateMapping(mapping, database);
+    Assert.isTrue(validated.publishTime === undefined && validated.content === undefined);
+
+    const properties = NotionPropertyMapper.buildProperties(tweet, validated, database);
+    Assert.equals(properties.Name.title[0].text.content, 'Hello, world');
+    Assert.equals(properties.Author.select.name, 'Author (@author)');
+    Assert.equals(properties.Likes.number, 42);
+    Assert.deepEquals(properties.Topics.multi_select, [{ name: 'a b' }, { name: 'c' }]);
+    Assert.equals(properties.Images.files[0].external.url, 'https://pbs.twimg.com/media/a.jpg');
+    Assert.isTrue(properties['Has Media'].checkbox);
+
+    const filter = NotionPropertyMapper.buildUrlFilter(validated, database, tweet.url);
+    Assert.deepEquals(filter, { property: 'Link', rich_text: { equals: tweet.url } });
+    Assert.isTrue(NotionPropertyMapper.buildUrlFilter({}, database, tweet.url) === null);
+  }),
+
+  it('should match exact property names before partial ones', async () => {
+    // 标题和推文链接排在前面，但不能按名称包含关系占用卡片标题、分享链接的同名属性
+    const database: any = {
+      id: 'db',
+      properties: {
+        'Link Title': { type: 'rich_text' },
+        'Shared Link': { type: 'url' },
+        Name: { type: 'title' },
+        'Tweet URL': { type: 'url' }
+      }
+    };
+
+    const mapping = NotionPropertyMapper.suggestMapping(database);
+    Assert.equals(mapping.title, 'Name');
+    Assert.equals(mapping.url, 'Tweet URL');
+    Assert.equals(mapping.linkUrl, 'Shared Link');
+    Assert.equals(mapping.linkTitle, 'Link Title');
+  }),
+
+  it('should save a thread as one page keyed on the root tweet', async () => {
+    const parsed = (id: string, content: string, time: string, media: any[] = []): any => ({
+      id,
+      content,
+      url: `https://x.com/alice/status/${id}`,
+      timestamp: new Date(time),
+      author: { username: 'alice', displayName: 'Alice' },
+      metrics: { likes: 1, retweets: 0, replies: 0 },
+      media,
+      isThread: true
+    });
+    const threadData = TweetExtractor.buildThreadData({
+      id: 'thread_alice_1',
+      tweets: [
+        parsed('1', 'First tweet', '2024-03-01T10:00:00Z'),
+        parsed('2', 'Second tweet', '2024-03-01T12:00:00Z', [{ type: 'image', url: 'https://pbs.twimg.com/media/a.jpg' }])
+      ],
+      totalCount: 2,
+      author: { username: 'alice', displayName: 'Alice' },
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      isComplete: true
+    })!;
+
+    Assert.equals(threadData.url, 'https://x.com/alice/status/1');
+    Assert.arrayLength(threadData.thread!, 2);
+
+    const database: any = {
+      id: 'db',
+      properties: { Name: { type: 'title' }, Link: { type: 'url' }, Count: { type: 'number' }, Date: { type: 'date' } }
+    };
+    const properties = NotionPropertyMapper.buildProperties(
+      threadData,
+      { title: 'Name', url: 'Link', tweetCount: 'Count', publishTime: 'Date' },
+      database
+    );
+    Assert.equals(properties.Name.title[0].text.content, 'First tweet');
+    Assert.equals(properties.Count.number, 2);
+    Assert.equals(properties.Date.date.end, '2024-03-01T12:00:00.000Z');
+    Assert.isTrue(NotionBlockBuilder.buildPageBlocks(threadData).some(block => block.type === 'image'));
+  }),
+
+  it('should build the annotation form from the database schema', async () => {
+    const database: any = {
+      id: 'db',
+      properties: {
+        Name: { type: 'title' },
+        Tags: { type: 'multi_select', multi_select: { options: [{ name: 'AI' }, { name: 'Rust' }] } },
+        Note: { type: 'rich_text' },
+        Rating: { type: 'number' },
+        'Read Later': { type: 'checkbox' },
+        Status: { type: 'select', select: { options: [{ name: 'Inbox' }, { name: 'Done' }] } },
+        Category: { type: 'select', select: { options: [] } }
+      }
+    };
+    const mapping = NotionPropertyMapper.suggestMapping(database);
+    const fields = NotionAnnotations.buildSchema(database, mapping);
+
+    Assert.deepEquals(fields.map(field => `${field.kind}:${field.property}`), ['note:Note', 'tags:Tags', 'rating:Rating', 'select:Status', 'toRead:Read Later']);
+    Assert.deepEquals((fields[1] as any).options, ['AI', 'Rust']);
+
+    const tweet: any = {
+      content: 'Hello', url: 'https://x.com/a/status/1', author: 'A', username: 'a', publishTime: '', type: '原创推文',
+      media: { hasImages: false, hasVideo: false, hasLinks: false }, stats: { likes: 0, retweets: 0, replies: 0 }, savedAt: ''
+    };
+    Assert.isFalse('Read Later' in NotionPropertyMapper.buildProperties(tweet, mapping, database));
+
+    const annotated = { ...tweet, annotations: { note: 'Read later', toRead: true, rating: 4, selects: { Status: 'Inbox', Missing: 'x' } } };
+    const properties = NotionPropertyMapper.buildProperties(annotated, mapping, database);
+    const selects = NotionAnnotations.buildSelectProperties(annotated.annotations, database);
+    Assert.equals(properties.Note.rich_text[0].text.content, 'Read later');
+    Assert.equals(properties['Read Later'].checkbox, true);
+    Assert.equals(properties.Rating.number, 4);
+    Assert.deepEquals(selects, { Status: { select: { name: 'Inbox' } } });
+  }),
+
+  it('should batch saved checks into OR queries and map pages back to tweet URLs', async () => {
+    const client = new NotionClient();
+    const database: any = { id: 'db', properties: { Link: { type: 'url' }, Name: { type: 'title' } } };
+    const queries: any[] = [];
+    (client as any).getPropertyMapping = async () => ({ database, mapping: { url: 'Link', title: 'Name' } });
+    (client as any).queryDatabase = async (_id: string, params: any) => {
+      queries.push(params);
+      return {
+        results: [{ id: 'p1', url: 'https://notion.so/p1', properties: { Link: { type: 'url', url: 'https://x.com/a/status/1' } } }],
+        has_more: false
+      };
+    };
+
+    const urls = Array.from({ length: 60 }, (_, i) => `https://x.com/a/status/${i}`);
+    const pages = await client.findTweetPages('db', [...urls, urls[0]]);
+
+    Assert.arrayLength(queries, 2);
+    Assert.arrayLength(queries[0].filter.or, 50);
+    Assert.deepEquals(queries[1].filter.or[0], { property: 'Link', url: { equals: 'https://x.com/a/status/50' } });
+    Assert.equals(pages.size, 1);
+    Assert.equals(pages.get('https://x.com/a/status/1')?.id, 'p1');
+  }),
+
+  it('should build collection filters and read pages into rows', async () => {
+    const database: any = {
+      id: 'db',
+      properties: {
+        Name: { type: 'title' },
+        Body: { type: 'rich_text' },
+        Author: { type: 'rich_text' },
+        Category: { type: 'select', select: { options: [{ name: '技术' }] } },
+        Tags: { type: 'multi_select', multi_select: { options: [{ name: 'AI' }, { name: 'Rust' }] } },
+        Published: { type: 'date' },
+        Link: { type: 'url' }
+      }
+    };
+    const mapping: any = {
+      title: 'Name', content: 'Body', author: 'Author', category: 'Category',
+      tags: 'Tags', publishTime: 'Published', url: 'Link'
+    };
+
+    Assert.isTrue(NotionCollection.buildFilter({}, mapping, database) === undefined);
+    const filter: any = NotionCollection.buildFilter({ search: 'rust', tag: 'AI', dateFrom: '2024-01-01' }, mapping, database);
+    Assert.deepEquals(filter.and[0], { property: 'Tags', multi_select: { contains: 'AI' } });
+    Assert.deepEquals(filter.and[1], { property: 'Published', date: { on_or_after: '2024-01-01' } });
+    Assert.arrayLength(filter.and[2].or, 3);
+    Assert.deepEquals(NotionCollection.getFilterOptions(database, mapping), { categories: ['技术'], tags: ['AI', 'Rust'] });
+
+    const item = NotionCollection.readItem({
+      id: 'p1',
+      url: 'https://notion.so/p1',
+      created_time: '2024-02-01T00:00:00.000Z',
+      properties: {
+        Name: { type: 'title', title: [{ plain_text: 'Hello' }] },
+        Body: { type: 'rich_text', rich_text: [{ plain_text: '作者: Jane (@jane)\n\nHello world' }] },
+        Author: { type: 'rich_text', rich_text: [{ plain_text: 'Jane (@jane)' }] },
+        Tags: { type: 'multi_select', multi_select: [{ name: 'AI' }, { name: 'Rust' }] },
+        Link: { type: 'url', url: 'https://x.com/jane/status/9' }
+      }
+    } as any, mapping);
+    Assert.equals(item.content, 'Hello world');
+    Assert.equals(item.author, 'Jane');
+    Assert.equals(item.username, 'jane');
+    Assert.deepEquals(item.tags, ['AI', 'Rust']);
+    Assert.equals(item.tweetUrl, 'https://x.com/jane/status/9');
+    Assert.equals(item.publishTime, '2024-02-01T00:00:00.000Z');
+  }),
+
+  it('should complete the OAuth code exchange against a stand-in token server', async () => {
+    const settings = { clientId: 'client-1', tokenEndpoint: 'http://localhost:8787/token', authorizeUrl: 'http://localhost:8787/authorize' };
+    const redirectUri = 'https://extension-id.chromiumapp.org/notion';
+    Assert.isTrue(NotionOAuth.validateSettings(settings) === null);
+    Assert.isTrue(NotionOAuth.validateSettings({ ...settings, clientId: ' ' }) !== null);
+
+    const authorizeUrl = new URL(NotionOAuth.buildAuthorizeUrl(settings, redirectUri, 'state-1'));
+    Assert.equals(authorizeUrl.origin + authorizeUrl.pathname, 'http://localhost:8787/authorize');
+    Assert.equals(authorizeUrl.searchParams.get('client_id'), 'client-1');
+    Assert.equals(authorizeUrl.searchParams.get('redirect_uri'), redirectUri);
+    Assert.equals(authorizeUrl.searchParams.get('response_type'), 'code');
+
+    const code = NotionOAuth.parseRedirect(`${redirectUri}?code=abc&state=state-1`, 'state-1');
+    Assert.equals(code, 'abc');
+    Assert.throws(() => NotionOAuth.parseRedirect(`${redirectUri}?code=abc&state=other`, 'state-1'));
+    Assert.throws(() => NotionOAuth.parseRedirect(`${redirectUri}?error=access_denied&state=state-1`, 'state-1'), '拒绝');
+
+    const requests: any[] = [];
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      requests.push({ url, body: JSON.parse(init.body as string) });
+      return new Response(JSON.stringify({
+        access_token: 'ntn_access',
+        refresh_token: 'refresh-1',
+        expires_in: 3600,
+        workspace_id: 'ws',
+        workspace_name: 'Team',
+        workspace_icon: '🚀',
+        bot_id: 'bot'
+      }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+    }) as typeof fetch;
+
+    try {
+      const tokens = await NotionOAuth.requestToken(settings.tokenEndpoint, { grant_type: 'authorization_code', code, redirect_uri: redirectUri });
+      Assert.deepEquals(requests[0], {
+        url: 'http://localhost:8787/token',
+        body: { grant_type: 'authorization_code', code: 'abc', redirect_uri: redirectUri }
+      });
+
+      const config = NotionOAuth.toConfig(tokens, 1000);
+      Assert.equals(config.authType, 'oauth');
+      Assert.equals(config.refreshToken, 'refresh-1');
+      Assert.equals(config.expiresAt, 1000 + 3600 * 1000);
+      Assert.equals(config.workspaceName, 'Team');
+      Assert.equals(config.workspaceIcon, '🚀');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  }),
+
+  it('should retry only transient failures with backoff', async () => {
+    Assert.isTrue(NotionOutbox.isRetryable({ success: false, code: 'NETWORK_ERROR', status: 0 }));
+    Assert.isTrue(NotionOutbox.isRetryable({ success: false, code: 'rate_limited', status: 429 }));
+    Assert.isTrue(NotionOutbox.isRetryable({ success: false, code: 'service_unavailable', status: 503 }));
+    Assert.isFalse(NotionOutbox.isRetryable({ success: false, code: 'validation_error', status: 400 }));
+    Assert.isFalse(NotionOutbox.isRetryable({ success: false, error: 'Unexpected' }));
+
+    Assert.equals(NotionOutbox.getRetryDelay({ success: false, status: 429, retryAfter: 7000 }, 3), 7000);
+    const first = NotionOutbox.getRetryDelay({ success: false, status: 503 }, 1);
+    const fourth = NotionOutbox.getRetryDelay({ success: false, status: 503 }, 4);
+    Assert.isTrue(first >= 4000 && first <= 6000);
+    Assert.isTrue(fourth >= 32000 && fourth <= 48000);
+
+    const entry = createRetryEntry(true, 'Service unavailable');
+    Assert.equals(entry.status, 'pending');
+    Assert.equals(advanceRetryEntry(entry, true).status, 'pending');
+    Assert.equals(advanceRetryEntry(entry, false).status, 'failed');
+    Assert.equals(advanceRetryEntry({ ...entry, attempts: RETRY_MAX_ATTEMPTS - 1 }, true).status, 'failed');
+    Assert.equals(createRetryEntry(false, 'Bad request').status, 'failed');
+  }),
+
+  it('should route tweets to the first matching database rule', async () => {
+    const tweet: any = {
+      id: '1',
+      url: 'https://x.com/Recruiter/status/1',
+      content: 'We are #Hiring senior engineers',
+      author: 'Recruiter',
+      username: '@Recruiter',
+      type: '原创推文',
+      media: { hasImages: false, hasVideo: false, hasLinks: false },
+      tags: ['jobs'],
+      savedAt: ''
+    };
+    const rule = (overrides: Partial<RoutingRule>): RoutingRule => ({
+      id: 'r', name: 'rule', enabled: true, authors: [], hashtags: [], keywords: [],
+      tweetTypes: [], databaseId: 'db', tags: [], ...overrides
+    });
+    const rules = [
+      rule({ id: 'empty', databaseId: 'any' }),
+      rule({ id: 'media', hashtags: ['hiring'], hasMedia: true, databaseId: 'inspiration' }),
+      rule({ id: 'hiring', authors: ['recruiter'], hashtags: ['HIRING'], databaseId: 'hiring', category: '工作', tags: ['jobs', 'hr'] })
+    ];
+
+    const matched = NotionRouter.matchRule(rules, tweet);
+    Assert.equals(matched?.id, 'hiring');
+    Assert.isTrue(NotionRouter.matchRule([{ ...rules[2], enabled: false }], tweet) === null);
+
+    const routed = NotionRouter.applyDefaults(tweet, matched!);
+    Assert.equals(routed.category, '工作');
+    Assert.deepEquals(routed.tags, ['jobs', 'hr']);
+  })
+]);
+
 // 性能和限制测试
 const performanceTests = describe('Performance and Limits', () => [
   it('should handle large tweet content', async () => {
@@ -453,6 +1347,28 @@ function formatAsMarkdown(tweetData: any): string {
   return `**${tweetData.author}** (${tweetData.username})\n\n${tweetData.text}\n\n---`;
 }
 
+function createTemplateTweet(): any {
+  return {
+    id: '1',
+    author: { username: 'templateuser', displayName: 'Template User' },
+    content: 'Template content',
+    timestamp: new Date(2024, 0, 15, 10, 30),
+    metrics: { likes: 1, retweets: 2, replies: 3 },
+    media: [
+      { type: 'image', url: 'https://example.com/a.jpg' },
+      { type: 'video', url: 'https://example.com/b.mp4' }
+    ],
+    isThread: false,
+    url: 'https://x.com/templateuser/status/1',
+    quotedTweet: {
+      id: '2',
+      author: { username: 'quoted', displayName: 'Quoted' },
+      content: 'Quoted text',
+      url: 'https://x.com/quoted/status/2'
+    }
+  };
+}
+
 function formatAsHTML(tweetData: any): string {
   return `<div class="tweet">
     <div class="author"><strong>${tweetData.author}</strong> <span>${tweetData.username}</span></div>
@@ -463,9 +1379,15 @@ function formatAsHTML(tweetData: any): string {
 // 将测试套件添加到测试运行器
 testRunner.addSuite(twitterParsingTests);
 testRunner.addSuite(formattingTests);
+testRunner.addSuite(templateTests);
+testRunner.addSuite(taggingTests);
+testRunner.addSuite(webhookTests);
+testRunner.addSuite(destinationTests);
+testRunner.addSuite(structuredDataTests);
 testRunner.addSuite(clipboardTests);
 testRunner.addSuite(screenshotTests);
 testRunner.addSuite(storageTests);
+testRunner.addSuite(notionTests);
 testRunner.addSuite(performanceTests);
 
 export { testRunner };
\ No newline at end of file
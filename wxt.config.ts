@@ -13,7 +13,15 @@ export default defineConfig({
       'contextMenus',
       'downloads',
       'notifications',
-      'webRequest'
+      'webRequest',
+      'alarms',
+      'identity'
+    ],
+    // OAuth 令牌交换端点由用户配置，保存配置时再申请对应站点的权限
+    optional_host_permissions: [
+      'https://*/*',
+      'http://localhost/*',
+      'http://127.0.0.1/*'
     ],
     host_permissions: [
       'https://twitter.com/*',
@@ -54,6 +62,27 @@ export default defineConfig({
         mac: 'Command+Shift+T'
         },
     description: 'Copy entire thread'
+      },
+      // 自定义模板快捷键，按键由用户在浏览器快捷键设置中指定
+      'copy-template-1': {
+        description: 'Copy with template in shortcut slot 1'
+      },
+      'copy-template-2': {
+        description: 'Copy with template in shortcut slot 2'
+      },
+      'copy-template-3': {
+        description: 'Copy with template in shortcut slot 3'
+      },
+      'toggle-selection-mode': {
+        suggested_key: {
+          default: 'Alt+Shift+S',
+          mac: 'Alt+Shift+S'
+        },
+        description: 'Toggle bulk selection mode'
+      },
+      // 时间线采集，按键由用户在浏览器快捷键设置中指定
+      'collect-timeline': {
+        description: 'Open timeline collector'
       }
     }
   },